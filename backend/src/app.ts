@@ -1,14 +1,30 @@
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import compression from 'compression';
-import { EventListener, PixelData } from './eventListener.js';
+import { randomUUID } from 'crypto';
+import { isAddress, isHex } from 'viem';
+import { EventListener, PixelBounds, PixelData, ReorgEvent, encodePixelsBinary, encodeReplayBinary } from './eventListener.js';
+import type { EpochInfo } from './pixelStore.js';
+import type { RegionClaim } from './claimStore.js';
+import type { AddressBan } from './banStore.js';
+import { MAX_TILE_ZOOM } from './tileRenderer.js';
+import { CANVAS_RES } from './spatialIndex.js';
+import { MAX_STREAM_BOXES, isInBoxes, isValidCoordinate, parseBoundingBoxes } from './bounds.js';
+import { MAX_RELAY_BATCH_SIZE, Relayer } from './relayer.js';
+import { MAX_EXPORT_SCALE, MAX_EXPORT_SIDE, MAX_GIF_FRAMES, MAX_GIF_PIXELS, renderRegionGif, renderRegionPng } from './regionExport.js';
+
+// Most pixels a region query may return (the area itself is unbounded)
+const MAX_REGION_PIXELS = 100000;
+
+// Most placements a replay may return, and how many are written to the stream at once
+const MAX_REPLAY_EVENTS = 1000000;
+const REPLAY_CHUNK_EVENTS = 8192;
+
+// Optional: proxies in front of the server (hop count or addresses, see Express "trust proxy"),
+// so req.ip is the client's address for the relayer's per-IP limit
+const TRUST_PROXY = process.env.TRUST_PROXY;
 
 // Validation helpers
-function isValidCoordinate(value: unknown): value is number {
-    const num = Number(value);
-    return !isNaN(num) && Number.isInteger(num) && num >= 0 && num < 1048576;
-}
-
 function isValidDimension(value: unknown, max: number = 1000): value is number {
     const num = Number(value);
     return !isNaN(num) && Number.isInteger(num) && num > 0 && num <= max;
@@ -19,6 +35,41 @@ function isValidPaginationParam(value: unknown, max: number = 100000): value is
     return !isNaN(num) && Number.isInteger(num) && num >= 0 && num <= max;
 }
 
+function isValidTimestamp(value: unknown): value is number {
+    const num = Number(value);
+    return !isNaN(num) && Number.isInteger(num) && num >= 0;
+}
+
+function isValidBlockNumber(value: unknown): value is string {
+    return typeof value === 'string' && /^\d{1,20}$/.test(value);
+}
+
+function isValidEpochId(value: unknown): value is string {
+    return typeof value === 'string' && /^\d{1,9}$/.test(value);
+}
+
+function isValidUint256(value: unknown): value is string | number {
+    return (typeof value === 'string' && /^\d{1,78}$/.test(value))
+        || (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0);
+}
+
+function isValidColor(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffffff;
+}
+
+function isValidTile(z: number, x: number, y: number): boolean {
+    if (!Number.isInteger(z) || z < 0 || z > MAX_TILE_ZOOM) {
+        return false;
+    }
+    const tiles = 2 ** z;
+    return Number.isInteger(x) && Number.isInteger(y) && x >= 0 && x < tiles && y >= 0 && y < tiles;
+}
+
+function isValidScale(value: unknown): boolean {
+    const num = Number(value);
+    return Number.isInteger(num) && num >= 1 && num <= MAX_EXPORT_SCALE;
+}
+
 // Error response helper
 function errorResponse(res: Response, status: number, message: string) {
     return res.status(status).json({
@@ -27,11 +78,17 @@ function errorResponse(res: Response, status: number, message: string) {
     });
 }
 
-export function createApp(eventListener: EventListener) {
+export function createApp(eventListener: EventListener, relayer: Relayer | null) {
     const app = express();
+    if (TRUST_PROXY) {
+        app.set('trust proxy', /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY);
+    }
+
+    // Bounding boxes each SSE client receives pixels for (null = everything), keyed by subscription id
+    const streamSubscriptions: Map<string, { boxes: PixelBounds[] | null }> = new Map();
 
     // Middleware
-    app.use(cors());
+    app.use(cors({ exposedHeaders: ['X-Pixel-Count', 'X-Last-Processed-Block', 'X-Event-Count'] }));
     app.use(compression({ level: 6 })); // Balanced compression
     app.use(express.json());
 
@@ -65,7 +122,17 @@ export function createApp(eventListener: EventListener) {
     });
 
     // ===== SSE: Server-Sent Events for real-time pixel updates =====
+    // Optional ?bbox=minX,minY,maxX,maxY (repeatable) limits pixel events to those regions
     app.get('/pixels/stream', (req: Request, res: Response) => {
+        const boxes = parseBoundingBoxes(req.query.bbox);
+        if (boxes === undefined) {
+            return errorResponse(res, 400, `Invalid bbox. Use up to ${MAX_STREAM_BOXES} bbox=minX,minY,maxX,maxY params with coordinates between 0 and 1048575.`);
+        }
+
+        const subscriptionId = randomUUID();
+        const subscription = { boxes };
+        streamSubscriptions.set(subscriptionId, subscription);
+
         // Set headers for SSE
         res.setHeader('Content-Type', 'text/event-stream');
         res.setHeader('Cache-Control', 'no-cache');
@@ -76,12 +143,52 @@ export function createApp(eventListener: EventListener) {
         console.log('📡 SSE client connected');
 
         // Send initial connection message
-        res.write(`event: connected\ndata: ${JSON.stringify({ message: 'Connected to pixel stream' })}\n\n`);
+        res.write(`event: connected\ndata: ${JSON.stringify({ message: 'Connected to pixel stream', subscriptionId, boxes })}\n\n`);
+
+        // Resuming client (EventSource sends Last-Event-ID on reconnect): replay what it missed,
+        // or tell it to reload everything if the gap is no longer in the replay buffer
+        const lastEventId = req.header('Last-Event-ID');
+        if (lastEventId) {
+            const missed = eventListener.getPixelEventsSince(lastEventId);
+            if (missed === null) {
+                res.write(`event: resync\ndata: ${JSON.stringify({ reason: 'Missed events are no longer available', lastEventId })}\n\n`);
+            } else {
+                for (const { id, pixel } of missed) {
+                    if (isInBoxes(pixel, subscription.boxes)) {
+                        res.write(`id: ${id}\nevent: pixel\ndata: ${JSON.stringify(pixel)}\n\n`);
+                    }
+                }
+                console.log(`📡 Replayed ${missed.length} missed events since ${lastEventId}`);
+            }
+        }
 
-        // Register callback for new pixels
-        const unsubscribe = eventListener.onPixel((pixel: PixelData) => {
+        // Register callback for new pixels (only those inside the subscribed regions)
+        const unsubscribe = eventListener.onPixel((pixel: PixelData, eventId: string) => {
+            if (!isInBoxes(pixel, subscription.boxes)) {
+                return;
+            }
             const data = JSON.stringify(pixel);
-            res.write(`event: pixel\ndata: ${data}\n\n`);
+            res.write(`id: ${eventId}\nevent: pixel\ndata: ${data}\n\n`);
+        });
+
+        // Notify clients when a chain reorg rewrote pixels (corrected pixels are sent as pixel events)
+        const unsubscribeReorg = eventListener.onReorg((reorg: ReorgEvent) => {
+            res.write(`event: reorg\ndata: ${JSON.stringify(reorg)}\n\n`);
+        });
+
+        // Claims are few, so every claim change is sent regardless of the subscribed regions
+        const unsubscribeClaim = eventListener.onClaim((claim: RegionClaim) => {
+            res.write(`event: claim\ndata: ${JSON.stringify(claim)}\n\n`);
+        });
+
+        // Ban status changes from moderators (cleared regions arrive as erased pixel events)
+        const unsubscribeBan = eventListener.onBan((ban: AddressBan) => {
+            res.write(`event: ban\ndata: ${JSON.stringify(ban)}\n\n`);
+        });
+
+        // A new epoch (or a reorg undoing one) replaces the whole canvas: clients should reload their pixel data
+        const unsubscribeEpoch = eventListener.onEpoch((epoch: EpochInfo) => {
+            res.write(`event: epoch\ndata: ${JSON.stringify(epoch)}\n\n`);
         });
 
         // Send heartbeat every 30 seconds to keep connection alive
@@ -93,20 +200,76 @@ export function createApp(eventListener: EventListener) {
         req.on('close', () => {
             console.log('📡 SSE client disconnected');
             unsubscribe();
+            unsubscribeReorg();
+            unsubscribeClaim();
+            unsubscribeBan();
+            unsubscribeEpoch();
+            streamSubscriptions.delete(subscriptionId);
             clearInterval(heartbeat);
         });
     });
 
+    // Replace the regions an open stream receives pixels for, without reconnecting
+    // Body: { "boxes": [{ "minX", "minY", "maxX", "maxY" }] } or { "boxes": null } for everything
+    app.put('/pixels/stream/:subscriptionId', (req: Request, res: Response) => {
+        try {
+            const subscription = streamSubscriptions.get(req.params.subscriptionId);
+            if (!subscription) {
+                return errorResponse(res, 404, 'Subscription not found');
+            }
+
+            const boxes = parseBoundingBoxes(req.body?.boxes);
+            if (boxes === undefined) {
+                return errorResponse(res, 400, `Invalid boxes. Must be null or up to ${MAX_STREAM_BOXES} { minX, minY, maxX, maxY } objects with coordinates between 0 and 1048575.`);
+            }
+
+            subscription.boxes = boxes;
+
+            res.json({
+                success: true,
+                subscriptionId: req.params.subscriptionId,
+                boxes,
+            });
+        } catch (error) {
+            console.error('Error updating stream subscription:', error);
+            return errorResponse(res, 500, 'Failed to update subscription');
+        }
+    });
+
     // ===== Binary format: Compact pixel data =====
     // Returns: [x (4 bytes), y (4 bytes), color (4 bytes)] per pixel = 12 bytes each
     // ~10x smaller than JSON for large datasets
+    // Optional bounding box (inclusive): ?minX=&minY=&maxX=&maxY=
+    // X-Last-Processed-Block: every block up to this one is included (use with /pixels/since/:block)
     app.get('/pixels/binary', (req: Request, res: Response) => {
         try {
-            const buffer = eventListener.getPixelsBinary();
+            const { minX, minY, maxX, maxY } = req.query;
+            const lastProcessedBlock = eventListener.getStats().lastProcessedBlock;
+            const bounds = [minX, minY, maxX, maxY];
+
+            let buffer: Buffer;
+            if (bounds.every(value => value === undefined)) {
+                buffer = eventListener.getPixelsBinary();
+            } else {
+                if (!bounds.every(isValidCoordinate)) {
+                    return errorResponse(res, 400, 'Invalid bounding box. minX, minY, maxX and maxY must all be integers between 0 and 1048575.');
+                }
+                if (Number(maxX) < Number(minX) || Number(maxY) < Number(minY)) {
+                    return errorResponse(res, 400, 'Invalid bounding box. maxX/maxY must not be less than minX/minY.');
+                }
+
+                buffer = eventListener.getPixelsBinary({
+                    minX: Number(minX),
+                    minY: Number(minY),
+                    maxX: Number(maxX),
+                    maxY: Number(maxY),
+                });
+            }
 
             res.set('Content-Type', 'application/octet-stream');
             res.set('Content-Length', buffer.length.toString());
             res.set('X-Pixel-Count', (buffer.length / 12).toString());
+            res.set('X-Last-Processed-Block', lastProcessedBlock);
             res.set('Cache-Control', 'public, max-age=5');
 
             res.send(buffer);
@@ -116,6 +279,119 @@ export function createApp(eventListener: EventListener) {
         }
     });
 
+    // ===== Delta sync: pixels changed after a block =====
+    // Same binary format as /pixels/binary, holding the current state of every pixel changed
+    // after :block; erased pixels are included with color 0
+    // X-Last-Processed-Block: the block to pass next time
+    app.get('/pixels/since/:block', async (req: Request, res: Response) => {
+        try {
+            if (!isValidBlockNumber(req.params.block)) {
+                return errorResponse(res, 400, 'Invalid block. Must be a non-negative integer.');
+            }
+
+            const lastProcessedBlock = eventListener.getStats().lastProcessedBlock;
+            const pixels = await eventListener.getPixelChangesSince(BigInt(req.params.block));
+            if (!pixels) {
+                const epoch = eventListener.getEpochs().at(-1)!;
+                if (Number(req.params.block) < epoch.startBlock) {
+                    return errorResponse(res, 409, `Block is before the current epoch ${epoch.id} started (block ${epoch.startBlock}). Reload all pixels.`);
+                }
+                return errorResponse(res, 409, `Block is ahead of the indexed chain (last processed block ${lastProcessedBlock}). Reload all pixels.`);
+            }
+
+            const buffer = encodePixelsBinary(pixels);
+
+            res.set('Content-Type', 'application/octet-stream');
+            res.set('Content-Length', buffer.length.toString());
+            res.set('X-Pixel-Count', pixels.length.toString());
+            res.set('X-Last-Processed-Block', lastProcessedBlock);
+            res.set('Cache-Control', 'public, max-age=5');
+
+            res.send(buffer);
+        } catch (error) {
+            console.error('Error getting pixel changes:', error);
+            return errorResponse(res, 500, 'Failed to get pixel changes');
+        }
+    });
+
+    // ===== Time-lapse replay: every placement in a region over a time window =====
+    // Returns: [x (4 bytes), y (4 bytes), color (4 bytes), timestamp (4 bytes)] per placement = 16 bytes each,
+    // in chain order and written in chunks. Each pixel's last placement before ?from= comes first,
+    // so applying them in order shows the region as it looked at every moment of the window
+    // Required bounding box (inclusive): ?minX=&minY=&maxX=&maxY=
+    // Optional: ?from=&to= (unix seconds, inclusive) and ?epoch= (defaults to the current epoch)
+    app.get('/pixels/replay', async (req: Request, res: Response) => {
+        try {
+            const { minX, minY, maxX, maxY, from, to, epoch } = req.query;
+
+            if (![minX, minY, maxX, maxY].every(isValidCoordinate)) {
+                return errorResponse(res, 400, 'Invalid bounding box. minX, minY, maxX and maxY must all be integers between 0 and 1048575.');
+            }
+            if (Number(maxX) < Number(minX) || Number(maxY) < Number(minY)) {
+                return errorResponse(res, 400, 'Invalid bounding box. maxX/maxY must not be less than minX/minY.');
+            }
+            if ((from !== undefined && !isValidTimestamp(from)) || (to !== undefined && !isValidTimestamp(to))) {
+                return errorResponse(res, 400, 'Invalid time bounds. from/to must be unix timestamps in seconds.');
+            }
+            if (from !== undefined && to !== undefined && Number(to) < Number(from)) {
+                return errorResponse(res, 400, 'Invalid time bounds. to must not be less than from.');
+            }
+            if (epoch !== undefined && !isValidEpochId(epoch)) {
+                return errorResponse(res, 400, 'Invalid epoch. Must be a non-negative integer.');
+            }
+
+            const entries = await eventListener.getReplayEntries({
+                minX: Number(minX),
+                minY: Number(minY),
+                maxX: Number(maxX),
+                maxY: Number(maxY),
+            }, {
+                from: from !== undefined ? Number(from) : undefined,
+                to: to !== undefined ? Number(to) : undefined,
+                epoch: epoch !== undefined ? Number(epoch) : undefined,
+                limit: MAX_REPLAY_EVENTS + 1,
+            });
+            if (!entries) {
+                return errorResponse(res, 404, 'Epoch not found');
+            }
+            if (entries.length > MAX_REPLAY_EVENTS) {
+                return errorResponse(res, 413, 'Replay contains too many placements. Maximum 1,000,000 per query, narrow the region or time window.');
+            }
+
+            res.set('Content-Type', 'application/octet-stream');
+            res.set('X-Event-Count', entries.length.toString());
+            res.set('Cache-Control', 'public, max-age=5');
+
+            let closed = false;
+            res.on('close', () => {
+                closed = true;
+            });
+
+            for (let start = 0; start < entries.length && !closed; start += REPLAY_CHUNK_EVENTS) {
+                const chunk = encodeReplayBinary(entries.slice(start, start + REPLAY_CHUNK_EVENTS));
+                if (!res.write(chunk)) {
+                    // Wait for the client to catch up (or go away)
+                    await new Promise<void>(resolve => {
+                        const done = () => {
+                            res.off('drain', done);
+                            res.off('close', done);
+                            resolve();
+                        };
+                        res.on('drain', done);
+                        res.on('close', done);
+                    });
+                }
+            }
+            res.end();
+        } catch (error) {
+            console.error('Error streaming replay:', error);
+            if (res.headersSent) {
+                return res.destroy();
+            }
+            return errorResponse(res, 500, 'Failed to stream replay');
+        }
+    });
+
     // ===== Get all pixels with optional pagination =====
     app.get('/pixels', (req: Request, res: Response) => {
         try {
@@ -181,6 +457,49 @@ export function createApp(eventListener: EventListener) {
         }
     });
 
+    // Get every placement ever made at specific coordinates (newest first)
+    app.get('/pixels/:x/:y/history', async (req: Request, res: Response) => {
+        try {
+            const x = parseInt(req.params.x);
+            const y = parseInt(req.params.y);
+            const { limit, offset, from, to } = req.query;
+
+            if (!isValidCoordinate(x) || !isValidCoordinate(y)) {
+                return errorResponse(res, 400, 'Invalid coordinates. Must be integers between 0 and 1048575.');
+            }
+            if (limit !== undefined && !isValidPaginationParam(limit, 1000)) {
+                return errorResponse(res, 400, 'Invalid limit. Must be 0-1000.');
+            }
+            if (offset !== undefined && !isValidPaginationParam(offset, 10000000)) {
+                return errorResponse(res, 400, 'Invalid offset. Must be 0-10000000.');
+            }
+            if ((from !== undefined && !isValidTimestamp(from)) || (to !== undefined && !isValidTimestamp(to))) {
+                return errorResponse(res, 400, 'Invalid time bounds. from/to must be unix timestamps in seconds.');
+            }
+
+            const offsetNum = offset !== undefined ? Number(offset) : 0;
+            const { total, entries } = await eventListener.getPixelHistory(x, y, {
+                limit: limit !== undefined ? Number(limit) : 100,
+                offset: offsetNum,
+                from: from !== undefined ? Number(from) : undefined,
+                to: to !== undefined ? Number(to) : undefined,
+            });
+
+            res.set('Cache-Control', 'public, max-age=2');
+
+            res.json({
+                success: true,
+                count: entries.length,
+                total,
+                hasMore: offsetNum + entries.length < total,
+                history: entries,
+            });
+        } catch (error) {
+            console.error('Error fetching pixel history:', error);
+            return errorResponse(res, 500, 'Failed to fetch pixel history');
+        }
+    });
+
     // Get pixels in a region
     app.get('/pixels/region/:startX/:startY/:width/:height', (req: Request, res: Response) => {
         try {
@@ -193,16 +512,16 @@ export function createApp(eventListener: EventListener) {
                 return errorResponse(res, 400, 'Invalid start coordinates. Must be integers between 0 and 1048575.');
             }
 
-            if (!isValidDimension(width, 1000) || !isValidDimension(height, 1000)) {
-                return errorResponse(res, 400, 'Invalid dimensions. Must be integers between 1 and 1000.');
+            if (!isValidDimension(width, CANVAS_RES) || !isValidDimension(height, CANVAS_RES)) {
+                return errorResponse(res, 400, 'Invalid dimensions. Must be integers between 1 and 1048576.');
             }
 
-            if (width * height > 10000) {
-                return errorResponse(res, 400, 'Region too large. Maximum 10,000 pixels (e.g., 100x100).');
+            // Only placed pixels count toward the limit, so large sparse regions are fine
+            const pixels = eventListener.getRegion(startX, startY, width, height, MAX_REGION_PIXELS + 1);
+            if (pixels.length > MAX_REGION_PIXELS) {
+                return errorResponse(res, 413, 'Region contains too many pixels. Maximum 100,000 placed pixels per query.');
             }
 
-            const pixels = eventListener.getRegion(startX, startY, width, height);
-
             res.set('Cache-Control', 'public, max-age=5');
 
             res.json({
@@ -216,6 +535,394 @@ export function createApp(eventListener: EventListener) {
         }
     });
 
+    // ===== Raster tiles: PNG rendering of the canvas for map overlays =====
+    // Standard XYZ scheme (same Web Mercator math as the frontend projection)
+    app.get('/tiles/:z/:x/:y.png', (req: Request, res: Response) => {
+        try {
+            const z = Number(req.params.z);
+            const x = Number(req.params.x);
+            const y = Number(req.params.y);
+
+            if (!isValidTile(z, x, y)) {
+                return errorResponse(res, 400, `Invalid tile. z must be 0-${MAX_TILE_ZOOM} and x, y within 0 to 2^z - 1.`);
+            }
+
+            const tile = eventListener.getTile(z, x, y);
+
+            // Express answers If-None-Match with 304 using this ETag
+            res.set('ETag', tile.etag);
+            res.set('Cache-Control', 'public, max-age=5');
+            res.set('Content-Type', 'image/png');
+            res.send(tile.png);
+        } catch (error) {
+            console.error('Error rendering tile:', error);
+            return errorResponse(res, 500, 'Failed to render tile');
+        }
+    });
+
+    // ===== Region claims: protected rectangles where only the owner and collaborators may paint =====
+    // Only active claims are returned; optional bounding box (inclusive): ?minX=&minY=&maxX=&maxY=
+    app.get('/claims', (req: Request, res: Response) => {
+        try {
+            const { minX, minY, maxX, maxY } = req.query;
+            const bounds = [minX, minY, maxX, maxY];
+
+            let claims: RegionClaim[];
+            if (bounds.every(value => value === undefined)) {
+                claims = eventListener.getClaims();
+            } else {
+                if (!bounds.every(isValidCoordinate)) {
+                    return errorResponse(res, 400, 'Invalid bounding box. minX, minY, maxX and maxY must all be integers between 0 and 1048575.');
+                }
+                if (Number(maxX) < Number(minX) || Number(maxY) < Number(minY)) {
+                    return errorResponse(res, 400, 'Invalid bounding box. maxX/maxY must not be less than minX/minY.');
+                }
+
+                claims = eventListener.getClaims({
+                    minX: Number(minX),
+                    minY: Number(minY),
+                    maxX: Number(maxX),
+                    maxY: Number(maxY),
+                });
+            }
+
+            res.set('Cache-Control', 'public, max-age=5');
+
+            res.json({
+                success: true,
+                count: claims.length,
+                claims,
+            });
+        } catch (error) {
+            console.error('Error fetching claims:', error);
+            return errorResponse(res, 500, 'Failed to fetch claims');
+        }
+    });
+
+    // ===== Moderation: addresses banned from placing pixels =====
+    app.get('/moderation/bans', (req: Request, res: Response) => {
+        try {
+            const bans = eventListener.getBans();
+
+            res.set('Cache-Control', 'public, max-age=5');
+
+            res.json({
+                success: true,
+                count: bans.length,
+                bans,
+            });
+        } catch (error) {
+            console.error('Error fetching bans:', error);
+            return errorResponse(res, 500, 'Failed to fetch bans');
+        }
+    });
+
+    // ===== Relayer: submits EIP-712 signed pixel batches so signers don't need gas =====
+    app.get('/relay', (req: Request, res: Response) => {
+        res.json({
+            success: true,
+            enabled: relayer !== null,
+            address: relayer?.address ?? null,
+            queued: relayer?.queued ?? 0,
+            maxBatchSize: MAX_RELAY_BATCH_SIZE,
+        });
+    });
+
+    // Body: { signer, px, py, colors, nonce, deadline, signature } (nonce and deadline as decimal strings)
+    app.post('/relay/pixels', async (req: Request, res: Response) => {
+        try {
+            if (!relayer) {
+                return errorResponse(res, 503, 'Relayer is not enabled');
+            }
+
+            if (!relayer.takeRequestSlot(req.ip ?? '')) {
+                res.set('Retry-After', '60');
+                return errorResponse(res, 429, 'Too many relay requests, try again later');
+            }
+
+            const { signer, px, py, colors, nonce, deadline, signature } = req.body ?? {};
+
+            if (typeof signer !== 'string' || !isAddress(signer)) {
+                return errorResponse(res, 400, 'Invalid signer address');
+            }
+            if (!Array.isArray(px) || !Array.isArray(py) || !Array.isArray(colors)
+                || px.length !== py.length || px.length !== colors.length) {
+                return errorResponse(res, 400, 'px, py and colors must be arrays of the same length');
+            }
+            if (px.length === 0 || px.length > MAX_RELAY_BATCH_SIZE) {
+                return errorResponse(res, 400, `Batch must contain between 1 and ${MAX_RELAY_BATCH_SIZE} pixels`);
+            }
+            const isPixelCoordinate = (value: unknown) => typeof value === 'number' && isValidCoordinate(value);
+            if (!px.every(isPixelCoordinate) || !py.every(isPixelCoordinate)) {
+                return errorResponse(res, 400, 'Invalid coordinates. Must be integers between 0 and 1048575.');
+            }
+            if (!colors.every(isValidColor)) {
+                return errorResponse(res, 400, 'Invalid color. Must be an integer between 0 and 4294967295.');
+            }
+            if (!isValidUint256(nonce) || !isValidUint256(deadline)) {
+                return errorResponse(res, 400, 'Invalid nonce or deadline');
+            }
+            if (BigInt(deadline) <= BigInt(Math.floor(Date.now() / 1000))) {
+                return errorResponse(res, 400, 'Signature deadline has passed');
+            }
+            if (typeof signature !== 'string' || !isHex(signature)) {
+                return errorResponse(res, 400, 'Invalid signature');
+            }
+
+            const batch = {
+                signer,
+                px,
+                py,
+                colors,
+                nonce: BigInt(nonce),
+                deadline: BigInt(deadline),
+                signature,
+            };
+            if (!await relayer.verify(batch)) {
+                return errorResponse(res, 400, 'Signature does not match the signer and batch');
+            }
+
+            // Only registered session keys out of cooldown, a few batches each
+            const rejection = await relayer.admit(batch);
+            if (rejection) {
+                if (rejection.retryAfter !== undefined) {
+                    res.set('Retry-After', String(rejection.retryAfter));
+                }
+                return errorResponse(res, rejection.status, rejection.error);
+            }
+
+            const job = relayer.enqueue(batch);
+            if (!job) {
+                return errorResponse(res, 503, 'Relayer queue is full, try again later');
+            }
+
+            res.status(202).json({
+                success: true,
+                job,
+            });
+        } catch (error) {
+            console.error('Error relaying pixels:', error);
+            return errorResponse(res, 500, 'Failed to relay pixels');
+        }
+    });
+
+    app.get('/relay/:id', (req: Request, res: Response) => {
+        try {
+            if (!relayer) {
+                return errorResponse(res, 503, 'Relayer is not enabled');
+            }
+
+            const job = relayer.getJob(req.params.id);
+            if (!job) {
+                return errorResponse(res, 404, 'Relay job not found');
+            }
+
+            res.set('Cache-Control', 'no-cache');
+
+            res.json({
+                success: true,
+                job,
+            });
+        } catch (error) {
+            console.error('Error fetching relay job:', error);
+            return errorResponse(res, 500, 'Failed to fetch relay job');
+        }
+    });
+
+    // ===== Epochs: canvas seasons, earlier ones archived read-only =====
+    app.get('/epochs', (req: Request, res: Response) => {
+        try {
+            const epochs = eventListener.getEpochs();
+
+            res.set('Cache-Control', 'public, max-age=5');
+
+            res.json({
+                success: true,
+                count: epochs.length,
+                current: epochs[epochs.length - 1].id,
+                epochs,
+            });
+        } catch (error) {
+            console.error('Error fetching epochs:', error);
+            return errorResponse(res, 500, 'Failed to fetch epochs');
+        }
+    });
+
+    // Same format and bounding box as /pixels/binary, for any epoch
+    app.get('/epochs/:id/pixels/binary', (req: Request, res: Response) => {
+        try {
+            if (!isValidEpochId(req.params.id)) {
+                return errorResponse(res, 400, 'Invalid epoch. Must be a non-negative integer.');
+            }
+
+            const { minX, minY, maxX, maxY } = req.query;
+            const bounds = [minX, minY, maxX, maxY];
+
+            let buffer: Buffer | null;
+            if (bounds.every(value => value === undefined)) {
+                buffer = eventListener.getEpochPixelsBinary(Number(req.params.id));
+            } else {
+                if (!bounds.every(isValidCoordinate)) {
+                    return errorResponse(res, 400, 'Invalid bounding box. minX, minY, maxX and maxY must all be integers between 0 and 1048575.');
+                }
+                if (Number(maxX) < Number(minX) || Number(maxY) < Number(minY)) {
+                    return errorResponse(res, 400, 'Invalid bounding box. maxX/maxY must not be less than minX/minY.');
+                }
+
+                buffer = eventListener.getEpochPixelsBinary(Number(req.params.id), {
+                    minX: Number(minX),
+                    minY: Number(minY),
+                    maxX: Number(maxX),
+                    maxY: Number(maxY),
+                });
+            }
+
+            if (!buffer) {
+                return errorResponse(res, 404, 'Epoch not found');
+            }
+
+            res.set('Content-Type', 'application/octet-stream');
+            res.set('Content-Length', buffer.length.toString());
+            res.set('X-Pixel-Count', (buffer.length / 12).toString());
+            res.set('X-Last-Processed-Block', eventListener.getStats().lastProcessedBlock);
+            res.set('Cache-Control', 'public, max-age=5');
+
+            res.send(buffer);
+        } catch (error) {
+            console.error('Error getting epoch pixels:', error);
+            return errorResponse(res, 500, 'Failed to get epoch pixels');
+        }
+    });
+
+    // Same tiles as /tiles/:z/:x/:y.png, for any epoch
+    app.get('/epochs/:id/tiles/:z/:x/:y.png', (req: Request, res: Response) => {
+        try {
+            const z = Number(req.params.z);
+            const x = Number(req.params.x);
+            const y = Number(req.params.y);
+
+            if (!isValidEpochId(req.params.id)) {
+                return errorResponse(res, 400, 'Invalid epoch. Must be a non-negative integer.');
+            }
+            if (!isValidTile(z, x, y)) {
+                return errorResponse(res, 400, `Invalid tile. z must be 0-${MAX_TILE_ZOOM} and x, y within 0 to 2^z - 1.`);
+            }
+
+            const tile = eventListener.getEpochTile(Number(req.params.id), z, x, y);
+            if (!tile) {
+                return errorResponse(res, 404, 'Epoch not found');
+            }
+
+            res.set('ETag', tile.etag);
+            res.set('Cache-Control', 'public, max-age=5');
+            res.set('Content-Type', 'image/png');
+            res.send(tile.png);
+        } catch (error) {
+            console.error('Error rendering epoch tile:', error);
+            return errorResponse(res, 500, 'Failed to render tile');
+        }
+    });
+
+    // ===== Region export: download an area as an image =====
+    // Unset pixels are transparent; ?scale= (1-32, default 1) enlarges each pixel to scale x scale,
+    // ?epoch= exports an archived canvas (defaults to the current epoch)
+    app.get('/export/region/:x/:y/:w/:h.png', (req: Request, res: Response) => {
+        try {
+            const x = Number(req.params.x);
+            const y = Number(req.params.y);
+            const width = Number(req.params.w);
+            const height = Number(req.params.h);
+            const { scale = '1', epoch } = req.query;
+
+            if (!isValidCoordinate(x) || !isValidCoordinate(y)) {
+                return errorResponse(res, 400, 'Invalid coordinates. Must be integers between 0 and 1048575.');
+            }
+            if (!isValidDimension(width, CANVAS_RES - x) || !isValidDimension(height, CANVAS_RES - y)) {
+                return errorResponse(res, 400, 'Invalid dimensions. Must be positive integers and stay within the canvas.');
+            }
+            if (!isValidScale(scale)) {
+                return errorResponse(res, 400, `Invalid scale. Must be an integer between 1 and ${MAX_EXPORT_SCALE}.`);
+            }
+            if (width * Number(scale) > MAX_EXPORT_SIDE || height * Number(scale) > MAX_EXPORT_SIDE) {
+                return errorResponse(res, 413, `Image too large. Width and height times scale must be at most ${MAX_EXPORT_SIDE}.`);
+            }
+            if (epoch !== undefined && !isValidEpochId(epoch)) {
+                return errorResponse(res, 400, 'Invalid epoch. Must be a non-negative integer.');
+            }
+
+            const pixels = epoch !== undefined
+                ? eventListener.getEpochRegion(Number(epoch), x, y, width, height)
+                : eventListener.getRegion(x, y, width, height);
+            if (!pixels) {
+                return errorResponse(res, 404, 'Epoch not found');
+            }
+
+            const png = renderRegionPng(pixels, { x, y, width, height }, Number(scale));
+
+            res.set('Content-Type', 'image/png');
+            res.set('Content-Disposition', `attachment; filename="megaplace-${x}-${y}-${width}x${height}.png"`);
+            res.set('Cache-Control', 'public, max-age=5');
+            res.send(png);
+        } catch (error) {
+            console.error('Error exporting region:', error);
+            return errorResponse(res, 500, 'Failed to export region');
+        }
+    });
+
+    // Animated history of the area, frames evenly spaced from its first placement to its last
+    // Same parameters as the PNG, plus ?frames= (1-100, default 30)
+    app.get('/export/region/:x/:y/:w/:h.gif', async (req: Request, res: Response) => {
+        try {
+            const x = Number(req.params.x);
+            const y = Number(req.params.y);
+            const width = Number(req.params.w);
+            const height = Number(req.params.h);
+            const { scale = '1', frames = '30', epoch } = req.query;
+
+            if (!isValidCoordinate(x) || !isValidCoordinate(y)) {
+                return errorResponse(res, 400, 'Invalid coordinates. Must be integers between 0 and 1048575.');
+            }
+            if (!isValidDimension(width, CANVAS_RES - x) || !isValidDimension(height, CANVAS_RES - y)) {
+                return errorResponse(res, 400, 'Invalid dimensions. Must be positive integers and stay within the canvas.');
+            }
+            if (!isValidScale(scale)) {
+                return errorResponse(res, 400, `Invalid scale. Must be an integer between 1 and ${MAX_EXPORT_SCALE}.`);
+            }
+            if (!isValidDimension(frames, MAX_GIF_FRAMES)) {
+                return errorResponse(res, 400, `Invalid frames. Must be an integer between 1 and ${MAX_GIF_FRAMES}.`);
+            }
+            const scaledWidth = width * Number(scale);
+            const scaledHeight = height * Number(scale);
+            if (scaledWidth > MAX_EXPORT_SIDE || scaledHeight > MAX_EXPORT_SIDE || scaledWidth * scaledHeight * Number(frames) > MAX_GIF_PIXELS) {
+                return errorResponse(res, 413, `Animation too large. Width and height times scale must be at most ${MAX_EXPORT_SIDE}, and all frames together at most ${MAX_GIF_PIXELS.toLocaleString()} pixels.`);
+            }
+            if (epoch !== undefined && !isValidEpochId(epoch)) {
+                return errorResponse(res, 400, 'Invalid epoch. Must be a non-negative integer.');
+            }
+
+            const entries = await eventListener.getReplayEntries(
+                { minX: x, minY: y, maxX: x + width - 1, maxY: y + height - 1 },
+                { epoch: epoch !== undefined ? Number(epoch) : undefined, limit: MAX_REPLAY_EVENTS + 1 },
+            );
+            if (!entries) {
+                return errorResponse(res, 404, 'Epoch not found');
+            }
+            if (entries.length > MAX_REPLAY_EVENTS) {
+                return errorResponse(res, 413, 'Area has too many placements to animate. Maximum 1,000,000, narrow the region.');
+            }
+
+            const gif = renderRegionGif(entries, { x, y, width, height }, Number(scale), Number(frames));
+
+            res.set('Content-Type', 'image/gif');
+            res.set('Content-Disposition', `attachment; filename="megaplace-${x}-${y}-${width}x${height}.gif"`);
+            res.set('Cache-Control', 'public, max-age=5');
+            res.send(gif);
+        } catch (error) {
+            console.error('Error exporting region animation:', error);
+            return errorResponse(res, 500, 'Failed to export region animation');
+        }
+    });
+
     // Get stats
     app.get('/stats', (req: Request, res: Response) => {
         try {
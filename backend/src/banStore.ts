@@ -0,0 +1,183 @@
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { END_OF_BLOCK_LOG_INDEX, compareCursors, writeFileAtomic, type LogCursor } from './pixelStore.js';
+
+const BANS_FILE_VERSION = 1;
+
+// An address's ban status as set by a moderator (AddressBanned / AddressUnbanned)
+export interface AddressBan {
+    address: string;
+    banned: boolean;
+    moderator: string; // Who last changed the status
+    blockNumber: number;
+}
+
+// Decoded ban event
+export interface BanEvent {
+    address: string;
+    banned: boolean;
+    moderator: string;
+}
+
+// A ban status after an event, with where in the chain the event happened
+interface BanRevision {
+    ban: AddressBan;
+    logIndex: number;
+}
+
+interface BansFile {
+    version: number;
+    lastProcessedBlock: string;
+    lastLog: { blockNumber: string; logIndex: number } | null;
+    revisions: BanRevision[][];
+}
+
+/**
+ * Moderator bans indexed from contract events, persisted as a JSON file in the data directory
+ * Like ClaimStore, every event keeps a revision so a chain reorg can restore earlier states.
+ */
+export class BanStore {
+    private file: string;
+    private revisions: Map<string, BanRevision[]> = new Map(); // Oldest first
+    private dirty = false;
+    // Serializes saves so two writes never share the temp file
+    private queue: Promise<void> = Promise.resolve();
+
+    // Most recent ban log applied, used to skip duplicates
+    public lastLog: LogCursor | null = null;
+    // Every block up to this one was processed when the file was last saved
+    public lastProcessedBlock: bigint;
+
+    constructor(private dataDir: string, deploymentBlock: bigint) {
+        this.file = path.join(dataDir, 'bans.json');
+        this.lastProcessedBlock = deploymentBlock;
+    }
+
+    public async load(): Promise<void> {
+        if (!existsSync(this.file)) {
+            return;
+        }
+
+        const parsed: BansFile = JSON.parse(await readFile(this.file, 'utf-8'));
+        if (parsed.version !== BANS_FILE_VERSION) {
+            throw new Error(`Unsupported bans file version: ${parsed.version}`);
+        }
+
+        this.lastProcessedBlock = BigInt(parsed.lastProcessedBlock);
+        this.lastLog = parsed.lastLog
+            ? { blockNumber: BigInt(parsed.lastLog.blockNumber), logIndex: parsed.lastLog.logIndex }
+            : null;
+        for (const revisions of parsed.revisions) {
+            this.revisions.set(revisions[0].ban.address, revisions);
+        }
+
+        console.log(`✓ Loaded ${this.getBanned().length} banned addresses`);
+    }
+
+    /**
+     * Write the bans if they changed since the last save
+     * @param lastProcessedBlock Every block up to this one has been applied
+     */
+    public save(lastProcessedBlock: bigint): Promise<void> {
+        if (!this.dirty && lastProcessedBlock === this.lastProcessedBlock) {
+            return this.queue;
+        }
+
+        this.dirty = false;
+        this.lastProcessedBlock = lastProcessedBlock;
+
+        // Serialize now so later changes wait for the next save
+        const data: BansFile = {
+            version: BANS_FILE_VERSION,
+            lastProcessedBlock: lastProcessedBlock.toString(),
+            lastLog: this.lastLog
+                ? { blockNumber: this.lastLog.blockNumber.toString(), logIndex: this.lastLog.logIndex }
+                : null,
+            revisions: [...this.revisions.values()],
+        };
+        const buffer = Buffer.from(JSON.stringify(data));
+
+        const result = this.queue.then(() => writeFileAtomic(this.dataDir, this.file, buffer));
+        this.queue = result.catch(() => {
+            this.dirty = true;
+        });
+        return result;
+    }
+
+    /**
+     * Apply a ban event
+     * @returns The address's new status, or null if the event was already applied
+     */
+    public apply(event: BanEvent, cursor: LogCursor): AddressBan | null {
+        if (this.lastLog && compareCursors(cursor, this.lastLog) <= 0) {
+            return null;
+        }
+
+        const ban: AddressBan = { ...event, blockNumber: Number(cursor.blockNumber) };
+
+        let revisions = this.revisions.get(ban.address);
+        if (!revisions) {
+            revisions = [];
+            this.revisions.set(ban.address, revisions);
+        }
+        revisions.push({ ban, logIndex: cursor.logIndex });
+
+        this.lastLog = cursor;
+        this.dirty = true;
+        return ban;
+    }
+
+    /**
+     * Discard every ban event after ancestorBlock
+     * @returns The restored status of every address that changed (removed bans are returned as unbanned)
+     */
+    public rollback(ancestorBlock: bigint): AddressBan[] {
+        const ancestor = Number(ancestorBlock);
+        const changed: AddressBan[] = [];
+
+        for (const [address, revisions] of this.revisions) {
+            const latest = revisions[revisions.length - 1];
+            if (latest.ban.blockNumber <= ancestor) {
+                continue;
+            }
+
+            while (revisions.length > 0 && revisions[revisions.length - 1].ban.blockNumber > ancestor) {
+                revisions.pop();
+            }
+
+            const previous = revisions[revisions.length - 1];
+            if (previous) {
+                changed.push(previous.ban);
+            } else {
+                this.revisions.delete(address);
+                changed.push({ ...latest.ban, banned: false });
+            }
+        }
+
+        if (this.lastLog && this.lastLog.blockNumber > ancestorBlock) {
+            this.lastLog = { blockNumber: ancestorBlock, logIndex: END_OF_BLOCK_LOG_INDEX };
+        }
+        if (changed.length > 0) {
+            this.dirty = true;
+        }
+
+        return changed;
+    }
+
+    /**
+     * Get the addresses that are currently banned, most recently banned first
+     */
+    public getBanned(): AddressBan[] {
+        const banned: AddressBan[] = [];
+
+        for (const revisions of this.revisions.values()) {
+            const ban = revisions[revisions.length - 1].ban;
+            if (ban.banned) {
+                banned.push(ban);
+            }
+        }
+
+        return banned.sort((a, b) => b.blockNumber - a.blockNumber);
+    }
+}
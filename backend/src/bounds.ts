@@ -0,0 +1,55 @@
+import type { PixelBounds, PixelData } from './eventListener.js';
+import { CANVAS_RES } from './spatialIndex.js';
+
+// Most bounding boxes a stream client may subscribe to
+export const MAX_STREAM_BOXES = 16;
+
+export function isValidCoordinate(value: unknown): value is number {
+    const num = Number(value);
+    return !isNaN(num) && Number.isInteger(num) && num >= 0 && num < CANVAS_RES;
+}
+
+// Parse a bounding box given as "minX,minY,maxX,maxY" or { minX, minY, maxX, maxY } (inclusive)
+function parseBoundingBox(value: unknown): PixelBounds | null {
+    const parts = typeof value === 'string'
+        ? value.split(',')
+        : value && typeof value === 'object'
+            ? [(value as any).minX, (value as any).minY, (value as any).maxX, (value as any).maxY]
+            : [];
+
+    if (parts.length !== 4 || !parts.every(isValidCoordinate)) {
+        return null;
+    }
+
+    const [minX, minY, maxX, maxY] = parts.map(Number);
+    if (maxX < minX || maxY < minY) {
+        return null;
+    }
+    return { minX, minY, maxX, maxY };
+}
+
+// Parse a list of bounding boxes; null means no filter, undefined means invalid
+export function parseBoundingBoxes(value: unknown): PixelBounds[] | null | undefined {
+    if (value === undefined || value === null) {
+        return null;
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length > MAX_STREAM_BOXES) {
+        return undefined;
+    }
+
+    const boxes: PixelBounds[] = [];
+    for (const item of values) {
+        const box = parseBoundingBox(item);
+        if (!box) return undefined;
+        boxes.push(box);
+    }
+    return boxes;
+}
+
+export function isInBoxes(pixel: PixelData, boxes: PixelBounds[] | null): boolean {
+    return boxes === null || boxes.some(box =>
+        pixel.x >= box.minX && pixel.x <= box.maxX && pixel.y >= box.minY && pixel.y <= box.maxY
+    );
+}
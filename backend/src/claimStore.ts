@@ -0,0 +1,215 @@
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { END_OF_BLOCK_LOG_INDEX, compareCursors, writeFileAtomic, type LogCursor } from './pixelStore.js';
+import type { PixelBounds } from './eventListener.js';
+
+const CLAIMS_FILE_VERSION = 1;
+
+// A protected rectangle from the contract's region claims
+export interface RegionClaim {
+    id: number;
+    owner: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    expiresAt: number; // Unix timestamp, 0 once released
+    collaborators: string[];
+}
+
+// Decoded claim events (RegionClaimed, ClaimExtended, RegionReleased, ClaimCollaboratorUpdated)
+export type ClaimEvent =
+    | { type: 'claimed'; claim: RegionClaim }
+    | { type: 'extended'; id: number; expiresAt: number }
+    | { type: 'released'; id: number }
+    | { type: 'collaborator'; id: number; collaborator: string; allowed: boolean };
+
+// A claim's state after an event, with where in the chain the event happened
+interface ClaimRevision {
+    claim: RegionClaim;
+    blockNumber: number;
+    logIndex: number;
+}
+
+interface ClaimsFile {
+    version: number;
+    lastProcessedBlock: string;
+    lastLog: { blockNumber: string; logIndex: number } | null;
+    revisions: ClaimRevision[][];
+}
+
+/**
+ * Region claims indexed from contract events, persisted as a JSON file in the data directory
+ * Every event keeps a revision of the claim so a chain reorg can restore earlier states.
+ * Claims are few compared to pixels, so the whole file is rewritten on save.
+ */
+export class ClaimStore {
+    private file: string;
+    private revisions: Map<number, ClaimRevision[]> = new Map(); // Oldest first
+    private dirty = false;
+    // Serializes saves so two writes never share the temp file
+    private queue: Promise<void> = Promise.resolve();
+
+    // Most recent claim log applied, used to skip duplicates
+    public lastLog: LogCursor | null = null;
+    // Every block up to this one was processed when the file was last saved
+    public lastProcessedBlock: bigint;
+
+    constructor(private dataDir: string, deploymentBlock: bigint) {
+        this.file = path.join(dataDir, 'claims.json');
+        this.lastProcessedBlock = deploymentBlock;
+    }
+
+    public async load(): Promise<void> {
+        if (!existsSync(this.file)) {
+            return;
+        }
+
+        const parsed: ClaimsFile = JSON.parse(await readFile(this.file, 'utf-8'));
+        if (parsed.version !== CLAIMS_FILE_VERSION) {
+            throw new Error(`Unsupported claims file version: ${parsed.version}`);
+        }
+
+        this.lastProcessedBlock = BigInt(parsed.lastProcessedBlock);
+        this.lastLog = parsed.lastLog
+            ? { blockNumber: BigInt(parsed.lastLog.blockNumber), logIndex: parsed.lastLog.logIndex }
+            : null;
+        for (const revisions of parsed.revisions) {
+            this.revisions.set(revisions[0].claim.id, revisions);
+        }
+
+        console.log(`✓ Loaded ${this.revisions.size} region claims`);
+    }
+
+    /**
+     * Write the claims if they changed since the last save
+     * @param lastProcessedBlock Every block up to this one has been applied
+     */
+    public save(lastProcessedBlock: bigint): Promise<void> {
+        if (!this.dirty && lastProcessedBlock === this.lastProcessedBlock) {
+            return this.queue;
+        }
+
+        this.dirty = false;
+        this.lastProcessedBlock = lastProcessedBlock;
+
+        // Serialize now so later changes wait for the next save
+        const data: ClaimsFile = {
+            version: CLAIMS_FILE_VERSION,
+            lastProcessedBlock: lastProcessedBlock.toString(),
+            lastLog: this.lastLog
+                ? { blockNumber: this.lastLog.blockNumber.toString(), logIndex: this.lastLog.logIndex }
+                : null,
+            revisions: [...this.revisions.values()],
+        };
+        const buffer = Buffer.from(JSON.stringify(data));
+
+        const result = this.queue.then(() => writeFileAtomic(this.dataDir, this.file, buffer));
+        this.queue = result.catch(() => {
+            this.dirty = true;
+        });
+        return result;
+    }
+
+    /**
+     * Apply a claim event
+     * @returns The claim's new state, or null if the event was already applied or names an unknown claim
+     */
+    public apply(event: ClaimEvent, cursor: LogCursor): RegionClaim | null {
+        if (this.lastLog && compareCursors(cursor, this.lastLog) <= 0) {
+            return null;
+        }
+
+        const id = event.type === 'claimed' ? event.claim.id : event.id;
+        const current = this.get(id);
+        let claim: RegionClaim;
+
+        if (event.type === 'claimed') {
+            claim = event.claim;
+        } else if (!current) {
+            console.warn(`⚠️ ${event.type} event for unknown claim ${id}`);
+            return null;
+        } else if (event.type === 'extended') {
+            claim = { ...current, expiresAt: event.expiresAt };
+        } else if (event.type === 'released') {
+            claim = { ...current, expiresAt: 0 };
+        } else {
+            const others = current.collaborators.filter(address => address !== event.collaborator);
+            claim = { ...current, collaborators: event.allowed ? [...others, event.collaborator] : others };
+        }
+
+        let revisions = this.revisions.get(id);
+        if (!revisions) {
+            revisions = [];
+            this.revisions.set(id, revisions);
+        }
+        revisions.push({ claim, blockNumber: Number(cursor.blockNumber), logIndex: cursor.logIndex });
+
+        this.lastLog = cursor;
+        this.dirty = true;
+        return claim;
+    }
+
+    /**
+     * Discard every claim event after ancestorBlock
+     * @returns The restored state of every claim that changed (removed claims are returned as released)
+     */
+    public rollback(ancestorBlock: bigint): RegionClaim[] {
+        const ancestor = Number(ancestorBlock);
+        const changed: RegionClaim[] = [];
+
+        for (const [id, revisions] of this.revisions) {
+            const latest = revisions[revisions.length - 1];
+            if (latest.blockNumber <= ancestor) {
+                continue;
+            }
+
+            while (revisions.length > 0 && revisions[revisions.length - 1].blockNumber > ancestor) {
+                revisions.pop();
+            }
+
+            const previous = revisions[revisions.length - 1];
+            if (previous) {
+                changed.push(previous.claim);
+            } else {
+                this.revisions.delete(id);
+                changed.push({ ...latest.claim, expiresAt: 0 });
+            }
+        }
+
+        if (this.lastLog && this.lastLog.blockNumber > ancestorBlock) {
+            this.lastLog = { blockNumber: ancestorBlock, logIndex: END_OF_BLOCK_LOG_INDEX };
+        }
+        if (changed.length > 0) {
+            this.dirty = true;
+        }
+
+        return changed;
+    }
+
+    public get(id: number): RegionClaim | null {
+        return this.revisions.get(id)?.at(-1)?.claim ?? null;
+    }
+
+    /**
+     * Get the claims that have not expired or been released
+     * @param now Unix timestamp
+     * @param bounds Only include claims overlapping this rectangle
+     */
+    public getActive(now: number, bounds?: PixelBounds): RegionClaim[] {
+        const active: RegionClaim[] = [];
+
+        for (const revisions of this.revisions.values()) {
+            const claim = revisions[revisions.length - 1].claim;
+            if (now > claim.expiresAt) continue;
+            if (bounds && (
+                claim.x > bounds.maxX || claim.x + claim.width - 1 < bounds.minX
+                || claim.y > bounds.maxY || claim.y + claim.height - 1 < bounds.minY
+            )) continue;
+            active.push(claim);
+        }
+
+        return active;
+    }
+}
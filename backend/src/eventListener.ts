@@ -1,8 +1,11 @@
-import { createPublicClient, http, webSocket, fallback, parseAbiItem } from 'viem';
-import { writeFile, readFile, mkdir } from 'fs/promises';
-import { existsSync } from 'fs';
-import path from 'path';
+import { createPublicClient, http, webSocket, fallback, parseAbi, getAddress } from 'viem';
 import MegaplaceABI from './MegaplaceABI.json';
+import { PixelStore, END_OF_BLOCK_LOG_INDEX, compareCursors, initialEpoch, rollbackState, startEpoch, type EpochCanvas, type EpochInfo, type LogCursor } from './pixelStore.js';
+import { ClaimStore, type ClaimEvent, type RegionClaim } from './claimStore.js';
+import { BanStore, type BanEvent, type AddressBan } from './banStore.js';
+import { PauseStore, type PauseEvent } from './pauseStore.js';
+import { TileRenderer, type RenderedTile } from './tileRenderer.js';
+import { CANVAS_RES, HistoryIndex, PixelIndex } from './spatialIndex.js';
 
 // All config from .env - no fallbacks
 const RPC_URL = process.env.RPC_URL!;
@@ -15,12 +18,51 @@ const CHUNK_SIZE = BigInt(process.env.CHUNK_SIZE!);
 const PARALLEL_CHUNKS = Number(process.env.PARALLEL_CHUNKS!);
 const DELAY_BETWEEN_BATCHES = Number(process.env.DELAY_BETWEEN_BATCHES!);
 
+// A failed chunk range is fetched again until it succeeds, so no block is skipped
+const SYNC_RETRY_BASE_MS = 1000; // Wait before fetching a failed range again, doubling per failure in a row
+const SYNC_RETRY_MAX_MS = 60000;
+
 // Save debounce configuration
 const SAVE_DEBOUNCE_MS = 5000; // 5 seconds
 const SAVE_MAX_WAIT_MS = 30000; // 30 seconds max wait
 
+// Pixel events kept for SSE clients resuming with Last-Event-ID
+const REPLAY_BUFFER_SIZE = 10000;
+
+// Reorg detection configuration
+const MAX_TRACKED_BLOCKS = 256; // Block hashes kept for finding a common ancestor
+const REORG_CHECK_INTERVAL_MS = 15000; // 15 seconds
+const MAX_TRACKED_REORGS = 64; // Reorgs remembered for delta sync (since the backend started)
+
+// Events indexed from the contract
+const INDEXED_EVENTS = parseAbi([
+    'event PixelPlaced(address indexed user, uint256 x, uint256 y, uint32 color, uint256 timestamp)',
+    'event RegionFilled(address indexed user, uint256 x, uint256 y, uint256 width, uint256 height, uint32 color, uint256 timestamp)',
+    'event LineDrawn(address indexed user, uint256 x0, uint256 y0, uint256 x1, uint256 y1, uint32 color, uint256 timestamp)',
+    'event RegionClaimed(uint256 indexed claimId, address indexed owner, uint256 x, uint256 y, uint256 width, uint256 height, uint64 expiresAt, uint256 amountPaid)',
+    'event ClaimExtended(uint256 indexed claimId, uint64 expiresAt, uint256 amountPaid)',
+    'event RegionReleased(uint256 indexed claimId)',
+    'event ClaimCollaboratorUpdated(uint256 indexed claimId, address indexed collaborator, bool allowed)',
+    'event RegionCleared(address indexed moderator, uint256 x, uint256 y, uint256 width, uint256 height, uint256 timestamp)',
+    'event AddressBanned(address indexed account, address indexed moderator)',
+    'event AddressUnbanned(address indexed account, address indexed moderator)',
+    'event Paused(address account)',
+    'event Unpaused(address account)',
+    'event TilePauseUpdated(uint256 indexed tileX, uint256 indexed tileY, bool paused, address indexed moderator)',
+    'event EpochStarted(uint256 indexed epoch, address indexed admin, uint256 timestamp)',
+]);
+
+// Events that set pixels (RegionFilled, LineDrawn and RegionCleared each stand for many pixels)
+const PIXEL_EVENTS = new Set(['PixelPlaced', 'RegionFilled', 'LineDrawn', 'RegionCleared']);
+
+// Moderator bans
+const BAN_EVENTS = new Set(['AddressBanned', 'AddressUnbanned']);
+
+// Canvas and tile pauses
+const PAUSE_EVENTS = new Set(['Paused', 'Unpaused', 'TilePauseUpdated']);
+
 // Define custom chain for MegaETH
-const megaethChain = {
+export const megaethChain = {
     id: 6343,
     name: 'MegaETH Testnet',
     network: 'megaeth',
@@ -50,24 +92,156 @@ export interface PixelData {
     y: number;
 }
 
+// A single placement at a coordinate, including where in the chain it happened
+export interface PixelHistoryEntry extends PixelData {
+    blockNumber: number;
+    logIndex: number;
+}
+
+export interface PixelHistoryQuery {
+    limit?: number;
+    offset?: number;
+    from?: number; // Unix timestamp (inclusive)
+    to?: number; // Unix timestamp (inclusive)
+}
+
+export interface PixelReplayQuery {
+    from?: number; // Unix timestamp (inclusive)
+    to?: number; // Unix timestamp (inclusive)
+    epoch?: number; // Defaults to the current epoch
+    limit?: number; // Stop scanning after this many placements
+}
+
+// Inclusive rectangle of canvas coordinates
+export interface PixelBounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
 export interface PixelStorage {
-    pixels: Record<string, PixelData>; // key: "x,y"
+    epoch: EpochInfo; // Epoch new pixels are placed in
+    pixels: PixelIndex; // Current pixels of the epoch, bucketed by tile for region queries
+    history: HistoryIndex; // Placements not sealed into a history segment yet, this epoch only
+    archivedEpochs: EpochCanvas[]; // Canvases of earlier epochs, oldest first
     lastProcessedBlock: bigint;
     totalPixels: number;
+    lastLog: LogCursor | null; // Most recent log applied, used to skip duplicates
+    blockHashes: Map<bigint, `0x${string}`>; // Recently processed blocks, used to detect reorgs
+}
+
+// An epoch as listed by /epochs
+export interface EpochSummary extends EpochInfo {
+    endBlock: number | null; // Block the next epoch started in, null for the current epoch
+    totalPixels: number;
+    isCurrent: boolean;
 }
 
+// Summary of a chain reorganization that was rolled back and re-indexed
+export interface ReorgEvent {
+    ancestorBlock: string; // Last block shared with the canonical chain
+    affectedPixels: number;
+}
+
+// A decoded pixel log together with its position in the chain
+// Every pixel of a fill or line shares the cursor of the single log that set it
+interface PixelLog {
+    pixels: PixelData[];
+    // For RegionCleared: the region whose pixels are erased (pixels is filled in when the log is applied)
+    cleared?: { x: number; y: number; width: number; height: number; placedBy: string; timestamp: number };
+    cursor: LogCursor;
+    blockHash: `0x${string}` | null;
+}
+
+// A decoded claim log together with its position in the chain
+interface ClaimLog {
+    claim: ClaimEvent;
+    cursor: LogCursor;
+    blockHash: `0x${string}` | null;
+}
+
+// A decoded ban log together with its position in the chain
+interface BanLog {
+    ban: BanEvent;
+    cursor: LogCursor;
+    blockHash: `0x${string}` | null;
+}
+
+// A decoded pause log together with its position in the chain
+interface PauseLog {
+    pause: PauseEvent;
+    cursor: LogCursor;
+    blockHash: `0x${string}` | null;
+}
+
+// A decoded EpochStarted log (its position is also the epoch's start)
+interface EpochLog {
+    epoch: EpochInfo;
+    cursor: LogCursor;
+    blockHash: `0x${string}` | null;
+}
+
+// Any decoded log the indexer applies
+type IndexedLog = PixelLog | ClaimLog | BanLog | PauseLog | EpochLog;
+
+// Raw log as delivered by watchContractEvent
+type WatchedLog = {
+    eventName?: string;
+    args: any;
+    blockNumber: bigint | null;
+    blockHash: `0x${string}` | null;
+    logIndex: number | null;
+    removed?: boolean;
+};
+
 // Callback type for new pixel events
-export type PixelCallback = (pixel: PixelData) => void;
+// Receives the event id ("blockNumber-logIndex-sequence") used for SSE resume and the log position it came from
+export type PixelCallback = (pixel: PixelData, eventId: string, cursor: LogCursor) => void;
+
+// A pixel event as sent to SSE clients
+export interface PixelEvent {
+    id: string;
+    pixel: PixelData;
+}
+
+// Callback type for chain reorganizations
+export type ReorgCallback = (reorg: ReorgEvent) => void;
+
+// Callback type for region claim changes (a released, expired or rolled back claim has expiresAt in the past)
+export type ClaimCallback = (claim: RegionClaim) => void;
+
+// Callback type for ban status changes (a rolled back ban is sent as unbanned)
+export type BanCallback = (ban: AddressBan) => void;
+
+// Callback type for the current epoch changing (a new epoch, or a reorg undoing one)
+export type EpochCallback = (epoch: EpochInfo) => void;
 
 export class EventListener {
     private client: ReturnType<typeof createPublicClient>;
     private storage: PixelStorage;
-    private storageFile: string;
+    private store: PixelStore;
+    private claims: ClaimStore;
+    private bans: BanStore;
+    private pauses: PauseStore;
+    private tiles: TileRenderer;
+    // Renderers for archived epochs, created when their tiles are first requested
+    private archivedTiles: Map<number, TileRenderer> = new Map();
     private isRunning = false;
     private unwatch?: () => void;
     private isSyncing = false;
     private syncProgress = 0;
 
+    // Reorg handling state
+    private isHandlingReorg = false;
+    private deferredLogs: WatchedLog[] = [];
+    private reorgCheckInterval: NodeJS.Timeout | null = null;
+    private reorgCount = 0;
+    private lastReorgBlock: bigint | null = null;
+    // Pixels rewritten by each reorg: a rollback can leave a pixel's latest placement
+    // at or before a client's sync block, so delta sync has to include them explicitly
+    private recentReorgs: Array<{ ancestorBlock: bigint; pixels: Set<string> }> = [];
+
     // Debounced save state
     private saveTimeout: NodeJS.Timeout | null = null;
     private lastSaveTime: number = 0;
@@ -75,6 +249,14 @@ export class EventListener {
 
     // Callbacks for real-time updates (SSE)
     private pixelCallbacks: Set<PixelCallback> = new Set();
+    private reorgCallbacks: Set<ReorgCallback> = new Set();
+    private claimCallbacks: Set<ClaimCallback> = new Set();
+    private banCallbacks: Set<BanCallback> = new Set();
+    private epochCallbacks: Set<EpochCallback> = new Set();
+    private recentEvents: PixelEvent[] = []; // Oldest first, in the order they were sent
+    // Counts every pixel event sent, so events of one log (fills, lines, clears) and reorg
+    // corrections reusing an earlier cursor still get unique ids
+    private eventSequence = 0;
 
     constructor() {
         // Determine if we should use WebSocket or HTTP based on URL
@@ -107,11 +289,20 @@ export class EventListener {
             transport,
         });
 
-        this.storageFile = path.join(DATA_DIR, 'pixels.json');
+        this.store = new PixelStore(DATA_DIR, DEPLOYMENT_BLOCK);
+        this.claims = new ClaimStore(DATA_DIR, DEPLOYMENT_BLOCK);
+        this.bans = new BanStore(DATA_DIR, DEPLOYMENT_BLOCK);
+        this.pauses = new PauseStore(DATA_DIR, DEPLOYMENT_BLOCK);
+        this.tiles = new TileRenderer(() => this.storage.pixels);
         this.storage = {
-            pixels: {},
+            epoch: initialEpoch(DEPLOYMENT_BLOCK),
+            pixels: new PixelIndex(),
+            history: new HistoryIndex(),
+            archivedEpochs: [],
             lastProcessedBlock: DEPLOYMENT_BLOCK,
             totalPixels: 0,
+            lastLog: null,
+            blockHashes: new Map(),
         };
 
         console.log(`🔗 Using ${isWebSocket ? 'WebSocket' : 'HTTP'} transport: ${RPC_URL}`);
@@ -127,11 +318,19 @@ export class EventListener {
 
     /**
      * Notify all registered callbacks of a new pixel
+     * @param cursor Position of the log that set this state, which prefixes the event id
      */
-    private notifyPixel(pixel: PixelData): void {
+    private notifyPixel(pixel: PixelData, cursor: LogCursor): void {
+        const id = `${cursor.blockNumber}-${cursor.logIndex}-${++this.eventSequence}`;
+
+        this.recentEvents.push({ id, pixel });
+        if (this.recentEvents.length > REPLAY_BUFFER_SIZE) {
+            this.recentEvents.splice(0, this.recentEvents.length - REPLAY_BUFFER_SIZE);
+        }
+
         for (const callback of this.pixelCallbacks) {
             try {
-                callback(pixel);
+                callback(pixel, id, cursor);
             } catch (err) {
                 console.error('Error in pixel callback:', err);
             }
@@ -139,25 +338,130 @@ export class EventListener {
     }
 
     /**
-     * Load existing pixel data from JSON file
+     * Get the pixel events sent after the one with this id, in order
+     * @returns null if the id is no longer (or was never) in the replay buffer
+     */
+    public getPixelEventsSince(eventId: string): PixelEvent[] | null {
+        for (let i = this.recentEvents.length - 1; i >= 0; i--) {
+            if (this.recentEvents[i].id === eventId) {
+                return this.recentEvents.slice(i + 1);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Register a callback for chain reorganizations (for SSE)
+     */
+    public onReorg(callback: ReorgCallback): () => void {
+        this.reorgCallbacks.add(callback);
+        return () => this.reorgCallbacks.delete(callback);
+    }
+
+    /**
+     * Notify all registered callbacks of a reorg
+     */
+    private notifyReorg(reorg: ReorgEvent): void {
+        for (const callback of this.reorgCallbacks) {
+            try {
+                callback(reorg);
+            } catch (err) {
+                console.error('Error in reorg callback:', err);
+            }
+        }
+    }
+
+    /**
+     * Register a callback for region claim changes (for SSE)
+     */
+    public onClaim(callback: ClaimCallback): () => void {
+        this.claimCallbacks.add(callback);
+        return () => this.claimCallbacks.delete(callback);
+    }
+
+    /**
+     * Notify all registered callbacks of a claim change
+     */
+    private notifyClaim(claim: RegionClaim): void {
+        for (const callback of this.claimCallbacks) {
+            try {
+                callback(claim);
+            } catch (err) {
+                console.error('Error in claim callback:', err);
+            }
+        }
+    }
+
+    /**
+     * Register a callback for ban status changes (for SSE)
+     */
+    public onBan(callback: BanCallback): () => void {
+        this.banCallbacks.add(callback);
+        return () => this.banCallbacks.delete(callback);
+    }
+
+    /**
+     * Notify all registered callbacks of a ban status change
+     */
+    private notifyBan(ban: AddressBan): void {
+        for (const callback of this.banCallbacks) {
+            try {
+                callback(ban);
+            } catch (err) {
+                console.error('Error in ban callback:', err);
+            }
+        }
+    }
+
+    /**
+     * Register a callback for the current epoch changing (for SSE)
+     */
+    public onEpoch(callback: EpochCallback): () => void {
+        this.epochCallbacks.add(callback);
+        return () => this.epochCallbacks.delete(callback);
+    }
+
+    /**
+     * Notify all registered callbacks of the current epoch
+     */
+    private notifyEpoch(epoch: EpochInfo): void {
+        for (const callback of this.epochCallbacks) {
+            try {
+                callback(epoch);
+            } catch (err) {
+                console.error('Error in epoch callback:', err);
+            }
+        }
+    }
+
+    /**
+     * Load the latest snapshot and replay the event log written after it
      */
     private async loadStorage(): Promise<void> {
         try {
-            if (existsSync(this.storageFile)) {
-                const data = await readFile(this.storageFile, 'utf-8');
-                const parsed = JSON.parse(data);
-
-                // Convert lastProcessedBlock back to BigInt
-                this.storage = {
-                    ...parsed,
-                    lastProcessedBlock: BigInt(parsed.lastProcessedBlock),
-                };
+            const state = await this.store.load();
 
-                console.log(`✓ Loaded ${this.storage.totalPixels} pixels from storage`);
+            this.storage = {
+                ...state,
+                totalPixels: state.pixels.size,
+            };
+            this.pruneBlockHashes();
+
+            // Claims, bans and pauses are saved after pixels; re-fetch anything a crash in between left out
+            await this.claims.load();
+            await this.bans.load();
+            await this.pauses.load();
+            for (const lastProcessedBlock of [this.claims.lastProcessedBlock, this.bans.lastProcessedBlock, this.pauses.lastProcessedBlock]) {
+                if (lastProcessedBlock < this.storage.lastProcessedBlock) {
+                    this.storage.lastProcessedBlock = lastProcessedBlock;
+                }
+            }
+
+            if (this.storage.totalPixels > 0 || state.lastLog) {
+                console.log(`✓ Loaded ${this.storage.totalPixels} pixels from storage (epoch ${this.storage.epoch.id})`);
                 console.log(`  Last processed block: ${this.storage.lastProcessedBlock}`);
             } else {
                 console.log('○ No existing storage found, starting fresh');
-                await mkdir(DATA_DIR, { recursive: true });
             }
         } catch (error) {
             console.error('✗ Error loading storage:', error);
@@ -166,20 +470,21 @@ export class EventListener {
     }
 
     /**
-     * Save pixel data to JSON file (immediate)
+     * Append pending events to the log (immediate)
      */
     private async saveStorageImmediate(): Promise<void> {
         try {
-            const dataToSave = {
-                ...this.storage,
-                lastProcessedBlock: this.storage.lastProcessedBlock.toString(),
-            };
-
-            await writeFile(this.storageFile, JSON.stringify(dataToSave, null, 2));
-            this.lastSaveTime = Date.now();
             this.pendingSave = false;
-            console.log(`✓ Saved ${this.storage.totalPixels} pixels to storage`);
+            const written = await this.store.flush(() => this.storage);
+            await this.claims.save(this.storage.lastProcessedBlock);
+            await this.bans.save(this.storage.lastProcessedBlock);
+            await this.pauses.save(this.storage.lastProcessedBlock);
+            this.lastSaveTime = Date.now();
+            if (written > 0) {
+                console.log(`✓ Saved ${written} log records (${this.storage.totalPixels} pixels)`);
+            }
         } catch (error) {
+            this.pendingSave = true;
             console.error('✗ Error saving storage:', error);
         }
     }
@@ -215,54 +520,601 @@ export class EventListener {
     }
 
     /**
-     * Process a batch of historical events with retry logic
+     * Apply a pixel log to storage and append its pixels to the event log
+     * Returns false if the log was already applied (e.g. re-fetched after a restart)
      */
-    private async processHistoricalEvents(fromBlock: bigint, toBlock: bigint, retryCount = 0): Promise<PixelData[]> {
+    private applyPixelLog(log: PixelLog): boolean {
+        const { cursor } = log;
+        if (this.storage.lastLog && compareCursors(cursor, this.storage.lastLog) <= 0) {
+            return false;
+        }
+
+        // A clear only erases the pixels the region holds at this point in the chain
+        if (log.cleared) {
+            const { x, y, width, height, placedBy, timestamp } = log.cleared;
+            log.pixels = this.storage.pixels.query(x, y, width, height)
+                .map(pixel => ({ x: pixel.x, y: pixel.y, color: 0, placedBy, timestamp }));
+        }
+
+        for (const pixel of log.pixels) {
+            this.applyPixel(pixel, cursor);
+        }
+        this.storage.lastLog = cursor;
+        return true;
+    }
+
+    /**
+     * Write one pixel to storage, its history and the event log
+     */
+    private applyPixel(pixel: PixelData, cursor: LogCursor): void {
+        this.storage.history.push({
+            ...pixel,
+            blockNumber: Number(cursor.blockNumber),
+            logIndex: cursor.logIndex,
+        }, this.storage.pixels.get(pixel.x, pixel.y) ?? null);
+
+        // Color 0 means erase/transparent - remove the pixel from storage
+        if (pixel.color === 0) {
+            if (this.storage.pixels.delete(pixel.x, pixel.y)) {
+                this.storage.totalPixels--;
+            }
+        } else {
+            if (!this.storage.pixels.has(pixel.x, pixel.y)) {
+                this.storage.totalPixels++;
+            }
+            this.storage.pixels.set(pixel);
+        }
+
+        this.store.append(pixel, cursor);
+        this.tiles.invalidatePixel(pixel.x, pixel.y);
+    }
+
+    /**
+     * Apply a claim log and notify clients of the claim's new state
+     * Returns false if the log was already applied
+     */
+    private applyClaimLog({ claim, cursor }: ClaimLog): boolean {
+        const updated = this.claims.apply(claim, cursor);
+        if (!updated) {
+            return false;
+        }
+
+        this.notifyClaim(updated);
+        return true;
+    }
+
+    /**
+     * Apply a ban log and notify clients of the address's new status
+     * Returns false if the log was already applied
+     */
+    private applyBanLog({ ban, cursor }: BanLog): boolean {
+        const updated = this.bans.apply(ban, cursor);
+        if (!updated) {
+            return false;
+        }
+
+        this.notifyBan(updated);
+        return true;
+    }
+
+    /**
+     * Archive the current canvas and continue indexing into a blank one
+     * Returns false if the log was already applied
+     */
+    private applyEpochLog({ epoch, cursor }: EpochLog): boolean {
+        if (this.storage.lastLog && compareCursors(cursor, this.storage.lastLog) <= 0) {
+            return false;
+        }
+
+        startEpoch(this.storage, epoch);
+        this.store.appendEpoch(epoch);
+        this.storage.lastLog = cursor;
+        this.storage.totalPixels = 0;
+        this.tiles.clear();
+
+        this.notifyEpoch(epoch);
+        return true;
+    }
+
+    /**
+     * Apply a decoded pixel, claim, ban, pause or epoch log
+     * @param onApplied Called for every pixel that changed storage
+     */
+    private applyLog(log: IndexedLog, onApplied?: (pixel: PixelData) => void): boolean {
+        if ('epoch' in log) {
+            return this.applyEpochLog(log);
+        }
+        if ('claim' in log) {
+            return this.applyClaimLog(log);
+        }
+        if ('ban' in log) {
+            return this.applyBanLog(log);
+        }
+        if ('pause' in log) {
+            return this.pauses.apply(log.pause, log.cursor) !== null;
+        }
+        if (!this.applyPixelLog(log)) {
+            return false;
+        }
+        if (onApplied) {
+            log.pixels.forEach(onApplied);
+        }
+        return true;
+    }
+
+    /**
+     * Remember the hash of a processed block so a later reorg can be detected
+     */
+    private trackBlockHash(blockNumber: bigint, hash: `0x${string}`): void {
+        if (this.storage.blockHashes.get(blockNumber) === hash) {
+            return;
+        }
+
+        this.storage.blockHashes.set(blockNumber, hash);
+        this.store.recordBlockHash(blockNumber, hash);
+        this.pruneBlockHashes();
+    }
+
+    /**
+     * Drop the oldest tracked block hashes beyond MAX_TRACKED_BLOCKS
+     */
+    private pruneBlockHashes(): void {
+        const { blockHashes } = this.storage;
+        if (blockHashes.size <= MAX_TRACKED_BLOCKS) {
+            return;
+        }
+
+        const blocks = [...blockHashes.keys()].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+        for (const blockNumber of blocks.slice(0, blocks.length - MAX_TRACKED_BLOCKS)) {
+            blockHashes.delete(blockNumber);
+        }
+    }
+
+    /**
+     * Compare tracked block hashes against the chain, newest first
+     * @param below Only consider blocks up to this number (a known-bad block was above it)
+     * @returns The last block shared with the canonical chain, or null if nothing diverged
+     */
+    private async detectCommonAncestor(below?: bigint): Promise<bigint | null> {
+        const blocks = [...this.storage.blockHashes.keys()]
+            .filter(blockNumber => below === undefined || blockNumber <= below)
+            .sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+
+        if (blocks.length === 0) {
+            return below ?? null;
+        }
+
+        for (let i = 0; i < blocks.length; i++) {
+            const block = await this.client.getBlock({ blockNumber: blocks[i] });
+            if (block.hash === this.storage.blockHashes.get(blocks[i])) {
+                return i === 0 && below === undefined ? null : blocks[i];
+            }
+        }
+
+        const oldest = blocks[blocks.length - 1] - 1n;
+        console.warn(`⚠️ No tracked block matches the chain, rolling back to block ${oldest}`);
+        return oldest;
+    }
+
+    /**
+     * Check for a reorg and handle it if the chain diverged from what was indexed
+     */
+    private async checkForReorg(): Promise<void> {
+        if (this.isHandlingReorg || this.isSyncing) {
+            return;
+        }
+
+        try {
+            const ancestor = await this.detectCommonAncestor();
+            if (ancestor !== null) {
+                await this.handleReorg(ancestor);
+            }
+        } catch (error) {
+            console.error('Reorg check failed:', error);
+        }
+    }
+
+    /**
+     * Roll back everything after the common ancestor, re-index up to the chain head
+     * and push corrective pixel events to SSE clients
+     * @param ancestorHint Block known to precede the divergence
+     */
+    private async handleReorg(ancestorHint: bigint): Promise<void> {
+        if (this.isHandlingReorg) {
+            return;
+        }
+        this.isHandlingReorg = true;
+
+        try {
+            let ancestor = await this.detectCommonAncestor(ancestorHint) ?? ancestorHint;
+            if (ancestor < this.store.sealedBlock) {
+                // Sealed placements come before every tracked block, so a reorg reaching them is deeper than the window
+                console.warn(`⚠️ Reorg goes back past sealed block ${this.store.sealedBlock}, keeping the sealed history`);
+                ancestor = this.store.sealedBlock;
+            }
+            console.warn(`⚠️ Chain reorg detected, rolling back to block ${ancestor}`);
+
+            const epochId = this.storage.epoch.id;
+            const affected = rollbackState(this.storage, ancestor);
+            this.store.rollback(ancestor);
+            this.storage.totalPixels = this.storage.pixels.size;
+            if (this.storage.epoch.id !== epochId) {
+                // The restored canvas was archived with its own renderer
+                this.archivedTiles.clear();
+                this.tiles.clear();
+                this.notifyEpoch(this.storage.epoch);
+            }
+            for (const key of affected) {
+                const [x, y] = key.split(',').map(Number);
+                this.tiles.invalidatePixel(x, y);
+            }
+            // Re-indexing notifies the claims that come back; send the rest their earlier state now
+            this.claims.rollback(ancestor).forEach(claim => this.notifyClaim(claim));
+            this.bans.rollback(ancestor).forEach(ban => this.notifyBan(ban));
+            this.pauses.rollback(ancestor);
+            this.reorgCount++;
+            this.lastReorgBlock = ancestor;
+
+            await this.syncHistoricalEvents(pixel => affected.add(`${pixel.x},${pixel.y}`));
+
+            // Send the canonical state of every touched pixel (color 0 if it no longer exists)
+            for (const key of affected) {
+                const [x, y] = key.split(',').map(Number);
+                const pixel = this.storage.pixels.get(x, y);
+                const previous = this.storage.history.get(x, y)?.entries.at(-1);
+                const cursor: LogCursor = previous
+                    ? { blockNumber: BigInt(previous.blockNumber), logIndex: previous.logIndex }
+                    : { blockNumber: ancestor, logIndex: END_OF_BLOCK_LOG_INDEX };
+
+                if (pixel) {
+                    this.notifyPixel(pixel, cursor);
+                    continue;
+                }
+
+                this.notifyPixel({
+                    x,
+                    y,
+                    color: 0,
+                    placedBy: previous?.placedBy ?? '0x0000000000000000000000000000000000000000',
+                    timestamp: previous?.timestamp ?? 0,
+                }, cursor);
+            }
+
+            this.recentReorgs.push({ ancestorBlock: ancestor, pixels: affected });
+            if (this.recentReorgs.length > MAX_TRACKED_REORGS) {
+                this.recentReorgs.shift();
+            }
+
+            this.notifyReorg({ ancestorBlock: ancestor.toString(), affectedPixels: affected.size });
+            console.log(`✓ Reorg handled: ${affected.size} pixels updated`);
+        } catch (error) {
+            console.error('✗ Reorg handling failed:', error);
+        } finally {
+            this.isHandlingReorg = false;
+        }
+
+        // Logs received while re-indexing are either already applied (and skipped) or newer
+        const deferred = this.deferredLogs;
+        this.deferredLogs = [];
+        if (deferred.length > 0) {
+            this.handleWatchedLogs(deferred);
+        }
+        this.saveStorage();
+    }
+
+    /**
+     * Whether a log removed by the node was one we applied from the chain we indexed
+     */
+    private isAppliedLog(log: WatchedLog): boolean {
+        const known = this.storage.blockHashes.get(log.blockNumber!);
+        if (known) {
+            return known === log.blockHash;
+        }
+        const lastLog = PIXEL_EVENTS.has(log.eventName!) || log.eventName === 'EpochStarted'
+            ? this.storage.lastLog
+            : BAN_EVENTS.has(log.eventName!) ? this.bans.lastLog
+            : PAUSE_EVENTS.has(log.eventName!) ? this.pauses.lastLog : this.claims.lastLog;
+        return lastLog !== null
+            && compareCursors({ blockNumber: log.blockNumber!, logIndex: log.logIndex! }, lastLog) <= 0;
+    }
+
+    /**
+     * Apply logs from the real-time watcher, starting reorg handling when the chain diverges
+     */
+    private handleWatchedLogs(logs: WatchedLog[]): void {
+        for (let i = 0; i < logs.length; i++) {
+            const log = logs[i];
+
+            if (this.isHandlingReorg) {
+                this.deferredLogs.push(...logs.slice(i));
+                return;
+            }
+            if (log.blockNumber === null || log.logIndex === null) {
+                continue;
+            }
+
+            // A removed log or a new hash for a block we indexed means the chain reorganized
+            const known = this.storage.blockHashes.get(log.blockNumber);
+            const diverged = log.removed
+                ? this.isAppliedLog(log)
+                : known !== undefined && log.blockHash !== null && known !== log.blockHash;
+
+            if (log.removed && !diverged) {
+                continue;
+            }
+            if (diverged) {
+                this.deferredLogs.push(...logs.slice(log.removed ? i + 1 : i));
+                this.handleReorg(log.blockNumber - 1n);
+                return;
+            }
+
+            const decoded = this.decodeLog(log);
+            if (!decoded || !this.applyLog(decoded)) {
+                continue;
+            }
+
+            const { cursor, blockHash } = decoded;
+            if (blockHash) {
+                this.trackBlockHash(cursor.blockNumber, blockHash);
+            }
+
+            if ('epoch' in decoded) {
+                console.log(`🗓️ Epoch ${decoded.epoch.id} started by ${decoded.epoch.startedBy!.slice(0, 8)}...`);
+            } else if ('claim' in decoded) {
+                console.log(`🚩 Claim ${decoded.claim.type === 'claimed' ? decoded.claim.claim.id : decoded.claim.id} ${decoded.claim.type}`);
+            } else if ('ban' in decoded) {
+                console.log(`🚫 ${decoded.ban.address.slice(0, 8)}... ${decoded.ban.banned ? 'banned' : 'unbanned'} by ${decoded.ban.moderator.slice(0, 8)}...`);
+            } else if ('pause' in decoded) {
+                const { tile, paused, moderator } = decoded.pause;
+                console.log(`${paused ? '⏸️' : '▶️'} ${tile ? `Tile (${tile.x}, ${tile.y})` : 'Canvas'} ${paused ? 'paused' : 'unpaused'} by ${moderator.slice(0, 8)}...`);
+            } else if (decoded.cleared) {
+                console.log(`🧽 Region cleared by ${decoded.cleared.placedBy.slice(0, 8)}... (${decoded.pixels.length} pixels erased)`);
+            } else if (decoded.pixels.length > 1) {
+                console.log(`🖌️ ${log.eventName} of ${decoded.pixels.length} pixels by ${decoded.pixels[0].placedBy.slice(0, 8)}...`);
+            } else if (decoded.pixels[0].color === 0) {
+                console.log(`🧹 Pixel erased at (${decoded.pixels[0].x}, ${decoded.pixels[0].y}) by ${decoded.pixels[0].placedBy.slice(0, 8)}...`);
+            } else {
+                console.log(`🎨 Pixel at (${decoded.pixels[0].x}, ${decoded.pixels[0].y}) by ${decoded.pixels[0].placedBy.slice(0, 8)}...`);
+            }
+
+            // Earlier blocks are complete; the current one may still have logs in flight
+            if (cursor.blockNumber - 1n > this.storage.lastProcessedBlock) {
+                this.storage.lastProcessedBlock = cursor.blockNumber - 1n;
+                this.store.checkpoint(this.storage.lastProcessedBlock);
+            }
+
+            // Notify SSE clients (they need to know about erases too)
+            if ('pixels' in decoded) {
+                for (const pixel of decoded.pixels) {
+                    this.notifyPixel(pixel, cursor);
+                }
+            }
+
+            this.saveStorage();
+        }
+    }
+
+    /**
+     * Decode a PixelPlaced, RegionFilled, LineDrawn or RegionCleared log into the pixels it set
+     */
+    private decodePixelLog(log: { eventName?: string; args: any; blockNumber: bigint | null; blockHash: `0x${string}` | null; logIndex: number | null }): PixelLog | null {
+        const { args } = log;
+        if (!args || log.blockNumber === null || log.logIndex === null) {
+            return null;
+        }
+
+        const cursor: LogCursor = {
+            blockNumber: log.blockNumber,
+            logIndex: log.logIndex,
+        };
+        const timestamp = Number(args.timestamp);
+
+        if (log.eventName === 'RegionCleared') {
+            return {
+                pixels: [],
+                cleared: {
+                    x: Number(args.x),
+                    y: Number(args.y),
+                    width: Number(args.width),
+                    height: Number(args.height),
+                    placedBy: args.moderator as string,
+                    timestamp,
+                },
+                cursor,
+                blockHash: log.blockHash,
+            };
+        }
+
+        const color = Number(args.color);
+        const placedBy = args.user as string;
+
+        let pixels: PixelData[];
+        if (log.eventName === 'RegionFilled') {
+            pixels = [];
+            const x = Number(args.x);
+            const y = Number(args.y);
+            for (let py = y; py < y + Number(args.height); py++) {
+                for (let px = x; px < x + Number(args.width); px++) {
+                    pixels.push({ x: px, y: py, color, placedBy, timestamp });
+                }
+            }
+        } else if (log.eventName === 'LineDrawn') {
+            pixels = lineCoordinates(Number(args.x0), Number(args.y0), Number(args.x1), Number(args.y1))
+                .map(([x, y]) => ({ x, y, color, placedBy, timestamp }));
+        } else {
+            pixels = [{ x: Number(args.x), y: Number(args.y), color, placedBy, timestamp }];
+        }
+
+        return {
+            pixels,
+            cursor,
+            blockHash: log.blockHash,
+        };
+    }
+
+    /**
+     * Decode a claim event log (RegionClaimed, ClaimExtended, RegionReleased, ClaimCollaboratorUpdated)
+     */
+    private decodeClaimLog(log: { eventName?: string; args: any; blockNumber: bigint | null; blockHash: `0x${string}` | null; logIndex: number | null }): ClaimLog | null {
+        const { args } = log;
+        if (!args || log.blockNumber === null || log.logIndex === null) {
+            return null;
+        }
+
+        const id = Number(args.claimId);
+        let claim: ClaimEvent;
+        switch (log.eventName) {
+            case 'RegionClaimed':
+                claim = {
+                    type: 'claimed',
+                    claim: {
+                        id,
+                        owner: getAddress(args.owner),
+                        x: Number(args.x),
+                        y: Number(args.y),
+                        width: Number(args.width),
+                        height: Number(args.height),
+                        expiresAt: Number(args.expiresAt),
+                        collaborators: [],
+                    },
+                };
+                break;
+            case 'ClaimExtended':
+                claim = { type: 'extended', id, expiresAt: Number(args.expiresAt) };
+                break;
+            case 'RegionReleased':
+                claim = { type: 'released', id };
+                break;
+            case 'ClaimCollaboratorUpdated':
+                claim = { type: 'collaborator', id, collaborator: getAddress(args.collaborator), allowed: Boolean(args.allowed) };
+                break;
+            default:
+                return null;
+        }
+
+        return {
+            claim,
+            cursor: {
+                blockNumber: log.blockNumber,
+                logIndex: log.logIndex,
+            },
+            blockHash: log.blockHash,
+        };
+    }
+
+    /**
+     * Decode an AddressBanned or AddressUnbanned log
+     */
+    private decodeBanLog(log: { eventName?: string; args: any; blockNumber: bigint | null; blockHash: `0x${string}` | null; logIndex: number | null }): BanLog | null {
+        const { args } = log;
+        if (!args || log.blockNumber === null || log.logIndex === null) {
+            return null;
+        }
+
+        return {
+            ban: {
+                address: getAddress(args.account),
+                banned: log.eventName === 'AddressBanned',
+                moderator: getAddress(args.moderator),
+            },
+            cursor: {
+                blockNumber: log.blockNumber,
+                logIndex: log.logIndex,
+            },
+            blockHash: log.blockHash,
+        };
+    }
+
+    /**
+     * Decode a Paused, Unpaused or TilePauseUpdated log
+     */
+    private decodePauseLog(log: { eventName?: string; args: any; blockNumber: bigint | null; blockHash: `0x${string}` | null; logIndex: number | null }): PauseLog | null {
+        const { args } = log;
+        if (!args || log.blockNumber === null || log.logIndex === null) {
+            return null;
+        }
+
+        const isTile = log.eventName === 'TilePauseUpdated';
+        return {
+            pause: {
+                tile: isTile ? { x: Number(args.tileX), y: Number(args.tileY) } : null,
+                paused: isTile ? args.paused : log.eventName === 'Paused',
+                moderator: getAddress(isTile ? args.moderator : args.account),
+            },
+            cursor: {
+                blockNumber: log.blockNumber,
+                logIndex: log.logIndex,
+            },
+            blockHash: log.blockHash,
+        };
+    }
+
+    /**
+     * Decode an EpochStarted log
+     */
+    private decodeEpochLog(log: { eventName?: string; args: any; blockNumber: bigint | null; blockHash: `0x${string}` | null; logIndex: number | null }): EpochLog | null {
+        const { args } = log;
+        if (!args || log.blockNumber === null || log.logIndex === null) {
+            return null;
+        }
+
+        return {
+            epoch: {
+                id: Number(args.epoch),
+                startBlock: Number(log.blockNumber),
+                startLogIndex: log.logIndex,
+                startedAt: Number(args.timestamp),
+                startedBy: getAddress(args.admin),
+            },
+            cursor: {
+                blockNumber: log.blockNumber,
+                logIndex: log.logIndex,
+            },
+            blockHash: log.blockHash,
+        };
+    }
+
+    /**
+     * Decode any indexed event log, or null for events the indexer ignores
+     */
+    private decodeLog(log: WatchedLog): IndexedLog | null {
+        if (PIXEL_EVENTS.has(log.eventName!)) {
+            return this.decodePixelLog(log);
+        }
+        if (log.eventName === 'EpochStarted') {
+            return this.decodeEpochLog(log);
+        }
+        if (PAUSE_EVENTS.has(log.eventName!)) {
+            return this.decodePauseLog(log);
+        }
+        return BAN_EVENTS.has(log.eventName!) ? this.decodeBanLog(log) : this.decodeClaimLog(log);
+    }
+
+    /**
+     * Fetch a batch of historical events with retry logic
+     */
+    private async processHistoricalEvents(fromBlock: bigint, toBlock: bigint, retryCount = 0): Promise<IndexedLog[]> {
         const MAX_RETRIES = 5;
         const BASE_DELAY = 3000;
 
         try {
             const logs = await this.client.getLogs({
                 address: CONTRACT_ADDRESS,
-                event: parseAbiItem('event PixelPlaced(address indexed user, uint256 x, uint256 y, uint32 color, uint256 timestamp)'),
+                events: INDEXED_EVENTS,
                 fromBlock,
                 toBlock,
             });
 
-            const pixels: PixelData[] = [];
-
-            if (logs.length > 0) {
-                for (const log of logs) {
-                    const { args } = log;
-                    if (args) {
-                        const key = `${args.x},${args.y}`;
-                        const color = Number(args.color);
-                        const pixelData: PixelData = {
-                            x: Number(args.x),
-                            y: Number(args.y),
-                            color,
-                            placedBy: args.user as string,
-                            timestamp: Number(args.timestamp),
-                        };
-
-                        // Color 0 means erase/transparent - remove the pixel from storage
-                        if (color === 0) {
-                            if (this.storage.pixels[key]) {
-                                delete this.storage.pixels[key];
-                                this.storage.totalPixels--;
-                            }
-                        } else {
-                            if (!this.storage.pixels[key]) {
-                                this.storage.totalPixels++;
-                            }
-                            this.storage.pixels[key] = pixelData;
-                        }
-                        pixels.push(pixelData);
-                    }
+            const decoded: IndexedLog[] = [];
+
+            for (const log of logs) {
+                const decodedLog = this.decodeLog(log);
+                if (decodedLog) {
+                    decoded.push(decodedLog);
                 }
             }
 
-            return pixels;
+            return decoded;
         } catch (error: any) {
             if (error?.code === -32022 || error?.message?.includes('compute unit limit') || error?.message?.includes('rate limit')) {
                 if (retryCount < MAX_RETRIES) {
@@ -270,10 +1122,8 @@ export class EventListener {
                     console.log(`⏳ Rate limited, retrying in ${delay}ms (attempt ${retryCount + 1}/${MAX_RETRIES})`);
                     await this.sleep(delay);
                     return this.processHistoricalEvents(fromBlock, toBlock, retryCount + 1);
-                } else {
-                    console.warn(`⚠️ Max retries reached for blocks ${fromBlock}-${toBlock}, skipping`);
-                    return [];
                 }
+                throw new Error(`Max retries reached for blocks ${fromBlock}-${toBlock}`);
             }
             console.error('Error processing events:', error);
             throw error;
@@ -281,31 +1131,47 @@ export class EventListener {
     }
 
     /**
-     * Process multiple chunk ranges in parallel
+     * Fetch consecutive chunk ranges in parallel, then apply them in block order
+     * Stops at the first chunk that failed and rethrows its error, so only the chunks
+     * before it count as processed and the rest are fetched again
+     * @param onApplied Called for every pixel that changed storage
      */
-    private async processChunksParallel(chunks: Array<{ from: bigint; to: bigint }>): Promise<void> {
+    private async processChunksParallel(chunks: Array<{ from: bigint; to: bigint }>, onApplied?: (pixel: PixelData) => void): Promise<void> {
         const results = await Promise.allSettled(
             chunks.map(chunk => this.processHistoricalEvents(chunk.from, chunk.to))
         );
 
-        for (const result of results) {
+        let failure: unknown = null;
+        let processedTo = this.storage.lastProcessedBlock;
+        for (let i = 0; i < results.length; i++) {
+            const result = results[i];
             if (result.status === 'rejected') {
-                console.error('Chunk processing failed:', result.reason);
+                failure = result.reason;
+                break;
+            }
+            for (const log of result.value) {
+                this.applyLog(log, onApplied);
+            }
+            if (chunks[i].to > processedTo) {
+                processedTo = chunks[i].to;
             }
         }
 
-        // Update last processed block to the highest processed
-        const maxBlock = chunks.reduce((max, chunk) => chunk.to > max ? chunk.to : max, 0n);
-        if (maxBlock > this.storage.lastProcessedBlock) {
-            this.storage.lastProcessedBlock = maxBlock;
+        if (processedTo > this.storage.lastProcessedBlock) {
+            this.storage.lastProcessedBlock = processedTo;
+            this.store.checkpoint(processedTo);
+        }
+        if (failure !== null) {
+            throw failure;
         }
     }
 
     /**
      * Sync all historical events from deployment to current block
      * Uses parallel processing for faster sync
+     * @param onApplied Called for every pixel that changed storage
      */
-    public async syncHistoricalEvents(): Promise<void> {
+    public async syncHistoricalEvents(onApplied?: (pixel: PixelData) => void): Promise<void> {
         console.log('📡 Syncing historical events...');
         this.isSyncing = true;
         this.syncProgress = 0;
@@ -314,6 +1180,12 @@ export class EventListener {
             const currentBlock = await this.client.getBlockNumber();
             const startBlock = this.storage.lastProcessedBlock + 1n;
 
+            // Remember the head so a reorg below it is noticed on the next check
+            const head = await this.client.getBlock({ blockNumber: currentBlock });
+            if (head.hash) {
+                this.trackBlockHash(currentBlock, head.hash);
+            }
+
             if (startBlock > currentBlock) {
                 console.log('✓ Already synced to latest block');
                 this.isSyncing = false;
@@ -327,6 +1199,7 @@ export class EventListener {
 
             let fromBlock = startBlock;
             let processedBlocks = 0n;
+            let failedBatches = 0;
 
             while (fromBlock <= currentBlock) {
                 // Build array of chunks to process in parallel
@@ -339,7 +1212,18 @@ export class EventListener {
                 }
 
                 // Process chunks in parallel
-                await this.processChunksParallel(chunks);
+                try {
+                    await this.processChunksParallel(chunks, onApplied);
+                    failedBatches = 0;
+                } catch (error) {
+                    // Fetch again from the first block no applied chunk covered
+                    failedBatches++;
+                    const delay = Math.min(SYNC_RETRY_BASE_MS * Math.pow(2, failedBatches), SYNC_RETRY_MAX_MS);
+                    console.error(`✗ Chunk processing failed after block ${this.storage.lastProcessedBlock}, retrying in ${delay}ms:`, error);
+                    fromBlock = this.storage.lastProcessedBlock + 1n;
+                    await this.sleep(delay);
+                    continue;
+                }
 
                 // Update progress
                 processedBlocks = this.storage.lastProcessedBlock - startBlock + 1n;
@@ -385,50 +1269,13 @@ export class EventListener {
         this.unwatch = this.client.watchContractEvent({
             address: CONTRACT_ADDRESS,
             abi: MegaplaceABI,
-            eventName: 'PixelPlaced',
-            onLogs: (logs) => {
-                for (const log of logs) {
-                    const { args } = log as any;
-                    if (args) {
-                        const key = `${args.x},${args.y}`;
-                        const color = Number(args.color);
-                        const pixelData: PixelData = {
-                            x: Number(args.x),
-                            y: Number(args.y),
-                            color,
-                            placedBy: args.user as string,
-                            timestamp: Number(args.timestamp),
-                        };
-
-                        // Color 0 means erase/transparent - remove the pixel from storage
-                        if (color === 0) {
-                            if (this.storage.pixels[key]) {
-                                delete this.storage.pixels[key];
-                                this.storage.totalPixels--;
-                            }
-                            console.log(`🧹 Pixel erased at (${args.x}, ${args.y}) by ${(args.user as string).slice(0, 8)}...`);
-                        } else {
-                            const isNewPixel = !this.storage.pixels[key];
-                            if (isNewPixel) {
-                                this.storage.totalPixels++;
-                            }
-                            this.storage.pixels[key] = pixelData;
-                            console.log(`🎨 Pixel at (${args.x}, ${args.y}) by ${(args.user as string).slice(0, 8)}...`);
-                        }
-
-                        // Notify SSE clients (they need to know about erases too)
-                        this.notifyPixel(pixelData);
-
-                        this.saveStorage();
-                    }
-                }
-            },
+            onLogs: (logs) => this.handleWatchedLogs(logs as any),
             onError: (error) => {
                 console.error('Watch error:', error);
             },
         });
 
-        console.log('✓ Watching for new pixels...');
+        console.log('✓ Watching for new pixels, claims, bans, pauses and epochs...');
 
         // Auto-save every minute as a safety net
         setInterval(() => {
@@ -436,6 +1283,11 @@ export class EventListener {
                 this.saveStorageImmediate();
             }
         }, 60000);
+
+        // Poll tracked block hashes to catch reorgs that produced no removed logs
+        this.reorgCheckInterval = setInterval(() => {
+            this.checkForReorg();
+        }, REORG_CHECK_INTERVAL_MS);
     }
 
     /**
@@ -450,6 +1302,11 @@ export class EventListener {
                 clearTimeout(this.saveTimeout);
             }
 
+            if (this.reorgCheckInterval) {
+                clearInterval(this.reorgCheckInterval);
+                this.reorgCheckInterval = null;
+            }
+
             if (this.pendingSave) {
                 this.saveStorageImmediate();
             }
@@ -469,6 +1326,7 @@ export class EventListener {
         console.log(`🌐 RPC: ${RPC_URL}\n`);
 
         await this.loadStorage();
+        await this.checkForReorg();
         await this.syncHistoricalEvents();
         await this.startWatching();
     }
@@ -476,7 +1334,7 @@ export class EventListener {
     /**
      * Get all pixels
      */
-    public getPixels(): Record<string, PixelData> {
+    public getPixels(): PixelIndex {
         return this.storage.pixels;
     }
 
@@ -484,7 +1342,7 @@ export class EventListener {
      * Get pixels as array (sorted by timestamp, newest first)
      */
     public getPixelsArray(limit?: number, offset?: number): PixelData[] {
-        const pixelsArray = Object.values(this.storage.pixels)
+        const pixelsArray = Array.from(this.storage.pixels.values())
             .sort((a, b) => b.timestamp - a.timestamp);
 
         if (limit !== undefined && offset !== undefined) {
@@ -500,26 +1358,122 @@ export class EventListener {
      * Get pixel at specific coordinates
      */
     public getPixel(x: number, y: number): PixelData | null {
-        const key = `${x},${y}`;
-        return this.storage.pixels[key] || null;
+        return this.storage.pixels.get(x, y) ?? null;
     }
 
     /**
-     * Get pixels in a region
+     * Get every placement made at specific coordinates (newest first)
+     * Sealed placements are read from the coordinate's place in the history segments, recent ones from memory
      */
-    public getRegion(startX: number, startY: number, width: number, height: number): PixelData[] {
-        const pixels: PixelData[] = [];
+    public async getPixelHistory(x: number, y: number, query: PixelHistoryQuery = {}): Promise<{ total: number; entries: PixelHistoryEntry[] }> {
+        const sealed = this.store.readPixelHistory(this.storage.epoch.id, x, y);
+        const recent = this.storage.history.get(x, y)?.entries.slice() ?? [];
+        const history = (await sealed).concat(recent);
+        const { from, to, offset = 0, limit } = query;
+
+        const matching: PixelHistoryEntry[] = [];
+        for (let i = history.length - 1; i >= 0; i--) {
+            const entry = history[i];
+            if (from !== undefined && entry.timestamp < from) continue;
+            if (to !== undefined && entry.timestamp > to) continue;
+            matching.push(entry);
+        }
+
+        return {
+            total: matching.length,
+            entries: limit !== undefined ? matching.slice(offset, offset + limit) : matching.slice(offset),
+        };
+    }
+
+    /**
+     * Get the placements needed to replay a region over a time window, in chain order
+     * Each pixel's last placement before `from` comes first, so applying them in order
+     * starts from the region as it looked at `from`
+     * Only the history buckets intersecting the bounds are read, one bucket at a time
+     * Once `limit` placements are found the scan stops and they are returned unsorted, so callers
+     * pass one more than they accept and reject a result that long
+     * Returns null if the epoch doesn't exist
+     */
+    public async getReplayEntries(bounds: PixelBounds, query: PixelReplayQuery = {}): Promise<PixelHistoryEntry[] | null> {
+        const canvas = query.epoch !== undefined ? this.getEpochCanvas(query.epoch) : this.storage;
+        if (!canvas) {
+            return null;
+        }
+
+        const sealed = this.store.readHistory(canvas.epoch.id, bounds);
+        const recent = new Map<string, PixelHistoryEntry[]>();
+        const width = bounds.maxX - bounds.minX + 1;
+        const height = bounds.maxY - bounds.minY + 1;
+        for (const { entries } of canvas.history.query(bounds.minX, bounds.minY, width, height)) {
+            recent.set(`${entries[0].x},${entries[0].y}`, entries.slice());
+        }
 
-        for (let y = startY; y < startY + height; y++) {
-            for (let x = startX; x < startX + width; x++) {
-                const key = `${x},${y}`;
-                if (this.storage.pixels[key]) {
-                    pixels.push(this.storage.pixels[key]);
+        const { from, to, limit = Infinity } = query;
+        const entries: PixelHistoryEntry[] = [];
+        // Adds a pixel's placements (oldest first), returns false once the limit is reached
+        const collect = (history: PixelHistoryEntry[]): boolean => {
+            // History is oldest first, so timestamps only grow
+            let before: PixelHistoryEntry | undefined;
+            for (const entry of history) {
+                if (to !== undefined && entry.timestamp > to) break;
+                if (from !== undefined && entry.timestamp < from) {
+                    before = entry;
+                    continue;
                 }
+                entries.push(entry);
+                if (entries.length >= limit) return false;
             }
+            if (before && before.color !== 0) {
+                entries.push(before);
+                if (entries.length >= limit) return false;
+            }
+            return true;
+        };
+
+        for await (const history of sealed) {
+            const key = `${history[0].x},${history[0].y}`;
+            const later = recent.get(key);
+            recent.delete(key);
+            if (!collect(later ? history.concat(later) : history)) return entries;
+        }
+        for (const history of recent.values()) {
+            if (!collect(history)) return entries;
         }
 
-        return pixels;
+        return entries.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    }
+
+    /**
+     * Get pixels in a region
+     * Time is proportional to the pixels present, not the area, so large sparse regions are cheap
+     * @param limit Stop after this many pixels
+     */
+    public getRegion(startX: number, startY: number, width: number, height: number, limit?: number): PixelData[] {
+        return this.storage.pixels.query(startX, startY, width, height, limit);
+    }
+
+    /**
+     * Get pixels in a region of an epoch's canvas, as getRegion does for the current epoch
+     * Returns null if the epoch doesn't exist
+     */
+    public getEpochRegion(id: number, startX: number, startY: number, width: number, height: number, limit?: number): PixelData[] | null {
+        const canvas = this.getEpochCanvas(id);
+        return canvas ? canvas.pixels.query(startX, startY, width, height, limit) : null;
+    }
+
+    /**
+     * Get the region claims that are currently active
+     * @param bounds Only include claims overlapping this rectangle
+     */
+    public getClaims(bounds?: PixelBounds): RegionClaim[] {
+        return this.claims.getActive(Math.floor(Date.now() / 1000), bounds);
+    }
+
+    /**
+     * Get the addresses moderators have banned from placing pixels
+     */
+    public getBans(): AddressBan[] {
+        return this.bans.getBanned();
     }
 
     /**
@@ -533,26 +1487,222 @@ export class EventListener {
             isSyncing: this.isSyncing,
             syncProgress: this.syncProgress,
             connectedClients: this.pixelCallbacks.size,
+            reorgCount: this.reorgCount,
+            lastReorgBlock: this.lastReorgBlock?.toString() ?? null,
+            paused: this.pauses.isPaused(),
+            pausedTiles: this.pauses.getPausedTiles().map(state => state.tile!),
+            epoch: this.storage.epoch.id,
         };
     }
 
+    /**
+     * Get every epoch, oldest first (the last one is current)
+     */
+    public getEpochs(): EpochSummary[] {
+        const canvases = [...this.storage.archivedEpochs, this.storage];
+        return canvases.map((canvas, i) => ({
+            ...canvas.epoch,
+            endBlock: canvases[i + 1]?.epoch.startBlock ?? null,
+            totalPixels: canvas.pixels.size,
+            isCurrent: canvas === this.storage,
+        }));
+    }
+
+    /**
+     * Get the canvas of an epoch, or undefined if it doesn't exist (yet)
+     */
+    private getEpochCanvas(id: number): EpochCanvas | undefined {
+        return id === this.storage.epoch.id
+            ? this.storage
+            : this.storage.archivedEpochs.find(canvas => canvas.epoch.id === id);
+    }
+
+    /**
+     * Get an epoch's pixels in the format of getPixelsBinary
+     * Returns null if the epoch doesn't exist
+     */
+    public getEpochPixelsBinary(id: number, bounds?: PixelBounds): Buffer | null {
+        const canvas = this.getEpochCanvas(id);
+        if (!canvas) {
+            return null;
+        }
+
+        const pixels = bounds
+            ? canvas.pixels.query(bounds.minX, bounds.minY, bounds.maxX - bounds.minX + 1, bounds.maxY - bounds.minY + 1)
+            : Array.from(canvas.pixels.values());
+        return encodePixelsBinary(pixels);
+    }
+
+    /**
+     * Get a rendered PNG tile of an epoch's canvas
+     * Returns null if the epoch doesn't exist
+     */
+    public getEpochTile(id: number, z: number, x: number, y: number): RenderedTile | null {
+        if (id === this.storage.epoch.id) {
+            return this.tiles.getTile(z, x, y);
+        }
+
+        const canvas = this.getEpochCanvas(id);
+        if (!canvas) {
+            return null;
+        }
+
+        // Archived canvases never change, so their renderers are kept until a reorg restores one
+        let renderer = this.archivedTiles.get(id);
+        if (!renderer) {
+            renderer = new TileRenderer(() => canvas.pixels);
+            this.archivedTiles.set(id, renderer);
+        }
+        return renderer.getTile(z, x, y);
+    }
+
+    /**
+     * Get a rendered PNG tile (Web Mercator XYZ scheme, see tileRenderer.ts)
+     */
+    public getTile(z: number, x: number, y: number): RenderedTile {
+        return this.tiles.getTile(z, x, y);
+    }
+
+    /**
+     * Get the current state of every pixel changed after a block, erased pixels included (color 0)
+     * Applying the result to pixel data loaded at or after that block brings it up to date
+     * Returns null if the block is ahead of the indexed chain or before the current epoch started
+     */
+    public async getPixelChangesSince(block: bigint): Promise<PixelData[] | null> {
+        if (block > this.storage.lastProcessedBlock || block < BigInt(this.storage.epoch.startBlock)) {
+            return null;
+        }
+
+        // Latest placement of each changed pixel, if known
+        const since = Number(block);
+        const changed = new Map<string, PixelHistoryEntry | undefined>();
+        const sealed = block < this.store.sealedBlock
+            ? this.store.readHistory(this.storage.epoch.id, { minX: 0, minY: 0, maxX: CANVAS_RES - 1, maxY: CANVAS_RES - 1 }, since)
+            : null;
+        for (const { entries } of this.storage.history.values()) {
+            const latest = entries[entries.length - 1];
+            if (latest.blockNumber > since) {
+                changed.set(`${latest.x},${latest.y}`, latest);
+            }
+        }
+        for (const reorg of this.recentReorgs) {
+            if (reorg.ancestorBlock < block) {
+                for (const key of reorg.pixels) {
+                    if (!changed.has(key)) {
+                        const [x, y] = key.split(',').map(Number);
+                        changed.set(key, this.storage.history.get(x, y)?.entries.at(-1));
+                    }
+                }
+            }
+        }
+        if (sealed) {
+            for await (const entries of sealed) {
+                const latest = entries[entries.length - 1];
+                const key = `${latest.x},${latest.y}`;
+                // Recent placements are newer than sealed ones
+                if (!changed.get(key)) {
+                    changed.set(key, latest);
+                }
+            }
+        }
+
+        const pixels: PixelData[] = [];
+        for (const [key, previous] of changed) {
+            const [x, y] = key.split(',').map(Number);
+            const pixel = this.storage.pixels.get(x, y);
+            if (pixel) {
+                pixels.push(pixel);
+                continue;
+            }
+
+            pixels.push({
+                x,
+                y,
+                color: 0,
+                placedBy: previous?.placedBy ?? '0x0000000000000000000000000000000000000000',
+                timestamp: previous?.timestamp ?? 0,
+            });
+        }
+
+        return pixels;
+    }
+
     /**
      * Get pixels as compact binary buffer
      * Format: [x (4 bytes), y (4 bytes), color (4 bytes)] per pixel = 12 bytes each
      * Much more efficient than JSON for large datasets
+     * @param bounds Only include pixels inside this rectangle
      */
-    public getPixelsBinary(): Buffer {
-        const pixels = Object.values(this.storage.pixels);
-        const buffer = Buffer.alloc(pixels.length * 12);
+    public getPixelsBinary(bounds?: PixelBounds): Buffer {
+        const pixels = bounds
+            ? this.storage.pixels.query(bounds.minX, bounds.minY, bounds.maxX - bounds.minX + 1, bounds.maxY - bounds.minY + 1)
+            : Array.from(this.storage.pixels.values());
+        return encodePixelsBinary(pixels);
+    }
+}
 
-        let offset = 0;
-        for (const pixel of pixels) {
-            buffer.writeUInt32LE(pixel.x, offset);
-            buffer.writeUInt32LE(pixel.y, offset + 4);
-            buffer.writeUInt32LE(pixel.color, offset + 8);
-            offset += 12;
+/**
+ * Coordinates of a line as drawn by the contract's drawLine (Bresenham's algorithm, both end points included)
+ */
+function lineCoordinates(x0: number, y0: number, x1: number, y1: number): Array<[number, number]> {
+    const dx = Math.abs(x1 - x0);
+    const dy = -Math.abs(y1 - y0);
+    const sx = x0 < x1 ? 1 : -1;
+    const sy = y0 < y1 ? 1 : -1;
+    let err = dx + dy;
+    let x = x0;
+    let y = y0;
+
+    const coordinates: Array<[number, number]> = [];
+    while (true) {
+        coordinates.push([x, y]);
+        if (x === x1 && y === y1) {
+            break;
         }
+        const e2 = 2 * err;
+        if (e2 >= dy) {
+            err += dy;
+            x += sx;
+        }
+        if (e2 <= dx) {
+            err += dx;
+            y += sy;
+        }
+    }
+    return coordinates;
+}
+
+/**
+ * Encode pixels as [x (4 bytes), y (4 bytes), color (4 bytes)] each
+ */
+export function encodePixelsBinary(pixels: PixelData[]): Buffer {
+    const buffer = Buffer.alloc(pixels.length * 12);
+
+    let offset = 0;
+    for (const pixel of pixels) {
+        buffer.writeUInt32LE(pixel.x, offset);
+        buffer.writeUInt32LE(pixel.y, offset + 4);
+        buffer.writeUInt32LE(pixel.color, offset + 8);
+        offset += 12;
+    }
 
-        return buffer;
+    return buffer;
+}
+
+/**
+ * Encode replay placements as [x (4 bytes), y (4 bytes), color (4 bytes), timestamp (4 bytes)] each
+ */
+export function encodeReplayBinary(entries: PixelHistoryEntry[]): Buffer {
+    const buffer = Buffer.alloc(entries.length * 16);
+
+    let offset = 0;
+    for (const entry of entries) {
+        buffer.writeUInt32LE(entry.x, offset);
+        buffer.writeUInt32LE(entry.y, offset + 4);
+        buffer.writeUInt32LE(entry.color, offset + 8);
+        buffer.writeUInt32LE(entry.timestamp, offset + 12);
+        offset += 16;
     }
+
+    return buffer;
 }
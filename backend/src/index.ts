@@ -1,18 +1,23 @@
 import 'dotenv/config'; // Must be first import to load env vars before other modules
 import { createApp } from './app.js';
 import { EventListener } from './eventListener.js';
+import { attachPixelSocket } from './pixelSocket.js';
+import { Relayer } from './relayer.js';
 
 const PORT = process.env.PORT!;
+// Optional: the relayer only runs when a key for its gas account is configured
+const RELAYER_PRIVATE_KEY = process.env.RELAYER_PRIVATE_KEY as `0x${string}` | undefined;
 
 async function main() {
     try {
         // Initialize event listener
         const eventListener = new EventListener();
+        const relayer = RELAYER_PRIVATE_KEY ? new Relayer(RELAYER_PRIVATE_KEY) : null;
 
         // Start API server immediately
-        const app = createApp(eventListener);
+        const app = createApp(eventListener, relayer);
 
-        app.listen(PORT, () => {
+        const server = app.listen(PORT, () => {
             console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
             console.log(`  🚀 API Server listening on port ${PORT}`);
             console.log(`  📍 http://localhost:${PORT}`);
@@ -23,12 +28,32 @@ async function main() {
             console.log(`  GET  /pixels                    - All pixels (JSON, paginated)`);
             console.log(`  GET  /pixels?limit=N&offset=M   - Paginated pixels`);
             console.log(`  GET  /pixels/binary             - All pixels (binary, 12 bytes/pixel)`);
-            console.log(`  GET  /pixels/stream             - SSE real-time pixel updates`);
+            console.log(`  GET  /pixels/binary?minX=&minY=&maxX=&maxY= - Pixels in a bounding box (binary)`);
+            console.log(`  GET  /pixels/since/:block       - Pixels changed after a block, erasures included (binary)`);
+            console.log(`  GET  /pixels/replay?minX=&minY=&maxX=&maxY=&from=&to= - Placements in a region over time (binary, streamed)`);
+            console.log(`  GET  /pixels/stream             - SSE real-time pixel updates (?bbox=minX,minY,maxX,maxY)`);
+            console.log(`  PUT  /pixels/stream/:id         - Update a stream's bounding boxes`);
+            console.log(`  WS   /pixels/ws                 - WebSocket binary pixel feed (one frame per block)`);
             console.log(`  GET  /pixels/:x/:y              - Single pixel`);
+            console.log(`  GET  /pixels/:x/:y/history      - Placement history of a pixel`);
             console.log(`  GET  /pixels/region/:x/:y/:w/:h - Region of pixels`);
+            console.log(`  GET  /tiles/:z/:x/:y.png        - Rendered PNG map tile`);
+            console.log(`  GET  /export/region/:x/:y/:w/:h.png - Region as a PNG (?scale=, ?epoch=)`);
+            console.log(`  GET  /export/region/:x/:y/:w/:h.gif - Animated history of a region (?scale=, ?frames=, ?epoch=)`);
+            console.log(`  GET  /claims                    - Active region claims (?minX=&minY=&maxX=&maxY=)`);
+            console.log(`  GET  /moderation/bans           - Addresses banned from placing pixels`);
+            console.log(`  GET  /epochs                    - Canvas epochs, the last one current`);
+            console.log(`  GET  /epochs/:id/pixels/binary  - Pixels of an epoch (binary, ?minX=&minY=&maxX=&maxY=)`);
+            console.log(`  GET  /epochs/:id/tiles/:z/:x/:y.png - Rendered PNG map tile of an epoch`);
+            console.log(`  GET  /relay                     - Relayer status (${relayer ? 'enabled' : 'disabled'})`);
+            console.log(`  POST /relay/pixels              - Queue an EIP-712 signed pixel batch`);
+            console.log(`  GET  /relay/:id                 - Status of a relayed batch`);
             console.log();
         });
 
+        // WebSocket feed shares the HTTP server
+        attachPixelSocket(server, eventListener);
+
         // Initialize event listener in background (load storage, sync, watch)
         eventListener.initialize().catch(err => {
             console.error('Failed to initialize event listener:', err);
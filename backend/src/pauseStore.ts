@@ -0,0 +1,200 @@
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { END_OF_BLOCK_LOG_INDEX, compareCursors, writeFileAtomic, type LogCursor } from './pixelStore.js';
+
+const PAUSES_FILE_VERSION = 1;
+
+// Whether placement is paused on the whole canvas (tile null) or in one tile (Paused / Unpaused / TilePauseUpdated)
+export interface PauseState {
+    tile: { x: number; y: number } | null;
+    paused: boolean;
+    moderator: string; // Who last changed the status
+    blockNumber: number;
+}
+
+// Decoded pause event
+export interface PauseEvent {
+    tile: { x: number; y: number } | null;
+    paused: boolean;
+    moderator: string;
+}
+
+// A pause status after an event, with where in the chain the event happened
+interface PauseRevision {
+    state: PauseState;
+    logIndex: number;
+}
+
+interface PausesFile {
+    version: number;
+    lastProcessedBlock: string;
+    lastLog: { blockNumber: string; logIndex: number } | null;
+    revisions: PauseRevision[][];
+}
+
+// Key of the canvas or a tile in the revisions map
+function pauseKey(tile: { x: number; y: number } | null): string {
+    return tile ? `${tile.x},${tile.y}` : 'canvas';
+}
+
+/**
+ * Canvas and tile pauses indexed from contract events, persisted as a JSON file in the data directory
+ * Like BanStore, every event keeps a revision so a chain reorg can restore earlier states.
+ */
+export class PauseStore {
+    private file: string;
+    private revisions: Map<string, PauseRevision[]> = new Map(); // Oldest first
+    private dirty = false;
+    // Serializes saves so two writes never share the temp file
+    private queue: Promise<void> = Promise.resolve();
+
+    // Most recent pause log applied, used to skip duplicates
+    public lastLog: LogCursor | null = null;
+    // Every block up to this one was processed when the file was last saved
+    public lastProcessedBlock: bigint;
+
+    constructor(private dataDir: string, deploymentBlock: bigint) {
+        this.file = path.join(dataDir, 'pauses.json');
+        this.lastProcessedBlock = deploymentBlock;
+    }
+
+    public async load(): Promise<void> {
+        if (!existsSync(this.file)) {
+            return;
+        }
+
+        const parsed: PausesFile = JSON.parse(await readFile(this.file, 'utf-8'));
+        if (parsed.version !== PAUSES_FILE_VERSION) {
+            throw new Error(`Unsupported pauses file version: ${parsed.version}`);
+        }
+
+        this.lastProcessedBlock = BigInt(parsed.lastProcessedBlock);
+        this.lastLog = parsed.lastLog
+            ? { blockNumber: BigInt(parsed.lastLog.blockNumber), logIndex: parsed.lastLog.logIndex }
+            : null;
+        for (const revisions of parsed.revisions) {
+            this.revisions.set(pauseKey(revisions[0].state.tile), revisions);
+        }
+
+        if (this.isPaused()) {
+            console.log('⏸️ Canvas is paused');
+        }
+        console.log(`✓ Loaded ${this.getPausedTiles().length} paused tiles`);
+    }
+
+    /**
+     * Write the pauses if they changed since the last save
+     * @param lastProcessedBlock Every block up to this one has been applied
+     */
+    public save(lastProcessedBlock: bigint): Promise<void> {
+        if (!this.dirty && lastProcessedBlock === this.lastProcessedBlock) {
+            return this.queue;
+        }
+
+        this.dirty = false;
+        this.lastProcessedBlock = lastProcessedBlock;
+
+        // Serialize now so later changes wait for the next save
+        const data: PausesFile = {
+            version: PAUSES_FILE_VERSION,
+            lastProcessedBlock: lastProcessedBlock.toString(),
+            lastLog: this.lastLog
+                ? { blockNumber: this.lastLog.blockNumber.toString(), logIndex: this.lastLog.logIndex }
+                : null,
+            revisions: [...this.revisions.values()],
+        };
+        const buffer = Buffer.from(JSON.stringify(data));
+
+        const result = this.queue.then(() => writeFileAtomic(this.dataDir, this.file, buffer));
+        this.queue = result.catch(() => {
+            this.dirty = true;
+        });
+        return result;
+    }
+
+    /**
+     * Apply a pause event
+     * @returns The canvas's or tile's new status, or null if the event was already applied
+     */
+    public apply(event: PauseEvent, cursor: LogCursor): PauseState | null {
+        if (this.lastLog && compareCursors(cursor, this.lastLog) <= 0) {
+            return null;
+        }
+
+        const state: PauseState = { ...event, blockNumber: Number(cursor.blockNumber) };
+
+        const key = pauseKey(state.tile);
+        let revisions = this.revisions.get(key);
+        if (!revisions) {
+            revisions = [];
+            this.revisions.set(key, revisions);
+        }
+        revisions.push({ state, logIndex: cursor.logIndex });
+
+        this.lastLog = cursor;
+        this.dirty = true;
+        return state;
+    }
+
+    /**
+     * Discard every pause event after ancestorBlock
+     * @returns The restored status of everything that changed (removed pauses are returned as unpaused)
+     */
+    public rollback(ancestorBlock: bigint): PauseState[] {
+        const ancestor = Number(ancestorBlock);
+        const changed: PauseState[] = [];
+
+        for (const [key, revisions] of this.revisions) {
+            const latest = revisions[revisions.length - 1];
+            if (latest.state.blockNumber <= ancestor) {
+                continue;
+            }
+
+            while (revisions.length > 0 && revisions[revisions.length - 1].state.blockNumber > ancestor) {
+                revisions.pop();
+            }
+
+            const previous = revisions[revisions.length - 1];
+            if (previous) {
+                changed.push(previous.state);
+            } else {
+                this.revisions.delete(key);
+                changed.push({ ...latest.state, paused: false });
+            }
+        }
+
+        if (this.lastLog && this.lastLog.blockNumber > ancestorBlock) {
+            this.lastLog = { blockNumber: ancestorBlock, logIndex: END_OF_BLOCK_LOG_INDEX };
+        }
+        if (changed.length > 0) {
+            this.dirty = true;
+        }
+
+        return changed;
+    }
+
+    /**
+     * Whether placement is paused on the whole canvas
+     */
+    public isPaused(): boolean {
+        const revisions = this.revisions.get(pauseKey(null));
+        return revisions?.[revisions.length - 1].state.paused ?? false;
+    }
+
+    /**
+     * Get the tiles placement is paused in, most recently paused first
+     */
+    public getPausedTiles(): PauseState[] {
+        const paused: PauseState[] = [];
+
+        for (const revisions of this.revisions.values()) {
+            const state = revisions[revisions.length - 1].state;
+            if (state.tile && state.paused) {
+                paused.push(state);
+            }
+        }
+
+        return paused.sort((a, b) => b.blockNumber - a.blockNumber);
+    }
+}
@@ -0,0 +1,165 @@
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { EventListener, PixelData } from './eventListener.js';
+import { MAX_STREAM_BOXES, isInBoxes, parseBoundingBoxes } from './bounds.js';
+
+export const PIXEL_SOCKET_PATH = '/pixels/ws';
+
+// Frame layout (binary, little-endian): [blockNumber (8 bytes)] followed by
+// [x (4 bytes), y (4 bytes), color (4 bytes)] per pixel, same as /pixels/binary
+const FRAME_HEADER_SIZE = 8;
+const PIXEL_SIZE = 12;
+
+// Ping clients this often and drop those that did not answer the previous ping
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * Encode the pixels placed in one block as a single binary frame
+ */
+export function encodePixelFrame(blockNumber: bigint, pixels: PixelData[]): Buffer {
+    const frame = Buffer.alloc(FRAME_HEADER_SIZE + pixels.length * PIXEL_SIZE);
+    frame.writeBigUInt64LE(blockNumber, 0);
+
+    let offset = FRAME_HEADER_SIZE;
+    for (const pixel of pixels) {
+        frame.writeUInt32LE(pixel.x, offset);
+        frame.writeUInt32LE(pixel.y, offset + 4);
+        frame.writeUInt32LE(pixel.color, offset + 8);
+        offset += PIXEL_SIZE;
+    }
+
+    return frame;
+}
+
+/**
+ * Serve the real-time pixel feed over WebSocket at /pixels/ws
+ * Pixels are coalesced per block into one binary frame; control messages, claim, ban and epoch changes are JSON text frames.
+ * Clients may pass ?bbox=minX,minY,maxX,maxY (repeatable) and later send
+ * { "type": "subscribe", "boxes": [...] | null } to change regions without reconnecting.
+ */
+export function attachPixelSocket(server: Server, eventListener: EventListener): WebSocketServer {
+    const wss = new WebSocketServer({ server, path: PIXEL_SOCKET_PATH });
+
+    wss.on('connection', (socket, req) => {
+        const url = new URL(req.url ?? PIXEL_SOCKET_PATH, 'http://localhost');
+        const requested = url.searchParams.getAll('bbox');
+        let boxes = parseBoundingBoxes(requested.length > 0 ? requested : undefined);
+
+        if (boxes === undefined) {
+            socket.close(1008, `Invalid bbox. Use up to ${MAX_STREAM_BOXES} bbox=minX,minY,maxX,maxY params.`);
+            return;
+        }
+
+        console.log('🔌 WebSocket client connected');
+        socket.send(JSON.stringify({ type: 'connected', boxes }));
+
+        // Pixels waiting to be sent, grouped by block; flushed once the current batch of logs is processed
+        let pending: Map<bigint, PixelData[]> = new Map();
+        let flushScheduled = false;
+
+        const flush = () => {
+            flushScheduled = false;
+            const blocks = pending;
+            pending = new Map();
+
+            if (socket.readyState !== WebSocket.OPEN) {
+                return;
+            }
+            for (const [blockNumber, pixels] of blocks) {
+                socket.send(encodePixelFrame(blockNumber, pixels));
+            }
+        };
+
+        const unsubscribe = eventListener.onPixel((pixel, _eventId, cursor) => {
+            if (!isInBoxes(pixel, boxes ?? null)) {
+                return;
+            }
+
+            const pixels = pending.get(cursor.blockNumber);
+            if (pixels) {
+                pixels.push(pixel);
+            } else {
+                pending.set(cursor.blockNumber, [pixel]);
+            }
+
+            if (!flushScheduled) {
+                flushScheduled = true;
+                setImmediate(flush);
+            }
+        });
+
+        const unsubscribeReorg = eventListener.onReorg((reorg) => {
+            if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: 'reorg', ...reorg }));
+            }
+        });
+
+        const unsubscribeClaim = eventListener.onClaim((claim) => {
+            if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: 'claim', claim }));
+            }
+        });
+
+        const unsubscribeBan = eventListener.onBan((ban) => {
+            if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: 'ban', ban }));
+            }
+        });
+
+        const unsubscribeEpoch = eventListener.onEpoch((epoch) => {
+            if (socket.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: 'epoch', epoch }));
+            }
+        });
+
+        socket.on('message', (data, isBinary) => {
+            if (isBinary) {
+                return;
+            }
+
+            try {
+                const message = JSON.parse(data.toString());
+                if (message?.type !== 'subscribe') {
+                    return;
+                }
+
+                const nextBoxes = parseBoundingBoxes(message.boxes);
+                if (nextBoxes === undefined) {
+                    socket.send(JSON.stringify({ type: 'error', error: `Invalid boxes. Must be null or up to ${MAX_STREAM_BOXES} { minX, minY, maxX, maxY } objects.` }));
+                    return;
+                }
+
+                boxes = nextBoxes;
+                socket.send(JSON.stringify({ type: 'subscribed', boxes }));
+            } catch {
+                socket.send(JSON.stringify({ type: 'error', error: 'Invalid message. Expected JSON.' }));
+            }
+        });
+
+        let isAlive = true;
+        socket.on('pong', () => {
+            isAlive = true;
+        });
+
+        const heartbeat = setInterval(() => {
+            if (!isAlive) {
+                socket.terminate();
+                return;
+            }
+            isAlive = false;
+            socket.ping();
+        }, HEARTBEAT_INTERVAL_MS);
+
+        socket.on('close', () => {
+            console.log('🔌 WebSocket client disconnected');
+            unsubscribe();
+            unsubscribeReorg();
+            unsubscribeClaim();
+            unsubscribeBan();
+            unsubscribeEpoch();
+            clearInterval(heartbeat);
+        });
+    });
+
+    return wss;
+}
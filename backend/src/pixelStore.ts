@@ -0,0 +1,1003 @@
+import { open, readFile, rename, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { getAddress } from 'viem';
+import type { PixelBounds, PixelData, PixelHistoryEntry } from './eventListener.js';
+import { BUCKET_SIZE, BucketIndex, HistoryIndex, PixelIndex, pixelIndex } from './spatialIndex.js';
+
+// Compact the event log into a new snapshot and history segment once it holds this many records
+const COMPACT_AFTER_RECORDS = 50000;
+
+// Pixel:         [x (4)][y (4)][color (4)][timestamp (8)][placedBy (20)]
+// History entry: [pixel (40)][blockNumber (8)][logIndex (4)]
+const PIXEL_SIZE = 40;
+const HISTORY_ENTRY_SIZE = 52;
+
+// Snapshot layout: 44 byte header, every epoch after epoch 0, then the pixels of every epoch
+// Header: [magic (4)][version (4)][lastProcessedBlock (8)][cursor block (8)][cursor logIndex (4)][has cursor (4)][pixel count (4)][epoch count (4)][segment count (4)]
+// Epoch:  [id (4)][startedAt (8)][startedBy (20)][startBlock (8)][startLogIndex (4)]
+// Pixel:  [epoch id (4)][pixel (40)]
+// It holds the canvases as of lastProcessedBlock; the placements up to then are in the first `segment count` history segments
+// Versions 1-3 had a 40 byte header and held the whole history as entries instead of pixels
+// (version 1 only the latest pixel per coordinate, versions 1 and 2 no epochs)
+const SNAPSHOT_MAGIC = 0x4e53504d; // "MPSN"
+const SNAPSHOT_VERSION = 4;
+const SNAPSHOT_HEADER_SIZE = 44;
+const SNAPSHOT_V3_HEADER_SIZE = 40;
+const SNAPSHOT_EPOCH_SIZE = 44;
+const SNAPSHOT_PIXEL_SIZE = 44;
+
+// History segment layout: one immutable file per compaction, holding the placements it sealed
+// Header: [magic (4)][version (4)][run count (4)][entry count (4)]
+// Run:    [epoch id (4)][bucket left (4)][bucket top (4)][entry count (4)][last block (8)]
+// Then the entries of every run in turn; a run is one epoch's placements in one 256x256 bucket,
+// sorted by pixel index and oldest first per pixel
+const SEGMENT_MAGIC = 0x5348504d; // "MPHS"
+const SEGMENT_VERSION = 1;
+const SEGMENT_HEADER_SIZE = 16;
+const SEGMENT_RUN_SIZE = 24;
+
+// Log layout: fixed 56 byte records so a torn trailing write is easy to detect
+// Pixel:      [type (1)][reserved (3)][logIndex (4)][blockNumber (8)][x (4)][y (4)][color (4)][timestamp (8)][placedBy (20)]
+// Checkpoint: [type (1)][reserved (3)][unused (4)][blockNumber (8)] - every block up to blockNumber processed
+// Block hash: [type (1)][reserved (3)][unused (4)][blockNumber (8)][hash (32)]
+// Rollback:   [type (1)][reserved (3)][unused (4)][blockNumber (8)] - chain reorg, blocks after blockNumber discarded
+// Epoch:      [type (1)][reserved (3)][logIndex (4)][blockNumber (8)][id (4)][startedAt (8)][startedBy (20)]
+const LOG_RECORD_SIZE = 56;
+const RECORD_PIXEL = 1;
+const RECORD_CHECKPOINT = 2;
+const RECORD_BLOCK_HASH = 3;
+const RECORD_ROLLBACK = 4;
+const RECORD_EPOCH = 5;
+
+// logIndex used for a cursor that sits after every log in a block
+export const END_OF_BLOCK_LOG_INDEX = 0xffffffff;
+
+// Position of a log in the chain, used to order and de-duplicate events
+export interface LogCursor {
+    blockNumber: bigint;
+    logIndex: number;
+}
+
+// A canvas season, started by an EpochStarted event (epoch 0 starts with the contract)
+export interface EpochInfo {
+    id: number;
+    startBlock: number;
+    startLogIndex: number; // Pixel logs from this position on belong to the epoch
+    startedAt: number | null; // Unix seconds, null for epoch 0
+    startedBy: string | null; // Admin who started it, null for epoch 0
+}
+
+// The pixels placed during one epoch
+export interface EpochCanvas {
+    epoch: EpochInfo;
+    pixels: PixelIndex;
+    history: HistoryIndex; // Placements not sealed into a history segment yet, erased pixels included
+}
+
+// Where a history segment keeps one epoch's placements in one bucket
+interface SegmentRun {
+    segment: number;
+    offset: number; // Byte offset of the first entry in the file
+    count: number;
+    lastBlock: number; // Block of the newest placement
+}
+
+// The current epoch's canvas plus the ones it replaced
+export interface StoredState extends EpochCanvas {
+    archivedEpochs: EpochCanvas[]; // Oldest first
+    lastProcessedBlock: bigint;
+    lastLog: LogCursor | null;
+    blockHashes: Map<bigint, `0x${string}`>; // Recently processed blocks, used to detect reorgs
+}
+
+/**
+ * Compare two log cursors (negative if a comes before b)
+ */
+export function compareCursors(a: LogCursor, b: LogCursor): number {
+    if (a.blockNumber !== b.blockNumber) {
+        return a.blockNumber < b.blockNumber ? -1 : 1;
+    }
+    return a.logIndex - b.logIndex;
+}
+
+/**
+ * Replace a file without leaving a partial copy behind if the process dies mid-write
+ */
+export async function writeFileAtomic(dir: string, file: string, data: Buffer): Promise<void> {
+    const tempFile = `${file}.tmp`;
+    const handle = await open(tempFile, 'w');
+    try {
+        await handle.write(data);
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    await rename(tempFile, file);
+
+    // Persist the rename itself
+    const dirHandle = await open(dir, 'r');
+    try {
+        await dirHandle.sync();
+    } finally {
+        await dirHandle.close();
+    }
+}
+
+/**
+ * Epoch 0, which every canvas starts in
+ */
+export function initialEpoch(deploymentBlock: bigint): EpochInfo {
+    return { id: 0, startBlock: Number(deploymentBlock), startLogIndex: 0, startedAt: null, startedBy: null };
+}
+
+/**
+ * Archive the current canvas and continue with a blank one for the new epoch
+ */
+export function startEpoch(state: StoredState, epoch: EpochInfo): void {
+    state.archivedEpochs.push({ epoch: state.epoch, pixels: state.pixels, history: state.history });
+    state.epoch = epoch;
+    state.pixels = new PixelIndex();
+    state.history = new HistoryIndex();
+}
+
+/**
+ * The pixel a placement leaves behind, null if it erased the coordinate
+ */
+function toPixel(entry: PixelHistoryEntry): PixelData | null {
+    // Color 0 means erase/transparent
+    if (entry.color === 0) {
+        return null;
+    }
+    const { blockNumber, logIndex, ...pixel } = entry;
+    return pixel;
+}
+
+/**
+ * Record a placement in the history and update the current pixel
+ */
+function applyEntry(canvas: EpochCanvas, entry: PixelHistoryEntry): void {
+    canvas.history.push(entry, canvas.pixels.get(entry.x, entry.y) ?? null);
+
+    const pixel = toPixel(entry);
+    if (pixel) {
+        canvas.pixels.set(pixel);
+    } else {
+        canvas.pixels.delete(entry.x, entry.y);
+    }
+}
+
+/**
+ * Get the canvas of the epoch a placement at this position belongs to
+ */
+function canvasAt(state: StoredState, cursor: LogCursor): EpochCanvas {
+    const canvases = [...state.archivedEpochs, state];
+    for (let i = canvases.length - 1; i > 0; i--) {
+        const { startBlock, startLogIndex } = canvases[i].epoch;
+        if (compareCursors(cursor, { blockNumber: BigInt(startBlock), logIndex: startLogIndex }) > 0) {
+            return canvases[i];
+        }
+    }
+    return canvases[0];
+}
+
+/**
+ * Discard every placement made after ancestorBlock (the last block shared with
+ * the canonical chain), restoring each affected pixel to its previous state
+ * Epochs started after ancestorBlock are discarded too, bringing back the canvas they archived
+ * @returns Keys ("x,y") of the pixels that changed
+ */
+export function rollbackState(state: StoredState, ancestorBlock: bigint): Set<string> {
+    const affected = new Set<string>();
+    const ancestor = Number(ancestorBlock);
+
+    rollbackCanvas(state, ancestor, affected);
+    while (state.epoch.startBlock > ancestor && state.archivedEpochs.length > 0) {
+        // The discarded epoch's pixels were all rolled back; every pixel of the restored canvas reappears
+        const previous = state.archivedEpochs.pop()!;
+        for (const pixel of previous.pixels.values()) {
+            affected.add(`${pixel.x},${pixel.y}`);
+        }
+        state.epoch = previous.epoch;
+        state.pixels = previous.pixels;
+        state.history = previous.history;
+        rollbackCanvas(state, ancestor, affected);
+    }
+
+    const ancestorCursor: LogCursor = { blockNumber: ancestorBlock, logIndex: END_OF_BLOCK_LOG_INDEX };
+    if (state.lastLog && compareCursors(state.lastLog, ancestorCursor) > 0) {
+        state.lastLog = ancestorCursor;
+    }
+    if (state.lastProcessedBlock > ancestorBlock) {
+        state.lastProcessedBlock = ancestorBlock;
+    }
+    for (const blockNumber of state.blockHashes.keys()) {
+        if (blockNumber > ancestorBlock) {
+            state.blockHashes.delete(blockNumber);
+        }
+    }
+
+    return affected;
+}
+
+/**
+ * Discard the placements in one canvas made after the ancestor block
+ * Only recent placements can be discarded; the ancestor is never before the sealed history
+ * @param affected Receives the keys ("x,y") of the pixels that changed
+ */
+function rollbackCanvas(canvas: EpochCanvas, ancestor: number, affected: Set<string>): void {
+    for (const recent of canvas.history.values()) {
+        // History is chronological, so orphaned placements are always at the end
+        const { entries } = recent;
+        if (entries[entries.length - 1].blockNumber <= ancestor) {
+            continue;
+        }
+
+        const { x, y } = entries[entries.length - 1];
+        while (entries.length > 0 && entries[entries.length - 1].blockNumber > ancestor) {
+            entries.pop();
+        }
+        affected.add(`${x},${y}`);
+
+        const previous = entries.length > 0 ? toPixel(entries[entries.length - 1]) : recent.before;
+        if (entries.length === 0) {
+            canvas.history.delete(x, y);
+        }
+        if (previous) {
+            canvas.pixels.set(previous);
+        } else {
+            canvas.pixels.delete(x, y);
+        }
+    }
+}
+
+/**
+ * Drop the placements up to a block from a canvas's recent history once they are sealed
+ */
+function trimHistory(history: HistoryIndex, sealedTo: number): void {
+    for (const recent of history.values()) {
+        const { entries } = recent;
+        let count = 0;
+        while (count < entries.length && entries[count].blockNumber <= sealedTo) {
+            count++;
+        }
+
+        if (count === entries.length) {
+            history.delete(entries[0].x, entries[0].y);
+        } else if (count > 0) {
+            recent.before = toPixel(entries[count - 1]);
+            entries.splice(0, count);
+        }
+    }
+}
+
+function writeAddress(buffer: Buffer, address: string, offset: number): void {
+    buffer.write(address.slice(2).padStart(40, '0'), offset, 20, 'hex');
+}
+
+function readAddress(buffer: Buffer, offset: number): string {
+    return getAddress(`0x${buffer.toString('hex', offset, offset + 20)}`);
+}
+
+/**
+ * Write a pixel's [x (4)][y (4)][color (4)][timestamp (8)][placedBy (20)]
+ */
+function writePixel(buffer: Buffer, pixel: PixelData, offset: number): void {
+    buffer.writeUInt32LE(pixel.x, offset);
+    buffer.writeUInt32LE(pixel.y, offset + 4);
+    buffer.writeUInt32LE(pixel.color, offset + 8);
+    buffer.writeBigUInt64LE(BigInt(pixel.timestamp), offset + 12);
+    writeAddress(buffer, pixel.placedBy, offset + 20);
+}
+
+function readPixel(buffer: Buffer, offset: number): PixelData {
+    return {
+        x: buffer.readUInt32LE(offset),
+        y: buffer.readUInt32LE(offset + 4),
+        color: buffer.readUInt32LE(offset + 8),
+        timestamp: Number(buffer.readBigUInt64LE(offset + 12)),
+        placedBy: readAddress(buffer, offset + 20),
+    };
+}
+
+/**
+ * Write a placement as its pixel followed by [blockNumber (8)][logIndex (4)]
+ */
+function writeHistoryEntry(buffer: Buffer, entry: PixelHistoryEntry, offset: number): void {
+    writePixel(buffer, entry, offset);
+    buffer.writeBigUInt64LE(BigInt(entry.blockNumber), offset + 40);
+    buffer.writeUInt32LE(entry.logIndex, offset + 48);
+}
+
+function readHistoryEntry(buffer: Buffer, offset: number): PixelHistoryEntry {
+    return {
+        ...readPixel(buffer, offset),
+        blockNumber: Number(buffer.readBigUInt64LE(offset + 40)),
+        logIndex: buffer.readUInt32LE(offset + 48),
+    };
+}
+
+/**
+ * Encode a history segment
+ * @param runs Each epoch's sealed placements per bucket, grouped by pixel in pixel index order
+ * @param count Number of placements in all runs
+ */
+function encodeSegment(runs: { epoch: number; pixels: PixelHistoryEntry[][] }[], count: number): Buffer {
+    const buffer = Buffer.alloc(SEGMENT_HEADER_SIZE + runs.length * SEGMENT_RUN_SIZE + count * HISTORY_ENTRY_SIZE);
+    buffer.writeUInt32LE(SEGMENT_MAGIC, 0);
+    buffer.writeUInt32LE(SEGMENT_VERSION, 4);
+    buffer.writeUInt32LE(runs.length, 8);
+    buffer.writeUInt32LE(count, 12);
+
+    let offset = SEGMENT_HEADER_SIZE + runs.length * SEGMENT_RUN_SIZE;
+    runs.forEach(({ epoch, pixels }, i) => {
+        const { x, y } = pixels[0][0];
+        let runCount = 0;
+        let lastBlock = 0;
+        for (const entries of pixels) {
+            for (const entry of entries) {
+                writeHistoryEntry(buffer, entry, offset);
+                offset += HISTORY_ENTRY_SIZE;
+                runCount++;
+                lastBlock = Math.max(lastBlock, entry.blockNumber);
+            }
+        }
+
+        const run = SEGMENT_HEADER_SIZE + i * SEGMENT_RUN_SIZE;
+        buffer.writeUInt32LE(epoch, run);
+        buffer.writeUInt32LE(x - (x % BUCKET_SIZE), run + 4);
+        buffer.writeUInt32LE(y - (y % BUCKET_SIZE), run + 8);
+        buffer.writeUInt32LE(runCount, run + 12);
+        buffer.writeBigUInt64LE(BigInt(lastBlock), run + 16);
+    });
+
+    return buffer;
+}
+
+/**
+ * Write an epoch's [id (4)][startedAt (8)][startedBy (20)], shared by log records and snapshots
+ */
+function writeEpoch(buffer: Buffer, epoch: EpochInfo, offset: number): void {
+    buffer.writeUInt32LE(epoch.id, offset);
+    buffer.writeBigUInt64LE(BigInt(epoch.startedAt!), offset + 4);
+    writeAddress(buffer, epoch.startedBy!, offset + 12);
+}
+
+/**
+ * Read an epoch written by writeEpoch, which started at the given log
+ */
+function readEpoch(buffer: Buffer, offset: number, start: LogCursor): EpochInfo {
+    return {
+        id: buffer.readUInt32LE(offset),
+        startBlock: Number(start.blockNumber),
+        startLogIndex: start.logIndex,
+        startedAt: Number(buffer.readBigUInt64LE(offset + 4)),
+        startedBy: readAddress(buffer, offset + 12),
+    };
+}
+
+/**
+ * Durable pixel storage: an append-only log of PixelPlaced and EpochStarted events plus
+ * periodically compacted binary snapshots. Compaction seals the placements no reorg can
+ * remove into an immutable history segment, so only recent history is kept in memory and
+ * old history is never rewritten. Every file replacement goes through a temp file + rename
+ * so a crash never leaves a half-written snapshot.
+ */
+export class PixelStore {
+    private snapshotFile: string;
+    private logFile: string;
+    private legacyFile: string;
+
+    // Records waiting to be appended to the log
+    private pending: Buffer[] = [];
+    // Records appended to the log since the last compaction
+    private logRecords = 0;
+    // Serializes file operations so flushes and compactions never interleave
+    private queue: Promise<void> = Promise.resolve();
+
+    // History segments written so far, numbered from 0
+    private segmentCount = 0;
+    // Where each epoch's sealed placements are, keyed by epoch id
+    private segmentRuns: Map<number, BucketIndex<SegmentRun>> = new Map();
+    // Last block whose placements are sealed into history segments
+    private sealed = -1n;
+
+    constructor(private dataDir: string, private deploymentBlock: bigint) {
+        this.snapshotFile = path.join(dataDir, 'pixels.snapshot');
+        this.logFile = path.join(dataDir, 'pixels.log');
+        this.legacyFile = path.join(dataDir, 'pixels.json');
+    }
+
+    /**
+     * Last block whose placements are sealed into history segments
+     * Sealed placements are final, so a rollback never goes further back than this
+     */
+    public get sealedBlock(): bigint {
+        return this.sealed;
+    }
+
+    /**
+     * Load the latest snapshot and replay the log tail written after it
+     */
+    public async load(): Promise<StoredState> {
+        await mkdir(this.dataDir, { recursive: true });
+
+        let version = SNAPSHOT_VERSION;
+        let state: StoredState;
+        if (existsSync(this.snapshotFile)) {
+            ({ state, version } = await this.readSnapshot());
+        } else {
+            state = await this.readLegacy();
+        }
+
+        if (existsSync(this.logFile)) {
+            const data = await readFile(this.logFile);
+            const completeBytes = data.length - (data.length % LOG_RECORD_SIZE);
+            let replayed = 0;
+            // Cursor of the last replayed record: the pixels of a fill or line share one cursor
+            let replayedLog: LogCursor | null = null;
+
+            for (let offset = 0; offset < completeBytes; offset += LOG_RECORD_SIZE) {
+                const type = data.readUInt8(offset);
+                const cursor: LogCursor = {
+                    logIndex: data.readUInt32LE(offset + 4),
+                    blockNumber: data.readBigUInt64LE(offset + 8),
+                };
+
+                if (type === RECORD_CHECKPOINT) {
+                    if (cursor.blockNumber > state.lastProcessedBlock) {
+                        state.lastProcessedBlock = cursor.blockNumber;
+                    }
+                    continue;
+                }
+                if (type === RECORD_BLOCK_HASH) {
+                    state.blockHashes.set(cursor.blockNumber, `0x${data.toString('hex', offset + 16, offset + 48)}`);
+                    continue;
+                }
+                if (type === RECORD_ROLLBACK) {
+                    // A log left behind by a compaction that crashed can roll back into what it sealed
+                    rollbackState(state, cursor.blockNumber > this.sealed ? cursor.blockNumber : this.sealed);
+                    replayedLog = null;
+                    continue;
+                }
+
+                // Skip events already folded into the snapshot
+                const sameLog = replayedLog !== null && compareCursors(cursor, replayedLog) === 0;
+                if ((type !== RECORD_PIXEL && type !== RECORD_EPOCH) || (!sameLog && state.lastLog && compareCursors(cursor, state.lastLog) <= 0)) {
+                    continue;
+                }
+
+                if (type === RECORD_EPOCH) {
+                    startEpoch(state, readEpoch(data, offset + 16, cursor));
+                    state.lastLog = cursor;
+                    replayedLog = cursor;
+                    continue;
+                }
+
+                applyEntry(state, {
+                    ...readPixel(data, offset + 16),
+                    blockNumber: Number(cursor.blockNumber),
+                    logIndex: cursor.logIndex,
+                });
+                state.lastLog = cursor;
+                replayedLog = cursor;
+                replayed++;
+            }
+
+            this.logRecords = completeBytes / LOG_RECORD_SIZE;
+
+            // Drop a torn record left behind by a crash mid-append
+            if (completeBytes !== data.length) {
+                console.warn(`⚠️ Discarding ${data.length - completeBytes} bytes of incomplete log record`);
+                const handle = await open(this.logFile, 'r+');
+                try {
+                    await handle.truncate(completeBytes);
+                    await handle.sync();
+                } finally {
+                    await handle.close();
+                }
+            }
+
+            if (replayed > 0) {
+                console.log(`✓ Replayed ${replayed} events from log`);
+            }
+        }
+
+        // Older snapshots held the whole history; move it into segments
+        if (version < SNAPSHOT_VERSION) {
+            await this.compactNow(state);
+        }
+
+        return state;
+    }
+
+    /**
+     * Queue a pixel event for appending to the log
+     */
+    public append(pixel: PixelData, cursor: LogCursor): void {
+        const record = Buffer.alloc(LOG_RECORD_SIZE);
+        record.writeUInt8(RECORD_PIXEL, 0);
+        record.writeUInt32LE(cursor.logIndex, 4);
+        record.writeBigUInt64LE(cursor.blockNumber, 8);
+        writePixel(record, pixel, 16);
+        this.pending.push(record);
+    }
+
+    /**
+     * Queue an epoch start for appending to the log
+     */
+    public appendEpoch(epoch: EpochInfo): void {
+        const record = Buffer.alloc(LOG_RECORD_SIZE);
+        record.writeUInt8(RECORD_EPOCH, 0);
+        record.writeUInt32LE(epoch.startLogIndex, 4);
+        record.writeBigUInt64LE(BigInt(epoch.startBlock), 8);
+        writeEpoch(record, epoch, 16);
+        this.pending.push(record);
+    }
+
+    /**
+     * Queue a record marking every block up to blockNumber as processed
+     */
+    public checkpoint(blockNumber: bigint): void {
+        const record = Buffer.alloc(LOG_RECORD_SIZE);
+        record.writeUInt8(RECORD_CHECKPOINT, 0);
+        record.writeBigUInt64LE(blockNumber, 8);
+        this.pending.push(record);
+    }
+
+    /**
+     * Queue a record of the hash a processed block had
+     */
+    public recordBlockHash(blockNumber: bigint, hash: `0x${string}`): void {
+        const record = Buffer.alloc(LOG_RECORD_SIZE);
+        record.writeUInt8(RECORD_BLOCK_HASH, 0);
+        record.writeBigUInt64LE(blockNumber, 8);
+        record.write(hash.slice(2), 16, 32, 'hex');
+        this.pending.push(record);
+    }
+
+    /**
+     * Queue a record discarding everything after ancestorBlock (see rollbackState)
+     */
+    public rollback(ancestorBlock: bigint): void {
+        const record = Buffer.alloc(LOG_RECORD_SIZE);
+        record.writeUInt8(RECORD_ROLLBACK, 0);
+        record.writeBigUInt64LE(ancestorBlock, 8);
+        this.pending.push(record);
+    }
+
+    /**
+     * Append pending records to the log, compacting afterwards if the log grew too large
+     * @param getState Returns the current in-memory state, used for compaction
+     * @returns Number of records written
+     */
+    public flush(getState: () => StoredState): Promise<number> {
+        return this.enqueue(async () => {
+            const records = this.pending;
+            this.pending = [];
+
+            if (records.length > 0) {
+                const handle = await open(this.logFile, 'a');
+                try {
+                    await handle.write(Buffer.concat(records));
+                    await handle.datasync();
+                } finally {
+                    await handle.close();
+                }
+                this.logRecords += records.length;
+            }
+
+            if (this.logRecords >= COMPACT_AFTER_RECORDS) {
+                await this.compactNow(getState());
+            }
+
+            return records.length;
+        });
+    }
+
+    /**
+     * Seal the placements no reorg can remove into a history segment, write a fresh
+     * snapshot of the pixels and keep only the later events in the log
+     */
+    public compact(getState: () => StoredState): Promise<void> {
+        return this.enqueue(() => this.compactNow(getState()));
+    }
+
+    /**
+     * Read the sealed placements of an epoch inside a rectangle, grouped by pixel and oldest first
+     * The segments are picked on call, so a caller that takes the recent history in the same tick
+     * sees every placement exactly once even if a compaction finishes during the read
+     * @param since Only include placements after this block
+     */
+    public readHistory(epoch: number, bounds: PixelBounds, since = -1): AsyncGenerator<PixelHistoryEntry[]> {
+        const buckets = (this.segmentRuns.get(epoch)?.overlapping(bounds.minX, bounds.minY, bounds.maxX, bounds.maxY) ?? [])
+            .map(runs => runs.filter(run => run.lastBlock > since))
+            .filter(runs => runs.length > 0);
+        return this.readRuns(buckets, bounds, since);
+    }
+
+    /**
+     * Read the sealed placements at one coordinate of an epoch, oldest first
+     * Runs are sorted by pixel, so each one is binary searched and only the coordinate's placements are read
+     * The segments are picked on call, as readHistory does
+     */
+    public readPixelHistory(epoch: number, x: number, y: number): Promise<PixelHistoryEntry[]> {
+        const runs = this.segmentRuns.get(epoch)?.bucket(x, y)?.slice() ?? [];
+        return this.readPixelRuns(runs, pixelIndex(x, y));
+    }
+
+    private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(operation);
+        this.queue = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    private async compactNow(state: StoredState): Promise<void> {
+        // Only placements before every tracked block are sealed, so a reorg never reaches them
+        let cutoff = state.lastProcessedBlock;
+        for (const blockNumber of state.blockHashes.keys()) {
+            if (blockNumber <= cutoff) {
+                cutoff = blockNumber - 1n;
+            }
+        }
+        if (cutoff <= this.sealed) {
+            return;
+        }
+        const sealedTo = Number(cutoff);
+        this.sealed = cutoff;
+
+        // The files are built from the state as it is now, before anything else can change it
+        this.pending = [];
+        const canvases = [...state.archivedEpochs, state];
+
+        const runs: { epoch: number; pixels: PixelHistoryEntry[][] }[] = [];
+        let count = 0;
+        for (const canvas of canvases) {
+            const buckets = new BucketIndex<PixelHistoryEntry[]>();
+            for (const { entries } of canvas.history.values()) {
+                let sealedCount = 0;
+                while (sealedCount < entries.length && entries[sealedCount].blockNumber <= sealedTo) {
+                    sealedCount++;
+                }
+                if (sealedCount > 0) {
+                    buckets.add(entries[0].x, entries[0].y, entries.slice(0, sealedCount));
+                    count += sealedCount;
+                }
+            }
+            for (const pixels of buckets.values()) {
+                pixels.sort((a, b) => pixelIndex(a[0].x, a[0].y) - pixelIndex(b[0].x, b[0].y));
+                runs.push({ epoch: canvas.epoch.id, pixels });
+            }
+        }
+        const segment = count > 0 ? encodeSegment(runs, count) : null;
+
+        // The snapshot holds every canvas as of the cutoff
+        const sealedCanvases = canvases.filter((canvas, i) => i === 0 || canvas.epoch.startBlock <= sealedTo);
+        const pixels: { epoch: number; pixel: PixelData }[] = [];
+        for (const canvas of sealedCanvases) {
+            const epoch = canvas.epoch.id;
+            for (const pixel of canvas.pixels.values()) {
+                const entries = canvas.history.get(pixel.x, pixel.y)?.entries;
+                if (!entries || entries[entries.length - 1].blockNumber <= sealedTo) {
+                    pixels.push({ epoch, pixel });
+                }
+            }
+            // Pixels changed after the cutoff are written as they were at it
+            for (const { before, entries } of canvas.history.values()) {
+                if (entries[entries.length - 1].blockNumber <= sealedTo) {
+                    continue;
+                }
+                let pixel = before;
+                for (const entry of entries) {
+                    if (entry.blockNumber > sealedTo) break;
+                    pixel = toPixel(entry);
+                }
+                if (pixel) {
+                    pixels.push({ epoch, pixel });
+                }
+            }
+        }
+
+        const sealedCursor: LogCursor = { blockNumber: cutoff, logIndex: END_OF_BLOCK_LOG_INDEX };
+        const lastLog = state.lastLog && compareCursors(state.lastLog, sealedCursor) > 0 ? sealedCursor : state.lastLog;
+        const epochs = sealedCanvases.slice(1).map(canvas => canvas.epoch);
+        const segmentCount = segment ? this.segmentCount + 1 : this.segmentCount;
+        const snapshot = Buffer.alloc(SNAPSHOT_HEADER_SIZE + epochs.length * SNAPSHOT_EPOCH_SIZE + pixels.length * SNAPSHOT_PIXEL_SIZE);
+
+        snapshot.writeUInt32LE(SNAPSHOT_MAGIC, 0);
+        snapshot.writeUInt32LE(SNAPSHOT_VERSION, 4);
+        snapshot.writeBigUInt64LE(cutoff, 8);
+        snapshot.writeBigUInt64LE(lastLog?.blockNumber ?? 0n, 16);
+        snapshot.writeUInt32LE(lastLog?.logIndex ?? 0, 24);
+        snapshot.writeUInt32LE(lastLog ? 1 : 0, 28);
+        snapshot.writeUInt32LE(pixels.length, 32);
+        snapshot.writeUInt32LE(epochs.length, 36);
+        snapshot.writeUInt32LE(segmentCount, 40);
+
+        let offset = SNAPSHOT_HEADER_SIZE;
+        for (const epoch of epochs) {
+            writeEpoch(snapshot, epoch, offset);
+            snapshot.writeBigUInt64LE(BigInt(epoch.startBlock), offset + 32);
+            snapshot.writeUInt32LE(epoch.startLogIndex, offset + 40);
+            offset += SNAPSHOT_EPOCH_SIZE;
+        }
+        for (const { epoch, pixel } of pixels) {
+            snapshot.writeUInt32LE(epoch, offset);
+            writePixel(snapshot, pixel, offset + 4);
+            offset += SNAPSHOT_PIXEL_SIZE;
+        }
+
+        // Events after the cutoff stay in the log, in chain order
+        const carried: { cursor: LogCursor; append: () => void }[] = [];
+        canvases.forEach((canvas, i) => {
+            const { epoch } = canvas;
+            if (i > 0 && epoch.startBlock > sealedTo) {
+                const cursor = { blockNumber: BigInt(epoch.startBlock), logIndex: epoch.startLogIndex };
+                carried.push({ cursor, append: () => this.appendEpoch(epoch) });
+            }
+            for (const { entries } of canvas.history.values()) {
+                for (const entry of entries) {
+                    if (entry.blockNumber <= sealedTo) continue;
+                    const cursor = { blockNumber: BigInt(entry.blockNumber), logIndex: entry.logIndex };
+                    carried.push({ cursor, append: () => this.append(entry, cursor) });
+                }
+            }
+        });
+        for (const [blockNumber, hash] of state.blockHashes) {
+            this.recordBlockHash(blockNumber, hash);
+        }
+        carried.sort((a, b) => compareCursors(a.cursor, b.cursor)).forEach(record => record.append());
+        if (state.lastProcessedBlock > cutoff) {
+            this.checkpoint(state.lastProcessedBlock);
+        }
+        const log = Buffer.concat(this.pending);
+        this.pending = [];
+
+        // Each file is complete before the next one refers to it: a crash leaves either the old
+        // snapshot (an unreferenced segment is overwritten next time) or the new one with a log
+        // whose records up to its cursor are skipped
+        if (segment) {
+            await writeFileAtomic(this.dataDir, this.segmentFile(this.segmentCount), segment);
+        }
+        await writeFileAtomic(this.dataDir, this.snapshotFile, snapshot);
+        await writeFileAtomic(this.dataDir, this.logFile, log);
+        this.logRecords = 0;
+
+        // Move the sealed placements from memory to the segment in one step, so reads see them in one place or the other
+        if (segment) {
+            this.indexSegment(this.segmentCount, segment);
+            this.segmentCount++;
+        }
+        for (const canvas of canvases) {
+            trimHistory(canvas.history, sealedTo);
+        }
+
+        console.log(`✓ Compacted ${count} placements into history segment, ${pixels.length} pixels into snapshot (block ${cutoff})`);
+    }
+
+    private async *readRuns(buckets: SegmentRun[][], bounds: PixelBounds, since: number): AsyncGenerator<PixelHistoryEntry[]> {
+        for (const runs of buckets) {
+            // A pixel's placements are spread over every segment that sealed its bucket
+            const pixels = new Map<number, PixelHistoryEntry[]>();
+            for (const run of runs) {
+                const data = await this.readRun(run);
+                for (let offset = 0; offset < data.length; offset += HISTORY_ENTRY_SIZE) {
+                    const x = data.readUInt32LE(offset);
+                    const y = data.readUInt32LE(offset + 4);
+                    if (x < bounds.minX || x > bounds.maxX || y < bounds.minY || y > bounds.maxY) continue;
+                    if (Number(data.readBigUInt64LE(offset + 40)) <= since) continue;
+
+                    const entry = readHistoryEntry(data, offset);
+                    const entries = pixels.get(pixelIndex(x, y));
+                    if (entries) {
+                        entries.push(entry);
+                    } else {
+                        pixels.set(pixelIndex(x, y), [entry]);
+                    }
+                }
+            }
+            yield* pixels.values();
+        }
+    }
+
+    private async readPixelRuns(runs: SegmentRun[], index: number): Promise<PixelHistoryEntry[]> {
+        const history: PixelHistoryEntry[] = [];
+        const position = Buffer.alloc(8);
+        for (const run of runs) {
+            const handle = await open(this.segmentFile(run.segment), 'r');
+            try {
+                // Position in the run of the first placement at or after a pixel index
+                const search = async (target: number): Promise<number> => {
+                    let low = 0;
+                    let high = run.count;
+                    while (low < high) {
+                        const mid = (low + high) >> 1;
+                        await handle.read(position, 0, position.length, run.offset + mid * HISTORY_ENTRY_SIZE);
+                        if (pixelIndex(position.readUInt32LE(0), position.readUInt32LE(4)) < target) {
+                            low = mid + 1;
+                        } else {
+                            high = mid;
+                        }
+                    }
+                    return low;
+                };
+
+                const start = await search(index);
+                const end = await search(index + 1);
+                if (end > start) {
+                    const data = Buffer.alloc((end - start) * HISTORY_ENTRY_SIZE);
+                    await handle.read(data, 0, data.length, run.offset + start * HISTORY_ENTRY_SIZE);
+                    for (let offset = 0; offset < data.length; offset += HISTORY_ENTRY_SIZE) {
+                        history.push(readHistoryEntry(data, offset));
+                    }
+                }
+            } finally {
+                await handle.close();
+            }
+        }
+        return history;
+    }
+
+    private async readRun(run: SegmentRun): Promise<Buffer> {
+        const data = Buffer.alloc(run.count * HISTORY_ENTRY_SIZE);
+        const handle = await open(this.segmentFile(run.segment), 'r');
+        try {
+            await handle.read(data, 0, data.length, run.offset);
+        } finally {
+            await handle.close();
+        }
+        return data;
+    }
+
+    private segmentFile(segment: number): string {
+        return path.join(this.dataDir, `pixels.history.${segment}`);
+    }
+
+    /**
+     * Read a segment's header and runs, leaving the placements on disk
+     */
+    private async loadSegment(segment: number): Promise<void> {
+        const file = this.segmentFile(segment);
+        const handle = await open(file, 'r');
+        try {
+            const header = Buffer.alloc(SEGMENT_HEADER_SIZE);
+            await handle.read(header, 0, SEGMENT_HEADER_SIZE, 0);
+            if (header.readUInt32LE(0) !== SEGMENT_MAGIC || header.readUInt32LE(4) !== SEGMENT_VERSION) {
+                throw new Error(`Invalid history segment: ${file}`);
+            }
+
+            const runs = Buffer.alloc(header.readUInt32LE(8) * SEGMENT_RUN_SIZE);
+            await handle.read(runs, 0, runs.length, SEGMENT_HEADER_SIZE);
+            this.indexSegment(segment, Buffer.concat([header, runs]));
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * Add a segment's runs to the index
+     * @param data The segment, or at least its header and runs
+     */
+    private indexSegment(segment: number, data: Buffer): void {
+        const runCount = data.readUInt32LE(8);
+        let offset = SEGMENT_HEADER_SIZE + runCount * SEGMENT_RUN_SIZE;
+        for (let i = 0; i < runCount; i++) {
+            const run = SEGMENT_HEADER_SIZE + i * SEGMENT_RUN_SIZE;
+            const epoch = data.readUInt32LE(run);
+            const count = data.readUInt32LE(run + 12);
+
+            let runs = this.segmentRuns.get(epoch);
+            if (!runs) {
+                runs = new BucketIndex();
+                this.segmentRuns.set(epoch, runs);
+            }
+            runs.add(data.readUInt32LE(run + 4), data.readUInt32LE(run + 8), {
+                segment,
+                offset,
+                count,
+                lastBlock: Number(data.readBigUInt64LE(run + 16)),
+            });
+            offset += count * HISTORY_ENTRY_SIZE;
+        }
+    }
+
+    private async readSnapshot(): Promise<{ state: StoredState; version: number }> {
+        const data = await readFile(this.snapshotFile);
+
+        if (data.length < SNAPSHOT_V3_HEADER_SIZE || data.readUInt32LE(0) !== SNAPSHOT_MAGIC) {
+            throw new Error(`Invalid snapshot file: ${this.snapshotFile}`);
+        }
+        const version = data.readUInt32LE(4);
+        if (version < 1 || version > SNAPSHOT_VERSION) {
+            throw new Error(`Unsupported snapshot version: ${version}`);
+        }
+
+        const state = this.emptyState();
+        state.lastProcessedBlock = data.readBigUInt64LE(8);
+        state.lastLog = data.readUInt32LE(28) === 1
+            ? { blockNumber: data.readBigUInt64LE(16), logIndex: data.readUInt32LE(24) }
+            : null;
+
+        const count = data.readUInt32LE(32);
+        const epochCount = version >= 3 ? data.readUInt32LE(36) : 0;
+
+        let offset = version >= 4 ? SNAPSHOT_HEADER_SIZE : SNAPSHOT_V3_HEADER_SIZE;
+        for (let i = 0; i < epochCount; i++) {
+            startEpoch(state, readEpoch(data, offset, {
+                blockNumber: data.readBigUInt64LE(offset + 32),
+                logIndex: data.readUInt32LE(offset + 40),
+            }));
+            offset += SNAPSHOT_EPOCH_SIZE;
+        }
+
+        if (version >= 4) {
+            const canvases = new Map([...state.archivedEpochs, state].map(canvas => [canvas.epoch.id, canvas]));
+            for (let i = 0; i < count; i++) {
+                canvases.get(data.readUInt32LE(offset))!.pixels.set(readPixel(data, offset + 4));
+                offset += SNAPSHOT_PIXEL_SIZE;
+            }
+
+            const segmentCount = data.readUInt32LE(40);
+            for (let segment = 0; segment < segmentCount; segment++) {
+                await this.loadSegment(segment);
+            }
+            this.segmentCount = segmentCount;
+            this.sealed = state.lastProcessedBlock;
+
+            console.log(`✓ Loaded snapshot with ${count} pixels and ${segmentCount} history segments`);
+            return { state, version };
+        }
+
+        for (let i = 0; i < count; i++) {
+            // Version 1 did not record where in the chain a placement happened
+            const entry: PixelHistoryEntry = version === 1
+                ? { ...readPixel(data, offset), blockNumber: 0, logIndex: 0 }
+                : readHistoryEntry(data, offset);
+            applyEntry(canvasAt(state, { blockNumber: BigInt(entry.blockNumber), logIndex: entry.logIndex }), entry);
+            offset += version === 1 ? PIXEL_SIZE : HISTORY_ENTRY_SIZE;
+        }
+
+        console.log(`✓ Loaded snapshot with ${count} placements`);
+
+        return { state, version };
+    }
+
+    /**
+     * State before anything was indexed: a blank canvas in epoch 0
+     */
+    private emptyState(): StoredState {
+        return {
+            epoch: initialEpoch(this.deploymentBlock),
+            pixels: new PixelIndex(),
+            history: new HistoryIndex(),
+            archivedEpochs: [],
+            lastProcessedBlock: this.deploymentBlock,
+            lastLog: null,
+            blockHashes: new Map(),
+        };
+    }
+
+    /**
+     * Import the old pixels.json format, converting it to a snapshot
+     */
+    private async readLegacy(): Promise<StoredState> {
+        const state = this.emptyState();
+        if (!existsSync(this.legacyFile)) {
+            return state;
+        }
+
+        const parsed = JSON.parse(await readFile(this.legacyFile, 'utf-8'));
+        state.lastProcessedBlock = BigInt(parsed.lastProcessedBlock);
+
+        // The legacy format kept only the latest pixel, so history starts there
+        for (const pixel of Object.values<PixelData>(parsed.pixels ?? {})) {
+            applyEntry(state, { ...pixel, blockNumber: 0, logIndex: 0 });
+        }
+
+        await this.compactNow(state);
+        await rename(this.legacyFile, `${this.legacyFile}.migrated`);
+        console.log(`✓ Migrated ${this.legacyFile} to snapshot storage`);
+
+        return state;
+    }
+}
@@ -0,0 +1,231 @@
+import type { PixelData, PixelHistoryEntry } from './eventListener.js';
+import { encodePng } from './tileRenderer.js';
+
+// Largest exported image side, after scaling
+export const MAX_EXPORT_SIDE = 4096;
+// Largest scale factor (each canvas pixel becomes scale x scale image pixels)
+export const MAX_EXPORT_SCALE = 32;
+export const MAX_GIF_FRAMES = 100;
+// Most image pixels a GIF may hold across all of its frames
+export const MAX_GIF_PIXELS = 64 * 1024 * 1024;
+
+const GIF_FRAME_DELAY = 10; // Hundredths of a second
+const GIF_LAST_FRAME_DELAY = 200; // Hold the finished picture before looping
+const GIF_MAX_CODE_SIZE = 12;
+
+// Area of the canvas to export
+export interface ExportRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Render the pixels of a region as a PNG, unset pixels transparent
+ * @param scale Image pixels per canvas pixel side
+ */
+export function renderRegionPng(pixels: Iterable<PixelData>, region: ExportRegion, scale: number): Buffer {
+    const width = region.width * scale;
+    const rgba = Buffer.alloc(width * region.height * scale * 4);
+
+    for (const pixel of pixels) {
+        const left = (pixel.x - region.x) * scale;
+        const top = (pixel.y - region.y) * scale;
+        for (let dy = 0; dy < scale; dy++) {
+            for (let dx = 0; dx < scale; dx++) {
+                const offset = ((top + dy) * width + left + dx) * 4;
+                rgba[offset] = (pixel.color >> 16) & 0xff;
+                rgba[offset + 1] = (pixel.color >> 8) & 0xff;
+                rgba[offset + 2] = pixel.color & 0xff;
+                rgba[offset + 3] = 0xff;
+            }
+        }
+    }
+
+    return encodePng(width, region.height * scale, rgba);
+}
+
+/**
+ * Render the history of a region as a looping animated GIF, unset pixels transparent
+ * Frames are evenly spaced in time between the first and the last placement,
+ * the last one showing every placement
+ * @param entries Placements in chain order (see EventListener.getReplayEntries)
+ * @param scale Image pixels per canvas pixel side
+ */
+export function renderRegionGif(entries: PixelHistoryEntry[], region: ExportRegion, scale: number, frameCount: number): Buffer {
+    const palette = buildPalette(entries.map(entry => entry.color));
+    const indices = new Uint8Array(region.width * region.height); // Current state, 0 = transparent
+    const startTime = entries[0]?.timestamp ?? 0;
+    const span = (entries[entries.length - 1]?.timestamp ?? 0) - startTime;
+
+    const frames: Uint8Array[] = [];
+    let applied = 0;
+    for (let frame = 1; frame <= frameCount; frame++) {
+        const until = frame === frameCount ? Infinity : startTime + span * frame / frameCount;
+        while (applied < entries.length && entries[applied].timestamp <= until) {
+            const entry = entries[applied++];
+            indices[(entry.y - region.y) * region.width + entry.x - region.x] = palette.indexOf(entry.color);
+        }
+        frames.push(scaleIndices(indices, region.width, region.height, scale));
+    }
+
+    return encodeGif(region.width * scale, region.height * scale, palette.colors, frames);
+}
+
+// GIF color table: index 0 is transparent, the rest are the colors in use
+interface Palette {
+    colors: number[]; // 0xRRGGBB, colors[0] unused
+    indexOf: (color: number) => number;
+}
+
+/**
+ * Exact colors when they fit in a GIF color table, otherwise the closest of a 6x6x6 color cube
+ */
+function buildPalette(colors: number[]): Palette {
+    const distinct = Array.from(new Set(colors.filter(color => color !== 0)));
+    if (distinct.length <= 255) {
+        const indexes = new Map(distinct.map((color, i) => [color, i + 1]));
+        return { colors: [0, ...distinct], indexOf: color => indexes.get(color) ?? 0 };
+    }
+
+    const cube = [0];
+    for (let i = 0; i < 216; i++) {
+        cube.push(((Math.floor(i / 36) * 51) << 16) | ((Math.floor(i / 6) % 6 * 51) << 8) | (i % 6 * 51));
+    }
+    const level = (channel: number) => Math.round(channel / 51);
+    return {
+        colors: cube,
+        indexOf: color => color === 0 ? 0 : 1 + level((color >> 16) & 0xff) * 36 + level((color >> 8) & 0xff) * 6 + level(color & 0xff),
+    };
+}
+
+function scaleIndices(indices: Uint8Array, width: number, height: number, scale: number): Uint8Array {
+    if (scale === 1) {
+        return indices.slice();
+    }
+
+    const scaledWidth = width * scale;
+    const scaled = new Uint8Array(scaledWidth * height * scale);
+    for (let y = 0; y < height; y++) {
+        const row = new Uint8Array(scaledWidth);
+        for (let x = 0; x < width; x++) {
+            row.fill(indices[y * width + x], x * scale, (x + 1) * scale);
+        }
+        for (let dy = 0; dy < scale; dy++) {
+            scaled.set(row, (y * scale + dy) * scaledWidth);
+        }
+    }
+    return scaled;
+}
+
+/**
+ * Encode frames of color table indices (one byte per pixel, row-major) as a looping GIF89a
+ * Index 0 is transparent and every frame replaces the previous one
+ */
+function encodeGif(width: number, height: number, colors: number[], frames: Uint8Array[]): Buffer {
+    // The color table holds a power of two of at least 2 entries
+    let tableBits = 1;
+    while (1 << tableBits < colors.length) {
+        tableBits++;
+    }
+    const table = Buffer.alloc(3 << tableBits);
+    colors.forEach((color, i) => {
+        table[i * 3] = (color >> 16) & 0xff;
+        table[i * 3 + 1] = (color >> 8) & 0xff;
+        table[i * 3 + 2] = color & 0xff;
+    });
+
+    const screen = Buffer.alloc(7);
+    screen.writeUInt16LE(width, 0);
+    screen.writeUInt16LE(height, 2);
+    screen.writeUInt8(0x80 | 0x70 | (tableBits - 1), 4); // Global color table, 8 bit color resolution
+    const loop = Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0', 'ascii'), 0x03, 0x01, 0x00, 0x00, 0x00]);
+
+    const parts: Buffer[] = [Buffer.from('GIF89a', 'ascii'), screen, table, loop];
+    const minCodeSize = Math.max(2, tableBits);
+    frames.forEach((frame, i) => {
+        const control = Buffer.from([0x21, 0xf9, 0x04, (2 << 2) | 1, 0, 0, 0, 0]); // Restore to background, index 0 transparent
+        control.writeUInt16LE(i === frames.length - 1 ? GIF_LAST_FRAME_DELAY : GIF_FRAME_DELAY, 4);
+
+        const descriptor = Buffer.alloc(10);
+        descriptor.writeUInt8(0x2c, 0);
+        descriptor.writeUInt16LE(width, 5);
+        descriptor.writeUInt16LE(height, 7);
+
+        parts.push(control, descriptor, Buffer.from([minCodeSize]), toSubBlocks(lzwEncode(frame, minCodeSize)));
+    });
+    parts.push(Buffer.from([0x3b]));
+
+    return Buffer.concat(parts);
+}
+
+/**
+ * GIF flavored LZW: variable width codes up to 12 bits, packed least significant bit first,
+ * with a clear code whenever the table is full
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Buffer {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const bytes: number[] = [];
+    let bits = 0;
+    let bitCount = 0;
+    let codeSize = minCodeSize + 1;
+
+    const write = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            bytes.push(bits & 0xff);
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    // key: prefix code * 256 + next index
+    let table = new Map<number, number>();
+    let nextCode = endCode + 1;
+    write(clearCode);
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const key = prefix * 256 + indices[i];
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+
+        write(prefix);
+        if (nextCode === 1 << GIF_MAX_CODE_SIZE) {
+            write(clearCode);
+            table = new Map();
+            nextCode = endCode + 1;
+            codeSize = minCodeSize + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) {
+                codeSize++;
+            }
+            table.set(key, nextCode++);
+        }
+        prefix = indices[i];
+    }
+    write(prefix);
+    write(endCode);
+    if (bitCount > 0) {
+        bytes.push(bits & 0xff);
+    }
+
+    return Buffer.from(bytes);
+}
+
+// Split image data into sub-blocks of up to 255 bytes, ended by an empty one
+function toSubBlocks(data: Buffer): Buffer {
+    const blocks: Buffer[] = [];
+    for (let offset = 0; offset < data.length; offset += 255) {
+        const block = data.subarray(offset, offset + 255);
+        blocks.push(Buffer.from([block.length]), block);
+    }
+    blocks.push(Buffer.from([0]));
+    return Buffer.concat(blocks);
+}
@@ -0,0 +1,325 @@
+import { randomUUID } from 'crypto';
+import {
+    createPublicClient,
+    createWalletClient,
+    http,
+    parseAbi,
+    verifyTypedData,
+    BaseError,
+    ContractFunctionRevertedError,
+    zeroAddress,
+    type Hex,
+} from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { megaethChain } from './eventListener.js';
+
+// All config from .env - no fallbacks
+const RPC_URL = process.env.RPC_URL!;
+const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS! as `0x${string}`;
+
+// Most pixels in one signed batch (matches placePixelBatch)
+export const MAX_RELAY_BATCH_SIZE = 100;
+
+// Batches waiting to be submitted before new ones are rejected
+const MAX_QUEUED_JOBS = 100;
+
+// Batches one signer may have waiting at once, so a single key can't fill the queue
+const MAX_QUEUED_JOBS_PER_SIGNER = 5;
+
+// Batches one IP may post per window
+const MAX_REQUESTS_PER_IP = 60;
+const IP_WINDOW_MS = 60 * 1000;
+
+// Finished jobs kept so clients can look up their result
+const MAX_TRACKED_JOBS = 1000;
+
+const RELAYER_ABI = parseAbi([
+    'function placePixelsWithSig(address signer, uint256[] px, uint256[] py, uint32[] colors, uint256 nonce, uint256 deadline, bytes signature)',
+    'function delegations(address delegate) view returns (address owner, uint64 expiresAt, uint32 pixelBudget)',
+    'function getCooldown(address user) view returns (bool canPlace, uint256 cooldownRemaining, uint256 pixelsRemaining)',
+    'error InvalidCoordinates(uint256 px, uint256 py)',
+    'error RateLimitExceeded(uint256 cooldownRemaining)',
+    'error ArrayLengthMismatch()',
+    'error InvalidBatchSize(uint256 size, uint256 min, uint256 max)',
+    'error PixelProtected(uint256 px, uint256 py, uint256 claimId)',
+    'error DelegationExpired(address delegate)',
+    'error DelegateBudgetExceeded(uint256 requested, uint256 remaining)',
+    'error SignatureExpired(uint256 deadline)',
+    'error InvalidSignature()',
+    'error InvalidAccountNonce(address account, uint256 currentNonce)',
+    'error PlacerBanned(address account)',
+    'error EnforcedPause()',
+    'error TilePaused(uint256 tileX, uint256 tileY)',
+]);
+
+// EIP-712 type signed by the placer (see Megaplace.placePixelsWithSig)
+const PLACE_PIXELS_TYPES = {
+    PlacePixels: [
+        { name: 'signer', type: 'address' },
+        { name: 'px', type: 'uint256[]' },
+        { name: 'py', type: 'uint256[]' },
+        { name: 'colors', type: 'uint32[]' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+} as const;
+
+// A batch of pixels signed off-chain, as posted to /relay/pixels
+export interface SignedBatch {
+    signer: `0x${string}`;
+    px: number[];
+    py: number[];
+    colors: number[];
+    nonce: bigint;
+    deadline: bigint; // Unix timestamp
+    signature: Hex;
+}
+
+// Why a batch was turned away before it was queued
+export interface RelayRejection {
+    status: number; // HTTP status to respond with
+    error: string;
+    retryAfter?: number; // Seconds until the signer may try again
+}
+
+export type RelayJobStatus = 'queued' | 'submitted' | 'confirmed' | 'failed';
+
+export interface RelayJob {
+    id: string;
+    signer: string;
+    nonce: string;
+    pixels: number;
+    status: RelayJobStatus;
+    txHash: string | null;
+    error: string | null; // Contract error name when the batch reverted
+    createdAt: number; // Unix timestamp (ms)
+}
+
+/**
+ * Get a short reason for a failed submission, preferring the contract's custom error name
+ */
+function describeError(error: unknown): string {
+    if (error instanceof BaseError) {
+        const revert = error.walk(cause => cause instanceof ContractFunctionRevertedError);
+        if (revert instanceof ContractFunctionRevertedError && revert.data?.errorName) {
+            return revert.data.errorName;
+        }
+        return error.shortMessage;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Submits signed pixel batches to placePixelsWithSig from the relayer's own account,
+ * so signers (session keys) don't need gas. Batches are submitted one at a time in
+ * the order they were received, which keeps each signer's nonces in order.
+ */
+export class Relayer {
+    private account: PrivateKeyAccount;
+    private publicClient;
+    private walletClient;
+    private jobs: Map<string, RelayJob> = new Map(); // Oldest first
+    private queue: Array<{ job: RelayJob; batch: SignedBatch }> = [];
+    private isProcessing = false;
+    // Requests per IP in the current window
+    private ipRequests: Map<string, { windowStart: number; count: number }> = new Map();
+
+    constructor(privateKey: Hex) {
+        const transport = http(RPC_URL.replace('wss://', 'https://').replace('ws://', 'http://'), {
+            retryCount: 3,
+            retryDelay: 1000,
+        });
+
+        this.account = privateKeyToAccount(privateKey);
+        this.publicClient = createPublicClient({ chain: megaethChain, transport });
+        this.walletClient = createWalletClient({ account: this.account, chain: megaethChain, transport });
+
+        console.log(`⛽ Relayer enabled, submitting from ${this.account.address}`);
+    }
+
+    public get address(): string {
+        return this.account.address;
+    }
+
+    public get queued(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Check that the batch was signed by its signer for this contract and chain
+     */
+    public async verify(batch: SignedBatch): Promise<boolean> {
+        try {
+            return await verifyTypedData({
+                address: batch.signer,
+                domain: {
+                    name: 'Megaplace',
+                    version: '1',
+                    chainId: megaethChain.id,
+                    verifyingContract: CONTRACT_ADDRESS,
+                },
+                types: PLACE_PIXELS_TYPES,
+                primaryType: 'PlacePixels',
+                message: {
+                    signer: batch.signer,
+                    px: batch.px.map(BigInt),
+                    py: batch.py.map(BigInt),
+                    colors: batch.colors,
+                    nonce: batch.nonce,
+                    deadline: batch.deadline,
+                },
+                signature: batch.signature,
+            });
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Count a request against its IP's limit
+     * @returns False once the IP posted MAX_REQUESTS_PER_IP batches in the current window
+     */
+    public takeRequestSlot(ip: string): boolean {
+        const now = Date.now();
+        if (this.ipRequests.size > 10000) {
+            for (const [key, entry] of this.ipRequests) {
+                if (now - entry.windowStart >= IP_WINDOW_MS) this.ipRequests.delete(key);
+            }
+        }
+
+        const entry = this.ipRequests.get(ip);
+        if (!entry || now - entry.windowStart >= IP_WINDOW_MS) {
+            this.ipRequests.set(ip, { windowStart: now, count: 1 });
+            return true;
+        }
+        entry.count++;
+        return entry.count <= MAX_REQUESTS_PER_IP;
+    }
+
+    /**
+     * Check that a verified batch is worth paying gas for: the signer must be an active
+     * session key with budget for the batch, the wallet it places for must be out of
+     * cooldown, and the signer must not have too many batches waiting already
+     * Errors name the contract error the batch would have reverted with, so clients handle both alike
+     * @returns Why the batch is rejected, or null if it may be queued
+     */
+    public async admit(batch: SignedBatch): Promise<RelayRejection | null> {
+        const [owner, expiresAt, pixelBudget] = await this.publicClient.readContract({
+            address: CONTRACT_ADDRESS,
+            abi: RELAYER_ABI,
+            functionName: 'delegations',
+            args: [batch.signer],
+        });
+        if (owner === zeroAddress || expiresAt <= BigInt(Math.floor(Date.now() / 1000))) {
+            return { status: 403, error: 'Signer is not an authorized session key (DelegationExpired)' };
+        }
+        if (pixelBudget < batch.px.length) {
+            return { status: 403, error: 'Session key has no pixel budget left for this batch (DelegateBudgetExceeded)' };
+        }
+
+        const [canPlace, cooldownRemaining] = await this.publicClient.readContract({
+            address: CONTRACT_ADDRESS,
+            abi: RELAYER_ABI,
+            functionName: 'getCooldown',
+            args: [owner],
+        });
+        if (!canPlace) {
+            return { status: 429, error: 'Wallet is in cooldown (RateLimitExceeded)', retryAfter: Number(cooldownRemaining) };
+        }
+
+        if (this.queuedFor(batch.signer) >= MAX_QUEUED_JOBS_PER_SIGNER) {
+            return { status: 429, error: 'Too many batches waiting for this signer', retryAfter: 1 };
+        }
+        return null;
+    }
+
+    private queuedFor(signer: string): number {
+        const key = signer.toLowerCase();
+        return this.queue.filter(({ batch }) => batch.signer.toLowerCase() === key).length;
+    }
+
+    /**
+     * Queue an admitted batch for submission
+     * @returns The new job, or null if the queue (or the signer's share of it) is full
+     */
+    public enqueue(batch: SignedBatch): RelayJob | null {
+        if (this.queue.length >= MAX_QUEUED_JOBS || this.queuedFor(batch.signer) >= MAX_QUEUED_JOBS_PER_SIGNER) {
+            return null;
+        }
+
+        const job: RelayJob = {
+            id: randomUUID(),
+            signer: batch.signer,
+            nonce: batch.nonce.toString(),
+            pixels: batch.px.length,
+            status: 'queued',
+            txHash: null,
+            error: null,
+            createdAt: Date.now(),
+        };
+
+        this.jobs.set(job.id, job);
+        while (this.jobs.size > MAX_TRACKED_JOBS) {
+            this.jobs.delete(this.jobs.keys().next().value!);
+        }
+
+        this.queue.push({ job, batch });
+        this.processQueue();
+        return job;
+    }
+
+    public getJob(id: string): RelayJob | null {
+        return this.jobs.get(id) ?? null;
+    }
+
+    private async processQueue(): Promise<void> {
+        if (this.isProcessing) return;
+        this.isProcessing = true;
+
+        while (this.queue.length > 0) {
+            const { job, batch } = this.queue.shift()!;
+            await this.submit(job, batch);
+        }
+
+        this.isProcessing = false;
+    }
+
+    /**
+     * Simulate, send and wait for a batch, recording the outcome on its job
+     * Simulating first means a batch that would revert costs the relayer no gas
+     */
+    private async submit(job: RelayJob, batch: SignedBatch): Promise<void> {
+        try {
+            const { request } = await this.publicClient.simulateContract({
+                account: this.account,
+                address: CONTRACT_ADDRESS,
+                abi: RELAYER_ABI,
+                functionName: 'placePixelsWithSig',
+                args: [
+                    batch.signer,
+                    batch.px.map(BigInt),
+                    batch.py.map(BigInt),
+                    batch.colors,
+                    batch.nonce,
+                    batch.deadline,
+                    batch.signature,
+                ],
+            });
+
+            const hash = await this.walletClient.writeContract(request);
+            job.status = 'submitted';
+            job.txHash = hash;
+
+            const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+            if (receipt.status !== 'success') {
+                throw new Error('Transaction reverted');
+            }
+
+            job.status = 'confirmed';
+        } catch (error) {
+            job.status = 'failed';
+            job.error = describeError(error);
+            console.warn(`⚠️ Relay job ${job.id} for ${job.signer} failed: ${job.error}`);
+        }
+    }
+}
@@ -0,0 +1,211 @@
+import type { PixelData, PixelHistoryEntry } from './eventListener.js';
+
+// Canvas configuration (must match the contract and frontend/src/constants.ts)
+export const CANVAS_RES = 1048576; // 2^20 pixels per dimension
+
+// Pixels are bucketed into 256x256 squares so region queries only visit occupied buckets
+const BUCKET_SHIFT = 8;
+export const BUCKET_SIZE = 1 << BUCKET_SHIFT;
+const BUCKETS_PER_ROW = CANVAS_RES >> BUCKET_SHIFT;
+
+/**
+ * Numeric pixel index, same as the contract's canvas index
+ */
+export function pixelIndex(x: number, y: number): number {
+    return x + y * CANVAS_RES;
+}
+
+function bucketIndex(x: number, y: number): number {
+    return (x >> BUCKET_SHIFT) + (y >> BUCKET_SHIFT) * BUCKETS_PER_ROW;
+}
+
+/**
+ * Values keyed by canvas coordinates, bucketed by 256x256 tile and keyed by `px + py * CANVAS_RES`
+ * Region queries take time proportional to the occupied buckets they touch, not the area
+ */
+export class SpatialIndex<T> {
+    private buckets: Map<number, Map<number, T>> = new Map();
+    private count = 0;
+
+    public get size(): number {
+        return this.count;
+    }
+
+    public get(x: number, y: number): T | undefined {
+        return this.buckets.get(bucketIndex(x, y))?.get(pixelIndex(x, y));
+    }
+
+    public has(x: number, y: number): boolean {
+        return this.get(x, y) !== undefined;
+    }
+
+    /**
+     * Insert or replace the value at the coordinates
+     */
+    protected put(x: number, y: number, value: T): void {
+        const key = bucketIndex(x, y);
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new Map();
+            this.buckets.set(key, bucket);
+        }
+
+        const index = pixelIndex(x, y);
+        if (!bucket.has(index)) {
+            this.count++;
+        }
+        bucket.set(index, value);
+    }
+
+    /**
+     * Remove the value at the coordinates
+     * @returns Whether a value was removed
+     */
+    public delete(x: number, y: number): boolean {
+        const key = bucketIndex(x, y);
+        const bucket = this.buckets.get(key);
+        if (!bucket || !bucket.delete(pixelIndex(x, y))) {
+            return false;
+        }
+
+        this.count--;
+        if (bucket.size === 0) {
+            this.buckets.delete(key);
+        }
+        return true;
+    }
+
+    public *values(): IterableIterator<T> {
+        for (const bucket of this.buckets.values()) {
+            yield* bucket.values();
+        }
+    }
+
+    /**
+     * Get the values inside a rectangle
+     * @param limit Stop after this many values
+     */
+    public query(startX: number, startY: number, width: number, height: number, limit = Infinity): T[] {
+        const endX = Math.min(startX + width, CANVAS_RES) - 1;
+        const endY = Math.min(startY + height, CANVAS_RES) - 1;
+        const result: T[] = [];
+        if (endX < startX || endY < startY) {
+            return result;
+        }
+
+        const minBucketX = startX >> BUCKET_SHIFT;
+        const maxBucketX = endX >> BUCKET_SHIFT;
+        const minBucketY = startY >> BUCKET_SHIFT;
+        const maxBucketY = endY >> BUCKET_SHIFT;
+
+        const collect = (bucketX: number, bucketY: number, bucket: Map<number, T>): boolean => {
+            const left = bucketX * BUCKET_SIZE;
+            const top = bucketY * BUCKET_SIZE;
+            const contained = left >= startX && left + BUCKET_SIZE - 1 <= endX
+                && top >= startY && top + BUCKET_SIZE - 1 <= endY;
+
+            for (const [index, value] of bucket) {
+                const x = index % CANVAS_RES;
+                const y = (index - x) / CANVAS_RES;
+                if (contained || (x >= startX && x <= endX && y >= startY && y <= endY)) {
+                    result.push(value);
+                    if (result.length >= limit) return false;
+                }
+            }
+            return true;
+        };
+
+        // Walk whichever is smaller: the buckets covered by the rectangle or the occupied ones
+        const coveredBuckets = (maxBucketX - minBucketX + 1) * (maxBucketY - minBucketY + 1);
+        if (coveredBuckets <= this.buckets.size) {
+            for (let bucketY = minBucketY; bucketY <= maxBucketY; bucketY++) {
+                for (let bucketX = minBucketX; bucketX <= maxBucketX; bucketX++) {
+                    const bucket = this.buckets.get(bucketX + bucketY * BUCKETS_PER_ROW);
+                    if (bucket && !collect(bucketX, bucketY, bucket)) return result;
+                }
+            }
+        } else {
+            for (const [key, bucket] of this.buckets) {
+                const bucketX = key % BUCKETS_PER_ROW;
+                const bucketY = Math.floor(key / BUCKETS_PER_ROW);
+                if (bucketX < minBucketX || bucketX > maxBucketX || bucketY < minBucketY || bucketY > maxBucketY) {
+                    continue;
+                }
+                if (!collect(bucketX, bucketY, bucket)) return result;
+            }
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Current pixels of the canvas
+ */
+export class PixelIndex extends SpatialIndex<PixelData> {
+    /**
+     * Insert or replace the pixel at its coordinates
+     */
+    public set(pixel: PixelData): void {
+        this.put(pixel.x, pixel.y, pixel);
+    }
+}
+
+// Placements at one coordinate that are not sealed into a history segment yet (see pixelStore.ts)
+export interface RecentHistory {
+    before: PixelData | null; // The pixel as the sealed history left it, null if blank
+    entries: PixelHistoryEntry[]; // Oldest first, never empty
+}
+
+/**
+ * Recent placements at each coordinate of the canvas
+ * Erased pixels keep their history, so region replays find them too
+ */
+export class HistoryIndex extends SpatialIndex<RecentHistory> {
+    /**
+     * Add a placement after the earlier ones at its coordinates
+     * @param before The pixel at the coordinates before this placement, null if blank
+     */
+    public push(entry: PixelHistoryEntry, before: PixelData | null): void {
+        const recent = this.get(entry.x, entry.y);
+        if (recent) {
+            recent.entries.push(entry);
+        } else {
+            this.put(entry.x, entry.y, { before, entries: [entry] });
+        }
+    }
+}
+
+/**
+ * Values grouped by the 256x256 bucket their coordinates fall in
+ * Keyed by the bucket's top-left pixel, so a query aligned to bucket edges finds every bucket it touches
+ */
+export class BucketIndex<T> extends SpatialIndex<T[]> {
+    /**
+     * Add a value to the bucket containing the coordinates
+     */
+    public add(x: number, y: number, value: T): void {
+        const values = this.bucket(x, y);
+        if (values) {
+            values.push(value);
+        } else {
+            this.put(x - (x % BUCKET_SIZE), y - (y % BUCKET_SIZE), [value]);
+        }
+    }
+
+    /**
+     * Get the values of the bucket containing the coordinates
+     */
+    public bucket(x: number, y: number): T[] | undefined {
+        return this.get(x - (x % BUCKET_SIZE), y - (y % BUCKET_SIZE));
+    }
+
+    /**
+     * Get the value lists of every bucket the rectangle touches
+     */
+    public overlapping(minX: number, minY: number, maxX: number, maxY: number): T[][] {
+        const left = minX - (minX % BUCKET_SIZE);
+        const top = minY - (minY % BUCKET_SIZE);
+        return this.query(left, top, maxX - left + 1, maxY - top + 1);
+    }
+}
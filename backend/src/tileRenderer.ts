@@ -0,0 +1,164 @@
+import { deflateSync } from 'zlib';
+import type { PixelData } from './eventListener.js';
+import { CANVAS_RES, type PixelIndex } from './spatialIndex.js';
+
+const CANVAS_ZOOM = 20; // log2(CANVAS_RES)
+
+// Tiles follow the standard Web Mercator XYZ scheme used by Leaflet / OSM:
+// at zoom z the world is 2^z x 2^z tiles of TILE_PX x TILE_PX screen pixels,
+// so each tile covers CANVAS_RES / 2^z canvas pixels per side
+export const TILE_PX = 256;
+export const MAX_TILE_ZOOM = CANVAS_ZOOM; // One canvas pixel per tile
+const MAX_CACHED_TILES = 4096;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export interface RenderedTile {
+    png: Buffer;
+    etag: string;
+}
+
+// CRC-32 lookup table for PNG chunk checksums
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+    const chunk = Buffer.alloc(12 + data.length);
+    chunk.writeUInt32BE(data.length, 0);
+    chunk.write(type, 4, 'ascii');
+    data.copy(chunk, 8);
+    chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+    return chunk;
+}
+
+/**
+ * Encode RGBA pixel data (4 bytes per pixel, row-major) as a PNG
+ */
+export function encodePng(width: number, height: number, rgba: Buffer): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header.writeUInt8(8, 8); // Bit depth
+    header.writeUInt8(6, 9); // Color type: RGBA
+
+    // Each scanline is prefixed with filter type 0 (none)
+    const stride = width * 4;
+    const raw = Buffer.alloc((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        rgba.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+    }
+
+    return Buffer.concat([
+        PNG_SIGNATURE,
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', deflateSync(raw)),
+        pngChunk('IEND', Buffer.alloc(0)),
+    ]);
+}
+
+/**
+ * Renders and caches PNG tiles of the canvas
+ * Cached tiles are invalidated per pixel, so a placement only re-renders the tiles containing it
+ */
+export class TileRenderer {
+    private cache: Map<string, RenderedTile> = new Map(); // key: "z/x/y", oldest first
+    private generation = 0;
+    private emptyTile: Buffer = encodePng(TILE_PX, TILE_PX, Buffer.alloc(TILE_PX * TILE_PX * 4));
+
+    constructor(private getPixels: () => PixelIndex) { }
+
+    /**
+     * Get the PNG for a tile, rendering it if it is not cached
+     */
+    public getTile(z: number, x: number, y: number): RenderedTile {
+        const key = `${z}/${x}/${y}`;
+        const cached = this.cache.get(key);
+        if (cached) {
+            // Move to the back so the least recently used tile is evicted first
+            this.cache.delete(key);
+            this.cache.set(key, cached);
+            return cached;
+        }
+
+        const tile: RenderedTile = {
+            png: this.render(z, x, y),
+            etag: `"${key}-${++this.generation}"`,
+        };
+
+        this.cache.set(key, tile);
+        if (this.cache.size > MAX_CACHED_TILES) {
+            this.cache.delete(this.cache.keys().next().value!);
+        }
+
+        return tile;
+    }
+
+    /**
+     * Drop every cached tile (at any zoom) that contains a pixel
+     */
+    public invalidatePixel(px: number, py: number): void {
+        for (let z = 0; z <= MAX_TILE_ZOOM; z++) {
+            const shift = CANVAS_ZOOM - z;
+            this.cache.delete(`${z}/${px >> shift}/${py >> shift}`);
+        }
+    }
+
+    /**
+     * Drop all cached tiles
+     */
+    public clear(): void {
+        this.cache.clear();
+    }
+
+    private render(z: number, tileX: number, tileY: number): Buffer {
+        const span = CANVAS_RES / 2 ** z; // Canvas pixels per tile side
+        const minX = tileX * span;
+        const minY = tileY * span;
+        const pixels = this.getPixels();
+        const rgba = Buffer.alloc(TILE_PX * TILE_PX * 4);
+        let painted = 0;
+
+        const paint = (pixel: PixelData) => {
+            // Zoomed in, one canvas pixel covers a block of tile pixels;
+            // zoomed out, several canvas pixels share one tile pixel
+            const scale = TILE_PX / span;
+            const left = Math.floor((pixel.x - minX) * scale);
+            const top = Math.floor((pixel.y - minY) * scale);
+            const size = Math.max(1, scale);
+
+            for (let dy = 0; dy < size; dy++) {
+                for (let dx = 0; dx < size; dx++) {
+                    const offset = ((top + dy) * TILE_PX + left + dx) * 4;
+                    rgba[offset] = (pixel.color >> 16) & 0xff;
+                    rgba[offset + 1] = (pixel.color >> 8) & 0xff;
+                    rgba[offset + 2] = pixel.color & 0xff;
+                    rgba[offset + 3] = 0xff;
+                }
+            }
+            painted++;
+        };
+
+        for (const pixel of pixels.query(minX, minY, span, span)) {
+            paint(pixel);
+        }
+
+        return painted > 0 ? encodePng(TILE_PX, TILE_PX, rgba) : this.emptyTile;
+    }
+}
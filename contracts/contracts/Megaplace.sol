@@ -1,9 +1,13 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.30;
 
-import "@openzeppelin/contracts/access/Ownable2Step.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 
-contract Megaplace is Ownable2Step {
+contract Megaplace is AccessControl, EIP712, Nonces, Pausable {
     // Custom errors (saves ~50 gas per revert vs string messages)
     error InvalidCoordinates(uint256 px, uint256 py);
     error RateLimitExceeded(uint256 cooldownRemaining);
@@ -14,6 +18,25 @@ contract Megaplace is Ownable2Step {
     error RegionTooLarge(uint256 size, uint256 maxSize);
     error RegionOutOfBounds();
     error InvalidDimensions();
+    error ClaimTooLarge(uint256 width, uint256 height, uint256 maxSize);
+    error RegionAlreadyClaimed(uint256 claimId);
+    error TooManyClaimsInTile(uint256 tileX, uint256 tileY);
+    error PixelProtected(uint256 px, uint256 py, uint256 claimId);
+    error NotClaimOwner(uint256 claimId);
+    error ClaimNotActive(uint256 claimId);
+    error InvalidDelegate(address delegate);
+    error InvalidDelegationExpiry(uint64 expiresAt);
+    error NotDelegateOwner(address delegate);
+    error NotDelegated(address delegate);
+    error DelegationExpired(address delegate);
+    error DelegateBudgetExceeded(uint256 requested, uint256 remaining);
+    error SignatureExpired(uint256 deadline);
+    error InvalidSignature();
+    error InvalidPackedData(uint256 length);
+    error PlacerBanned(address account);
+    error TilePaused(uint256 tileX, uint256 tileY);
+    error InvalidPremiumPlan(uint256 planId);
+    error InvalidRecipient();
 
     // Optimized struct to fit in 1 storage slot (32 bytes)
     // This saves 1 SLOAD per pixel read = ~2100 gas saved per read
@@ -23,26 +46,78 @@ contract Megaplace is Ownable2Step {
         uint64 timestamp; // When placed (8 bytes) - valid until year 2554
     }
 
+    // A protected rectangle that only its owner and collaborators can paint (2 storage slots)
+    struct Claim {
+        address owner; // Who can paint and manage the region (20 bytes)
+        uint64 expiresAt; // Protection ends after this timestamp, 0 once released (8 bytes)
+        uint32 x; // Top-left corner and size in canvas pixels (4 x 4 bytes)
+        uint32 y;
+        uint32 width;
+        uint32 height;
+    }
+
+    // A premium tier anyone can buy for themselves or another address (1 storage slot)
+    struct PremiumPlan {
+        uint128 price; // Cost in wei per purchase (16 bytes)
+        uint64 duration; // Premium time added per purchase, 0 once the plan is retired (8 bytes)
+        uint32 batchCap; // Most pixels a holder may place in one call while premium, the largest stacked plan's (4 bytes)
+    }
+
+    // A session key allowed to place pixels on behalf of a wallet (1 storage slot)
+    struct Delegation {
+        address owner; // Wallet the pixels are attributed to (20 bytes)
+        uint64 expiresAt; // Delegation ends after this timestamp (8 bytes)
+        uint32 pixelBudget; // Pixels the delegate may still place (4 bytes)
+    }
+
     // Web Mercator projected canvas with CANVAS_RES = 2^20 (~1 million pixels per dimension)
     // This gives us ~1 trillion total pixels mapped to Earth's surface
     // Coordinates are global pixel positions in mercator projection
     uint256 public constant CANVAS_RES = 1048576; // 2^20
     uint256 public constant TILE_SIZE = 512; // Standard tile size
-    uint256 public constant MAX_REGION_SIZE = 10000; // Maximum pixels in a region query
+    uint256 public constant MAX_REGION_SIZE = 10000; // Maximum pixels in a region query, fill, line or clear (about 240M gas at most, within MegaETH's 2G-gas blocks)
+    uint256 public constant MAX_CLAIM_SIZE = 512; // Maximum claim width/height, so a claim spans at most 4 tiles
+    uint256 public constant MAX_CLAIMS_PER_TILE = 16; // Bounds the protection check done on every placement
+    uint256 public constant MIN_CLAIM_AREA_PER_TILE = (TILE_SIZE * TILE_SIZE) / MAX_CLAIMS_PER_TILE; // Billed per tile a claim overlaps
+    uint256 public constant MAX_PACKED_BATCH_SIZE = 500; // Maximum pixels in a placePixelsPacked call
+    uint256 private constant PACKED_PIXEL_BYTES = 8; // 20-bit x, 20-bit y, 24-bit color
+    uint256 private constant TILES_PER_ROW = CANVAS_RES / TILE_SIZE;
+
+    // Admin roles, granted and revoked by DEFAULT_ADMIN_ROLE
+    bytes32 public constant MODERATOR_ROLE = keccak256("MODERATOR_ROLE"); // Grants free premium access, clears regions, bans addresses and pauses placement
+    bytes32 public constant CONFIG_ADMIN_ROLE = keccak256("CONFIG_ADMIN_ROLE"); // Updates rate limits, prices and durations
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE"); // Withdraws collected ETH
+
+    // EIP-712 type of a signed batch placement (see placePixelsWithSig)
+    bytes32 public constant PLACE_PIXELS_TYPEHASH =
+        keccak256(
+            "PlacePixels(address signer,uint256[] px,uint256[] py,uint32[] colors,uint256 nonce,uint256 deadline)"
+        );
+
+    // EIP-712 type a session key signs to agree to place pixels for a wallet (see authorizeDelegate)
+    bytes32 public constant ACCEPT_DELEGATION_TYPEHASH =
+        keccak256(
+            "AcceptDelegation(address owner,uint64 expiresAt,uint32 pixelBudget,uint256 nonce)"
+        );
 
     // Configurable rate limit (default 5 seconds cooldown after 15 pixels)
     uint64 public rateLimitSeconds = 5;
     uint64 public rateLimitPixels = 15;
 
-    // Premium access cost (default 0.01 ETH)
-    uint256 public premiumCost = 0.01 ether;
+    // Premium plans by id; plan 0 is the default plan (0.01 ETH for 2 hours) used by moderator grants
+    uint256 public premiumPlanCount;
+    mapping(uint256 => PremiumPlan) public premiumPlans;
 
-    // Premium access duration (default 2 hours)
-    uint64 public premiumDuration = 2 hours;
+    // Region claim cost per pixel (default 0.000001 ETH) for claimDuration (default 7 days)
+    uint256 public claimPixelCost = 0.000001 ether;
+    uint64 public claimDuration = 7 days;
 
-    // use a mapping of uint256 to Pixel to save gas
-    // index = px + py * CANVAS_RES
-    mapping(uint256 => Pixel) public canvas;
+    // One canvas per epoch (season), mapping uint256 to Pixel to save gas
+    // index = px + py * CANVAS_RES; only the current epoch's canvas can change
+    mapping(uint256 => mapping(uint256 => Pixel)) public canvas;
+
+    // Epoch placements go to, starting at 0; startEpoch() archives the canvas and starts a blank one
+    uint256 public currentEpoch;
 
     // addresses to timestamp of last cooldown start for rate limits
     mapping(address => uint64) public lastCooldownStart;
@@ -53,6 +128,31 @@ contract Megaplace is Ownable2Step {
     // mapping of address to timestamp for premium access
     mapping(address => uint64) public premiumAccess;
 
+    // Batch cap of the plans a premium holder bought, largest one while purchases stack
+    mapping(address => uint32) public premiumBatchCap;
+
+    // Region claims by id (ids start at 1, 0 means no claim)
+    uint256 public claimCount;
+    mapping(uint256 => Claim) public claims;
+
+    // Addresses the claim owner allowed to paint inside a claim
+    mapping(uint256 => mapping(address => bool)) public claimCollaborators;
+
+    // Claims overlapping each tile, so a placement only checks its own tile
+    // index = tileX + tileY * TILES_PER_ROW
+    mapping(uint256 => uint256[]) private tileClaims;
+
+    // Session keys (delegates) to the wallet they place pixels for
+    mapping(address => Delegation) public delegations;
+
+    // Addresses a moderator banned from placing pixels (directly, as a delegate or by signature)
+    mapping(address => bool) public banned;
+
+    // Tiles a moderator froze (index = tileX + tileY * TILES_PER_ROW); pause() freezes the whole canvas
+    mapping(uint256 => bool) public pausedTiles;
+    // Number of paused tiles, so placements skip the tile lookup while none are paused
+    uint256 public pausedTileCount;
+
     // Events
     event PixelPlaced(
         address indexed user,
@@ -66,17 +166,98 @@ contract Megaplace is Ownable2Step {
         uint256 count,
         uint256 timestamp
     );
+    event RegionFilled(
+        address indexed user,
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height,
+        uint32 color,
+        uint256 timestamp
+    );
+    event LineDrawn(
+        address indexed user,
+        uint256 x0,
+        uint256 y0,
+        uint256 x1,
+        uint256 y1,
+        uint32 color,
+        uint256 timestamp
+    );
     event PremiumAccessGranted(
         address indexed user,
         uint64 expiryTime,
-        uint256 amountPaid
+        uint256 amountPaid,
+        uint256 indexed planId,
+        address indexed payer
     );
     event RateLimitUpdated(uint64 oldLimit, uint64 newLimit);
     event RateLimitPixelsUpdated(uint64 oldLimit, uint64 newLimit);
-    event PremiumCostUpdated(uint256 oldCost, uint256 newCost);
-    event PremiumDurationUpdated(uint64 oldDuration, uint64 newDuration);
+    event PremiumPlanUpdated(
+        uint256 indexed planId,
+        uint128 price,
+        uint64 duration,
+        uint32 batchCap
+    );
+    event RegionClaimed(
+        uint256 indexed claimId,
+        address indexed owner,
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height,
+        uint64 expiresAt,
+        uint256 amountPaid
+    );
+    event ClaimExtended(
+        uint256 indexed claimId,
+        uint64 expiresAt,
+        uint256 amountPaid
+    );
+    event RegionReleased(uint256 indexed claimId);
+    event ClaimCollaboratorUpdated(
+        uint256 indexed claimId,
+        address indexed collaborator,
+        bool allowed
+    );
+    event ClaimPixelCostUpdated(uint256 oldCost, uint256 newCost);
+    event ClaimDurationUpdated(uint64 oldDuration, uint64 newDuration);
+    event DelegateAuthorized(
+        address indexed owner,
+        address indexed delegate,
+        uint64 expiresAt,
+        uint32 pixelBudget
+    );
+    event DelegateRevoked(address indexed owner, address indexed delegate);
+    event RegionCleared(
+        address indexed moderator,
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height,
+        uint256 timestamp
+    );
+    event AddressBanned(address indexed account, address indexed moderator);
+    event AddressUnbanned(address indexed account, address indexed moderator);
+    event EpochStarted(uint256 indexed epoch, address indexed admin, uint256 timestamp);
+    event TilePauseUpdated(
+        uint256 indexed tileX,
+        uint256 indexed tileY,
+        bool paused,
+        address indexed moderator
+    );
 
-    constructor() Ownable(msg.sender) {}
+    /**
+     * @dev The deployer becomes the default admin and holds every role until it hands them out
+     */
+    constructor() EIP712("Megaplace", "1") {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(MODERATOR_ROLE, msg.sender);
+        _grantRole(CONFIG_ADMIN_ROLE, msg.sender);
+        _grantRole(TREASURER_ROLE, msg.sender);
+
+        _setPremiumPlan(0, 0.01 ether, 2 hours, uint32(MAX_REGION_SIZE));
+    }
 
     /**
      * @dev Place a pixel on the canvas using Web Mercator global coordinates
@@ -92,36 +273,11 @@ contract Megaplace is Ownable2Step {
         // Cache timestamp to avoid multiple block.timestamp calls
         uint64 currentTime = uint64(block.timestamp);
 
-        // Cache premium expiry (1 SLOAD instead of checking in conditional)
-        uint64 userPremiumExpiry = premiumAccess[msg.sender];
-
-        // Rate limit for regular users: after placing 15 pixels, wait 5 seconds
-        if (currentTime > userPremiumExpiry) {
-            uint64 lastCooldown = lastCooldownStart[msg.sender];
-            uint64 pixelsPlaced = pixelsPlacedSinceCooldown[msg.sender];
-
-            // Check if user is in cooldown (hit limit and cooldown not expired)
-            if (pixelsPlaced >= rateLimitPixels) {
-                if (currentTime < lastCooldown + rateLimitSeconds) {
-                    revert RateLimitExceeded(
-                        lastCooldown + rateLimitSeconds - currentTime
-                    );
-                }
-                // Cooldown expired, reset counter
-                pixelsPlaced = 0;
-            }
-
-            // Increment counter
-            unchecked {
-                pixelsPlaced++;
-                pixelsPlacedSinceCooldown[msg.sender] = pixelsPlaced;
-            }
+        // Placements by a delegate count against (and are attributed to) its owner
+        address user = _resolvePlacer(msg.sender, 1, currentTime);
+        _consumeRateLimit(user, 1, currentTime);
 
-            // Start cooldown timer when limit is reached
-            if (pixelsPlaced >= rateLimitPixels) {
-                lastCooldownStart[msg.sender] = currentTime;
-            }
-        }
+        _checkNotProtected(px, py, user, currentTime);
 
         // Calculate index using unchecked (overflow check done above)
         uint256 index;
@@ -130,9 +286,9 @@ contract Megaplace is Ownable2Step {
         }
 
         // Store pixel data (color 0 = unset/transparent, handled by frontend)
-        canvas[index] = Pixel(color, msg.sender, currentTime);
+        canvas[currentEpoch][index] = Pixel(color, user, currentTime);
 
-        emit PixelPlaced(msg.sender, px, py, color, currentTime);
+        emit PixelPlaced(user, px, py, color, currentTime);
     }
 
     /**
@@ -146,61 +302,286 @@ contract Megaplace is Ownable2Step {
         uint256[] calldata py,
         uint32[] calldata colors
     ) public {
-        uint256 length = px.length;
-        if (length != py.length || length != colors.length) {
-            revert ArrayLengthMismatch();
+        _placePixels(msg.sender, px, py, colors);
+    }
+
+    /**
+     * @dev Place multiple pixels encoded as tightly packed bytes, for cheaper calldata than placePixelBatch
+     * Each pixel is 8 bytes, big-endian: x (20 bits), y (20 bits), color (24 bits)
+     * 20-bit coordinates are always inside the canvas, so no bounds check is needed
+     * @param data Concatenated packed pixels (1 to MAX_PACKED_BATCH_SIZE of them)
+     */
+    function placePixelsPacked(bytes calldata data) external {
+        if (data.length % PACKED_PIXEL_BYTES != 0) {
+            revert InvalidPackedData(data.length);
         }
-        if (length == 0 || length > 100) {
-            revert InvalidBatchSize(length, 1, 100);
+        uint256 length = data.length / PACKED_PIXEL_BYTES;
+        if (length == 0 || length > MAX_PACKED_BATCH_SIZE) {
+            revert InvalidBatchSize(length, 1, MAX_PACKED_BATCH_SIZE);
         }
 
         uint64 currentTime = uint64(block.timestamp);
-        uint64 userPremiumExpiry = premiumAccess[msg.sender];
-
-        // Rate limit for regular users: after placing 15 pixels, wait 5 seconds
-        if (currentTime > userPremiumExpiry) {
-            uint64 lastCooldown = lastCooldownStart[msg.sender];
-            uint64 pixelsPlaced = pixelsPlacedSinceCooldown[msg.sender];
-
-            // Check if user is in cooldown (hit limit and cooldown not expired)
-            if (pixelsPlaced >= rateLimitPixels) {
-                if (currentTime < lastCooldown + rateLimitSeconds) {
-                    revert RateLimitExceeded(
-                        lastCooldown + rateLimitSeconds - currentTime
-                    );
-                }
-                // Cooldown expired, reset counter
-                pixelsPlaced = 0;
-            }
+        address user = _resolvePlacer(msg.sender, length, currentTime);
+        _consumeRateLimit(user, uint64(length), currentTime);
 
-            // Check if batch would exceed limit
-            if (pixelsPlaced + uint64(length) > rateLimitPixels) {
-                // Can place some but not all - revert with remaining capacity
-                revert InvalidBatchSize(
-                    length,
-                    1,
-                    rateLimitPixels - pixelsPlaced
-                );
+        mapping(uint256 => Pixel) storage pixels = canvas[currentEpoch];
+        for (uint256 i = 0; i < length; ) {
+            // Read 32 bytes at the pixel's offset and keep the top 8
+            uint256 packed;
+            assembly {
+                packed := shr(192, calldataload(add(data.offset, mul(i, 8))))
             }
+            uint256 px = packed >> 44;
+            uint256 py = (packed >> 24) & 0xFFFFF;
+            uint32 color = uint32(packed & 0xFFFFFF);
+
+            _checkNotProtected(px, py, user, currentTime);
 
-            // Update counter
-            uint64 newPixelsPlaced;
+            // Store pixel data (color 0 = unset/transparent, handled by frontend)
             unchecked {
-                newPixelsPlaced = pixelsPlaced + uint64(length);
-                pixelsPlacedSinceCooldown[msg.sender] = newPixelsPlaced;
+                pixels[px + py * CANVAS_RES] = Pixel(color, user, currentTime);
+                i++;
+            }
+            emit PixelPlaced(user, px, py, color, currentTime);
+        }
+
+        emit PixelsBatchPlaced(user, length, currentTime);
+    }
+
+    /**
+     * @dev Fill a rectangle with one color
+     * Counts width * height pixels against the rate limit but emits a single RegionFilled event
+     * @param x Left edge (global x coordinate)
+     * @param y Top edge (global y coordinate)
+     * @param width Width in pixels
+     * @param height Height in pixels
+     * @param color The RGB color of every pixel
+     */
+    function fillRect(
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height,
+        uint32 color
+    ) external {
+        uint256 count = _checkEditableRegion(x, y, width, height);
+
+        uint64 currentTime = uint64(block.timestamp);
+        address user = _resolvePlacer(msg.sender, count, currentTime);
+        _consumeRateLimit(user, uint64(count), currentTime);
+        _checkRegionNotProtected(x, y, width, height, user, currentTime);
+
+        Pixel memory pixel = Pixel(color, user, currentTime);
+        mapping(uint256 => Pixel) storage pixels = canvas[currentEpoch];
+        unchecked {
+            for (uint256 py = y; py < y + height; py++) {
+                uint256 rowStart = py * CANVAS_RES;
+                for (uint256 px = x; px < x + width; px++) {
+                    pixels[rowStart + px] = pixel;
+                }
             }
+        }
+
+        emit RegionFilled(user, x, y, width, height, color, currentTime);
+    }
+
+    /**
+     * @dev Check that a rectangle to fill or clear lies on the canvas and is at most MAX_REGION_SIZE pixels
+     * @return count Number of pixels in the rectangle
+     */
+    function _checkEditableRegion(
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height
+    ) private pure returns (uint256 count) {
+        if (width == 0 || height == 0) {
+            revert InvalidDimensions();
+        }
+        if (x >= CANVAS_RES || y >= CANVAS_RES || width > CANVAS_RES - x || height > CANVAS_RES - y) {
+            revert RegionOutOfBounds();
+        }
+        count = width * height;
+        if (count > MAX_REGION_SIZE) {
+            revert RegionTooLarge(count, MAX_REGION_SIZE);
+        }
+    }
+
+    /**
+     * @dev Draw a straight line with one color, including both end points (Bresenham's algorithm)
+     * Counts every pixel on the line against the rate limit but emits a single LineDrawn event
+     * @param x0 Start x coordinate
+     * @param y0 Start y coordinate
+     * @param x1 End x coordinate
+     * @param y1 End y coordinate
+     * @param color The RGB color of every pixel
+     */
+    function drawLine(
+        uint256 x0,
+        uint256 y0,
+        uint256 x1,
+        uint256 y1,
+        uint32 color
+    ) external {
+        if (x0 >= CANVAS_RES || y0 >= CANVAS_RES) {
+            revert InvalidCoordinates(x0, y0);
+        }
+        if (x1 >= CANVAS_RES || y1 >= CANVAS_RES) {
+            revert InvalidCoordinates(x1, y1);
+        }
+        uint256 dx = x1 > x0 ? x1 - x0 : x0 - x1;
+        uint256 dy = y1 > y0 ? y1 - y0 : y0 - y1;
+        uint256 count = (dx > dy ? dx : dy) + 1;
+        if (count > MAX_REGION_SIZE) {
+            revert RegionTooLarge(count, MAX_REGION_SIZE);
+        }
 
-            // Start cooldown timer when limit is reached
-            if (newPixelsPlaced >= rateLimitPixels) {
-                lastCooldownStart[msg.sender] = currentTime;
+        uint64 currentTime = uint64(block.timestamp);
+        address user = _resolvePlacer(msg.sender, count, currentTime);
+        _consumeRateLimit(user, uint64(count), currentTime);
+
+        _drawLinePixels(
+            int256(x0),
+            int256(y0),
+            int256(x1),
+            int256(y1),
+            Pixel(color, user, currentTime)
+        );
+
+        emit LineDrawn(user, x0, y0, x1, y1, color, currentTime);
+    }
+
+    /**
+     * @dev Write every pixel of a line from (x, y) to (x1, y1), checking claims per pixel
+     * Off-chain indexers expand LineDrawn with the same steps, so this must not change
+     */
+    function _drawLinePixels(
+        int256 x,
+        int256 y,
+        int256 x1,
+        int256 y1,
+        Pixel memory pixel
+    ) private {
+        int256 dx = x1 > x ? x1 - x : x - x1;
+        int256 dy = y1 > y ? y - y1 : y1 - y; // Negative
+        int256 sx = x < x1 ? int256(1) : int256(-1);
+        int256 sy = y < y1 ? int256(1) : int256(-1);
+        int256 err = dx + dy;
+        mapping(uint256 => Pixel) storage pixels = canvas[currentEpoch];
+
+        while (true) {
+            _checkNotProtected(uint256(x), uint256(y), pixel.placedBy, pixel.timestamp);
+            pixels[uint256(x) + uint256(y) * CANVAS_RES] = pixel;
+
+            if (x == x1 && y == y1) {
+                break;
             }
+            int256 e2 = 2 * err;
+            if (e2 >= dy) {
+                err += dy;
+                x += sx;
+            }
+            if (e2 <= dx) {
+                err += dx;
+                y += sy;
+            }
+        }
+    }
+
+    /**
+     * @dev Place a batch of pixels signed off-chain by `signer` (EIP-712), so anyone can relay it
+     * The batch is placed exactly as if `signer` had called placePixelBatch (delegation, rate limit, claims)
+     * @param signer The account that signed the batch
+     * @param px Array of x coordinates
+     * @param py Array of y coordinates
+     * @param colors Array of colors
+     * @param nonce The signer's current nonce (see nonces)
+     * @param deadline The signature is rejected after this timestamp
+     * @param signature EIP-712 ECDSA signature of PlacePixels by `signer`
+     */
+    function placePixelsWithSig(
+        address signer,
+        uint256[] calldata px,
+        uint256[] calldata py,
+        uint32[] calldata colors,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) {
+            revert SignatureExpired(deadline);
+        }
+
+        bytes32 digest = _hashPlacePixels(signer, px, py, colors, nonce, deadline);
+        (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, signature);
+        if (error != ECDSA.RecoverError.NoError || recovered != signer) {
+            revert InvalidSignature();
+        }
+        _useCheckedNonce(signer, nonce);
+
+        _placePixels(signer, px, py, colors);
+    }
+
+    /**
+     * @dev Get the EIP-712 digest of a PlacePixels batch
+     * Arrays are hashed as the concatenation of their 32-byte encoded elements
+     */
+    function _hashPlacePixels(
+        address signer,
+        uint256[] calldata px,
+        uint256[] calldata py,
+        uint32[] calldata colors,
+        uint256 nonce,
+        uint256 deadline
+    ) private view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        PLACE_PIXELS_TYPEHASH,
+                        signer,
+                        keccak256(abi.encodePacked(px)),
+                        keccak256(abi.encodePacked(py)),
+                        keccak256(abi.encodePacked(colors)),
+                        nonce,
+                        deadline
+                    )
+                )
+            );
+    }
+
+    /**
+     * @dev Place a batch of pixels for `placer` (the caller or a signer)
+     * @param placer The account placing the pixels, resolved to its owner if it is a delegate
+     * @param px Array of x coordinates
+     * @param py Array of y coordinates
+     * @param colors Array of colors
+     */
+    function _placePixels(
+        address placer,
+        uint256[] calldata px,
+        uint256[] calldata py,
+        uint32[] calldata colors
+    ) private {
+        uint256 length = px.length;
+        if (length != py.length || length != colors.length) {
+            revert ArrayLengthMismatch();
+        }
+        if (length == 0 || length > 100) {
+            revert InvalidBatchSize(length, 1, 100);
         }
 
+        uint64 currentTime = uint64(block.timestamp);
+        address user = _resolvePlacer(placer, length, currentTime);
+        _consumeRateLimit(user, uint64(length), currentTime);
+
         // Place all pixels
+        mapping(uint256 => Pixel) storage pixels = canvas[currentEpoch];
         for (uint256 i = 0; i < length; ) {
             if (px[i] >= CANVAS_RES || py[i] >= CANVAS_RES) {
                 revert InvalidCoordinates(px[i], py[i]);
             }
+            _checkNotProtected(px[i], py[i], user, currentTime);
 
             uint256 index;
             unchecked {
@@ -209,9 +590,9 @@ contract Megaplace is Ownable2Step {
             }
 
             // Store pixel data (color 0 = unset/transparent, handled by frontend)
-            canvas[index] = Pixel(colors[i - 1], msg.sender, currentTime);
+            pixels[index] = Pixel(colors[i - 1], user, currentTime);
             emit PixelPlaced(
-                msg.sender,
+                user,
                 px[i - 1],
                 py[i - 1],
                 colors[i - 1],
@@ -219,54 +600,544 @@ contract Megaplace is Ownable2Step {
             );
         }
 
-        emit PixelsBatchPlaced(msg.sender, length, currentTime);
+        emit PixelsBatchPlaced(user, length, currentTime);
+    }
+
+    /**
+     * @dev Get the wallet a placement counts against, spending a delegate's pixel budget
+     * @param placer The caller or signer placing the pixels
+     * @param count Number of pixels being placed
+     * @param currentTime Current block timestamp
+     * @return user The delegate's owner, or the placer if it is not a delegate
+     * Reverts if the canvas is paused or the placer or the wallet it places for is banned
+     */
+    function _resolvePlacer(
+        address placer,
+        uint256 count,
+        uint64 currentTime
+    ) private returns (address user) {
+        _requireNotPaused();
+        if (banned[placer]) {
+            revert PlacerBanned(placer);
+        }
+
+        Delegation storage delegation = delegations[placer];
+        user = delegation.owner;
+        if (user == address(0)) {
+            return placer;
+        }
+        if (banned[user]) {
+            revert PlacerBanned(user);
+        }
+
+        if (currentTime > delegation.expiresAt) {
+            revert DelegationExpired(placer);
+        }
+        uint32 budget = delegation.pixelBudget;
+        if (count > budget) {
+            revert DelegateBudgetExceeded(count, budget);
+        }
+        unchecked {
+            delegation.pixelBudget = budget - uint32(count);
+        }
     }
 
     /**
-     * @dev Grant premium access to caller
-     * Costs premiumCost ETH for premiumDuration
+     * @dev Count placements against a user's rate limit
+     * Premium users are exempt but may place at most their plan's batch cap per call.
+     * After placing rateLimitPixels pixels, the user waits rateLimitSeconds
+     * @param user The wallet placing the pixels
+     * @param count Number of pixels being placed
+     * @param currentTime Current block timestamp
      */
-    function grantPremiumAccess() external payable {
-        if (msg.value != premiumCost) {
-            revert IncorrectPaymentAmount(msg.value, premiumCost);
+    function _consumeRateLimit(
+        address user,
+        uint64 count,
+        uint64 currentTime
+    ) private {
+        if (currentTime <= premiumAccess[user]) {
+            uint32 batchCap = premiumBatchCap[user];
+            if (count > batchCap) {
+                revert InvalidBatchSize(count, 1, batchCap);
+            }
+            return;
+        }
+
+        uint64 lastCooldown = lastCooldownStart[user];
+        uint64 pixelsPlaced = pixelsPlacedSinceCooldown[user];
+
+        // Check if user is in cooldown (hit limit and cooldown not expired)
+        if (pixelsPlaced >= rateLimitPixels) {
+            if (currentTime < lastCooldown + rateLimitSeconds) {
+                revert RateLimitExceeded(
+                    lastCooldown + rateLimitSeconds - currentTime
+                );
+            }
+            // Cooldown expired, reset counter
+            pixelsPlaced = 0;
         }
 
-        uint64 expiryTime;
+        // Check if batch would exceed limit
+        if (pixelsPlaced + count > rateLimitPixels) {
+            // Can place some but not all - revert with remaining capacity
+            revert InvalidBatchSize(count, 1, rateLimitPixels - pixelsPlaced);
+        }
+
+        // Update counter
         unchecked {
-            expiryTime = uint64(block.timestamp + premiumDuration);
+            pixelsPlaced += count;
         }
-        premiumAccess[msg.sender] = expiryTime;
+        pixelsPlacedSinceCooldown[user] = pixelsPlaced;
 
-        emit PremiumAccessGranted(msg.sender, expiryTime, msg.value);
+        // Start cooldown timer when limit is reached
+        if (pixelsPlaced >= rateLimitPixels) {
+            lastCooldownStart[user] = currentTime;
+        }
     }
 
     /**
-     * @dev Owner-only function to grant free premium access
-     * @param user Address to grant premium access to
+     * @dev Authorize a session key to place pixels on the caller's behalf
+     * Its placements are attributed to the caller and count against the caller's rate limit.
+     * The delegate must agree by signing AcceptDelegation for the caller, so no wallet can
+     * register an address it doesn't control. Calling again with a new signature replaces
+     * the delegation (expiry, budget and owner).
+     * @param delegate The session key address
+     * @param expiresAt Timestamp after which the delegate can no longer place pixels
+     * @param pixelBudget Maximum number of pixels the delegate may place
+     * @param nonce The delegate's current nonce (see nonces)
+     * @param signature EIP-712 ECDSA signature of AcceptDelegation by `delegate`
+     */
+    function authorizeDelegate(
+        address delegate,
+        uint64 expiresAt,
+        uint32 pixelBudget,
+        uint256 nonce,
+        bytes calldata signature
+    ) external {
+        if (delegate == address(0) || delegate == msg.sender) {
+            revert InvalidDelegate(delegate);
+        }
+        if (expiresAt <= block.timestamp) {
+            revert InvalidDelegationExpiry(expiresAt);
+        }
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    ACCEPT_DELEGATION_TYPEHASH,
+                    msg.sender,
+                    expiresAt,
+                    pixelBudget,
+                    nonce
+                )
+            )
+        );
+        (address recovered, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, signature);
+        if (error != ECDSA.RecoverError.NoError || recovered != delegate) {
+            revert InvalidSignature();
+        }
+        _useCheckedNonce(delegate, nonce);
+
+        delegations[delegate] = Delegation(msg.sender, expiresAt, pixelBudget);
+
+        emit DelegateAuthorized(msg.sender, delegate, expiresAt, pixelBudget);
+    }
+
+    /**
+     * @dev Revoke a session key, after which it places pixels as itself again
+     * @param delegate The session key address
+     */
+    function revokeDelegate(address delegate) external {
+        if (delegations[delegate].owner != msg.sender) {
+            revert NotDelegateOwner(delegate);
+        }
+        delete delegations[delegate];
+
+        emit DelegateRevoked(msg.sender, delegate);
+    }
+
+    /**
+     * @dev Drop the caller's own delegation, after which it places pixels as itself again
+     */
+    function renounceDelegation() external {
+        address delegationOwner = delegations[msg.sender].owner;
+        if (delegationOwner == address(0)) {
+            revert NotDelegated(msg.sender);
+        }
+        delete delegations[msg.sender];
+
+        emit DelegateRevoked(delegationOwner, msg.sender);
+    }
+
+    /**
+     * @dev Claim a rectangle so only the caller and their collaborators can paint it
+     * Costs getClaimCost(x, y, width, height) ETH for claimDuration
+     * @param x Top-left x coordinate
+     * @param y Top-left y coordinate
+     * @param width Width of the region (1 to MAX_CLAIM_SIZE)
+     * @param height Height of the region (1 to MAX_CLAIM_SIZE)
+     * @param collaborators Wallets allowed to paint inside the region. A session key is checked as the
+     * wallet it is delegated to, so list that wallet rather than the key
+     * @return claimId Id of the new claim
+     */
+    function claimRegion(
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height,
+        address[] calldata collaborators
+    ) external payable returns (uint256 claimId) {
+        if (x >= CANVAS_RES || y >= CANVAS_RES) {
+            revert InvalidCoordinates(x, y);
+        }
+        if (width == 0 || height == 0) {
+            revert InvalidDimensions();
+        }
+        if (width > MAX_CLAIM_SIZE || height > MAX_CLAIM_SIZE) {
+            revert ClaimTooLarge(width, height, MAX_CLAIM_SIZE);
+        }
+        if (x + width > CANVAS_RES || y + height > CANVAS_RES) {
+            revert RegionOutOfBounds();
+        }
+
+        uint256 cost = getClaimCost(x, y, width, height);
+        if (msg.value != cost) {
+            revert IncorrectPaymentAmount(msg.value, cost);
+        }
+
+        unchecked {
+            claimId = ++claimCount;
+        }
+        _addClaimToTiles(claimId, x, y, width, height);
+
+        uint64 expiresAt;
+        unchecked {
+            expiresAt = uint64(block.timestamp) + claimDuration;
+        }
+        claims[claimId] = Claim(
+            msg.sender,
+            expiresAt,
+            uint32(x),
+            uint32(y),
+            uint32(width),
+            uint32(height)
+        );
+
+        emit RegionClaimed(
+            claimId,
+            msg.sender,
+            x,
+            y,
+            width,
+            height,
+            expiresAt,
+            msg.value
+        );
+
+        uint256 collaboratorCount = collaborators.length;
+        for (uint256 i = 0; i < collaboratorCount; ) {
+            claimCollaborators[claimId][collaborators[i]] = true;
+            emit ClaimCollaboratorUpdated(claimId, collaborators[i], true);
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /**
+     * @dev Extend an active claim by claimDuration, paying the current price again
+     * @param claimId The claim to extend
      */
-    function adminGrantPremiumAccess(address user) external onlyOwner {
-        uint64 expiryTime;
+    function extendClaim(uint256 claimId) external payable {
+        Claim storage claim = _activeClaimOf(claimId, msg.sender);
+
+        uint256 cost = getClaimCost(claim.x, claim.y, claim.width, claim.height);
+        if (msg.value != cost) {
+            revert IncorrectPaymentAmount(msg.value, cost);
+        }
+
+        uint64 expiresAt;
         unchecked {
-            expiryTime = uint64(block.timestamp + premiumDuration);
+            expiresAt = claim.expiresAt + claimDuration;
+        }
+        claim.expiresAt = expiresAt;
+
+        emit ClaimExtended(claimId, expiresAt, msg.value);
+    }
+
+    /**
+     * @dev Give up a claim so anyone can paint (and claim) the region again
+     * @param claimId The claim to release
+     */
+    function releaseClaim(uint256 claimId) external {
+        Claim storage claim = _activeClaimOf(claimId, msg.sender);
+        claim.expiresAt = 0;
+
+        emit RegionReleased(claimId);
+    }
+
+    /**
+     * @dev Allow or disallow an address to paint inside a claim
+     * @param claimId The claim to update
+     * @param collaborator The wallet to update (session keys paint as the wallet they are delegated to)
+     * @param allowed Whether the wallet may paint inside the claim
+     */
+    function setClaimCollaborator(
+        uint256 claimId,
+        address collaborator,
+        bool allowed
+    ) external {
+        _activeClaimOf(claimId, msg.sender);
+        claimCollaborators[claimId][collaborator] = allowed;
+
+        emit ClaimCollaboratorUpdated(claimId, collaborator, allowed);
+    }
+
+    /**
+     * @dev Register a claim with every tile it overlaps, reverting if it overlaps an active claim
+     */
+    function _addClaimToTiles(
+        uint256 claimId,
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height
+    ) private {
+        uint64 currentTime = uint64(block.timestamp);
+        uint256 maxTileX = (x + width - 1) / TILE_SIZE;
+        uint256 maxTileY = (y + height - 1) / TILE_SIZE;
+
+        // Any active claim overlapping this one shares at least one tile with it
+        for (uint256 tileY = y / TILE_SIZE; tileY <= maxTileY; tileY++) {
+            for (uint256 tileX = x / TILE_SIZE; tileX <= maxTileX; tileX++) {
+                uint256[] storage ids = tileClaims[tileX + tileY * TILES_PER_ROW];
+                _pruneExpiredClaims(ids, currentTime);
+
+                uint256 length = ids.length;
+                for (uint256 i = 0; i < length; ) {
+                    if (_overlaps(claims[ids[i]], x, y, width, height)) {
+                        revert RegionAlreadyClaimed(ids[i]);
+                    }
+                    unchecked {
+                        i++;
+                    }
+                }
+
+                if (length >= MAX_CLAIMS_PER_TILE) {
+                    revert TooManyClaimsInTile(tileX, tileY);
+                }
+                ids.push(claimId);
+            }
+        }
+    }
+
+    /**
+     * @dev Whether a claim overlaps a rectangle
+     */
+    function _overlaps(
+        Claim storage claim,
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height
+    ) private view returns (bool) {
+        return
+            x < uint256(claim.x) + claim.width &&
+            claim.x < x + width &&
+            y < uint256(claim.y) + claim.height &&
+            claim.y < y + height;
+    }
+
+    /**
+     * @dev Revert if the pixel's tile is paused, or an active claim someone else owns covers the pixel
+     * and the user (the resolved wallet, not a session key placing for it) is not a collaborator
+     */
+    function _checkNotProtected(
+        uint256 px,
+        uint256 py,
+        address user,
+        uint64 currentTime
+    ) private view {
+        _checkTileNotPaused(px / TILE_SIZE, py / TILE_SIZE);
+
+        uint256[] storage ids = tileClaims[
+            px / TILE_SIZE + (py / TILE_SIZE) * TILES_PER_ROW
+        ];
+        uint256 length = ids.length;
+
+        for (uint256 i = 0; i < length; ) {
+            uint256 claimId = ids[i];
+            Claim storage claim = claims[claimId];
+            if (
+                currentTime <= claim.expiresAt &&
+                claim.owner != user &&
+                px >= claim.x &&
+                px < uint256(claim.x) + claim.width &&
+                py >= claim.y &&
+                py < uint256(claim.y) + claim.height &&
+                !claimCollaborators[claimId][user]
+            ) {
+                revert PixelProtected(px, py, claimId);
+            }
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /**
+     * @dev Revert if the rectangle touches a paused tile or an active claim the user may not paint in
+     */
+    function _checkRegionNotProtected(
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height,
+        address user,
+        uint64 currentTime
+    ) private view {
+        uint256 maxTileX = (x + width - 1) / TILE_SIZE;
+        uint256 maxTileY = (y + height - 1) / TILE_SIZE;
+
+        for (uint256 tileY = y / TILE_SIZE; tileY <= maxTileY; tileY++) {
+            for (uint256 tileX = x / TILE_SIZE; tileX <= maxTileX; tileX++) {
+                _checkTileNotPaused(tileX, tileY);
+                _checkTileNotProtected(
+                    tileX + tileY * TILES_PER_ROW,
+                    x,
+                    y,
+                    width,
+                    height,
+                    user,
+                    currentTime
+                );
+            }
+        }
+    }
+
+    /**
+     * @dev Revert if one of a tile's active claims overlaps the rectangle and the user may not paint in it
+     * Reports the claim's first pixel inside the rectangle, like _checkNotProtected
+     */
+    function _checkTileNotProtected(
+        uint256 tileIndex,
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height,
+        address user,
+        uint64 currentTime
+    ) private view {
+        uint256[] storage ids = tileClaims[tileIndex];
+        uint256 length = ids.length;
+
+        for (uint256 i = 0; i < length; ) {
+            Claim storage claim = claims[ids[i]];
+            if (
+                currentTime <= claim.expiresAt &&
+                claim.owner != user &&
+                _overlaps(claim, x, y, width, height) &&
+                !claimCollaborators[ids[i]][user]
+            ) {
+                revert PixelProtected(
+                    x > claim.x ? x : claim.x,
+                    y > claim.y ? y : claim.y,
+                    ids[i]
+                );
+            }
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /**
+     * @dev Revert if a moderator paused the tile
+     */
+    function _checkTileNotPaused(uint256 tileX, uint256 tileY) private view {
+        if (pausedTileCount != 0 && pausedTiles[tileX + tileY * TILES_PER_ROW]) {
+            revert TilePaused(tileX, tileY);
+        }
+    }
+
+    /**
+     * @dev Remove expired and released claims from a tile's list (swap and pop)
+     */
+    function _pruneExpiredClaims(
+        uint256[] storage ids,
+        uint64 currentTime
+    ) private {
+        uint256 i = 0;
+        while (i < ids.length) {
+            if (currentTime > claims[ids[i]].expiresAt) {
+                ids[i] = ids[ids.length - 1];
+                ids.pop();
+            } else {
+                unchecked {
+                    i++;
+                }
+            }
+        }
+    }
+
+    /**
+     * @dev Get a claim owned by user that has not expired or been released
+     */
+    function _activeClaimOf(
+        uint256 claimId,
+        address user
+    ) private view returns (Claim storage claim) {
+        claim = claims[claimId];
+        if (claim.owner != user) {
+            revert NotClaimOwner(claimId);
+        }
+        if (block.timestamp > claim.expiresAt) {
+            revert ClaimNotActive(claimId);
+        }
+    }
+
+    /**
+     * @dev Buy a premium plan for yourself or as a gift for another address
+     * Time stacks: the plan's duration is added to any premium time the recipient has left,
+     * and the larger of the two batch caps applies to the whole stacked time
+     * @param planId The plan to buy (msg.value must equal its price)
+     * @param recipient The address receiving premium access (not the zero address)
+     */
+    function purchasePremium(uint256 planId, address recipient) external payable {
+        if (recipient == address(0)) {
+            revert InvalidRecipient();
+        }
+        PremiumPlan memory plan = premiumPlans[planId];
+        if (plan.duration == 0) {
+            revert InvalidPremiumPlan(planId);
+        }
+        if (msg.value != plan.price) {
+            revert IncorrectPaymentAmount(msg.value, plan.price);
         }
-        premiumAccess[user] = expiryTime;
 
-        emit PremiumAccessGranted(user, expiryTime, 0);
+        _grantPremium(recipient, planId, plan);
     }
 
     /**
-     * @dev Owner-only function to grant premium access to multiple users at once
+     * @dev Moderator-only function to grant free premium access (the default plan, stacked like a purchase)
+     * @param user Address to grant premium access to
+     */
+    function adminGrantPremiumAccess(address user) external onlyRole(MODERATOR_ROLE) {
+        _grantPremium(user, 0, premiumPlans[0]);
+    }
+
+    /**
+     * @dev Moderator-only function to grant premium access to multiple users at once
      * @param users Array of addresses to grant premium access to
      */
     function adminGrantPremiumAccessBatch(
         address[] calldata users
-    ) external onlyOwner {
-        uint64 expiryTime = uint64(block.timestamp + premiumDuration);
+    ) external onlyRole(MODERATOR_ROLE) {
+        PremiumPlan memory plan = premiumPlans[0];
         uint256 length = users.length;
 
         for (uint256 i = 0; i < length; ) {
-            premiumAccess[users[i]] = expiryTime;
-            emit PremiumAccessGranted(users[i], expiryTime, 0);
+            _grantPremium(users[i], 0, plan);
             unchecked {
                 i++;
             }
@@ -274,51 +1145,214 @@ contract Megaplace is Ownable2Step {
     }
 
     /**
-     * @dev Owner-only function to update the rate limit cooldown
+     * @dev Add a plan's duration to a user's premium time, keeping the larger batch cap while both run
+     */
+    function _grantPremium(
+        address user,
+        uint256 planId,
+        PremiumPlan memory plan
+    ) private {
+        uint64 currentTime = uint64(block.timestamp);
+        uint64 expiryTime = premiumAccess[user];
+        uint32 batchCap = plan.batchCap;
+
+        if (expiryTime < currentTime) {
+            expiryTime = currentTime;
+        } else if (premiumBatchCap[user] > batchCap) {
+            batchCap = premiumBatchCap[user];
+        }
+        unchecked {
+            expiryTime += plan.duration;
+        }
+
+        premiumAccess[user] = expiryTime;
+        premiumBatchCap[user] = batchCap;
+
+        emit PremiumAccessGranted(user, expiryTime, msg.value, planId, msg.sender);
+    }
+
+    /**
+     * @dev Moderator-only function to erase a region (e.g. offensive drawings), ignoring claims
+     * Cleared pixels read as unset; a single RegionCleared event stands for all of them
+     * @param x Left column of the region
+     * @param y Top row of the region
+     * @param width Region width in pixels
+     * @param height Region height in pixels
+     */
+    function clearRegion(
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height
+    ) external onlyRole(MODERATOR_ROLE) {
+        _checkEditableRegion(x, y, width, height);
+
+        mapping(uint256 => Pixel) storage pixels = canvas[currentEpoch];
+        unchecked {
+            for (uint256 py = y; py < y + height; py++) {
+                uint256 rowStart = py * CANVAS_RES;
+                for (uint256 px = x; px < x + width; px++) {
+                    delete pixels[rowStart + px];
+                }
+            }
+        }
+
+        emit RegionCleared(msg.sender, x, y, width, height, block.timestamp);
+    }
+
+    /**
+     * @dev Moderator-only function to ban or unban an address from placing pixels
+     * A banned wallet's delegates and signatures are rejected too
+     * @param account Address to update
+     * @param isBanned Whether the address may no longer place pixels
+     */
+    function setBanned(
+        address account,
+        bool isBanned
+    ) external onlyRole(MODERATOR_ROLE) {
+        banned[account] = isBanned;
+
+        if (isBanned) {
+            emit AddressBanned(account, msg.sender);
+        } else {
+            emit AddressUnbanned(account, msg.sender);
+        }
+    }
+
+    /**
+     * @dev Moderator-only function to stop all placements (e.g. during a spam wave or after a bug)
+     * Moderation, claims and premium purchases keep working while paused
+     */
+    function pause() external onlyRole(MODERATOR_ROLE) {
+        _pause();
+    }
+
+    /**
+     * @dev Moderator-only function to resume placements after pause()
+     */
+    function unpause() external onlyRole(MODERATOR_ROLE) {
+        _unpause();
+    }
+
+    /**
+     * @dev Moderator-only function to stop or resume placements in a single tile
+     * @param tileX The tile x coordinate (px / TILE_SIZE)
+     * @param tileY The tile y coordinate (py / TILE_SIZE)
+     * @param isPaused Whether placements in the tile are rejected
+     */
+    function setTilePaused(
+        uint256 tileX,
+        uint256 tileY,
+        bool isPaused
+    ) external onlyRole(MODERATOR_ROLE) {
+        if (tileX >= TILES_PER_ROW || tileY >= TILES_PER_ROW) {
+            revert InvalidCoordinates(tileX, tileY);
+        }
+
+        uint256 tileIndex = tileX + tileY * TILES_PER_ROW;
+        if (pausedTiles[tileIndex] != isPaused) {
+            pausedTiles[tileIndex] = isPaused;
+            if (isPaused) {
+                pausedTileCount++;
+            } else {
+                pausedTileCount--;
+            }
+        }
+
+        emit TilePauseUpdated(tileX, tileY, isPaused, msg.sender);
+    }
+
+    /**
+     * @dev Admin-only function to start a new epoch (e.g. for an event season)
+     * The current canvas stays readable through canvas(epoch, index); placements go to a blank one
+     * Claims, bans, pauses, rate limits and premium access carry over
+     */
+    function startEpoch() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        emit EpochStarted(++currentEpoch, msg.sender, block.timestamp);
+    }
+
+    /**
+     * @dev Config-admin-only function to update the rate limit cooldown
      * @param newLimit New rate limit in seconds
      */
-    function setRateLimitSeconds(uint64 newLimit) external onlyOwner {
+    function setRateLimitSeconds(uint64 newLimit) external onlyRole(CONFIG_ADMIN_ROLE) {
         uint64 oldLimit = rateLimitSeconds;
         rateLimitSeconds = newLimit;
         emit RateLimitUpdated(oldLimit, newLimit);
     }
 
     /**
-     * @dev Owner-only function to update the rate limit pixel count
+     * @dev Config-admin-only function to update the rate limit pixel count
      * @param newLimit New rate limit pixel count
      */
-    function setRateLimitPixels(uint64 newLimit) external onlyOwner {
+    function setRateLimitPixels(uint64 newLimit) external onlyRole(CONFIG_ADMIN_ROLE) {
         uint64 oldLimit = rateLimitPixels;
         rateLimitPixels = newLimit;
         emit RateLimitPixelsUpdated(oldLimit, newLimit);
     }
 
     /**
-     * @dev Owner-only function to update the premium cost
-     * @param newCost New premium cost in wei
+     * @dev Config-admin-only function to add a premium plan or update an existing one
+     * A duration of 0 retires the plan; premium already bought keeps its time and the batch cap it had
+     * @param planId An existing plan, or premiumPlanCount to add a new one
+     * @param price Cost in wei per purchase
+     * @param duration Premium time added per purchase in seconds
+     * @param batchCap Most pixels a holder may place in one call (at most MAX_REGION_SIZE)
+     */
+    function setPremiumPlan(
+        uint256 planId,
+        uint128 price,
+        uint64 duration,
+        uint32 batchCap
+    ) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (planId > premiumPlanCount || batchCap == 0 || batchCap > MAX_REGION_SIZE) {
+            revert InvalidPremiumPlan(planId);
+        }
+        _setPremiumPlan(planId, price, duration, batchCap);
+    }
+
+    /**
+     * @dev Store a plan, appending it when planId is the next free id
      */
-    function setPremiumCost(uint256 newCost) external onlyOwner {
-        uint256 oldCost = premiumCost;
-        premiumCost = newCost;
-        emit PremiumCostUpdated(oldCost, newCost);
+    function _setPremiumPlan(
+        uint256 planId,
+        uint128 price,
+        uint64 duration,
+        uint32 batchCap
+    ) private {
+        if (planId == premiumPlanCount) {
+            premiumPlanCount++;
+        }
+        premiumPlans[planId] = PremiumPlan(price, duration, batchCap);
+        emit PremiumPlanUpdated(planId, price, duration, batchCap);
     }
 
     /**
-     * @dev Owner-only function to update the premium duration
-     * @param newDuration New premium duration in seconds
+     * @dev Config-admin-only function to update the region claim cost per pixel
+     * @param newCost New cost per claimed pixel in wei
      */
-    function setPremiumDuration(uint64 newDuration) external onlyOwner {
-        uint64 oldDuration = premiumDuration;
-        premiumDuration = newDuration;
-        emit PremiumDurationUpdated(oldDuration, newDuration);
+    function setClaimPixelCost(uint256 newCost) external onlyRole(CONFIG_ADMIN_ROLE) {
+        uint256 oldCost = claimPixelCost;
+        claimPixelCost = newCost;
+        emit ClaimPixelCostUpdated(oldCost, newCost);
     }
 
     /**
-     * @dev Owner-only function to withdraw ETH from contract
+     * @dev Config-admin-only function to update how long a region claim lasts
+     * @param newDuration New claim duration in seconds
      */
-    function withdraw() external onlyOwner {
+    function setClaimDuration(uint64 newDuration) external onlyRole(CONFIG_ADMIN_ROLE) {
+        uint64 oldDuration = claimDuration;
+        claimDuration = newDuration;
+        emit ClaimDurationUpdated(oldDuration, newDuration);
+    }
+
+    /**
+     * @dev Treasurer-only function to withdraw ETH from contract to the caller
+     */
+    function withdraw() external onlyRole(TREASURER_ROLE) {
         // Use call instead of transfer for better gas handling
-        (bool success, ) = payable(owner()).call{value: address(this).balance}(
+        (bool success, ) = payable(msg.sender).call{value: address(this).balance}(
             ""
         );
         if (!success) {
@@ -354,7 +1388,7 @@ contract Megaplace is Ownable2Step {
             index = px + py * CANVAS_RES;
         }
 
-        Pixel memory p = canvas[index];
+        Pixel memory p = canvas[currentEpoch][index];
         return (p.color, p.placedBy, p.timestamp);
     }
 
@@ -390,6 +1424,7 @@ contract Megaplace is Ownable2Step {
         placedByAddresses = new address[](length);
         timestamps = new uint64[](length);
 
+        mapping(uint256 => Pixel) storage pixels = canvas[currentEpoch];
         for (uint256 i = 0; i < length; ) {
             if (px[i] >= CANVAS_RES || py[i] >= CANVAS_RES) {
                 revert InvalidCoordinates(px[i], py[i]);
@@ -400,7 +1435,7 @@ contract Megaplace is Ownable2Step {
                 index = px[i] + py[i] * CANVAS_RES;
             }
 
-            Pixel memory p = canvas[index];
+            Pixel memory p = pixels[index];
             colors[i] = p.color;
             placedByAddresses[i] = p.placedBy;
             timestamps[i] = p.timestamp;
@@ -444,6 +1479,7 @@ contract Megaplace is Ownable2Step {
 
         colors = new uint32[](totalPixels);
 
+        mapping(uint256 => Pixel) storage pixels = canvas[currentEpoch];
         uint256 arrayIndex = 0;
         for (uint256 dy = 0; dy < height; ) {
             for (uint256 dx = 0; dx < width; ) {
@@ -452,7 +1488,7 @@ contract Megaplace is Ownable2Step {
                     canvasIndex = (startPx + dx) + (startPy + dy) * CANVAS_RES;
                 }
 
-                colors[arrayIndex] = canvas[canvasIndex].color;
+                colors[arrayIndex] = pixels[canvasIndex].color;
 
                 unchecked {
                     dx++;
@@ -527,12 +1563,91 @@ contract Megaplace is Ownable2Step {
         return (true, 0, rateLimitPixels - pixelsPlaced);
     }
 
+    /**
+     * @dev Get the price of claiming (or extending a claim on) a rectangle for claimDuration
+     * Every tile the rectangle overlaps is billed at least MIN_CLAIM_AREA_PER_TILE pixels, so filling
+     * a tile's MAX_CLAIMS_PER_TILE slots costs as much as claiming the whole tile
+     * @param x Top-left x coordinate
+     * @param y Top-left y coordinate
+     * @param width Width of the region
+     * @param height Height of the region
+     * @return cost Price in wei
+     */
+    function getClaimCost(
+        uint256 x,
+        uint256 y,
+        uint256 width,
+        uint256 height
+    ) public view returns (uint256 cost) {
+        if (width == 0 || height == 0) {
+            revert InvalidDimensions();
+        }
+        uint256 tiles = ((x + width - 1) / TILE_SIZE - x / TILE_SIZE + 1) *
+            ((y + height - 1) / TILE_SIZE - y / TILE_SIZE + 1);
+        uint256 area = width * height;
+        uint256 minArea = tiles * MIN_CLAIM_AREA_PER_TILE;
+        cost = (area > minArea ? area : minArea) * claimPixelCost;
+    }
+
+    /**
+     * @dev Get the ids of the claims overlapping a tile (may include expired ones)
+     * @param tileX The tile x coordinate (px / TILE_SIZE)
+     * @param tileY The tile y coordinate (py / TILE_SIZE)
+     * @return claimIds Ids of the claims overlapping the tile
+     */
+    function getClaimsInTile(
+        uint256 tileX,
+        uint256 tileY
+    ) external view returns (uint256[] memory claimIds) {
+        if (tileX >= TILES_PER_ROW || tileY >= TILES_PER_ROW) {
+            revert InvalidCoordinates(tileX, tileY);
+        }
+        return tileClaims[tileX + tileY * TILES_PER_ROW];
+    }
+
+    /**
+     * @dev Get the active claim covering a pixel
+     * @param px The global x coordinate
+     * @param py The global y coordinate
+     * @return claimId The covering claim (0 if the pixel is not protected)
+     */
+    function getPixelClaim(
+        uint256 px,
+        uint256 py
+    ) external view returns (uint256 claimId) {
+        if (px >= CANVAS_RES || py >= CANVAS_RES) {
+            revert InvalidCoordinates(px, py);
+        }
+
+        uint256[] storage ids = tileClaims[
+            px / TILE_SIZE + (py / TILE_SIZE) * TILES_PER_ROW
+        ];
+        uint256 length = ids.length;
+
+        for (uint256 i = 0; i < length; ) {
+            Claim storage claim = claims[ids[i]];
+            if (
+                block.timestamp <= claim.expiresAt &&
+                px >= claim.x &&
+                px < uint256(claim.x) + claim.width &&
+                py >= claim.y &&
+                py < uint256(claim.y) + claim.height
+            ) {
+                return ids[i];
+            }
+            unchecked {
+                i++;
+            }
+        }
+        return 0;
+    }
+
     /**
      * @dev Get current configuration
      * @return _rateLimitSeconds Current rate limit cooldown in seconds
      * @return _rateLimitPixels Current rate limit pixels per cooldown period
-     * @return _premiumCost Current premium cost in wei
-     * @return _premiumDuration Current premium duration in seconds
+     * @return _premiumCost Price of the default premium plan in wei
+     * @return _premiumDuration Duration of the default premium plan in seconds
      */
     function getConfig()
         external
@@ -547,8 +1662,8 @@ contract Megaplace is Ownable2Step {
         return (
             rateLimitSeconds,
             rateLimitPixels,
-            premiumCost,
-            premiumDuration
+            premiumPlans[0].price,
+            premiumPlans[0].duration
         );
     }
 }
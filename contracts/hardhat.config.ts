@@ -21,7 +21,8 @@ const config: HardhatUserConfig = {
   },
   networks: {
     hardhat: {
-      chainId: 6343
+      chainId: 6343,
+      blockGasLimit: 2000000000 // Same as MegaETH, so writes of MAX_REGION_SIZE pixels fit as they do on chain
     },
     megaeth: {
       url: "https://timothy.megaeth.com/rpc",
@@ -29,7 +29,7 @@ async function main() {
 
   const contractAddress = await megaplace.getAddress();
   console.log("\n✅ Megaplace contract deployed to:", contractAddress);
-  console.log("Contract owner:", await megaplace.owner());
+  console.log("Contract admin (all roles):", deployer.address);
 
   // Update frontend configuration
   console.log("\nUpdating frontend configuration...");
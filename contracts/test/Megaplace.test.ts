@@ -8,6 +8,15 @@ const CANVAS_RES = 1048576; // 2^20
 const TILE_SIZE = 512;
 const MAX_REGION_SIZE = 10000;
 
+const ACCEPT_DELEGATION_TYPES = {
+  AcceptDelegation: [
+    { name: "owner", type: "address" },
+    { name: "expiresAt", type: "uint64" },
+    { name: "pixelBudget", type: "uint32" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
 // Helper functions for time manipulation
 async function getCurrentTime(): Promise<number> {
   const block = await ethers.provider.getBlock('latest');
@@ -19,6 +28,31 @@ async function increaseTime(seconds: number): Promise<void> {
   await network.provider.send("evm_mine");
 }
 
+// Pixels of a line as drawn by drawLine (Bresenham's algorithm, both end points included)
+function linePixels(x0: number, y0: number, x1: number, y1: number): Array<[number, number]> {
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  const pixels: Array<[number, number]> = [];
+  for (;;) {
+    pixels.push([x0, y0]);
+    if (x0 === x1 && y0 === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x0 += sx; }
+    if (e2 <= dx) { err += dx; y0 += sy; }
+  }
+  return pixels;
+}
+
+// Encode pixels for placePixelsPacked: 8 bytes each, x (20 bits) | y (20 bits) | color (24 bits)
+function packPixels(x: number[], y: number[], colors: number[]): string {
+  return "0x" + x.map((px, i) =>
+    ((BigInt(px) << 44n) | (BigInt(y[i]) << 24n) | BigInt(colors[i])).toString(16).padStart(16, "0")
+  ).join("");
+}
+
 describe("Megaplace", function () {
   let megaplace: Megaplace;
   let owner: HardhatEthersSigner;
@@ -34,9 +68,32 @@ describe("Megaplace", function () {
     await megaplace.waitForDeployment();
   });
 
+  // Register `delegate` as a session key of `wallet`, with the delegate's AcceptDelegation signature
+  async function authorizeDelegate(
+    wallet: HardhatEthersSigner,
+    delegate: HardhatEthersSigner,
+    expiresAt: number,
+    pixelBudget: number
+  ) {
+    const nonce = await megaplace.nonces(delegate.address);
+    const domain = {
+      name: "Megaplace",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await megaplace.getAddress(),
+    };
+    const signature = await delegate.signTypedData(domain, ACCEPT_DELEGATION_TYPES, {
+      owner: wallet.address, expiresAt, pixelBudget, nonce,
+    });
+    return megaplace.connect(wallet).authorizeDelegate(delegate.address, expiresAt, pixelBudget, nonce, signature);
+  }
+
   describe("Deployment", function () {
-    it("Should set the correct owner", async function () {
-      expect(await megaplace.owner()).to.equal(owner.address);
+    it("Should give the deployer the admin and every role", async function () {
+      expect(await megaplace.hasRole(await megaplace.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await megaplace.hasRole(await megaplace.MODERATOR_ROLE(), owner.address)).to.be.true;
+      expect(await megaplace.hasRole(await megaplace.CONFIG_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await megaplace.hasRole(await megaplace.TREASURER_ROLE(), owner.address)).to.be.true;
     });
 
     it("Should accept ETH via receive function", async function () {
@@ -58,23 +115,237 @@ describe("Megaplace", function () {
     });
   });
 
-  describe("Ownership Transfer (Ownable2Step)", function () {
-    it("Should allow owner to initiate ownership transfer", async function () {
-      await megaplace.connect(owner).transferOwnership(user1.address);
-      expect(await megaplace.pendingOwner()).to.equal(user1.address);
-      expect(await megaplace.owner()).to.equal(owner.address); // Still owner until accepted
+  describe("Access Control", function () {
+    it("Should let a moderator grant premium without config or treasury access", async function () {
+      await megaplace.connect(owner).grantRole(await megaplace.MODERATOR_ROLE(), user1.address);
+
+      await expect(megaplace.connect(user1).adminGrantPremiumAccess(user2.address))
+        .to.emit(megaplace, "PremiumAccessGranted");
+      await expect(megaplace.connect(user1).setPremiumPlan(0, 1, 1, 1))
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await megaplace.CONFIG_ADMIN_ROLE());
+      await expect(megaplace.connect(user1).withdraw())
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await megaplace.TREASURER_ROLE());
+    });
+
+    it("Should let a config admin update configuration only", async function () {
+      await megaplace.connect(owner).grantRole(await megaplace.CONFIG_ADMIN_ROLE(), user1.address);
+
+      await megaplace.connect(user1).setRateLimitSeconds(10);
+      expect(await megaplace.rateLimitSeconds()).to.equal(10);
+      await expect(megaplace.connect(user1).adminGrantPremiumAccess(user2.address))
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await megaplace.MODERATOR_ROLE());
+    });
+
+    it("Should send withdrawals to the treasurer calling withdraw", async function () {
+      await megaplace.connect(owner).grantRole(await megaplace.TREASURER_ROLE(), user1.address);
+      await megaplace.connect(user2).purchasePremium(0, user2.address, { value: ethers.parseEther("0.01") });
+
+      await expect(megaplace.connect(user1).withdraw())
+        .to.changeEtherBalances([megaplace, user1], [-ethers.parseEther("0.01"), ethers.parseEther("0.01")]);
+    });
+
+    it("Should stop a revoked role from acting", async function () {
+      const moderatorRole = await megaplace.MODERATOR_ROLE();
+      await megaplace.connect(owner).grantRole(moderatorRole, user1.address);
+      await megaplace.connect(owner).revokeRole(moderatorRole, user1.address);
+
+      await expect(megaplace.connect(user1).adminGrantPremiumAccess(user2.address))
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount");
     });
 
-    it("Should allow pending owner to accept ownership", async function () {
-      await megaplace.connect(owner).transferOwnership(user1.address);
-      await megaplace.connect(user1).acceptOwnership();
-      expect(await megaplace.owner()).to.equal(user1.address);
+    it("Should only let the admin grant roles", async function () {
+      await expect(megaplace.connect(user1).grantRole(await megaplace.MODERATOR_ROLE(), user1.address))
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await megaplace.DEFAULT_ADMIN_ROLE());
     });
 
-    it("Should reject non-pending owner accepting ownership", async function () {
-      await megaplace.connect(owner).transferOwnership(user1.address);
-      await expect(megaplace.connect(user2).acceptOwnership())
-        .to.be.revertedWithCustomError(megaplace, "OwnableUnauthorizedAccount");
+    it("Should hand over the admin role by granting it and renouncing", async function () {
+      const adminRole = await megaplace.DEFAULT_ADMIN_ROLE();
+      await megaplace.connect(owner).grantRole(adminRole, user1.address);
+      await megaplace.connect(owner).renounceRole(adminRole, owner.address);
+
+      expect(await megaplace.hasRole(adminRole, owner.address)).to.be.false;
+      await expect(megaplace.connect(user1).grantRole(await megaplace.TREASURER_ROLE(), user2.address))
+        .to.emit(megaplace, "RoleGranted");
+    });
+  });
+
+  describe("Moderation", function () {
+    it("Should let a moderator clear a region", async function () {
+      await megaplace.connect(user1).fillRect(10, 10, 3, 3, 0xff0000);
+      await megaplace.connect(user2).placePixel(20, 20, 0x00ff00);
+
+      const tx = await megaplace.connect(owner).clearRegion(10, 10, 11, 11);
+      const timestamp = await getCurrentTime();
+      await expect(tx).to.emit(megaplace, "RegionCleared").withArgs(owner.address, 10, 10, 11, 11, timestamp);
+
+      const [color, placedBy, placedAt] = await megaplace.getPixel(11, 11);
+      expect(color).to.equal(0);
+      expect(placedBy).to.equal(ethers.ZeroAddress);
+      expect(placedAt).to.equal(0);
+      expect((await megaplace.getPixel(20, 20))[0]).to.equal(0);
+    });
+
+    it("Should clear inside another user's claim", async function () {
+      await megaplace.connect(user1).claimRegion(0, 0, 4, 4, [], { value: await megaplace.getClaimCost(0, 0, 4, 4) });
+      await megaplace.connect(user1).placePixel(1, 1, 0xff0000);
+
+      await megaplace.connect(owner).clearRegion(0, 0, 4, 4);
+      expect((await megaplace.getPixel(1, 1))[0]).to.equal(0);
+    });
+
+    it("Should reject clearing by a non-moderator or beyond MAX_REGION_SIZE", async function () {
+      await expect(megaplace.connect(user1).clearRegion(0, 0, 1, 1))
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount");
+      await expect(megaplace.connect(owner).clearRegion(0, 0, 101, 100))
+        .to.be.revertedWithCustomError(megaplace, "RegionTooLarge")
+        .withArgs(10100, 10000);
+    });
+
+    it("Should stop a banned address from placing until it is unbanned", async function () {
+      await expect(megaplace.connect(owner).setBanned(user1.address, true))
+        .to.emit(megaplace, "AddressBanned")
+        .withArgs(user1.address, owner.address);
+      expect(await megaplace.banned(user1.address)).to.be.true;
+
+      await expect(megaplace.connect(user1).placePixel(0, 0, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "PlacerBanned")
+        .withArgs(user1.address);
+      await expect(megaplace.connect(user1).fillRect(0, 0, 2, 2, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "PlacerBanned");
+      await expect(megaplace.connect(user1).placePixelBatch([0], [0], [0xff0000]))
+        .to.be.revertedWithCustomError(megaplace, "PlacerBanned");
+
+      await expect(megaplace.connect(owner).setBanned(user1.address, false))
+        .to.emit(megaplace, "AddressUnbanned")
+        .withArgs(user1.address, owner.address);
+      await expect(megaplace.connect(user1).placePixel(0, 0, 0xff0000)).to.not.be.reverted;
+    });
+
+    it("Should reject the delegates of a banned wallet", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + 3600, 100);
+      await megaplace.connect(owner).setBanned(user1.address, true);
+
+      await expect(megaplace.connect(user2).placePixel(0, 0, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "PlacerBanned")
+        .withArgs(user1.address);
+    });
+
+    it("Should only let moderators ban", async function () {
+      await expect(megaplace.connect(user1).setBanned(user2.address, true))
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await megaplace.MODERATOR_ROLE());
+    });
+  });
+
+  describe("Pause", function () {
+    it("Should stop every placement while the canvas is paused", async function () {
+      await expect(megaplace.connect(owner).pause())
+        .to.emit(megaplace, "Paused")
+        .withArgs(owner.address);
+      expect(await megaplace.paused()).to.be.true;
+
+      await expect(megaplace.connect(user1).placePixel(0, 0, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "EnforcedPause");
+      await expect(megaplace.connect(user1).placePixelBatch([0], [0], [0xff0000]))
+        .to.be.revertedWithCustomError(megaplace, "EnforcedPause");
+      await expect(megaplace.connect(user1).fillRect(0, 0, 2, 2, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "EnforcedPause");
+
+      await expect(megaplace.connect(owner).unpause())
+        .to.emit(megaplace, "Unpaused")
+        .withArgs(owner.address);
+      await expect(megaplace.connect(user1).placePixel(0, 0, 0xff0000)).to.not.be.reverted;
+    });
+
+    it("Should still let moderators clear regions while paused", async function () {
+      await megaplace.connect(user1).placePixel(5, 5, 0xff0000);
+      await megaplace.connect(owner).pause();
+
+      await megaplace.connect(owner).clearRegion(5, 5, 1, 1);
+      expect((await megaplace.getPixel(5, 5))[0]).to.equal(0);
+    });
+
+    it("Should stop placements in a paused tile only", async function () {
+      await expect(megaplace.connect(owner).setTilePaused(1, 0, true))
+        .to.emit(megaplace, "TilePauseUpdated")
+        .withArgs(1, 0, true, owner.address);
+      expect(await megaplace.pausedTiles(1)).to.be.true;
+      expect(await megaplace.pausedTileCount()).to.equal(1);
+
+      await expect(megaplace.connect(user1).placePixel(TILE_SIZE, 0, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "TilePaused")
+        .withArgs(1, 0);
+      await expect(megaplace.connect(user1).placePixelBatch([0, TILE_SIZE + 1], [0, 0], [0xff0000, 0xff0000]))
+        .to.be.revertedWithCustomError(megaplace, "TilePaused");
+      // A rectangle straddling the tile edge touches the paused tile
+      await expect(megaplace.connect(user1).fillRect(TILE_SIZE - 1, 0, 2, 1, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "TilePaused")
+        .withArgs(1, 0);
+      await expect(megaplace.connect(user1).placePixel(TILE_SIZE - 1, 0, 0xff0000)).to.not.be.reverted;
+
+      await megaplace.connect(owner).setTilePaused(1, 0, false);
+      expect(await megaplace.pausedTileCount()).to.equal(0);
+      await expect(megaplace.connect(user1).placePixel(TILE_SIZE, 0, 0xff0000)).to.not.be.reverted;
+    });
+
+    it("Should count a tile paused twice once", async function () {
+      await megaplace.connect(owner).setTilePaused(3, 4, true);
+      await megaplace.connect(owner).setTilePaused(3, 4, true);
+      expect(await megaplace.pausedTileCount()).to.equal(1);
+    });
+
+    it("Should only let moderators pause", async function () {
+      const moderatorRole = await megaplace.MODERATOR_ROLE();
+      await expect(megaplace.connect(user1).pause())
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, moderatorRole);
+      await expect(megaplace.connect(user1).setTilePaused(0, 0, true))
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, moderatorRole);
+      await expect(megaplace.connect(owner).setTilePaused(CANVAS_RES / TILE_SIZE, 0, true))
+        .to.be.revertedWithCustomError(megaplace, "InvalidCoordinates");
+    });
+  });
+
+  describe("Epochs", function () {
+    it("Should start a blank canvas and keep the old one readable", async function () {
+      await megaplace.connect(user1).placePixel(10, 20, 0xff0000);
+      expect(await megaplace.currentEpoch()).to.equal(0);
+
+      await expect(megaplace.connect(owner).startEpoch())
+        .to.emit(megaplace, "EpochStarted")
+        .withArgs(1, owner.address, await getCurrentTime() + 1);
+      expect(await megaplace.currentEpoch()).to.equal(1);
+
+      expect((await megaplace.getPixel(10, 20))[0]).to.equal(0);
+      const archived = await megaplace.canvas(0, 10 + 20 * CANVAS_RES);
+      expect(archived.color).to.equal(0xff0000);
+      expect(archived.placedBy).to.equal(user1.address);
+    });
+
+    it("Should place, fill, draw and clear only in the current epoch", async function () {
+      await megaplace.connect(user1).fillRect(0, 0, 2, 1, 0x00ff00);
+      await megaplace.connect(owner).startEpoch();
+
+      await megaplace.connect(user1).placePixelBatch([0, 5], [0, 5], [0x0000ff, 0x0000ff]);
+      await megaplace.connect(user1).drawLine(0, 1, 2, 1, 0x0000ff);
+      await megaplace.connect(owner).clearRegion(0, 0, 1, 1);
+
+      expect((await megaplace.getRegion(0, 0, 2, 2)).map(Number)).to.deep.equal([0, 0, 0x0000ff, 0x0000ff]);
+      expect((await megaplace.canvas(0, 0)).color).to.equal(0x00ff00);
+      expect((await megaplace.canvas(0, 1)).color).to.equal(0x00ff00);
+      expect((await megaplace.canvas(1, 5 + 5 * CANVAS_RES)).color).to.equal(0x0000ff);
+    });
+
+    it("Should only let the admin start an epoch", async function () {
+      const adminRole = await megaplace.DEFAULT_ADMIN_ROLE();
+      await expect(megaplace.connect(user1).startEpoch())
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, adminRole);
     });
   });
 
@@ -162,7 +433,7 @@ describe("Megaplace", function () {
 
     it("Should allow premium users to bypass rate limit", async function () {
       // Grant premium access
-      await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
       // Place multiple pixels without waiting
       await megaplace.connect(user1).placePixel(0, 0, 0xff0000);
@@ -375,7 +646,7 @@ describe("Megaplace", function () {
     });
 
     it("Should allow premium users to place batches without rate limit", async function () {
-      await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
       const x1 = [0, 1];
       const y1 = [0, 1];
@@ -394,7 +665,7 @@ describe("Megaplace", function () {
 
     it("Should accept batch of 100 pixels (with premium access)", async function () {
       // Premium users can bypass rate limit
-      await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
       const x = Array(100).fill(0).map((_, i) => i % 100);
       const y = Array(100).fill(0);
@@ -406,9 +677,226 @@ describe("Megaplace", function () {
     });
   });
 
+  describe("placePixelsPacked", function () {
+    it("Should decode and place packed pixels", async function () {
+      const x = [0, CANVAS_RES - 1, 12345];
+      const y = [CANVAS_RES - 1, 0, 67890];
+      const colors = [0xff0000, 0x00ff00, 0x123456];
+
+      await expect(megaplace.connect(user1).placePixelsPacked(packPixels(x, y, colors)))
+        .to.emit(megaplace, "PixelsBatchPlaced")
+        .withArgs(user1.address, 3, await getCurrentTime() + 1);
+
+      for (let i = 0; i < x.length; i++) {
+        const [color, placedBy] = await megaplace.getPixel(x[i], y[i]);
+        expect(color).to.equal(colors[i]);
+        expect(placedBy).to.equal(user1.address);
+      }
+    });
+
+    it("Should emit PixelPlaced event for each packed pixel", async function () {
+      const tx = await megaplace.connect(user1).placePixelsPacked(packPixels([10, 11], [20, 21], [0xff0000, 0]));
+      const timestamp = await getCurrentTime();
+
+      await expect(tx).to.emit(megaplace, "PixelPlaced").withArgs(user1.address, 10, 20, 0xff0000, timestamp);
+      await expect(tx).to.emit(megaplace, "PixelPlaced").withArgs(user1.address, 11, 21, 0, timestamp);
+    });
+
+    it("Should reject data that is not a whole number of pixels", async function () {
+      await expect(megaplace.connect(user1).placePixelsPacked("0x" + "ab".repeat(9)))
+        .to.be.revertedWithCustomError(megaplace, "InvalidPackedData")
+        .withArgs(9);
+    });
+
+    it("Should reject empty and oversized batches", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+
+      await expect(megaplace.connect(user1).placePixelsPacked("0x"))
+        .to.be.revertedWithCustomError(megaplace, "InvalidBatchSize")
+        .withArgs(0, 1, 500);
+
+      const x = Array(501).fill(0).map((_, i) => i);
+      await expect(megaplace.connect(user1).placePixelsPacked(packPixels(x, Array(501).fill(0), Array(501).fill(1))))
+        .to.be.revertedWithCustomError(megaplace, "InvalidBatchSize")
+        .withArgs(501, 1, 500);
+    });
+
+    it("Should share the rate limit with placePixelBatch", async function () {
+      await megaplace.connect(user1).placePixelBatch(Array(10).fill(0).map((_, i) => i), Array(10).fill(0), Array(10).fill(1));
+
+      await expect(megaplace.connect(user1).placePixelsPacked(packPixels([0, 1, 2, 3, 4, 5], [1, 1, 1, 1, 1, 1], [1, 1, 1, 1, 1, 1])))
+        .to.be.revertedWithCustomError(megaplace, "InvalidBatchSize")
+        .withArgs(6, 1, 5);
+
+      await megaplace.connect(user1).placePixelsPacked(packPixels([0, 1, 2, 3, 4], [1, 1, 1, 1, 1], [1, 1, 1, 1, 1]));
+      await expect(megaplace.connect(user1).placePixelsPacked(packPixels([0], [2], [1])))
+        .to.be.revertedWithCustomError(megaplace, "RateLimitExceeded");
+    });
+
+    it("Should accept 500 pixels with premium access", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+
+      const x = Array(500).fill(0).map((_, i) => i);
+      await expect(megaplace.connect(user1).placePixelsPacked(packPixels(x, Array(500).fill(3), Array(500).fill(0xff0000))))
+        .to.emit(megaplace, "PixelsBatchPlaced")
+        .withArgs(user1.address, 500, await getCurrentTime() + 1);
+      expect((await megaplace.getPixel(499, 3)).color).to.equal(0xff0000);
+    });
+
+    it("Should respect region claims and delegations", async function () {
+      await megaplace.connect(user2).claimRegion(100, 100, 10, 10, [], { value: await megaplace.getClaimCost(100, 100, 10, 10) });
+      await expect(megaplace.connect(user1).placePixelsPacked(packPixels([1, 105], [1, 105], [1, 1])))
+        .to.be.revertedWithCustomError(megaplace, "PixelProtected");
+
+      await authorizeDelegate(user2, user3, (await getCurrentTime()) + 3600, 100);
+      await expect(megaplace.connect(user3).placePixelsPacked(packPixels([105], [105], [1])))
+        .to.emit(megaplace, "PixelPlaced")
+        .withArgs(user2.address, 105, 105, 1, await getCurrentTime() + 1);
+    });
+  });
+
+  describe("fillRect and drawLine", function () {
+    it("Should fill a rectangle with a single RegionFilled event", async function () {
+      const tx = await megaplace.connect(user1).fillRect(100, 200, 3, 4, 0xff0000);
+      const receipt = await tx.wait();
+
+      await expect(tx)
+        .to.emit(megaplace, "RegionFilled")
+        .withArgs(user1.address, 100, 200, 3, 4, 0xff0000, await getCurrentTime());
+      expect(receipt!.logs.filter((log: any) => log.fragment?.name === "PixelPlaced")).to.have.length(0);
+
+      const colors = await megaplace.getRegion(99, 199, 5, 6);
+      for (let dy = 0; dy < 6; dy++) {
+        for (let dx = 0; dx < 5; dx++) {
+          const inside = dx >= 1 && dx <= 3 && dy >= 1 && dy <= 4;
+          expect(colors[dy * 5 + dx]).to.equal(inside ? 0xff0000 : 0);
+        }
+      }
+      expect((await megaplace.getPixel(102, 203)).placedBy).to.equal(user1.address);
+      expect(await megaplace.pixelsPlacedSinceCooldown(user1.address)).to.equal(12);
+    });
+
+    it("Should count every filled pixel against the rate limit", async function () {
+      await expect(megaplace.connect(user1).fillRect(0, 0, 4, 4, 1))
+        .to.be.revertedWithCustomError(megaplace, "InvalidBatchSize")
+        .withArgs(16, 1, 15);
+
+      await megaplace.connect(user1).fillRect(0, 0, 5, 3, 1);
+      await expect(megaplace.connect(user1).fillRect(0, 10, 1, 1, 1))
+        .to.be.revertedWithCustomError(megaplace, "RateLimitExceeded");
+    });
+
+    it("Should reject invalid rectangles", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+
+      await expect(megaplace.connect(user1).fillRect(0, 0, 0, 5, 1))
+        .to.be.revertedWithCustomError(megaplace, "InvalidDimensions");
+      await expect(megaplace.connect(user1).fillRect(CANVAS_RES - 2, 0, 3, 1, 1))
+        .to.be.revertedWithCustomError(megaplace, "RegionOutOfBounds");
+      await expect(megaplace.connect(user1).fillRect(0, CANVAS_RES, 1, 1, 1))
+        .to.be.revertedWithCustomError(megaplace, "RegionOutOfBounds");
+      await expect(megaplace.connect(user1).fillRect(0, 0, 101, 100, 1))
+        .to.be.revertedWithCustomError(megaplace, "RegionTooLarge")
+        .withArgs(10100, MAX_REGION_SIZE);
+
+      await megaplace.connect(user1).fillRect(CANVAS_RES - 2, CANVAS_RES - 2, 2, 2, 1);
+      expect((await megaplace.getPixel(CANVAS_RES - 1, CANVAS_RES - 1)).color).to.equal(1);
+    });
+
+    it("Should not fill over someone else's claim", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      await megaplace.connect(user2).purchasePremium(0, user2.address, { value: ethers.parseEther("0.01") });
+      await megaplace.connect(user3).purchasePremium(0, user3.address, { value: ethers.parseEther("0.01") });
+      await megaplace.connect(user2).claimRegion(510, 510, 10, 10, [user3.address], { value: await megaplace.getClaimCost(510, 510, 10, 10) });
+
+      await expect(megaplace.connect(user1).fillRect(505, 505, 6, 6, 1))
+        .to.be.revertedWithCustomError(megaplace, "PixelProtected")
+        .withArgs(510, 510, 1);
+      await expect(megaplace.connect(user1).fillRect(515, 500, 1, 12, 1))
+        .to.be.revertedWithCustomError(megaplace, "PixelProtected")
+        .withArgs(515, 510, 1);
+
+      // Owner and collaborators may fill inside it
+      await megaplace.connect(user2).fillRect(505, 505, 3, 5, 1);
+      await megaplace.connect(user3).fillRect(512, 512, 3, 3, 2);
+    });
+
+    it("Should draw lines with a single LineDrawn event", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      const lines: Array<[number, number, number, number]> = [
+        [0, 0, 4, 0],
+        [10, 10, 10, 6],
+        [20, 20, 27, 23],
+        [40, 40, 37, 47],
+      ];
+
+      for (const [x0, y0, x1, y1] of lines) {
+        const tx = await megaplace.connect(user1).drawLine(x0, y0, x1, y1, 0x00ff00);
+        await expect(tx)
+          .to.emit(megaplace, "LineDrawn")
+          .withArgs(user1.address, x0, y0, x1, y1, 0x00ff00, await getCurrentTime());
+
+        const expected = linePixels(x0, y0, x1, y1);
+        const minX = Math.min(x0, x1), minY = Math.min(y0, y1);
+        const width = Math.abs(x1 - x0) + 1, height = Math.abs(y1 - y0) + 1;
+        const colors = await megaplace.getRegion(minX, minY, width, height);
+        const painted = new Set(expected.map(([x, y]) => `${x},${y}`));
+        for (let i = 0; i < colors.length; i++) {
+          const key = `${minX + (i % width)},${minY + Math.floor(i / width)}`;
+          expect(colors[i]).to.equal(painted.has(key) ? 0x00ff00 : 0, key);
+        }
+      }
+    });
+
+    it("Should count every line pixel against the rate limit", async function () {
+      await megaplace.connect(user1).drawLine(0, 0, 9, 3, 1);
+      expect(await megaplace.pixelsPlacedSinceCooldown(user1.address)).to.equal(10);
+
+      await expect(megaplace.connect(user1).drawLine(0, 5, 5, 5, 1))
+        .to.be.revertedWithCustomError(megaplace, "InvalidBatchSize")
+        .withArgs(6, 1, 5);
+    });
+
+    it("Should reject invalid lines", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+
+      await expect(megaplace.connect(user1).drawLine(0, 0, CANVAS_RES, 0, 1))
+        .to.be.revertedWithCustomError(megaplace, "InvalidCoordinates")
+        .withArgs(CANVAS_RES, 0);
+      await expect(megaplace.connect(user1).drawLine(0, 0, 0, MAX_REGION_SIZE, 1))
+        .to.be.revertedWithCustomError(megaplace, "RegionTooLarge")
+        .withArgs(MAX_REGION_SIZE + 1, MAX_REGION_SIZE);
+
+      // A single point is a valid line
+      await expect(megaplace.connect(user1).drawLine(7, 7, 7, 7, 3)).to.emit(megaplace, "LineDrawn");
+      expect((await megaplace.getPixel(7, 7)).color).to.equal(3);
+    });
+
+    it("Should not draw lines through someone else's claim", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      await megaplace.connect(user2).claimRegion(100, 100, 10, 10, [], { value: await megaplace.getClaimCost(100, 100, 10, 10) });
+
+      await expect(megaplace.connect(user1).drawLine(95, 95, 105, 105, 1))
+        .to.be.revertedWithCustomError(megaplace, "PixelProtected")
+        .withArgs(100, 100, 1);
+      await megaplace.connect(user1).drawLine(95, 95, 99, 110, 1);
+    });
+
+    it("Should attribute fills and lines by a delegate to its owner", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + 3600, 10);
+
+      await expect(megaplace.connect(user2).fillRect(0, 0, 2, 2, 1))
+        .to.emit(megaplace, "RegionFilled")
+        .withArgs(user1.address, 0, 0, 2, 2, 1, await getCurrentTime() + 1);
+      await expect(megaplace.connect(user2).drawLine(0, 5, 6, 5, 1))
+        .to.be.revertedWithCustomError(megaplace, "DelegateBudgetExceeded")
+        .withArgs(7, 6);
+    });
+  });
+
   describe("Premium Access", function () {
     it("Should grant premium access for 2 hours with correct payment", async function () {
-      const tx = await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+      const tx = await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
       const receipt = await tx.wait();
       const block = await ethers.provider.getBlock(receipt!.blockNumber);
       const expectedExpiry = BigInt(block!.timestamp) + BigInt(2 * 60 * 60); // 2 hours
@@ -422,27 +910,27 @@ describe("Megaplace", function () {
     });
 
     it("Should emit PremiumAccessGranted event", async function () {
-      await expect(megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") }))
+      await expect(megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") }))
         .to.emit(megaplace, "PremiumAccessGranted");
     });
 
     it("Should reject incorrect payment amount", async function () {
       await expect(
-        megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.005") })
+        megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.005") })
       ).to.be.revertedWithCustomError(megaplace, "IncorrectPaymentAmount")
         .withArgs(ethers.parseEther("0.005"), ethers.parseEther("0.01"));
 
       await expect(
-        megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.02") })
+        megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.02") })
       ).to.be.revertedWithCustomError(megaplace, "IncorrectPaymentAmount");
 
       await expect(
-        megaplace.connect(user1).grantPremiumAccess({ value: 0 })
+        megaplace.connect(user1).purchasePremium(0, user1.address, { value: 0 })
       ).to.be.revertedWithCustomError(megaplace, "IncorrectPaymentAmount");
     });
 
     it("Should expire premium access after 2 hours", async function () {
-      await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
       let [hasAccess] = await megaplace.hasPremiumAccess(user1.address);
       expect(hasAccess).to.be.true;
@@ -454,7 +942,7 @@ describe("Megaplace", function () {
       expect(hasAccess).to.be.false;
     });
 
-    it("Should allow owner to grant free premium access", async function () {
+    it("Should allow moderator to grant free premium access", async function () {
       await megaplace.connect(owner).adminGrantPremiumAccess(user1.address);
 
       const [hasAccess, expiryTime] = await megaplace.hasPremiumAccess(user1.address);
@@ -462,13 +950,13 @@ describe("Megaplace", function () {
       expect(expiryTime).to.be.gt(0);
     });
 
-    it("Should reject non-owner calling adminGrantPremiumAccess", async function () {
+    it("Should reject non-moderator calling adminGrantPremiumAccess", async function () {
       await expect(
         megaplace.connect(user1).adminGrantPremiumAccess(user2.address)
-      ).to.be.revertedWithCustomError(megaplace, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount");
     });
 
-    it("Should allow owner to grant premium access to multiple users", async function () {
+    it("Should allow moderator to grant premium access to multiple users", async function () {
       await megaplace.connect(owner).adminGrantPremiumAccessBatch([user1.address, user2.address, user3.address]);
 
       const [hasAccess1] = await megaplace.hasPremiumAccess(user1.address);
@@ -480,16 +968,101 @@ describe("Megaplace", function () {
       expect(hasAccess3).to.be.true;
     });
 
-    it("Should reject non-owner calling adminGrantPremiumAccessBatch", async function () {
+    it("Should reject non-moderator calling adminGrantPremiumAccessBatch", async function () {
       await expect(
         megaplace.connect(user1).adminGrantPremiumAccessBatch([user2.address, user3.address])
-      ).to.be.revertedWithCustomError(megaplace, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should stack purchased time on top of remaining premium", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      const firstExpiry = await megaplace.premiumAccess(user1.address);
+
+      await increaseTime(60 * 60);
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      expect(await megaplace.premiumAccess(user1.address)).to.equal(firstExpiry + BigInt(2 * 60 * 60));
+
+      // After expiry, a purchase starts from now again
+      await increaseTime(4 * 60 * 60);
+      const tx = await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      const block = await ethers.provider.getBlock((await tx.wait())!.blockNumber);
+      expect(await megaplace.premiumAccess(user1.address)).to.equal(BigInt(block!.timestamp + 2 * 60 * 60));
+    });
+
+    it("Should gift premium to another address", async function () {
+      await expect(megaplace.connect(user1).purchasePremium(0, user2.address, { value: ethers.parseEther("0.01") }))
+        .to.emit(megaplace, "PremiumAccessGranted")
+        .withArgs(user2.address, await getCurrentTime() + 1 + 2 * 60 * 60, ethers.parseEther("0.01"), 0, user1.address);
+
+      expect((await megaplace.hasPremiumAccess(user2.address))[0]).to.be.true;
+      expect((await megaplace.hasPremiumAccess(user1.address))[0]).to.be.false;
+    });
+
+    it("Should sell added plans at their own price and duration", async function () {
+      await expect(megaplace.connect(owner).setPremiumPlan(1, ethers.parseEther("0.05"), 24 * 60 * 60, 100))
+        .to.emit(megaplace, "PremiumPlanUpdated");
+      expect(await megaplace.premiumPlanCount()).to.equal(2);
+
+      await expect(megaplace.connect(user1).purchasePremium(1, user1.address, { value: ethers.parseEther("0.01") }))
+        .to.be.revertedWithCustomError(megaplace, "IncorrectPaymentAmount")
+        .withArgs(ethers.parseEther("0.01"), ethers.parseEther("0.05"));
+
+      const tx = await megaplace.connect(user1).purchasePremium(1, user1.address, { value: ethers.parseEther("0.05") });
+      const block = await ethers.provider.getBlock((await tx.wait())!.blockNumber);
+      expect(await megaplace.premiumAccess(user1.address)).to.equal(BigInt(block!.timestamp + 24 * 60 * 60));
+      expect(await megaplace.premiumBatchCap(user1.address)).to.equal(100);
+    });
+
+    it("Should limit premium placements to the plan's batch cap", async function () {
+      await megaplace.connect(owner).setPremiumPlan(1, ethers.parseEther("0.001"), 60 * 60, 20);
+      await megaplace.connect(user1).purchasePremium(1, user1.address, { value: ethers.parseEther("0.001") });
+
+      await expect(megaplace.connect(user1).fillRect(0, 0, 5, 4, 0xff0000)).to.not.be.reverted;
+      await expect(megaplace.connect(user1).fillRect(0, 0, 5, 5, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "InvalidBatchSize")
+        .withArgs(25, 1, 20);
+
+      // Stacking the default plan while the small one runs raises the cap
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      expect(await megaplace.premiumBatchCap(user1.address)).to.equal(MAX_REGION_SIZE);
+      await expect(megaplace.connect(user1).fillRect(0, 0, 5, 5, 0xff0000)).to.not.be.reverted;
+    });
+
+    it("Should keep the larger batch cap for the whole stacked time", async function () {
+      await megaplace.connect(owner).setPremiumPlan(1, ethers.parseEther("0.001"), 60 * 60, 20);
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      await megaplace.connect(user1).purchasePremium(1, user1.address, { value: ethers.parseEther("0.001") });
+      expect(await megaplace.premiumBatchCap(user1.address)).to.equal(MAX_REGION_SIZE);
+
+      // Still the default plan's cap in the hour bought under the small plan
+      await increaseTime(2 * 60 * 60 + 30 * 60);
+      await expect(megaplace.connect(user1).fillRect(0, 0, 5, 5, 0xff0000)).to.not.be.reverted;
+    });
+
+    it("Should reject buying premium for the zero address", async function () {
+      await expect(megaplace.connect(user1).purchasePremium(0, ethers.ZeroAddress, { value: ethers.parseEther("0.01") }))
+        .to.be.revertedWithCustomError(megaplace, "InvalidRecipient");
+    });
+
+    it("Should reject unknown, retired and invalid plans", async function () {
+      await expect(megaplace.connect(user1).purchasePremium(1, user1.address, { value: 0 }))
+        .to.be.revertedWithCustomError(megaplace, "InvalidPremiumPlan")
+        .withArgs(1);
+
+      await megaplace.connect(owner).setPremiumPlan(0, ethers.parseEther("0.01"), 0, MAX_REGION_SIZE);
+      await expect(megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") }))
+        .to.be.revertedWithCustomError(megaplace, "InvalidPremiumPlan");
+
+      await expect(megaplace.connect(owner).setPremiumPlan(2, 1, 1, 1))
+        .to.be.revertedWithCustomError(megaplace, "InvalidPremiumPlan");
+      await expect(megaplace.connect(owner).setPremiumPlan(1, 1, 1, MAX_REGION_SIZE + 1))
+        .to.be.revertedWithCustomError(megaplace, "InvalidPremiumPlan");
     });
 
     it("Should add premium payment to contract balance", async function () {
       const initialBalance = await ethers.provider.getBalance(await megaplace.getAddress());
 
-      await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
       const finalBalance = await ethers.provider.getBalance(await megaplace.getAddress());
       expect(finalBalance - initialBalance).to.equal(ethers.parseEther("0.01"));
@@ -513,36 +1086,31 @@ describe("Megaplace", function () {
       expect(await megaplace.rateLimitPixels()).to.equal(30);
     });
 
-    it("Should allow owner to update premium cost", async function () {
+    it("Should allow owner to update the default premium plan", async function () {
       const newCost = ethers.parseEther("0.05");
-      await expect(megaplace.connect(owner).setPremiumCost(newCost))
-        .to.emit(megaplace, "PremiumCostUpdated")
-        .withArgs(ethers.parseEther("0.01"), newCost);
-
-      expect(await megaplace.premiumCost()).to.equal(newCost);
-    });
-
-    it("Should allow owner to update premium duration", async function () {
       const newDuration = 4 * 60 * 60; // 4 hours
-      await expect(megaplace.connect(owner).setPremiumDuration(newDuration))
-        .to.emit(megaplace, "PremiumDurationUpdated")
-        .withArgs(2 * 60 * 60, newDuration);
+      await expect(megaplace.connect(owner).setPremiumPlan(0, newCost, newDuration, 500))
+        .to.emit(megaplace, "PremiumPlanUpdated")
+        .withArgs(0, newCost, newDuration, 500);
 
-      expect(await megaplace.premiumDuration()).to.equal(newDuration);
+      const [price, duration, batchCap] = await megaplace.premiumPlans(0);
+      expect(price).to.equal(newCost);
+      expect(duration).to.equal(newDuration);
+      expect(batchCap).to.equal(500);
+      const [, , premiumCost, premiumDuration] = await megaplace.getConfig();
+      expect(premiumCost).to.equal(newCost);
+      expect(premiumDuration).to.equal(newDuration);
     });
 
-    it("Should reject non-owner updating configuration", async function () {
+    it("Should reject non-config-admin updating configuration", async function () {
       await expect(megaplace.connect(user1).setRateLimitSeconds(30))
-        .to.be.revertedWithCustomError(megaplace, "OwnableUnauthorizedAccount");
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount");
 
       await expect(megaplace.connect(user1).setRateLimitPixels(30))
-        .to.be.revertedWithCustomError(megaplace, "OwnableUnauthorizedAccount");
-
-      await expect(megaplace.connect(user1).setPremiumCost(ethers.parseEther("0.05")))
-        .to.be.revertedWithCustomError(megaplace, "OwnableUnauthorizedAccount");
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount");
 
-      await expect(megaplace.connect(user1).setPremiumDuration(4 * 60 * 60))
-        .to.be.revertedWithCustomError(megaplace, "OwnableUnauthorizedAccount");
+      await expect(megaplace.connect(user1).setPremiumPlan(1, ethers.parseEther("0.05"), 4 * 60 * 60, 100))
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount");
     });
 
     it("Should use updated rate limit for new placements", async function () {
@@ -563,20 +1131,20 @@ describe("Megaplace", function () {
 
     it("Should use updated premium cost", async function () {
       const newCost = ethers.parseEther("0.05");
-      await megaplace.connect(owner).setPremiumCost(newCost);
+      await megaplace.connect(owner).setPremiumPlan(0, newCost, 2 * 60 * 60, MAX_REGION_SIZE);
 
       // Old price should fail
-      await expect(megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") }))
+      await expect(megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") }))
         .to.be.revertedWithCustomError(megaplace, "IncorrectPaymentAmount");
 
       // New price should succeed
-      await expect(megaplace.connect(user1).grantPremiumAccess({ value: newCost }))
+      await expect(megaplace.connect(user1).purchasePremium(0, user1.address, { value: newCost }))
         .to.not.be.reverted;
     });
   });
 
   describe("Withdraw", function () {
-    it("Should allow owner to withdraw ETH", async function () {
+    it("Should allow treasurer to withdraw ETH", async function () {
       // Send ETH to contract
       await user1.sendTransaction({
         to: await megaplace.getAddress(),
@@ -597,10 +1165,10 @@ describe("Megaplace", function () {
       expect(finalOwnerBalance).to.equal(initialOwnerBalance + contractBalance - gasUsed);
     });
 
-    it("Should reject non-owner calling withdraw", async function () {
+    it("Should reject non-treasurer calling withdraw", async function () {
       await expect(
         megaplace.connect(user1).withdraw()
-      ).to.be.revertedWithCustomError(megaplace, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount");
     });
 
     it("Should handle withdrawing when balance is zero", async function () {
@@ -752,7 +1320,7 @@ describe("Megaplace", function () {
       });
 
       it("Should return true for users with active premium", async function () {
-        await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+        await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
         const [hasAccess, expiryTime] = await megaplace.hasPremiumAccess(user1.address);
         expect(hasAccess).to.be.true;
@@ -760,7 +1328,7 @@ describe("Megaplace", function () {
       });
 
       it("Should return false after premium expires", async function () {
-        await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+        await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
         await increaseTime(2 * 60 * 60 + 1); // 2 hours + 1 second
 
@@ -826,7 +1394,7 @@ describe("Megaplace", function () {
       });
 
       it("Should return can place for premium users always", async function () {
-        await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+        await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
         // Place many pixels (premium users have no limit)
         for (let i = 0; i < 20; i++) {
@@ -840,7 +1408,7 @@ describe("Megaplace", function () {
       });
 
       it("Should enforce cooldown after premium expires", async function () {
-        await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+        await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
         // Advance time to just after premium expires
         await increaseTime(2 * 60 * 60 + 1);
@@ -967,6 +1535,475 @@ describe("Megaplace", function () {
     });
   });
 
+  describe("Region Claims", function () {
+    const CLAIM_PIXEL_COST = ethers.parseEther("0.000001");
+    const CLAIM_DURATION = 7 * 24 * 60 * 60;
+
+    const MIN_CLAIM_AREA_PER_TILE = (TILE_SIZE * TILE_SIZE) / 16;
+
+    // Price of a claim: its area, but at least MIN_CLAIM_AREA_PER_TILE pixels per tile it overlaps
+    function claimCost(x: number, y: number, width: number, height: number): bigint {
+      const tiles = (Math.floor((x + width - 1) / TILE_SIZE) - Math.floor(x / TILE_SIZE) + 1) *
+        (Math.floor((y + height - 1) / TILE_SIZE) - Math.floor(y / TILE_SIZE) + 1);
+      return BigInt(Math.max(width * height, tiles * MIN_CLAIM_AREA_PER_TILE)) * CLAIM_PIXEL_COST;
+    }
+
+    it("Should claim a region and emit RegionClaimed", async function () {
+      const tx = await megaplace.connect(user1).claimRegion(100, 200, 10, 20, [], { value: claimCost(100, 200, 10, 20) });
+      const expiresAt = (await getCurrentTime()) + CLAIM_DURATION;
+
+      await expect(tx)
+        .to.emit(megaplace, "RegionClaimed")
+        .withArgs(1, user1.address, 100, 200, 10, 20, expiresAt, claimCost(100, 200, 10, 20));
+
+      const claim = await megaplace.claims(1);
+      expect(claim.owner).to.equal(user1.address);
+      expect(claim.expiresAt).to.equal(expiresAt);
+      expect(claim.width).to.equal(10);
+      expect(claim.height).to.equal(20);
+      expect(await megaplace.claimCount()).to.equal(1);
+    });
+
+    it("Should reject incorrect payment", async function () {
+      await expect(
+        megaplace.connect(user1).claimRegion(0, 0, 10, 10, [], { value: claimCost(0, 0, 10, 10) - 1n })
+      ).to.be.revertedWithCustomError(megaplace, "IncorrectPaymentAmount");
+    });
+
+    it("Should reject invalid dimensions", async function () {
+      await expect(
+        megaplace.connect(user1).claimRegion(0, 0, 0, 10, [], { value: 0 })
+      ).to.be.revertedWithCustomError(megaplace, "InvalidDimensions");
+
+      await expect(
+        megaplace.connect(user1).claimRegion(0, 0, 513, 1, [], { value: claimCost(0, 0, 513, 1) })
+      ).to.be.revertedWithCustomError(megaplace, "ClaimTooLarge");
+
+      await expect(
+        megaplace.connect(user1).claimRegion(CANVAS_RES - 5, 0, 10, 10, [], { value: claimCost(CANVAS_RES - 5, 0, 10, 10) })
+      ).to.be.revertedWithCustomError(megaplace, "RegionOutOfBounds");
+    });
+
+    it("Should reject claims overlapping an active claim", async function () {
+      await megaplace.connect(user1).claimRegion(500, 500, 20, 20, [], { value: claimCost(500, 500, 20, 20) });
+
+      // Overlaps across the tile boundary at 512
+      await expect(
+        megaplace.connect(user2).claimRegion(515, 515, 10, 10, [], { value: claimCost(515, 515, 10, 10) })
+      ).to.be.revertedWithCustomError(megaplace, "RegionAlreadyClaimed")
+        .withArgs(1);
+
+      // Adjacent regions are fine
+      await megaplace.connect(user2).claimRegion(520, 500, 10, 10, [], { value: claimCost(520, 500, 10, 10) });
+    });
+
+    it("Should protect claimed pixels from other users", async function () {
+      await megaplace.connect(user1).claimRegion(100, 100, 10, 10, [], { value: claimCost(100, 100, 10, 10) });
+
+      await expect(megaplace.connect(user2).placePixel(105, 105, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "PixelProtected")
+        .withArgs(105, 105, 1);
+
+      // Outside the region is unaffected
+      await megaplace.connect(user2).placePixel(110, 105, 0xff0000);
+
+      // The owner can paint inside
+      await megaplace.connect(user1).placePixel(105, 105, 0x00ff00);
+      expect((await megaplace.getPixel(105, 105)).color).to.equal(0x00ff00);
+    });
+
+    it("Should protect claimed pixels in batches", async function () {
+      await megaplace.connect(user1).claimRegion(100, 100, 10, 10, [], { value: claimCost(100, 100, 10, 10) });
+
+      await expect(
+        megaplace.connect(user2).placePixelBatch([0, 100], [0, 100], [0xff0000, 0xff0000])
+      ).to.be.revertedWithCustomError(megaplace, "PixelProtected");
+    });
+
+    it("Should let collaborators paint inside a claim", async function () {
+      await megaplace.connect(user1).claimRegion(100, 100, 10, 10, [user2.address], { value: claimCost(100, 100, 10, 10) });
+      await megaplace.connect(user2).placePixel(100, 100, 0xff0000);
+
+      await expect(megaplace.connect(user1).setClaimCollaborator(1, user3.address, true))
+        .to.emit(megaplace, "ClaimCollaboratorUpdated")
+        .withArgs(1, user3.address, true);
+      await megaplace.connect(user3).placePixel(101, 100, 0xff0000);
+
+      await megaplace.connect(user1).setClaimCollaborator(1, user2.address, false);
+      await expect(megaplace.connect(user2).placePixel(102, 100, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "PixelProtected");
+    });
+
+    it("Should only let the owner manage a claim", async function () {
+      await megaplace.connect(user1).claimRegion(100, 100, 10, 10, [], { value: claimCost(100, 100, 10, 10) });
+
+      await expect(megaplace.connect(user2).setClaimCollaborator(1, user2.address, true))
+        .to.be.revertedWithCustomError(megaplace, "NotClaimOwner");
+      await expect(megaplace.connect(user2).releaseClaim(1))
+        .to.be.revertedWithCustomError(megaplace, "NotClaimOwner");
+      await expect(megaplace.connect(user2).extendClaim(1, { value: claimCost(100, 100, 10, 10) }))
+        .to.be.revertedWithCustomError(megaplace, "NotClaimOwner");
+    });
+
+    it("Should stop protecting once expired and allow reclaiming", async function () {
+      await megaplace.connect(user1).claimRegion(100, 100, 10, 10, [], { value: claimCost(100, 100, 10, 10) });
+      await increaseTime(CLAIM_DURATION + 1);
+
+      expect(await megaplace.getPixelClaim(105, 105)).to.equal(0);
+      await megaplace.connect(user2).placePixel(105, 105, 0xff0000);
+      await megaplace.connect(user2).claimRegion(100, 100, 10, 10, [], { value: claimCost(100, 100, 10, 10) });
+
+      // The expired claim was pruned from the tile
+      expect(await megaplace.getClaimsInTile(0, 0)).to.deep.equal([2n]);
+    });
+
+    it("Should extend an active claim", async function () {
+      await megaplace.connect(user1).claimRegion(100, 100, 10, 10, [], { value: claimCost(100, 100, 10, 10) });
+      const { expiresAt } = await megaplace.claims(1);
+
+      await expect(megaplace.connect(user1).extendClaim(1, { value: claimCost(100, 100, 10, 10) }))
+        .to.emit(megaplace, "ClaimExtended")
+        .withArgs(1, expiresAt + BigInt(CLAIM_DURATION), claimCost(100, 100, 10, 10));
+    });
+
+    it("Should release a claim", async function () {
+      await megaplace.connect(user1).claimRegion(100, 100, 10, 10, [], { value: claimCost(100, 100, 10, 10) });
+
+      await expect(megaplace.connect(user1).releaseClaim(1))
+        .to.emit(megaplace, "RegionReleased")
+        .withArgs(1);
+
+      await megaplace.connect(user2).placePixel(105, 105, 0xff0000);
+      await expect(megaplace.connect(user1).releaseClaim(1))
+        .to.be.revertedWithCustomError(megaplace, "ClaimNotActive");
+    });
+
+    it("Should limit claims per tile", async function () {
+      // Filling every slot of a tile costs as much as claiming all of it
+      for (let i = 0; i < 16; i++) {
+        await megaplace.connect(user1).claimRegion(i * 2, 0, 1, 1, [], { value: claimCost(i * 2, 0, 1, 1) });
+      }
+
+      await expect(
+        megaplace.connect(user1).claimRegion(100, 0, 1, 1, [], { value: claimCost(100, 0, 1, 1) })
+      ).to.be.revertedWithCustomError(megaplace, "TooManyClaimsInTile")
+        .withArgs(0, 0);
+    });
+
+    it("Should bill every tile a claim overlaps at least MIN_CLAIM_AREA_PER_TILE pixels", async function () {
+      expect(await megaplace.MIN_CLAIM_AREA_PER_TILE()).to.equal(MIN_CLAIM_AREA_PER_TILE);
+      expect(await megaplace.getClaimCost(0, 0, 1, 1)).to.equal(BigInt(MIN_CLAIM_AREA_PER_TILE) * CLAIM_PIXEL_COST);
+      // A 2x2 claim on a tile corner takes a slot in 4 tiles
+      expect(await megaplace.getClaimCost(511, 511, 2, 2)).to.equal(BigInt(4 * MIN_CLAIM_AREA_PER_TILE) * CLAIM_PIXEL_COST);
+      // Large claims pay for their area
+      expect(await megaplace.getClaimCost(0, 0, 512, 512)).to.equal(claimCost(0, 0, 512, 512));
+      expect(claimCost(0, 0, 512, 512)).to.equal(BigInt(TILE_SIZE * TILE_SIZE) * CLAIM_PIXEL_COST);
+
+      await expect(
+        megaplace.connect(user1).claimRegion(0, 0, 1, 1, [], { value: CLAIM_PIXEL_COST })
+      ).to.be.revertedWithCustomError(megaplace, "IncorrectPaymentAmount")
+        .withArgs(CLAIM_PIXEL_COST, claimCost(0, 0, 1, 1));
+    });
+
+    it("Should report the claim covering a pixel", async function () {
+      await megaplace.connect(user1).claimRegion(510, 510, 4, 4, [], { value: claimCost(510, 510, 4, 4) });
+
+      expect(await megaplace.getPixelClaim(513, 513)).to.equal(1);
+      expect(await megaplace.getPixelClaim(514, 514)).to.equal(0);
+      expect(await megaplace.getClaimsInTile(1, 1)).to.deep.equal([1n]);
+    });
+
+    it("Should allow owner to update claim configuration", async function () {
+      await expect(megaplace.connect(owner).setClaimPixelCost(1000))
+        .to.emit(megaplace, "ClaimPixelCostUpdated")
+        .withArgs(CLAIM_PIXEL_COST, 1000);
+      await expect(megaplace.connect(owner).setClaimDuration(60))
+        .to.emit(megaplace, "ClaimDurationUpdated")
+        .withArgs(CLAIM_DURATION, 60);
+
+      await expect(megaplace.connect(user1).setClaimPixelCost(1))
+        .to.be.revertedWithCustomError(megaplace, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Session Key Delegation", function () {
+    const ONE_HOUR = 60 * 60;
+
+    it("Should authorize a delegate and emit DelegateAuthorized", async function () {
+      const expiresAt = (await getCurrentTime()) + ONE_HOUR;
+
+      await expect(authorizeDelegate(user1, user2, expiresAt, 100))
+        .to.emit(megaplace, "DelegateAuthorized")
+        .withArgs(user1.address, user2.address, expiresAt, 100);
+
+      const delegation = await megaplace.delegations(user2.address);
+      expect(delegation.owner).to.equal(user1.address);
+      expect(delegation.expiresAt).to.equal(expiresAt);
+      expect(delegation.pixelBudget).to.equal(100);
+    });
+
+    it("Should attribute delegated placements to the owner", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + ONE_HOUR, 100);
+
+      const tx = await megaplace.connect(user2).placePixel(10, 20, 0xff0000);
+      const timestamp = await getCurrentTime();
+      await expect(tx)
+        .to.emit(megaplace, "PixelPlaced")
+        .withArgs(user1.address, 10, 20, 0xff0000, timestamp);
+
+      const [, placedBy] = await megaplace.getPixel(10, 20);
+      expect(placedBy).to.equal(user1.address);
+      expect(await megaplace.pixelsPlacedSinceCooldown(user1.address)).to.equal(1);
+      expect(await megaplace.pixelsPlacedSinceCooldown(user2.address)).to.equal(0);
+      expect((await megaplace.delegations(user2.address)).pixelBudget).to.equal(99);
+
+      await expect(megaplace.connect(user2).placePixelBatch([1, 2], [1, 2], [1, 2]))
+        .to.emit(megaplace, "PixelsBatchPlaced")
+        .withArgs(user1.address, 2, await getCurrentTime() + 1);
+      expect(await megaplace.pixelsPlacedSinceCooldown(user1.address)).to.equal(3);
+      expect((await megaplace.delegations(user2.address)).pixelBudget).to.equal(97);
+    });
+
+    it("Should share the owner's rate limit and premium access", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + ONE_HOUR, 100);
+
+      // The owner uses up the limit, so the delegate is in cooldown too
+      for (let i = 0; i < 15; i++) {
+        await megaplace.connect(user1).placePixel(i, 0, 0xff0000);
+      }
+      await expect(megaplace.connect(user2).placePixel(100, 0, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "RateLimitExceeded");
+
+      // Premium bought by the owner applies to the delegate
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      await megaplace.connect(user2).placePixel(100, 0, 0xff0000);
+    });
+
+    it("Should enforce the pixel budget", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + ONE_HOUR, 2);
+
+      await expect(megaplace.connect(user2).placePixelBatch([1, 2, 3], [1, 2, 3], [1, 2, 3]))
+        .to.be.revertedWithCustomError(megaplace, "DelegateBudgetExceeded")
+        .withArgs(3, 2);
+
+      await megaplace.connect(user2).placePixelBatch([1, 2], [1, 2], [1, 2]);
+      await expect(megaplace.connect(user2).placePixel(3, 3, 3))
+        .to.be.revertedWithCustomError(megaplace, "DelegateBudgetExceeded")
+        .withArgs(1, 0);
+    });
+
+    it("Should reject placements after the delegation expires", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + 60, 100);
+      await increaseTime(61);
+
+      await expect(megaplace.connect(user2).placePixel(1, 1, 1))
+        .to.be.revertedWithCustomError(megaplace, "DelegationExpired")
+        .withArgs(user2.address);
+    });
+
+    it("Should let the owner revoke a delegate", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + ONE_HOUR, 100);
+
+      await expect(megaplace.connect(user3).revokeDelegate(user2.address))
+        .to.be.revertedWithCustomError(megaplace, "NotDelegateOwner");
+
+      await expect(megaplace.connect(user1).revokeDelegate(user2.address))
+        .to.emit(megaplace, "DelegateRevoked")
+        .withArgs(user1.address, user2.address);
+
+      // Places as itself again
+      await expect(megaplace.connect(user2).placePixel(1, 1, 1))
+        .to.emit(megaplace, "PixelPlaced")
+        .withArgs(user2.address, 1, 1, 1, await getCurrentTime() + 1);
+    });
+
+    it("Should reject invalid delegations", async function () {
+      const expiresAt = (await getCurrentTime()) + ONE_HOUR;
+
+      await expect(megaplace.connect(user1).authorizeDelegate(ethers.ZeroAddress, expiresAt, 100, 0, "0x"))
+        .to.be.revertedWithCustomError(megaplace, "InvalidDelegate");
+      await expect(authorizeDelegate(user1, user1, expiresAt, 100))
+        .to.be.revertedWithCustomError(megaplace, "InvalidDelegate");
+      await expect(authorizeDelegate(user1, user2, await getCurrentTime(), 100))
+        .to.be.revertedWithCustomError(megaplace, "InvalidDelegationExpiry");
+    });
+
+    it("Should only register a delegate that signed for the wallet", async function () {
+      const expiresAt = (await getCurrentTime()) + ONE_HOUR;
+      const domain = {
+        name: "Megaplace",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await megaplace.getAddress(),
+      };
+
+      // Signed by someone else than the delegate
+      const forged = await user3.signTypedData(domain, ACCEPT_DELEGATION_TYPES, {
+        owner: user3.address, expiresAt, pixelBudget: 100, nonce: 0,
+      });
+      await expect(megaplace.connect(user3).authorizeDelegate(user2.address, expiresAt, 100, 0, forged))
+        .to.be.revertedWithCustomError(megaplace, "InvalidSignature");
+
+      // Signed by the delegate, but for another wallet or other terms
+      const signature = await user2.signTypedData(domain, ACCEPT_DELEGATION_TYPES, {
+        owner: user1.address, expiresAt, pixelBudget: 100, nonce: 0,
+      });
+      await expect(megaplace.connect(user3).authorizeDelegate(user2.address, expiresAt, 100, 0, signature))
+        .to.be.revertedWithCustomError(megaplace, "InvalidSignature");
+      await expect(megaplace.connect(user1).authorizeDelegate(user2.address, expiresAt, 1000, 0, signature))
+        .to.be.revertedWithCustomError(megaplace, "InvalidSignature");
+
+      await megaplace.connect(user1).authorizeDelegate(user2.address, expiresAt, 100, 0, signature);
+      expect((await megaplace.delegations(user2.address)).owner).to.equal(user1.address);
+      expect(await megaplace.nonces(user2.address)).to.equal(1);
+
+      // The signature can't be used again, e.g. to restore the budget
+      await expect(megaplace.connect(user1).authorizeDelegate(user2.address, expiresAt, 100, 0, signature))
+        .to.be.revertedWithCustomError(megaplace, "InvalidAccountNonce")
+        .withArgs(user2.address, 1);
+    });
+
+    it("Should move a delegate to another wallet only when it signs for it", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + ONE_HOUR, 100);
+      await authorizeDelegate(user3, user2, (await getCurrentTime()) + ONE_HOUR, 5);
+
+      const delegation = await megaplace.delegations(user2.address);
+      expect(delegation.owner).to.equal(user3.address);
+      expect(delegation.pixelBudget).to.equal(5);
+    });
+
+    it("Should let a delegate renounce its delegation", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + ONE_HOUR, 100);
+
+      await expect(megaplace.connect(user2).renounceDelegation())
+        .to.emit(megaplace, "DelegateRevoked")
+        .withArgs(user1.address, user2.address);
+      expect((await megaplace.delegations(user2.address)).owner).to.equal(ethers.ZeroAddress);
+
+      // Places as itself again
+      await expect(megaplace.connect(user2).placePixel(1, 1, 1))
+        .to.emit(megaplace, "PixelPlaced")
+        .withArgs(user2.address, 1, 1, 1, await getCurrentTime() + 1);
+
+      await expect(megaplace.connect(user2).renounceDelegation())
+        .to.be.revertedWithCustomError(megaplace, "NotDelegated")
+        .withArgs(user2.address);
+    });
+
+    it("Should let delegates paint inside their owner's claims", async function () {
+      await megaplace.connect(user1).claimRegion(100, 100, 10, 10, [], { value: await megaplace.getClaimCost(100, 100, 10, 10) });
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + ONE_HOUR, 100);
+
+      await megaplace.connect(user2).placePixel(105, 105, 0xff0000);
+      await expect(megaplace.connect(user3).placePixel(105, 105, 0xff0000))
+        .to.be.revertedWithCustomError(megaplace, "PixelProtected");
+    });
+  });
+
+  describe("Signed Placement (EIP-712)", function () {
+    const ONE_HOUR = 60 * 60;
+    const PLACE_PIXELS_TYPES = {
+      PlacePixels: [
+        { name: "signer", type: "address" },
+        { name: "px", type: "uint256[]" },
+        { name: "py", type: "uint256[]" },
+        { name: "colors", type: "uint32[]" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+
+    async function signBatch(
+      signer: HardhatEthersSigner,
+      px: number[],
+      py: number[],
+      colors: number[],
+      nonce: bigint,
+      deadline: number
+    ): Promise<string> {
+      const domain = {
+        name: "Megaplace",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await megaplace.getAddress(),
+      };
+      return signer.signTypedData(domain, PLACE_PIXELS_TYPES, {
+        signer: signer.address, px, py, colors, nonce, deadline,
+      });
+    }
+
+    it("Should place a signed batch submitted by a relayer", async function () {
+      const deadline = (await getCurrentTime()) + ONE_HOUR;
+      const signature = await signBatch(user1, [1, 2], [3, 4], [0xff0000, 0x00ff00], 0n, deadline);
+
+      const tx = await megaplace.connect(user2).placePixelsWithSig(
+        user1.address, [1, 2], [3, 4], [0xff0000, 0x00ff00], 0, deadline, signature
+      );
+      await expect(tx)
+        .to.emit(megaplace, "PixelsBatchPlaced")
+        .withArgs(user1.address, 2, await getCurrentTime());
+
+      const [color, placedBy] = await megaplace.getPixel(2, 4);
+      expect(color).to.equal(0x00ff00);
+      expect(placedBy).to.equal(user1.address);
+      expect(await megaplace.nonces(user1.address)).to.equal(1);
+      expect(await megaplace.pixelsPlacedSinceCooldown(user1.address)).to.equal(2);
+      expect(await megaplace.pixelsPlacedSinceCooldown(user2.address)).to.equal(0);
+    });
+
+    it("Should reject a replayed signature", async function () {
+      const deadline = (await getCurrentTime()) + ONE_HOUR;
+      const signature = await signBatch(user1, [1], [1], [1], 0n, deadline);
+
+      await megaplace.connect(user2).placePixelsWithSig(user1.address, [1], [1], [1], 0, deadline, signature);
+      await expect(megaplace.connect(user2).placePixelsWithSig(user1.address, [1], [1], [1], 0, deadline, signature))
+        .to.be.revertedWithCustomError(megaplace, "InvalidAccountNonce")
+        .withArgs(user1.address, 1);
+    });
+
+    it("Should reject an expired signature", async function () {
+      const deadline = (await getCurrentTime()) + 60;
+      const signature = await signBatch(user1, [1], [1], [1], 0n, deadline);
+      await increaseTime(61);
+
+      await expect(megaplace.connect(user2).placePixelsWithSig(user1.address, [1], [1], [1], 0, deadline, signature))
+        .to.be.revertedWithCustomError(megaplace, "SignatureExpired")
+        .withArgs(deadline);
+    });
+
+    it("Should reject tampered batches and wrong signers", async function () {
+      const deadline = (await getCurrentTime()) + ONE_HOUR;
+      const signature = await signBatch(user1, [1], [1], [0xff0000], 0n, deadline);
+
+      await expect(megaplace.connect(user2).placePixelsWithSig(user1.address, [1], [1], [0x00ff00], 0, deadline, signature))
+        .to.be.revertedWithCustomError(megaplace, "InvalidSignature");
+      await expect(megaplace.connect(user2).placePixelsWithSig(user3.address, [1], [1], [0xff0000], 0, deadline, signature))
+        .to.be.revertedWithCustomError(megaplace, "InvalidSignature");
+      await expect(megaplace.connect(user2).placePixelsWithSig(user1.address, [1], [1], [0xff0000], 0, deadline, "0x1234"))
+        .to.be.revertedWithCustomError(megaplace, "InvalidSignature");
+    });
+
+    it("Should attribute batches signed by a delegate to its owner", async function () {
+      await authorizeDelegate(user1, user2, (await getCurrentTime()) + ONE_HOUR, 100);
+      const deadline = (await getCurrentTime()) + ONE_HOUR;
+      // Accepting the delegation used the delegate's first nonce
+      const signature = await signBatch(user2, [7], [8], [0x0000ff], 1n, deadline);
+
+      await expect(megaplace.connect(user3).placePixelsWithSig(user2.address, [7], [8], [0x0000ff], 1, deadline, signature))
+        .to.emit(megaplace, "PixelPlaced")
+        .withArgs(user1.address, 7, 8, 0x0000ff, await getCurrentTime() + 1);
+      expect((await megaplace.delegations(user2.address)).pixelBudget).to.equal(99);
+    });
+
+    it("Should apply the batch size limit to signed batches", async function () {
+      const deadline = (await getCurrentTime()) + ONE_HOUR;
+      const signature = await signBatch(user1, [], [], [], 0n, deadline);
+
+      await expect(megaplace.connect(user2).placePixelsWithSig(user1.address, [], [], [], 0, deadline, signature))
+        .to.be.revertedWithCustomError(megaplace, "InvalidBatchSize");
+    });
+  });
+
   describe("Edge Cases and Gas Optimization", function () {
     it("Should handle corner coordinates (0,0) and (999,999)", async function () {
       await megaplace.connect(user1).placePixel(0, 0, 0xff0000);
@@ -997,19 +2034,19 @@ describe("Megaplace", function () {
     });
 
     it("Should properly track multiple premium purchases", async function () {
-      await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
       // Advance time by 1 hour
       await increaseTime(60 * 60);
 
-      // Purchase again (should extend from current time)
-      await megaplace.connect(user1).grantPremiumAccess({ value: ethers.parseEther("0.01") });
+      // Purchase again (should stack on the hour left)
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
 
       const [hasAccess, expiryTime] = await megaplace.hasPremiumAccess(user1.address);
       expect(hasAccess).to.be.true;
 
-      // Should have ~2 hours from now (not 3 hours total)
-      const expectedExpiry = BigInt(await getCurrentTime()) + BigInt(2 * 60 * 60);
+      // Should have ~3 hours from now (1 hour left + 2 hours bought)
+      const expectedExpiry = BigInt(await getCurrentTime()) + BigInt(3 * 60 * 60);
       expect(expiryTime).to.be.closeTo(expectedExpiry, 10n);
     });
   });
@@ -1026,6 +2063,53 @@ describe("Megaplace", function () {
       expect(pixel.timestamp).to.be.gt(0);
     });
 
+    it("Should place a packed batch for less gas than the array batch", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+      await megaplace.connect(user2).purchasePremium(0, user2.address, { value: ethers.parseEther("0.01") });
+
+      // Same number of fresh pixels in both, so storage costs match
+      const x = Array(100).fill(0).map((_, i) => i * 7919);
+      const colors = Array(100).fill(0).map((_, i) => 0x100000 + i * 1021);
+
+      const arrayTx = await megaplace.connect(user1).placePixelBatch(x, Array(100).fill(1), colors);
+      const arrayGas = (await arrayTx.wait())!.gasUsed;
+      const packedTx = await megaplace.connect(user2).placePixelsPacked(packPixels(x, Array(100).fill(2), colors));
+      const packedGas = (await packedTx.wait())!.gasUsed;
+
+      expect(packedGas).to.be.lt(arrayGas);
+      // 8 bytes per pixel instead of 96
+      expect(ethers.dataLength(packedTx.data)).to.be.lt(ethers.dataLength(arrayTx.data) / 10);
+    });
+
+    it("Should cost less gas per pixel in larger packed batches", async function () {
+      await megaplace.connect(user1).purchasePremium(0, user1.address, { value: ethers.parseEther("0.01") });
+
+      const small = await (await megaplace.connect(user1).placePixelsPacked(
+        packPixels(Array(10).fill(0).map((_, i) => i), Array(10).fill(5), Array(10).fill(1))
+      )).wait();
+      const large = await (await megaplace.connect(user1).placePixelsPacked(
+        packPixels(Array(500).fill(0).map((_, i) => i), Array(500).fill(6), Array(500).fill(1))
+      )).wait();
+
+      expect(large!.gasUsed / 500n).to.be.lt(small!.gasUsed / 10n);
+    });
+
+    it("Should fill, draw and clear MAX_REGION_SIZE pixels within a MegaETH block", async function () {
+      const BLOCK_GAS_LIMIT = 2_000_000_000n;
+      await megaplace.connect(owner).adminGrantPremiumAccess(user1.address);
+
+      const fill = await (await megaplace.connect(user1).fillRect(0, 0, 100, 100, 0xff0000)).wait();
+      const line = await (await megaplace.connect(user1).drawLine(0, 200, MAX_REGION_SIZE - 1, 200, 0x00ff00)).wait();
+      // Every pixel set, so each one is a storage delete
+      const clear = await (await megaplace.connect(owner).clearRegion(0, 0, 100, 100)).wait();
+
+      for (const receipt of [fill, line, clear]) {
+        expect(receipt!.gasUsed).to.be.lt(BLOCK_GAS_LIMIT / 4n);
+      }
+      expect((await megaplace.getPixel(99, 99))[0]).to.equal(0);
+      expect((await megaplace.getPixel(MAX_REGION_SIZE - 1, 200))[0]).to.equal(0x00ff00);
+    });
+
     it("Should handle unchecked arithmetic correctly", async function () {
       // Test that unchecked blocks don't cause issues with valid inputs
       const x = 999;
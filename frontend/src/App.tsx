@@ -1,13 +1,14 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { useAccount } from 'wagmi';
 import { useRef, useCallback, useState, useEffect, useMemo } from 'react';
-import { useMap } from './hooks/useMap';
+import { useMap, type PixelRect } from './hooks/useMap';
 import {
   useCooldown,
   usePremiumAccess,
   usePlacePixelWithSessionKey,
-  useGrantPremiumAccess,
   useWatchPixelPlaced,
+  useAdminRoles,
+  useCanvasPause,
   hexToUint32,
   uint32ToHex
 } from './hooks/useMegaplace';
@@ -24,7 +25,6 @@ import {
   MIN_MAP_ZOOM,
   MAX_MAP_ZOOM,
   MAP_MOVE_THROTTLE_MS,
-  DEFAULT_PREMIUM_COST_ETH,
   DEFAULT_COOLDOWN_SECONDS,
   DEFAULT_COOLDOWN_PIXELS,
   PIXEL_SELECT_ZOOM,
@@ -39,6 +39,19 @@ import {
   AlertDialogFooter,
   AlertDialogAction,
 } from './components/ui/alert-dialog';
+import { PixelHistoryPanel } from './components/PixelHistoryPanel';
+import { AdminPanel } from './components/AdminPanel';
+import { ModerationPanel } from './components/ModerationPanel';
+import { PremiumDialog } from './components/PremiumDialog';
+import { EpochSwitcher } from './components/EpochSwitcher';
+import { ReplayPanel } from './components/ReplayPanel';
+import { ExportPanel } from './components/ExportPanel';
+import { TemplateImporter } from './components/TemplateImporter';
+import { JobsDrawer } from './components/JobsDrawer';
+import { useReplay } from './hooks/useReplay';
+import { useTemplatePlacement } from './hooks/useTemplatePlacement';
+import type { PixelTemplate } from './lib/pixelArt';
+import { TEMPLATE_URL_PARAM } from './lib/templateFile';
 
 // LocalStorage key for tracking if user has seen welcome dialog
 const HAS_SEEN_WELCOME_KEY = 'megaplace-has-seen-welcome';
@@ -68,6 +81,14 @@ const ShareIcon = () => (
   </svg>
 );
 
+const HistoryIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
+    <path d="M3 3v5h5" />
+    <path d="M12 7v5l4 2" />
+  </svg>
+);
+
 const ZapIcon = () => (
   <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
     <polygon points="13 2 3 14 12 14 11 22 21 10 12 10 13 2" />
@@ -110,6 +131,61 @@ const CompassIcon = () => (
   </svg>
 );
 
+const ShieldIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M20 13c0 5-3.5 7.5-7.66 8.95a1 1 0 0 1-.67-.01C7.5 20.5 4 18 4 13V6a1 1 0 0 1 1-1c2 0 4.5-1.2 6.24-2.72a1.17 1.17 0 0 1 1.52 0C14.51 3.81 17 5 19 5a1 1 0 0 1 1 1z" />
+  </svg>
+);
+
+const ReplayIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <circle cx="12" cy="12" r="10" />
+    <polygon points="10 8 16 12 10 16 10 8" fill="currentColor" />
+  </svg>
+);
+
+const ImageIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <rect width="18" height="18" x="3" y="3" rx="2" ry="2" />
+    <circle cx="9" cy="9" r="2" />
+    <path d="m21 15-3.086-3.086a2 2 0 0 0-2.828 0L6 21" />
+  </svg>
+);
+
+const JobsIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M3 5h.01" />
+    <path d="M3 12h.01" />
+    <path d="M3 19h.01" />
+    <path d="M8 5h13" />
+    <path d="M8 12h13" />
+    <path d="M8 19h13" />
+  </svg>
+);
+
+const PauseIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+    <rect x="6" y="4" width="4" height="16" rx="1" />
+    <rect x="14" y="4" width="4" height="16" rx="1" />
+  </svg>
+);
+
+const DownloadIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+    <polyline points="7 10 12 15 17 10" />
+    <line x1="12" x2="12" y1="15" y2="3" />
+  </svg>
+);
+
+const EraserIcon = () => (
+  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="m7 21-4.3-4.3c-1-1-1-2.5 0-3.4l9.6-9.6c1-1 2.5-1 3.4 0l5.6 5.6c1 1 1 2.5 0 3.4L13 21" />
+    <path d="M22 21H7" />
+    <path d="m5 11 9 9" />
+  </svg>
+);
+
 // Component to handle map events
 function MapEventsHandler({ onMapClick, onMapReady, onMoveEnd, onZoomEnd, onMouseMove, onMouseOut }: {
   onMapClick: (lat: number, lng: number) => void;
@@ -167,6 +243,16 @@ function getSavedMapView(): SavedMapView | null {
   return null;
 }
 
+// Rectangle spanning two corner pixels (both included)
+function rectFromCorners(a: { px: number; py: number }, b: { px: number; py: number }): PixelRect {
+  return {
+    x: Math.min(a.px, b.px),
+    y: Math.min(a.py, b.py),
+    width: Math.abs(a.px - b.px) + 1,
+    height: Math.abs(a.py - b.py) + 1,
+  };
+}
+
 function saveMapView(center: [number, number], zoom: number) {
   try {
     localStorage.setItem(MAP_VIEW_STORAGE_KEY, JSON.stringify({ center, zoom }));
@@ -241,7 +327,18 @@ function CanvasApp() {
     updateMarker,
     removeMarker,
     addOptimisticPixel,
+    getClaimAt,
+    showModerationBox,
+    showReplayOverlay,
+    showTemplateOverlay,
+    templateDiffCount,
+    viewedEpoch,
+    viewEpoch,
   } = useMap();
+  const replayControls = useReplay(mapRef, showReplayOverlay, viewedEpoch);
+  // Archived canvases and replays are read-only
+  const isViewingArchive = viewedEpoch !== null;
+  const isReadOnly = isViewingArchive || replayControls.isReplaying;
 
   // Load saved map view from localStorage (only once on mount)
   const savedMapView = useMemo(() => getSavedMapView(), []);
@@ -272,20 +369,29 @@ function CanvasApp() {
     sessionBalanceFormatted,
     isLoading: isSessionKeyLoading,
     isFunding,
-    needsFunding,
+    needsFunding: sessionKeyNeedsFunding,
     fundSessionKey,
     getSessionWalletClient,
     needsSignature,
     generateFromSignature,
+    isDelegated,
+    needsDelegation,
+    isDelegating,
+    authorizeDelegate,
+    revokeDelegate,
+    refreshDelegation,
   } = useSessionKey();
 
-  // Use session key for cooldown tracking
-  const { canPlace, cooldownRemaining, pixelsRemaining, refetch: refetchCooldown } = useCooldown(sessionAddress ?? undefined);
+  // The session key places pixels as a delegate of the wallet, so the wallet's cooldown applies
+  const { canPlace, cooldownRemaining, pixelsRemaining, refetch: refetchCooldown } = useCooldown();
   const { hasAccess } = usePremiumAccess();
-  const { placePixel, pendingCount, recentHashes, queueLength, clearQueue, optimisticPixelsUsed, resetOptimisticCount } = usePlacePixelWithSessionKey(
+  const { placePixel, placementJobs, pendingCount, recentHashes, isRelayed, queueLength, clearQueue, optimisticPixelsUsed, resetOptimisticCount } = usePlacePixelWithSessionKey(
     getSessionWalletClient,
-    sessionAddress ?? undefined
+    sessionAddress ?? undefined,
+    refreshDelegation
   );
+  // The backend relayer pays gas for signed batches, so the session key only needs ETH without one
+  const needsFunding = sessionKeyNeedsFunding && !isRelayed;
 
   // Calculate optimistic pixels remaining (actual - optimistic used)
   const optimisticPixelsRemaining = useMemo(() => {
@@ -306,11 +412,15 @@ function CanvasApp() {
       return () => clearTimeout(timeout);
     }
   }, [queueLength, pendingCount, optimisticPixelsUsed, resetOptimisticCount]);
-  const { grantPremiumAccess, isPending: isPurchasingPremium } = useGrantPremiumAccess();
+  const [showPremium, setShowPremium] = useState(false);
+  const [showJobs, setShowJobs] = useState(false);
   const { recentPixels } = useWatchPixelPlaced(handlePixelPlaced);
 
+  // Placement is rejected while a moderator has paused the canvas or the selected pixel's tile
+  const { isPaused, isTilePaused } = useCanvasPause(selectedPixel);
+
   // Check if session key is ready for instant placement
-  const canInstantPlace = account.address && sessionAddress && !needsFunding && !needsSignature;
+  const canInstantPlace = account.address && sessionAddress && !needsFunding && !needsSignature && isDelegated;
 
   const allPixels = useMemo(() => {
     // Merge and dedupe by position (x,y) - keep the one with latest timestamp
@@ -333,6 +443,84 @@ function CanvasApp() {
   const [selectedColor, setSelectedColor] = useState<string>(PRESET_COLORS[0]);
   const [showRecentPixels, setShowRecentPixels] = useState(true);
   const [isToolbarExpanded, setIsToolbarExpanded] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showAdmin, setShowAdmin] = useState(false);
+  const { hasAnyRole, isModerator } = useAdminRoles();
+
+  // Box-select: clicks pick the two corners of an area to clear (moderation) or download (export)
+  const [boxSelectMode, setBoxSelectMode] = useState<'moderate' | 'export' | null>(null);
+  const [selectionCorners, setSelectionCorners] = useState<Array<{ px: number; py: number }>>([]);
+  const boxSelection = selectionCorners.length === 2
+    ? rectFromCorners(selectionCorners[0], selectionCorners[1])
+    : null;
+  const isModerating = boxSelectMode === 'moderate';
+  const isExporting = boxSelectMode === 'export';
+
+  const clearBoxSelection = useCallback(() => setSelectionCorners([]), []);
+
+  const toggleBoxSelect = useCallback((mode: 'moderate' | 'export') => {
+    setBoxSelectMode(prev => prev === mode ? null : mode);
+    setSelectionCorners([]);
+    setShowTemplate(false);
+  }, []);
+  const toggleModeration = useCallback(() => toggleBoxSelect('moderate'), [toggleBoxSelect]);
+  const toggleExport = useCallback(() => toggleBoxSelect('export'), [toggleBoxSelect]);
+
+  // Pixel art template: an image quantized to the palette or a shared template file,
+  // previewed on the map and placed in batches
+  // Share links open with the template at ?template= anchored at px/py
+  const [sharedTemplateUrl] = useState(() => new URLSearchParams(window.location.search).get(TEMPLATE_URL_PARAM));
+  const [showTemplate, setShowTemplate] = useState(sharedTemplateUrl !== null);
+  const [template, setTemplate] = useState<PixelTemplate | null>(null);
+  const [templateAnchor, setTemplateAnchor] = useState<{ px: number; py: number } | null>(() => {
+    const params = new URLSearchParams(window.location.search);
+    const px = parseInt(params.get('px') ?? '', 10);
+    const py = parseInt(params.get('py') ?? '', 10);
+    return sharedTemplateUrl && !isNaN(px) && !isNaN(py) ? { px, py } : null;
+  });
+  const [isPickingAnchor, setIsPickingAnchor] = useState(false);
+  const [templateOpacity, setTemplateOpacity] = useState(0.5);
+  const [highlightTemplateDiff, setHighlightTemplateDiff] = useState(false);
+  const templatePlacement = useTemplatePlacement(placementJobs, getClaimAt, account.address);
+
+  const toggleTemplate = useCallback(() => {
+    if (!showTemplate) {
+      setBoxSelectMode(null);
+      setSelectionCorners([]);
+    }
+    setShowTemplate(!showTemplate);
+    setIsPickingAnchor(false);
+  }, [showTemplate]);
+
+  useEffect(() => {
+    showTemplateOverlay(showTemplate ? template : null, templateOpacity, highlightTemplateDiff);
+  }, [showTemplate, template, templateOpacity, highlightTemplateDiff, showTemplateOverlay]);
+
+  // Closing the importer (or opening a box-select panel in its place) ends anchor picking;
+  // a template being placed keeps going as a placement job
+  useEffect(() => {
+    if (!showTemplate) {
+      setIsPickingAnchor(false);
+    }
+  }, [showTemplate]);
+
+  // Outline the selection, following the cursor until the second corner is clicked
+  useEffect(() => {
+    if (!boxSelectMode || selectionCorners.length === 0) {
+      showModerationBox(null);
+    } else if (selectionCorners.length === 2) {
+      showModerationBox(rectFromCorners(selectionCorners[0], selectionCorners[1]));
+    } else if (hoveredPixel) {
+      showModerationBox(rectFromCorners(selectionCorners[0], hoveredPixel));
+    }
+  }, [boxSelectMode, selectionCorners, hoveredPixel, showModerationBox]);
+
+  // Latest known placement at the selected pixel - used to refresh its history
+  const selectedPixelLatestTimestamp = useMemo(() => {
+    if (!selectedPixel) return 0;
+    const latest = allPixels.find(p => Number(p.x) === selectedPixel.px && Number(p.y) === selectedPixel.py);
+    return latest ? Number(latest.timestamp) : 0;
+  }, [allPixels, selectedPixel]);
 
   const hasNavigatedRef = useRef(false);
 
@@ -420,7 +608,15 @@ function CanvasApp() {
 
   // Fire and forget pixel placement - no waiting, allows spam clicking
   const handlePlacePixelAt = useCallback((px: number, py: number) => {
-    if (!account.address || !canInstantPlace) return;
+    if (!account.address || !canInstantPlace || isReadOnly) return;
+
+    if (isPaused) {
+      toast.error('Placement paused', {
+        description: 'A moderator paused the canvas, try again later',
+        duration: 1500,
+      });
+      return;
+    }
 
     // Don't place if in cooldown (unless premium)
     if (!canPlacePixel) {
@@ -431,6 +627,17 @@ function CanvasApp() {
       return;
     }
 
+    // Delegated placements count as the wallet's, so it has to be the claim owner or a collaborator
+    const claim = getClaimAt(px, py);
+    const placer = account.address.toLowerCase();
+    if (claim && claim.owner.toLowerCase() !== placer && !claim.collaborators.some(c => c.toLowerCase() === placer)) {
+      toast.error('Pixel is protected', {
+        description: `(${px}, ${py}) is inside claim #${claim.id}`,
+        duration: 1500,
+      });
+      return;
+    }
+
     const isTransparent = selectedColor === TRANSPARENT_COLOR;
     // Transparent = 0 (unset), all other colors go through hexToUint32 (which converts black to 0x010101)
     const color = isTransparent ? 0 : hexToUint32(selectedColor);
@@ -442,12 +649,12 @@ function CanvasApp() {
       updateMarker(px, py, color);
     }
     // Optimistic update - show immediately in Recent Pixels list  
-    addOptimisticPixel(px, py, color, sessionAddress || account.address);
+    addOptimisticPixel(px, py, color, account.address);
     // Fire and forget - don't await
     placePixel(px, py, color);
     // Refetch cooldown
     refetchCooldown();
-  }, [account.address, canInstantPlace, canPlacePixel, selectedColor, placePixel, updateMarker, removeMarker, addOptimisticPixel, sessionAddress, refetchCooldown]);
+  }, [account.address, canInstantPlace, isReadOnly, isPaused, canPlacePixel, getClaimAt, selectedColor, placePixel, updateMarker, removeMarker, addOptimisticPixel, refetchCooldown]);
 
   const handlePlacePixel = useCallback(() => {
     if (!selectedPixel) return;
@@ -458,24 +665,37 @@ function CanvasApp() {
   const handleInstantMapClick = useCallback((lat: number, lng: number) => {
     const { px, py } = latLonToGlobalPx(lat, lng);
 
+    // The click places the template's top-left corner
+    if (isPickingAnchor) {
+      setTemplateAnchor({ px, py });
+      setIsPickingAnchor(false);
+      return;
+    }
+
+    // While moderating or exporting, clicks select an area instead of painting
+    if (boxSelectMode) {
+      setSelectionCorners(prev => prev.length === 1 ? [prev[0], { px, py }] : [{ px, py }]);
+      return;
+    }
+
     // Check if we should instant place or just select
     const isZoomedIn = currentZoom >= PIXEL_SELECT_ZOOM;
 
-    if (isZoomedIn && canInstantPlace && canPlacePixel) {
+    if (isZoomedIn && canInstantPlace && canPlacePixel && !isPaused && !isReadOnly) {
       // Instant place!
       handlePlacePixelAt(px, py);
     }
 
     // Always update selection (handleMapClick handles this)
     handleMapClick(lat, lng, selectedColor === TRANSPARENT_COLOR ? '#ffffff' : selectedColor);
-  }, [currentZoom, canInstantPlace, canPlacePixel, handlePlacePixelAt, handleMapClick, selectedColor]);
+  }, [isPickingAnchor, boxSelectMode, currentZoom, canInstantPlace, canPlacePixel, isPaused, isReadOnly, handlePlacePixelAt, handleMapClick, selectedColor]);
 
   // Keyboard shortcuts - fire and forget allows rapid pressing
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
-      if (e.key === 'Enter' && selectedPixel && account.address && canInstantPlace && canPlacePixel) {
+      if (e.key === 'Enter' && selectedPixel && account.address && canInstantPlace && canPlacePixel && !isReadOnly) {
         e.preventDefault();
         handlePlacePixel();
       }
@@ -483,7 +703,7 @@ function CanvasApp() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedPixel, account.address, canInstantPlace, canPlacePixel, handlePlacePixel]);
+  }, [selectedPixel, account.address, canInstantPlace, canPlacePixel, isReadOnly, handlePlacePixel]);
 
   return (
     <div className="h-screen w-screen overflow-hidden bg-slate-900 relative">
@@ -600,12 +820,26 @@ function CanvasApp() {
                 )}
                 <span>Fund</span>
               </button>
+            ) : isRelayed ? (
+              <div className="px-3 py-1.5 text-emerald-600" title="Pixels are signed by the session key and submitted by the relayer">
+                Gasless
+              </div>
             ) : (
               <div className="px-3 py-1.5 text-emerald-600 flex items-center gap-1">
                 <span>{parseFloat(sessionBalanceFormatted).toFixed(4)}</span>
                 <span className="text-slate-400">ETH</span>
               </div>
             )}
+            {isDelegated && (
+              <button
+                onClick={revokeDelegate}
+                disabled={isDelegating}
+                className="px-3 py-1.5 border-l border-slate-200 text-slate-500 hover:text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+                title="Stop this session key from placing pixels for your wallet"
+              >
+                Revoke
+              </button>
+            )}
           </div>
         )}
 
@@ -622,6 +856,86 @@ function CanvasApp() {
           <span>{placedPixelCount.toLocaleString()}</span>
         </button>
 
+        {/* Epoch Switcher - browse archived canvases read-only */}
+        <EpochSwitcher viewedEpoch={viewedEpoch} onSelect={viewEpoch} />
+
+        {/* Time-lapse Replay - play back the history of the visible area */}
+        <button
+          onClick={replayControls.isReplaying ? replayControls.stopReplay : replayControls.startReplay}
+          className={`backdrop-blur-sm px-3 py-1.5 rounded-lg shadow-lg text-sm font-medium transition-colors ${replayControls.isReplaying
+            ? 'bg-blue-500 text-white hover:bg-blue-600'
+            : 'bg-white/90 text-slate-700 hover:bg-white'
+            }`}
+          title={replayControls.isReplaying ? 'Stop replay' : 'Replay the history of the visible area'}
+        >
+          <ReplayIcon />
+        </button>
+
+        {/* Placement Jobs - queued pixels and templates, placed as the cooldown allows */}
+        {account.address && (
+          <button
+            onClick={() => setShowJobs(true)}
+            className="relative backdrop-blur-sm px-3 py-1.5 rounded-lg shadow-lg text-sm font-medium transition-colors bg-white/90 text-slate-700 hover:bg-white"
+            title="Placement jobs"
+          >
+            <JobsIcon />
+            {queueLength > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full bg-blue-500 text-white text-[10px] leading-5 text-center">
+                {queueLength > 999 ? '999+' : queueLength}
+              </span>
+            )}
+          </button>
+        )}
+
+        {/* Pixel Art - turn an image into a template and place it */}
+        <button
+          onClick={toggleTemplate}
+          className={`backdrop-blur-sm px-3 py-1.5 rounded-lg shadow-lg text-sm font-medium transition-colors ${showTemplate
+            ? 'bg-blue-500 text-white hover:bg-blue-600'
+            : 'bg-white/90 text-slate-700 hover:bg-white'
+            }`}
+          title="Pixel art: place an image as pixels"
+        >
+          <ImageIcon />
+        </button>
+
+        {/* Export Mode - box-select an area to download */}
+        <button
+          onClick={toggleExport}
+          className={`backdrop-blur-sm px-3 py-1.5 rounded-lg shadow-lg text-sm font-medium transition-colors ${isExporting
+            ? 'bg-blue-500 text-white hover:bg-blue-600'
+            : 'bg-white/90 text-slate-700 hover:bg-white'
+            }`}
+          title="Export: select an area to download as PNG or GIF"
+        >
+          <DownloadIcon />
+        </button>
+
+        {/* Moderation Mode - box-select an area to clear */}
+        {account.address && isModerator && (
+          <button
+            onClick={toggleModeration}
+            className={`backdrop-blur-sm px-3 py-1.5 rounded-lg shadow-lg text-sm font-medium transition-colors ${isModerating
+              ? 'bg-red-500 text-white hover:bg-red-600'
+              : 'bg-white/90 text-slate-700 hover:bg-white'
+              }`}
+            title="Moderate: select an area to clear and manage bans"
+          >
+            <EraserIcon />
+          </button>
+        )}
+
+        {/* Admin Panel - only for wallets holding a role */}
+        {account.address && hasAnyRole && (
+          <button
+            onClick={() => setShowAdmin(true)}
+            className="bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-lg shadow-lg text-sm font-medium text-slate-700 hover:bg-white transition-colors"
+            title="Admin actions"
+          >
+            <ShieldIcon />
+          </button>
+        )}
+
         {/* Wallet Connect */}
         <ConnectButton.Custom>
           {({ account: walletAccount, chain, openAccountModal, openChainModal, openConnectModal, mounted }) => {
@@ -658,41 +972,111 @@ function CanvasApp() {
         </ConnectButton.Custom>
       </div>
 
-      {/* Transaction Status - Show pending count and queue for fire-and-forget */}
-      {(pendingCount > 0 || queueLength > 0) && (
-        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40">
-          <div className="bg-white/95 backdrop-blur-sm px-4 py-2 rounded-xl shadow-lg text-sm font-medium text-slate-700 flex items-center gap-2">
-            <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      {/* Top Center - Archive Banner, Replay Controls, Pause Banner and Transaction Status */}
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2">
+        {/* Archive Banner - an archived epoch is shown instead of the live canvas */}
+        {isViewingArchive && (
+          <div className="bg-amber-500/95 backdrop-blur-sm px-4 py-2 rounded-xl shadow-lg text-sm font-medium text-white flex items-center gap-2">
+            <span>Viewing archived epoch {viewedEpoch} (read-only)</span>
+            <button
+              onClick={() => viewEpoch(null)}
+              className="underline hover:text-amber-100"
+            >
+              Back to live
+            </button>
+          </div>
+        )}
+
+        {/* Replay Controls - play/pause, scrub and speed of a time-lapse */}
+        {replayControls.isReplaying && <ReplayPanel controls={replayControls} />}
+
+        {/* Pause Banner - placement is disabled while a moderator has paused the canvas or this area */}
+        {(isPaused || isTilePaused) && (
+          <div className="bg-red-500/95 backdrop-blur-sm px-4 py-2 rounded-xl shadow-lg text-sm font-medium text-white flex items-center gap-2">
+            <PauseIcon />
             <span>
-              {pendingCount > 0 && `Sending ${pendingCount} tx${pendingCount > 1 ? 's' : ''}`}
-              {pendingCount > 0 && queueLength > 0 && ' · '}
-              {queueLength > 0 && (
-                <span className="text-amber-600">
-                  {queueLength} queued (retrying)
-                </span>
-              )}
+              {isPaused
+                ? 'Placement is paused by the moderators'
+                : `Placement is paused around (${selectedPixel?.px}, ${selectedPixel?.py})`}
             </span>
-            {queueLength > 0 && (
-              <button
-                onClick={clearQueue}
-                className="text-slate-400 hover:text-red-500 text-xs ml-1"
-                title="Clear queue"
-              >
-                ✕
-              </button>
-            )}
-            {recentHashes[0] && (
-              <a
-                href={`https://megaexplorer.xyz/tx/${recentHashes[0]}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-blue-500 hover:text-blue-600 text-xs"
-              >
-                View
-              </a>
-            )}
           </div>
-        </div>
+        )}
+
+        {/* Transaction Status - Show pending count and queue for fire-and-forget */}
+        {(pendingCount > 0 || queueLength > 0) && (
+            <div className="bg-white/95 backdrop-blur-sm px-4 py-2 rounded-xl shadow-lg text-sm font-medium text-slate-700 flex items-center gap-2">
+              <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+              <span>
+                {pendingCount > 0 && `Sending ${pendingCount} tx${pendingCount > 1 ? 's' : ''}`}
+                {pendingCount > 0 && queueLength > 0 && ' · '}
+                {queueLength > 0 && (
+                  <button onClick={() => setShowJobs(true)} className="text-amber-600 hover:underline">
+                    {queueLength} queued (retrying)
+                  </button>
+                )}
+              </span>
+              {queueLength > 0 && (
+                <button
+                  onClick={clearQueue}
+                  className="text-slate-400 hover:text-red-500 text-xs ml-1"
+                  title="Clear queue"
+                >
+                  ✕
+                </button>
+              )}
+              {recentHashes[0] && (
+                <a
+                  href={`https://megaexplorer.xyz/tx/${recentHashes[0]}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-500 hover:text-blue-600 text-xs"
+                >
+                  View
+                </a>
+              )}
+            </div>
+        )}
+      </div>
+
+      <AdminPanel open={showAdmin} onOpenChange={setShowAdmin} />
+      <PremiumDialog open={showPremium} onOpenChange={setShowPremium} />
+      <JobsDrawer open={showJobs} onOpenChange={setShowJobs} placementJobs={placementJobs} />
+
+      {isModerating && (
+        <ModerationPanel
+          selection={boxSelection}
+          isSelecting={selectionCorners.length === 1}
+          onClearSelection={clearBoxSelection}
+          onClose={toggleModeration}
+        />
+      )}
+
+      {isExporting && (
+        <ExportPanel
+          selection={boxSelection}
+          isSelecting={selectionCorners.length === 1}
+          epoch={viewedEpoch}
+          onClose={toggleExport}
+        />
+      )}
+
+      {showTemplate && (
+        <TemplateImporter
+          anchor={templateAnchor}
+          onAnchorChange={setTemplateAnchor}
+          isPickingAnchor={isPickingAnchor}
+          onPickAnchor={() => setIsPickingAnchor(!isPickingAnchor)}
+          onTemplateChange={setTemplate}
+          opacity={templateOpacity}
+          onOpacityChange={setTemplateOpacity}
+          highlightDiff={highlightTemplateDiff}
+          onHighlightDiffChange={setHighlightTemplateDiff}
+          diffCount={templateDiffCount}
+          initialUrl={sharedTemplateUrl}
+          placement={templatePlacement}
+          canPlace={!!canInstantPlace && !isReadOnly && !isPaused}
+          onClose={toggleTemplate}
+        />
       )}
 
       {/* Recent Pixels Panel */}
@@ -764,10 +1148,33 @@ function CanvasApp() {
                       ({selectedPixel.px}, {selectedPixel.py})
                     </span>
                   )}
+                  {selectedPixel && getClaimAt(selectedPixel.px, selectedPixel.py) && (
+                    <span className="text-amber-500 text-xs font-medium">
+                      Claimed
+                    </span>
+                  )}
                 </div>
               </div>
 
               <div className="flex items-center gap-2">
+                {/* History Button */}
+                <button
+                  onClick={() => {
+                    if (!selectedPixel) {
+                      toast.error('Select a pixel first');
+                      return;
+                    }
+                    setShowHistory(!showHistory);
+                  }}
+                  className={`p-2 rounded-lg transition-colors ${showHistory && selectedPixel
+                    ? 'text-blue-500 bg-blue-50 hover:bg-blue-100'
+                    : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'
+                    }`}
+                  title="Pixel history"
+                >
+                  <HistoryIcon />
+                </button>
+
                 {/* Share Button */}
                 <button
                   onClick={() => {
@@ -786,26 +1193,28 @@ function CanvasApp() {
                 </button>
 
                 {/* Premium Button */}
-                {!hasAccess && account.address && (
+                {account.address && (
                   <button
-                    onClick={() => grantPremiumAccess()}
-                    disabled={isPurchasingPremium}
-                    className="flex items-center gap-1.5 px-3 py-1.5 bg-linear-to-r from-amber-400 to-orange-500 text-white rounded-lg font-medium text-sm hover:from-amber-500 hover:to-orange-600 transition-all shadow-sm disabled:opacity-50"
-                    title={`No cooldown for 2h - ${DEFAULT_PREMIUM_COST_ETH} ETH`}
+                    onClick={() => setShowPremium(true)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-linear-to-r from-amber-400 to-orange-500 text-white rounded-lg font-medium text-sm hover:from-amber-500 hover:to-orange-600 transition-all shadow-sm"
+                    title={hasAccess ? 'Extend or gift premium' : 'No cooldown - see premium plans'}
                   >
                     <ZapIcon />
-                    <span className="hidden sm:inline">Boost</span>
+                    <span className="hidden sm:inline">{hasAccess ? 'Boosted' : 'Boost'}</span>
                   </button>
                 )}
-                {hasAccess && (
-                  <div className="flex items-center gap-1.5 px-3 py-1.5 bg-linear-to-r from-amber-400 to-orange-500 text-white rounded-lg font-medium text-sm">
-                    <ZapIcon />
-                    <span className="hidden sm:inline">Boosted</span>
-                  </div>
-                )}
               </div>
             </div>
 
+            {/* Pixel History */}
+            {showHistory && selectedPixel && (
+              <PixelHistoryPanel
+                px={selectedPixel.px}
+                py={selectedPixel.py}
+                refreshKey={selectedPixelLatestTimestamp}
+              />
+            )}
+
             {/* Color Palette */}
             {isToolbarExpanded && (
               <div className="p-4">
@@ -853,12 +1262,12 @@ function CanvasApp() {
             {/* Paint Button with Cooldown */}
             <div className="px-4 pb-4">
               <button
-                onClick={needsSignature ? generateFromSignature : needsFunding ? fundSessionKey : handlePlacePixel}
-                disabled={!account.address || (!needsSignature && !needsFunding && !selectedPixel) || isFunding}
+                onClick={needsSignature ? generateFromSignature : needsFunding ? fundSessionKey : needsDelegation ? authorizeDelegate : handlePlacePixel}
+                disabled={!account.address || (!needsSignature && !needsFunding && !needsDelegation && (!selectedPixel || isPaused || isTilePaused || isReadOnly)) || isFunding || isDelegating}
                 className="w-full relative overflow-hidden bg-blue-500 hover:bg-blue-600 disabled:bg-slate-300 text-white font-semibold py-3 px-6 rounded-xl transition-all disabled:cursor-not-allowed shadow-lg hover:shadow-xl active:scale-[0.99]"
               >
                 {/* Cooldown/Pixels progress bar */}
-                {!hasAccess && !needsSignature && !needsFunding && (
+                {!hasAccess && !needsSignature && !needsFunding && !needsDelegation && (
                   <div
                     className="absolute inset-0 bg-blue-600 transition-all duration-300"
                     style={{ width: `${cooldownProgress}%` }}
@@ -866,9 +1275,9 @@ function CanvasApp() {
                 )}
 
                 <div className="relative flex items-center justify-center gap-3">
-                  {isFunding ? (
+                  {isFunding || isDelegating ? (
                     <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  ) : needsSignature ? (
+                  ) : needsSignature || needsDelegation ? (
                     <KeyIcon />
                   ) : needsFunding ? (
                     <WalletIcon />
@@ -884,8 +1293,18 @@ function CanvasApp() {
                           ? 'Sign to Create Session Key'
                           : needsFunding
                             ? 'Fund Session Key'
-                            : !selectedPixel
+                            : isDelegating
+                              ? 'Authorizing...'
+                              : needsDelegation
+                                ? 'Authorize Session Key'
+                                : !selectedPixel
                               ? 'Select a pixel'
+                              : replayControls.isReplaying
+                                ? 'Replaying'
+                              : isViewingArchive
+                                ? 'Viewing archive'
+                              : isPaused || isTilePaused
+                                ? 'Paused'
                               : pendingCount > 0
                                 ? `Painting (${pendingCount})...`
                                 : queueLength > 0
@@ -893,7 +1312,7 @@ function CanvasApp() {
                                   : 'Paint'
                     }
                   </span>
-                  {account.address && selectedPixel && !needsFunding && (
+                  {account.address && selectedPixel && !needsFunding && !needsDelegation && (
                     <span className={`px-2 py-0.5 rounded-full text-sm ${canPlace || hasAccess ? 'bg-white/20' : 'bg-white/10'
                       }`}>
                       {cooldownDisplay}
@@ -908,6 +1327,10 @@ function CanvasApp() {
                   <span className="text-blue-500">Sign to create your deterministic session key</span>
                 ) : needsFunding ? (
                   <span className="text-amber-500">Fund session key to paint instantly</span>
+                ) : needsDelegation ? (
+                  <span className="text-blue-500">Authorize your session key to paint for your wallet</span>
+                ) : isPaused ? (
+                  <span className="text-red-500">Painting resumes when the moderators unpause the canvas</span>
                 ) : currentZoom >= PIXEL_SELECT_ZOOM ? (
                   <>
                     <span className="text-emerald-500">Click to paint instantly!</span>
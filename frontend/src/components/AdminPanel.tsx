@@ -0,0 +1,300 @@
+import { useState, type ReactNode } from 'react';
+import { useBalance } from 'wagmi';
+import { formatEther, isAddress, parseEther } from 'viem';
+import { MEGAPLACE_ADDRESS } from '../contracts/config';
+import {
+  CONFIG_SETTINGS,
+  useAdminRoles,
+  useAdminGrantPremiumAccess,
+  useAdminGrantPremiumAccessBatch,
+  useUpdateConfig,
+  usePremiumPlans,
+  useSetPremiumPlan,
+  useWithdraw,
+  useManageRole,
+  type AdminRole,
+  type ConfigSetting,
+} from '../hooks/useMegaplace';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from './ui/dialog';
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  admin: 'Admin',
+  moderator: 'Moderator',
+  configAdmin: 'Config admin',
+  treasurer: 'Treasurer',
+};
+
+const inputClassName = 'w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-mono focus:outline-none focus:border-blue-400 disabled:bg-slate-50';
+const buttonClassName = 'px-3 py-1.5 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:bg-slate-300 text-white text-sm font-medium transition-colors disabled:cursor-not-allowed';
+
+// Split a comma or whitespace separated list of addresses, dropping anything invalid
+function parseAddresses(text: string): string[] {
+  return text.split(/[\s,]+/).filter(address => isAddress(address));
+}
+
+// A panel section, greyed out with the role it needs when the wallet lacks it
+function Section({ title, role, allowed, children }: {
+  title: string;
+  role: AdminRole;
+  allowed: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <div className={`py-3 border-b border-slate-100 last:border-0 ${allowed ? '' : 'opacity-50'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-slate-700">{title}</span>
+        {!allowed && (
+          <span className="text-xs text-slate-400">Requires {ROLE_LABELS[role].toLowerCase()}</span>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+interface AdminPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AdminPanel({ open, onOpenChange }: AdminPanelProps) {
+  const roles = useAdminRoles();
+  const { adminGrantPremiumAccess, canGrant, isPending: isGranting } = useAdminGrantPremiumAccess();
+  const { adminGrantPremiumAccessBatch, isPending: isGrantingBatch } = useAdminGrantPremiumAccessBatch();
+  const { updateConfig, canUpdate, isPending: isUpdating } = useUpdateConfig();
+  const { plans } = usePremiumPlans();
+  const { setPremiumPlan, isPending: isUpdatingPlan } = useSetPremiumPlan();
+  const { withdraw, canWithdraw, isPending: isWithdrawing } = useWithdraw();
+  const { grantRole, revokeRole, canManage, isPending: isManaging } = useManageRole();
+  const { data: balance } = useBalance({ address: MEGAPLACE_ADDRESS, query: { enabled: open } });
+
+  const [premiumAddresses, setPremiumAddresses] = useState('');
+  const [setting, setSetting] = useState<ConfigSetting>('setRateLimitSeconds');
+  const [settingValue, setSettingValue] = useState('');
+  const [role, setRole] = useState<AdminRole>('moderator');
+  const [roleAccount, setRoleAccount] = useState('');
+  const [planId, setPlanId] = useState('');
+  const [planPrice, setPlanPrice] = useState('');
+  const [planHours, setPlanHours] = useState('');
+  const [planBatchCap, setPlanBatchCap] = useState('');
+
+  const premiumRecipients = parseAddresses(premiumAddresses);
+  const isValidSettingValue = /^\d+$/.test(settingValue);
+  const isValidPlan = /^\d+$/.test(planId) && /^\d*\.?\d+$/.test(planPrice) && /^\d*\.?\d+$/.test(planHours) && /^\d+$/.test(planBatchCap);
+
+  // Retired plans are not listed, so the next id comes from the highest plan for sale
+  const nextPlanId = plans.length > 0 ? Math.max(...plans.map(plan => plan.id)) + 1 : 0;
+
+  const handleSetPlan = () => {
+    setPremiumPlan(Number(planId), parseEther(planPrice), BigInt(Math.round(Number(planHours) * 3600)), Number(planBatchCap));
+  };
+
+  const handleGrantPremium = () => {
+    if (premiumRecipients.length === 1) {
+      adminGrantPremiumAccess(premiumRecipients[0]);
+    } else {
+      adminGrantPremiumAccessBatch(premiumRecipients);
+    }
+  };
+
+  const roleStatus = {
+    admin: roles.isAdmin,
+    moderator: roles.isModerator,
+    configAdmin: roles.isConfigAdmin,
+    treasurer: roles.isTreasurer,
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Admin</DialogTitle>
+          <DialogDescription>
+            Actions your wallet may perform on the contract
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-1.5">
+          {(Object.keys(ROLE_LABELS) as AdminRole[]).map(key => (
+            <span
+              key={key}
+              className={`px-2 py-0.5 rounded-full text-xs ${roleStatus[key]
+                ? 'bg-emerald-100 text-emerald-700'
+                : 'bg-slate-100 text-slate-400 line-through'
+                }`}
+            >
+              {ROLE_LABELS[key]}
+            </span>
+          ))}
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          <Section title="Grant premium" role="moderator" allowed={canGrant}>
+            <textarea
+              value={premiumAddresses}
+              onChange={(e) => setPremiumAddresses(e.target.value)}
+              disabled={!canGrant}
+              placeholder="0x... (one or more addresses)"
+              rows={2}
+              className={inputClassName}
+            />
+            <button
+              onClick={handleGrantPremium}
+              disabled={!canGrant || premiumRecipients.length === 0 || isGranting || isGrantingBatch}
+              className={`${buttonClassName} mt-2`}
+            >
+              Grant to {premiumRecipients.length} {premiumRecipients.length === 1 ? 'address' : 'addresses'}
+            </button>
+          </Section>
+
+          <Section title="Configuration" role="configAdmin" allowed={canUpdate}>
+            <div className="flex gap-2">
+              <select
+                value={setting}
+                onChange={(e) => setSetting(e.target.value as ConfigSetting)}
+                disabled={!canUpdate}
+                className={inputClassName}
+              >
+                {(Object.keys(CONFIG_SETTINGS) as ConfigSetting[]).map(key => (
+                  <option key={key} value={key}>{key.replace(/^set/, '')}</option>
+                ))}
+              </select>
+              <input
+                value={settingValue}
+                onChange={(e) => setSettingValue(e.target.value.trim())}
+                disabled={!canUpdate}
+                placeholder={CONFIG_SETTINGS[setting]}
+                className={inputClassName}
+              />
+            </div>
+            <button
+              onClick={() => updateConfig(setting, BigInt(settingValue))}
+              disabled={!canUpdate || !isValidSettingValue || isUpdating}
+              className={`${buttonClassName} mt-2`}
+            >
+              Update
+            </button>
+          </Section>
+
+          <Section title="Premium plans" role="configAdmin" allowed={canUpdate}>
+            <div className="flex flex-col gap-1 mb-2">
+              {plans.map(plan => (
+                <button
+                  key={plan.id}
+                  onClick={() => {
+                    setPlanId(String(plan.id));
+                    setPlanPrice(formatEther(plan.price));
+                    setPlanHours(String(Number(plan.duration) / 3600));
+                    setPlanBatchCap(String(plan.batchCap));
+                  }}
+                  disabled={!canUpdate}
+                  className="flex justify-between text-xs text-slate-600 hover:text-slate-800 disabled:hover:text-slate-600"
+                >
+                  <span>#{plan.id} · {Number(plan.duration) / 3600}h · {plan.batchCap.toLocaleString()} px/tx</span>
+                  <span>{formatEther(plan.price)} ETH</span>
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              <input
+                value={planId}
+                onChange={(e) => setPlanId(e.target.value.trim())}
+                disabled={!canUpdate}
+                placeholder={`id (${nextPlanId} = new)`}
+                className={inputClassName}
+              />
+              <input
+                value={planPrice}
+                onChange={(e) => setPlanPrice(e.target.value.trim())}
+                disabled={!canUpdate}
+                placeholder="ETH"
+                className={inputClassName}
+              />
+              <input
+                value={planHours}
+                onChange={(e) => setPlanHours(e.target.value.trim())}
+                disabled={!canUpdate}
+                placeholder="hours"
+                className={inputClassName}
+              />
+              <input
+                value={planBatchCap}
+                onChange={(e) => setPlanBatchCap(e.target.value.trim())}
+                disabled={!canUpdate}
+                placeholder="px/tx"
+                className={inputClassName}
+              />
+            </div>
+            <button
+              onClick={handleSetPlan}
+              disabled={!canUpdate || !isValidPlan || isUpdatingPlan}
+              className={`${buttonClassName} mt-2`}
+            >
+              Save plan
+            </button>
+            <div className="mt-1 text-xs text-slate-400">0 hours retires a plan</div>
+          </Section>
+
+          <Section title="Treasury" role="treasurer" allowed={canWithdraw}>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-slate-600">
+                {balance ? `${formatEther(balance.value)} ETH` : '...'}
+              </span>
+              <button
+                onClick={withdraw}
+                disabled={!canWithdraw || !balance?.value || isWithdrawing}
+                className={buttonClassName}
+              >
+                Withdraw to my wallet
+              </button>
+            </div>
+          </Section>
+
+          <Section title="Roles" role="admin" allowed={canManage}>
+            <div className="flex gap-2">
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as AdminRole)}
+                disabled={!canManage}
+                className={`${inputClassName} w-36 shrink-0`}
+              >
+                {(Object.keys(ROLE_LABELS) as AdminRole[]).map(key => (
+                  <option key={key} value={key}>{ROLE_LABELS[key]}</option>
+                ))}
+              </select>
+              <input
+                value={roleAccount}
+                onChange={(e) => setRoleAccount(e.target.value.trim())}
+                disabled={!canManage}
+                placeholder="0x..."
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={() => grantRole(role, roleAccount)}
+                disabled={!canManage || !isAddress(roleAccount) || isManaging}
+                className={buttonClassName}
+              >
+                Grant
+              </button>
+              <button
+                onClick={() => revokeRole(role, roleAccount)}
+                disabled={!canManage || !isAddress(roleAccount) || isManaging}
+                className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 hover:text-red-600 hover:bg-red-50 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Revoke
+              </button>
+            </div>
+          </Section>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
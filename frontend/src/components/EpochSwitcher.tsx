@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { fetchEpochs, type EpochSummary } from '../services/backendApi';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+} from './ui/dropdown-menu';
+
+interface EpochSwitcherProps {
+  // Archived epoch being viewed, null for the live canvas
+  viewedEpoch: number | null;
+  onSelect: (epoch: number | null) => void;
+}
+
+export function EpochSwitcher({ viewedEpoch, onSelect }: EpochSwitcherProps) {
+  const [epochs, setEpochs] = useState<EpochSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Epochs only change when an admin starts a new one, so they are fetched when the menu opens
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+    setIsLoading(true);
+    setEpochs(await fetchEpochs());
+    setIsLoading(false);
+  };
+
+  const handleValueChange = (value: string) => {
+    const epoch = epochs.find(e => String(e.id) === value);
+    onSelect(!epoch || epoch.isCurrent ? null : epoch.id);
+  };
+
+  const current = epochs.find(e => e.isCurrent);
+  const selectedValue = String(viewedEpoch ?? current?.id ?? '');
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`backdrop-blur-sm px-3 py-1.5 rounded-lg shadow-lg text-sm font-medium transition-colors ${viewedEpoch !== null
+            ? 'bg-amber-500 text-white hover:bg-amber-600'
+            : 'bg-white/90 text-slate-700 hover:bg-white'
+            }`}
+          title="Browse archived canvases"
+        >
+          {viewedEpoch !== null ? `Epoch ${viewedEpoch}` : 'Epochs'}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Canvas epochs</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {isLoading && epochs.length === 0 ? (
+          <div className="px-2 py-1.5 text-sm text-slate-400">Loading epochs...</div>
+        ) : epochs.length === 0 ? (
+          <div className="px-2 py-1.5 text-sm text-slate-400">Epochs are unavailable</div>
+        ) : (
+          <DropdownMenuRadioGroup value={selectedValue} onValueChange={handleValueChange}>
+            {[...epochs].reverse().map(epoch => (
+              <DropdownMenuRadioItem key={epoch.id} value={String(epoch.id)}>
+                <div className="flex flex-col">
+                  <span>
+                    Epoch {epoch.id}
+                    {epoch.isCurrent && <span className="ml-1 text-emerald-600">(live)</span>}
+                  </span>
+                  <span className="text-xs text-slate-400">
+                    {epoch.totalPixels.toLocaleString()} pixels
+                    {epoch.startedAt !== null && ` · since ${new Date(epoch.startedAt * 1000).toLocaleDateString()}`}
+                  </span>
+                </div>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
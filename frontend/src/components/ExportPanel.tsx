@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import type { PixelRect } from '../hooks/useMap';
+import { getRegionExportUrl } from '../services/backendApi';
+import { EXPORT_SCALES, MAX_EXPORT_SIDE } from '../constants';
+
+interface ExportPanelProps {
+  // Selected area, null until both corners were clicked
+  selection: PixelRect | null;
+  // Whether the first corner was clicked and the second is pending
+  isSelecting: boolean;
+  // Archived epoch being viewed, null for the live canvas
+  epoch: number | null;
+  onClose: () => void;
+}
+
+export function ExportPanel({ selection, isSelecting, epoch, onClose }: ExportPanelProps) {
+  const [scale, setScale] = useState<number>(1);
+
+  const largestSide = selection ? Math.max(selection.width, selection.height) : 0;
+  const isTooLarge = largestSide * scale > MAX_EXPORT_SIDE;
+  const options = { scale, epoch: epoch ?? undefined };
+
+  return (
+    <div className="absolute bottom-4 left-4 w-80 bg-white/95 backdrop-blur-sm rounded-xl shadow-2xl z-40 overflow-hidden">
+      <div className="p-3 border-b border-slate-200 font-semibold text-slate-700 flex items-center justify-between">
+        <span>Export{epoch !== null && <span className="ml-1 font-normal text-slate-400">(epoch {epoch})</span>}</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+      </div>
+
+      <div className="px-4 py-3">
+        {!selection ? (
+          <div className="text-xs text-slate-500">
+            {isSelecting ? 'Click the opposite corner of the area' : 'Click two corners on the map to select an area'}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-sm text-slate-700">
+              <span className="font-mono">{selection.x}, {selection.y}</span>
+              <span className="text-slate-500">{selection.width} × {selection.height}</span>
+            </div>
+
+            <div className="mt-3 flex items-center gap-1 text-xs text-slate-500">
+              <span className="mr-1">Scale</span>
+              {EXPORT_SCALES.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setScale(option)}
+                  disabled={largestSide * option > MAX_EXPORT_SIDE}
+                  className={`px-1.5 py-0.5 rounded disabled:opacity-30 disabled:cursor-not-allowed ${scale === option ? 'bg-blue-500 text-white' : 'hover:bg-slate-100'}`}
+                >
+                  {option}x
+                </button>
+              ))}
+            </div>
+            <div className="mt-1 text-xs text-slate-400">
+              {selection.width * scale} × {selection.height * scale} px, empty pixels transparent
+            </div>
+            {isTooLarge && (
+              <div className="mt-1 text-xs text-red-500">
+                Images are limited to {MAX_EXPORT_SIDE} px per side, select a smaller area or scale
+              </div>
+            )}
+
+            {/* The backend sends the images as attachments, so the links download instead of navigating */}
+            <div className="mt-3 grid grid-cols-2 gap-2">
+              <a
+                href={isTooLarge ? undefined : getRegionExportUrl(selection, 'png', options)}
+                aria-disabled={isTooLarge}
+                className={`px-3 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white text-sm font-medium text-center transition-colors ${isTooLarge ? 'opacity-50 pointer-events-none' : ''}`}
+              >
+                Download PNG
+              </a>
+              <a
+                href={isTooLarge ? undefined : getRegionExportUrl(selection, 'gif', options)}
+                aria-disabled={isTooLarge}
+                className={`px-3 py-2 rounded-lg border border-slate-200 hover:bg-slate-50 text-slate-700 text-sm font-medium text-center transition-colors ${isTooLarge ? 'opacity-50 pointer-events-none' : ''}`}
+                title="Animated history of the area"
+              >
+                Download GIF
+              </a>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
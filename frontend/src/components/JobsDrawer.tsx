@@ -0,0 +1,114 @@
+import type { PlacementJobs } from '../hooks/usePlacementJobs';
+import { remainingPixels } from '../hooks/usePlacementJobs';
+import type { PlacementJob } from '../services/placementJobs';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from './ui/sheet';
+import { Progress } from './ui/progress';
+
+interface JobsDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  placementJobs: PlacementJobs;
+}
+
+const STATUS_STYLES: Record<PlacementJob['status'], string> = {
+  queued: 'bg-slate-100 text-slate-600',
+  running: 'bg-blue-100 text-blue-700',
+  paused: 'bg-amber-100 text-amber-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-slate-100 text-slate-400',
+};
+
+// Placement jobs of the connected wallet with their progress, and controls to pause, resume or cancel them
+export function JobsDrawer({ open, onOpenChange, placementJobs }: JobsDrawerProps) {
+  const { jobs, phase, pauseJob, resumeJob, cancelJob, clearFinished } = placementJobs;
+  const hasFinished = jobs.some(job => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled');
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="gap-0">
+        <SheetHeader className="border-b border-slate-200">
+          <SheetTitle>Placement Jobs</SheetTitle>
+          <SheetDescription>
+            Queued pixels and templates are placed in batches as your cooldown allows, and pick up where they left off after a reload.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+          {jobs.length === 0 && (
+            <div className="text-sm text-slate-400 text-center py-8">No placement jobs</div>
+          )}
+          {[...jobs].reverse().map(job => {
+            const total = job.pixels.length / 3;
+            const isUnfinished = job.status === 'queued' || job.status === 'running' || job.status === 'paused';
+            return (
+              <div key={job.id} className="rounded-lg border border-slate-200 p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-slate-700 truncate">{job.label}</span>
+                  <span className={`px-1.5 py-0.5 rounded text-xs font-medium shrink-0 ${STATUS_STYLES[job.status]}`}>
+                    {job.status === 'running' && phase === 'cooldown' ? 'cooldown' : job.status}
+                  </span>
+                </div>
+                <Progress value={total > 0 ? (job.cursor / total) * 100 : 0} className="mt-2" />
+                <div className="mt-1 flex items-center justify-between text-xs text-slate-500">
+                  <span>
+                    {job.placed.toLocaleString()} / {total.toLocaleString()} placed
+                    {job.skipped > 0 && <span className="text-slate-400"> · {job.skipped} skipped</span>}
+                  </span>
+                  <span className="text-slate-400">{new Date(job.createdAt).toLocaleString()}</span>
+                </div>
+                {job.error && <div className="mt-1 text-xs text-red-500 truncate" title={job.error}>{job.error}</div>}
+
+                {(isUnfinished || job.status === 'failed') && (
+                  <div className="mt-2 flex gap-2">
+                    {job.status === 'paused' || job.status === 'failed' ? (
+                      <button
+                        onClick={() => resumeJob(job.id)}
+                        className="px-2 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white text-xs font-medium"
+                      >
+                        {job.status === 'failed' ? 'Retry' : 'Resume'}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => pauseJob(job.id)}
+                        className="px-2 py-1 rounded bg-slate-100 hover:bg-slate-200 text-slate-700 text-xs font-medium"
+                      >
+                        Pause
+                      </button>
+                    )}
+                    {isUnfinished && (
+                      <button
+                        onClick={() => cancelJob(job.id)}
+                        className="px-2 py-1 rounded text-slate-500 hover:text-red-500 hover:bg-red-50 text-xs font-medium"
+                        title={`Drop the ${remainingPixels(job).toLocaleString()} pixels left`}
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {hasFinished && (
+          <div className="p-4 border-t border-slate-200">
+            <button
+              onClick={clearFinished}
+              className="w-full px-3 py-2 rounded-lg border border-slate-200 hover:bg-slate-50 text-slate-700 text-sm font-medium"
+            >
+              Clear finished jobs
+            </button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
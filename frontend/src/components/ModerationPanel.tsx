@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useState } from 'react';
+import { isAddress } from 'viem';
+import { useCanvasPause, useClearRegion, usePauseControls, useSetBanned } from '../hooks/useMegaplace';
+import type { PixelRect } from '../hooks/useMap';
+import { fetchBans, type AddressBan } from '../services/backendApi';
+import { MAX_REGION_SIZE, TILE_SIZE } from '../constants';
+
+interface ModerationPanelProps {
+  // Selected area, null until both corners were clicked
+  selection: PixelRect | null;
+  // Whether the first corner was clicked and the second is pending
+  isSelecting: boolean;
+  onClearSelection: () => void;
+  onClose: () => void;
+}
+
+export function ModerationPanel({ selection, isSelecting, onClearSelection, onClose }: ModerationPanelProps) {
+  const { clearRegion, isPending: isClearing, isConfirming: isConfirmingClear, isConfirmed: isCleared } = useClearRegion();
+  const { setBanned, isPending: isBanning, isConfirmed: isBanUpdated } = useSetBanned();
+  const { setPaused, setTilePaused, isPending: isPausing, isConfirmed: isPauseUpdated } = usePauseControls();
+  // The selection's top-left corner picks the tile to pause
+  const { isPaused, isTilePaused, refetch: refetchPause } = useCanvasPause(selection ? { px: selection.x, py: selection.y } : null);
+  const [bans, setBans] = useState<AddressBan[]>([]);
+  const [banAddress, setBanAddress] = useState('');
+
+  const pixelCount = selection ? selection.width * selection.height : 0;
+  const isTooLarge = pixelCount > MAX_REGION_SIZE;
+  const tileX = selection ? Math.floor(selection.x / TILE_SIZE) : 0;
+  const tileY = selection ? Math.floor(selection.y / TILE_SIZE) : 0;
+
+  const loadBans = useCallback(async () => {
+    setBans(await fetchBans());
+  }, []);
+
+  useEffect(() => {
+    loadBans();
+  }, [loadBans]);
+
+  // The backend indexes the ban shortly after the transaction confirms
+  useEffect(() => {
+    if (!isBanUpdated) return;
+    setBanAddress('');
+    const timeout = setTimeout(loadBans, 2000);
+    return () => clearTimeout(timeout);
+  }, [isBanUpdated, loadBans]);
+
+  useEffect(() => {
+    if (isPauseUpdated) {
+      refetchPause();
+    }
+  }, [isPauseUpdated, refetchPause]);
+
+  useEffect(() => {
+    if (isCleared) {
+      onClearSelection();
+    }
+  }, [isCleared, onClearSelection]);
+
+  return (
+    <div className="absolute bottom-4 left-4 w-80 bg-white/95 backdrop-blur-sm rounded-xl shadow-2xl z-40 overflow-hidden">
+      <div className="p-3 border-b border-slate-200 font-semibold text-slate-700 flex items-center justify-between">
+        <span>Moderation</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+      </div>
+
+      <div className="px-4 py-3 border-b border-slate-100">
+        {!selection ? (
+          <div className="text-xs text-slate-500">
+            {isSelecting ? 'Click the opposite corner of the area' : 'Click two corners on the map to select an area'}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between text-sm text-slate-700">
+              <span className="font-mono">{selection.x}, {selection.y}</span>
+              <span className="text-slate-500">
+                {selection.width} × {selection.height} ({pixelCount.toLocaleString()} px)
+              </span>
+            </div>
+            {isTooLarge && (
+              <div className="mt-1 text-xs text-red-500">
+                At most {MAX_REGION_SIZE.toLocaleString()} pixels can be cleared at once
+              </div>
+            )}
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={() => clearRegion(selection.x, selection.y, selection.width, selection.height)}
+                disabled={isTooLarge || isClearing || isConfirmingClear}
+                className="flex-1 px-3 py-1.5 rounded-lg bg-red-500 hover:bg-red-600 disabled:bg-slate-300 text-white text-sm font-medium transition-colors disabled:cursor-not-allowed"
+              >
+                {isClearing || isConfirmingClear ? 'Clearing...' : 'Clear region'}
+              </button>
+              <button
+                onClick={onClearSelection}
+                className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm transition-colors"
+              >
+                Reset
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-b border-slate-100">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-slate-700">
+            Placement <span className={isPaused ? 'text-red-500' : 'text-emerald-600'}>{isPaused ? 'paused' : 'open'}</span>
+          </span>
+          <button
+            onClick={() => setPaused(!isPaused)}
+            disabled={isPausing}
+            className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isPaused ? 'Resume canvas' : 'Pause canvas'}
+          </button>
+        </div>
+        {selection && (
+          <div className="flex items-center justify-between mt-2">
+            <span className="text-xs text-slate-500">
+              Tile ({tileX}, {tileY}) {isTilePaused ? 'is paused' : ''}
+            </span>
+            <button
+              onClick={() => setTilePaused(tileX, tileY, !isTilePaused)}
+              disabled={isPausing}
+              className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isTilePaused ? 'Resume tile' : 'Pause tile'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 py-3">
+        <div className="text-sm font-medium text-slate-700 mb-2">
+          Banned <span className="text-slate-400 font-normal">({bans.length})</span>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={banAddress}
+            onChange={(e) => setBanAddress(e.target.value.trim())}
+            placeholder="0x..."
+            className="w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-mono focus:outline-none focus:border-blue-400"
+          />
+          <button
+            onClick={() => setBanned(banAddress, true)}
+            disabled={!isAddress(banAddress) || isBanning}
+            className="px-3 py-1.5 rounded-lg bg-red-500 hover:bg-red-600 disabled:bg-slate-300 text-white text-sm font-medium transition-colors disabled:cursor-not-allowed"
+          >
+            Ban
+          </button>
+        </div>
+        <div className="max-h-32 overflow-y-auto mt-2">
+          {bans.map(ban => (
+            <div key={ban.address} className="flex items-center justify-between py-1 border-b border-slate-100 last:border-0">
+              <span className="text-xs font-mono text-slate-600">
+                {ban.address.slice(0, 6)}...{ban.address.slice(-4)}
+              </span>
+              <button
+                onClick={() => setBanned(ban.address, false)}
+                disabled={isBanning}
+                className="text-xs text-blue-500 hover:text-blue-600 disabled:text-slate-400"
+              >
+                Unban
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { fetchPixelHistory, type BackendPixelHistoryEntry } from '../services/backendApi';
+import { uint32ToHex } from '../hooks/useMegaplace';
+
+const PAGE_SIZE = 10;
+
+// Time windows selectable in the panel (seconds, null = all time)
+const TIME_RANGES = [
+  { label: 'All', seconds: null },
+  { label: '24h', seconds: 24 * 60 * 60 },
+  { label: '7d', seconds: 7 * 24 * 60 * 60 },
+] as const;
+
+interface PixelHistoryPanelProps {
+  px: number;
+  py: number;
+  // Bump to refetch (e.g. after a new placement at this pixel)
+  refreshKey?: number;
+}
+
+export function PixelHistoryPanel({ px, py, refreshKey }: PixelHistoryPanelProps) {
+  const [entries, setEntries] = useState<BackendPixelHistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rangeIndex, setRangeIndex] = useState(0);
+
+  const loadPage = useCallback(async (offset: number) => {
+    const range = TIME_RANGES[rangeIndex];
+    setIsLoading(true);
+
+    const response = await fetchPixelHistory(px, py, {
+      limit: PAGE_SIZE,
+      offset,
+      from: range.seconds !== null ? Math.floor(Date.now() / 1000) - range.seconds : undefined,
+    });
+
+    setIsLoading(false);
+    if (!response) return;
+
+    setEntries(prev => offset === 0 ? response.history : [...prev, ...response.history]);
+    setTotal(response.total);
+    setHasMore(response.hasMore);
+  }, [px, py, rangeIndex]);
+
+  // Reload from the first page when the pixel or time range changes
+  useEffect(() => {
+    setEntries([]);
+    loadPage(0);
+  }, [loadPage, refreshKey]);
+
+  return (
+    <div className="px-4 py-3 border-b border-slate-100">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-slate-700">
+          History <span className="text-slate-400 font-normal">({total})</span>
+        </span>
+        <div className="flex gap-1">
+          {TIME_RANGES.map((range, i) => (
+            <button
+              key={range.label}
+              onClick={() => setRangeIndex(i)}
+              className={`px-2 py-0.5 rounded text-xs transition-colors ${rangeIndex === i
+                ? 'bg-blue-500 text-white'
+                : 'text-slate-500 hover:bg-slate-100'
+                }`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-40 overflow-y-auto">
+        {entries.length === 0 && !isLoading && (
+          <div className="text-xs text-slate-400 py-2">No placements recorded</div>
+        )}
+        {entries.map((entry) => {
+          const isTransparent = entry.color === 0;
+          return (
+            <div
+              key={`${entry.blockNumber}-${entry.logIndex}`}
+              className="flex items-center gap-3 py-1.5 border-b border-slate-100 last:border-0"
+            >
+              <div
+                className="w-5 h-5 rounded shadow-inner border border-slate-200 shrink-0"
+                style={isTransparent ? {
+                  backgroundImage: `
+                    linear-gradient(45deg, #ccc 25%, transparent 25%),
+                    linear-gradient(-45deg, #ccc 25%, transparent 25%),
+                    linear-gradient(45deg, transparent 75%, #ccc 75%),
+                    linear-gradient(-45deg, transparent 75%, #ccc 75%)
+                  `,
+                  backgroundSize: '6px 6px',
+                  backgroundPosition: '0 0, 0 3px, 3px -3px, -3px 0px',
+                  backgroundColor: '#fff'
+                } : { backgroundColor: uint32ToHex(entry.color) }}
+              />
+              <span className="text-xs font-mono text-slate-600">
+                {entry.placedBy.slice(0, 6)}...{entry.placedBy.slice(-4)}
+              </span>
+              {isTransparent && <span className="text-slate-400 text-xs">(erased)</span>}
+              <span className="ml-auto text-xs text-slate-400">
+                {formatDistanceToNow(entry.timestamp * 1000, { addSuffix: true })}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {(hasMore || isLoading) && (
+        <button
+          onClick={() => loadPage(entries.length)}
+          disabled={isLoading}
+          className="mt-2 w-full text-xs text-blue-500 hover:text-blue-600 disabled:text-slate-400"
+        >
+          {isLoading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
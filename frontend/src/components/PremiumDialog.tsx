@@ -0,0 +1,139 @@
+import { useEffect, useRef, useState } from 'react';
+import { formatEther, isAddress, zeroAddress } from 'viem';
+import { toast } from 'sonner';
+import { usePremiumAccess, usePremiumPlans, usePurchasePremium } from '../hooks/useMegaplace';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from './ui/dialog';
+
+// Human readable plan length, e.g. "2 hours" or "7 days"
+function formatDuration(seconds: bigint): string {
+  const hours = Number(seconds) / 3600;
+  if (hours >= 24 && hours % 24 === 0) {
+    return `${hours / 24} ${hours === 24 ? 'day' : 'days'}`;
+  }
+  if (hours >= 1) {
+    return `${Number(hours.toFixed(1))} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${Math.round(Number(seconds) / 60)} min`;
+}
+
+interface PremiumDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PremiumDialog({ open, onOpenChange }: PremiumDialogProps) {
+  const { plans, isLoading, refetch } = usePremiumPlans();
+  const { hasAccess, expiryTime } = usePremiumAccess();
+  const { purchasePremium, hash, isPending, isConfirming, isConfirmed } = usePurchasePremium();
+  const [selectedPlanId, setSelectedPlanId] = useState<number | null>(null);
+  const [isGift, setIsGift] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  const notifiedHashRef = useRef<string | null>(null);
+
+  const selectedPlan = plans.find(plan => plan.id === selectedPlanId) ?? plans[0];
+  const isBusy = isPending || isConfirming;
+
+  // Plans may have changed since the page loaded
+  useEffect(() => {
+    if (open) {
+      refetch();
+    }
+  }, [open, refetch]);
+
+  useEffect(() => {
+    if (!isConfirmed || !hash || notifiedHashRef.current === hash) return;
+    notifiedHashRef.current = hash;
+    toast.success(isGift ? 'Premium gifted' : 'Premium activated', {
+      description: isGift ? `${recipient.slice(0, 6)}...${recipient.slice(-4)} can paint without cooldown` : 'Paint without cooldown',
+    });
+    setRecipient('');
+    setIsGift(false);
+    onOpenChange(false);
+  }, [isConfirmed, hash, isGift, recipient, onOpenChange]);
+
+  const handlePurchase = () => {
+    if (!selectedPlan) return;
+    purchasePremium(selectedPlan, isGift ? recipient : undefined);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Premium</DialogTitle>
+          <DialogDescription>
+            Paint without cooldown. Buying again adds to the time you have left, and the larger batch cap applies to all of it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasAccess && (
+          <div className="text-xs text-emerald-600">
+            Active until {new Date(Number(expiryTime) * 1000).toLocaleString()}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          {isLoading && plans.length === 0 ? (
+            <div className="text-sm text-slate-400">Loading plans...</div>
+          ) : plans.length === 0 ? (
+            <div className="text-sm text-slate-400">No plans for sale right now</div>
+          ) : (
+            plans.map(plan => (
+              <button
+                key={plan.id}
+                onClick={() => setSelectedPlanId(plan.id)}
+                className={`flex items-center justify-between px-3 py-2.5 rounded-xl border text-left transition-colors ${selectedPlan?.id === plan.id
+                  ? 'border-amber-400 bg-amber-50'
+                  : 'border-slate-200 hover:bg-slate-50'
+                  }`}
+              >
+                <div>
+                  <div className="text-sm font-medium text-slate-700">{formatDuration(plan.duration)}</div>
+                  <div className="text-xs text-slate-400">
+                    Up to {plan.batchCap.toLocaleString()} pixels per transaction
+                  </div>
+                </div>
+                <span className="text-sm font-semibold text-slate-700">{formatEther(plan.price)} ETH</span>
+              </button>
+            ))
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={isGift}
+            onChange={(e) => setIsGift(e.target.checked)}
+          />
+          Gift to another address
+        </label>
+        {isGift && (
+          <input
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value.trim())}
+            placeholder="0x..."
+            className="w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm font-mono focus:outline-none focus:border-blue-400"
+          />
+        )}
+
+        <button
+          onClick={handlePurchase}
+          disabled={!selectedPlan || isBusy || (isGift && (!isAddress(recipient) || recipient.toLowerCase() === zeroAddress))}
+          className="w-full px-3 py-2.5 rounded-xl bg-linear-to-r from-amber-400 to-orange-500 hover:from-amber-500 hover:to-orange-600 text-white font-medium text-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isBusy
+            ? 'Purchasing...'
+            : selectedPlan
+              ? `${isGift ? 'Gift' : 'Buy'} ${formatDuration(selectedPlan.duration)} for ${formatEther(selectedPlan.price)} ETH`
+              : 'Select a plan'}
+        </button>
+      </DialogContent>
+    </Dialog>
+  );
+}
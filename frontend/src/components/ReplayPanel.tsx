@@ -0,0 +1,87 @@
+import type { ReplayControls } from '../hooks/useReplay';
+import { REPLAY_SPEEDS } from '../constants';
+import { Slider } from './ui/slider';
+
+const PlayIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+    <polygon points="6 3 20 12 6 21 6 3" />
+  </svg>
+);
+
+const PauseIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+    <rect x="6" y="4" width="4" height="16" rx="1" />
+    <rect x="14" y="4" width="4" height="16" rx="1" />
+  </svg>
+);
+
+interface ReplayPanelProps {
+  controls: ReplayControls;
+}
+
+// Play/pause, scrubbing and speed controls of a time-lapse replay
+export function ReplayPanel({ controls }: ReplayPanelProps) {
+  const { replay, isLoading, loadProgress, currentTime, isPlaying, speed, setSpeed, togglePlaying, seek, stopReplay } = controls;
+
+  if (isLoading || !replay) {
+    return (
+      <div className="bg-white/95 backdrop-blur-sm px-4 py-2 rounded-xl shadow-lg text-sm font-medium text-slate-700 flex items-center gap-2">
+        <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+        <span>Loading history... {Math.round(loadProgress * 100)}%</span>
+        <button
+          onClick={stopReplay}
+          className="text-slate-400 hover:text-red-500 text-xs ml-1"
+          title="Cancel replay"
+        >
+          ✕
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/95 backdrop-blur-sm px-4 py-3 rounded-xl shadow-lg w-[28rem] max-w-[90vw] flex flex-col gap-2">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlaying}
+          className="w-8 h-8 shrink-0 rounded-full bg-blue-500 hover:bg-blue-600 text-white flex items-center justify-center transition-colors"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <PauseIcon /> : <PlayIcon />}
+        </button>
+        <Slider
+          min={replay.startTime}
+          max={Math.max(replay.endTime, replay.startTime + 1)}
+          step={1}
+          value={[currentTime]}
+          onValueChange={([time]) => seek(time)}
+          className="flex-1"
+        />
+        <button
+          onClick={stopReplay}
+          className="text-slate-400 hover:text-red-500 text-xs"
+          title="Close replay"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>
+          {new Date(currentTime * 1000).toLocaleString()}
+          <span className="text-slate-400"> · {replay.count.toLocaleString()} placements</span>
+        </span>
+        <div className="flex items-center gap-1">
+          {REPLAY_SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => setSpeed(option)}
+              className={`px-1.5 py-0.5 rounded ${speed === option ? 'bg-blue-500 text-white' : 'hover:bg-slate-100'}`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import type { TemplatePlacement } from '../hooks/useTemplatePlacement';
+import { loadImageData, quantizeImage, type PixelTemplate } from '../lib/pixelArt';
+import {
+  loadTemplateFromFile,
+  loadTemplateFromUrl,
+  toTemplateFile,
+  getTemplateShareUrl,
+  type LoadedTemplate,
+} from '../lib/templateFile';
+import { CANVAS_RES, MAX_TEMPLATE_SIZE } from '../constants';
+import { Slider } from './ui/slider';
+
+const DEFAULT_TEMPLATE_WIDTH = 64;
+
+interface TemplateImporterProps {
+  // Top-left pixel of the template, null until picked on the map
+  anchor: { px: number; py: number } | null;
+  onAnchorChange: (anchor: { px: number; py: number }) => void;
+  // Whether the next map click sets the anchor
+  isPickingAnchor: boolean;
+  onPickAnchor: () => void;
+  // Called with the template whenever the art or the anchor change
+  onTemplateChange: (template: PixelTemplate | null) => void;
+  opacity: number;
+  onOpacityChange: (opacity: number) => void;
+  highlightDiff: boolean;
+  onHighlightDiffChange: (highlight: boolean) => void;
+  // Template pixels the loaded canvas doesn't match (from useMap), null when not highlighting
+  diffCount: number | null;
+  // Template to load when opened from a share link
+  initialUrl: string | null;
+  placement: TemplatePlacement;
+  // Whether the session key is ready and the canvas can be painted
+  canPlace: boolean;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<TemplatePlacement['status'], string> = {
+  idle: '',
+  diffing: 'Comparing with the canvas...',
+  queued: 'Queued behind other jobs',
+  placing: 'Placing',
+  cooldown: 'Waiting for cooldown',
+  paused: 'Paused',
+  done: 'Done',
+  stopped: 'Stopped',
+};
+
+// Pixel art from an uploaded image or a shared template file, previewed on the map and placed
+export function TemplateImporter({
+  anchor,
+  onAnchorChange,
+  isPickingAnchor,
+  onPickAnchor,
+  onTemplateChange,
+  opacity,
+  onOpacityChange,
+  highlightDiff,
+  onHighlightDiffChange,
+  diffCount,
+  initialUrl,
+  placement,
+  canPlace,
+  onClose,
+}: TemplateImporterProps) {
+  const [source, setSource] = useState<'image' | 'template'>(initialUrl ? 'template' : 'image');
+
+  // Image source: scaled to a width and quantized to the palette
+  const [file, setFile] = useState<File | null>(null);
+  const [width, setWidth] = useState(DEFAULT_TEMPLATE_WIDTH);
+  const [dither, setDither] = useState(false);
+  const [image, setImage] = useState<ImageData | null>(null);
+
+  // Template source: a JSON or PNG template file
+  const [loaded, setLoaded] = useState<LoadedTemplate | null>(null);
+  const [url, setUrl] = useState(initialUrl ?? '');
+  const [isLoadingTemplate, setIsLoadingTemplate] = useState(false);
+
+  // Scale the image whenever the file or width change
+  useEffect(() => {
+    if (!file) {
+      setImage(null);
+      return;
+    }
+    let isCurrent = true;
+    loadImageData(file, width)
+      .then(data => {
+        if (isCurrent) setImage(data);
+      })
+      .catch(err => {
+        console.error('Failed to read image:', err);
+        if (isCurrent) {
+          toast.error('Could not read the image');
+          setFile(null);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [file, width]);
+
+  const colors = useMemo(() => image ? quantizeImage(image, dither) : null, [image, dither]);
+
+  // @param keepAnchor Leave the anchor alone, as share links carry it in px/py
+  const loadTemplate = useCallback(async (load: () => Promise<LoadedTemplate>, keepAnchor = false) => {
+    setIsLoadingTemplate(true);
+    try {
+      const result = await load();
+      setLoaded(result);
+      if (result.hasAnchor && !keepAnchor) {
+        onAnchorChange({ px: result.template.x, py: result.template.y });
+      }
+    } catch (err) {
+      console.error('Failed to load template:', err);
+      toast.error('Could not load the template', { description: err instanceof Error ? err.message : undefined });
+    } finally {
+      setIsLoadingTemplate(false);
+    }
+  }, [onAnchorChange]);
+
+  useEffect(() => {
+    if (initialUrl) {
+      loadTemplate(() => loadTemplateFromUrl(initialUrl), true);
+    }
+  }, [initialUrl, loadTemplate]);
+
+  // The art of the chosen source, placed at the anchor
+  const template = useMemo((): PixelTemplate | null => {
+    if (!anchor) return null;
+    if (source === 'image') {
+      if (!image || !colors) return null;
+      return { x: anchor.px, y: anchor.py, width: image.width, height: image.height, colors };
+    }
+    if (!loaded) return null;
+    return { ...loaded.template, x: anchor.px, y: anchor.py };
+  }, [anchor, source, image, colors, loaded]);
+
+  useEffect(() => {
+    onTemplateChange(template);
+  }, [template, onTemplateChange]);
+
+  const stats = useMemo(() => {
+    if (!template) return null;
+    const used = new Set(template.colors);
+    used.delete(0);
+    return { pixels: template.colors.filter(color => color !== 0).length, colors: used.size };
+  }, [template]);
+
+  const saveTemplate = useCallback(() => {
+    if (!template) return;
+    const name = loaded && source === 'template' ? loaded.name.replace(/\.\w+$/, '') : file?.name.replace(/\.\w+$/, '');
+    const blob = new Blob([JSON.stringify(toTemplateFile(template, name), null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${name || 'template'}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }, [template, loaded, source, file]);
+
+  const shareUrl = source === 'template' && loaded?.url && template ? getTemplateShareUrl(loaded.url, template) : null;
+
+  const isOutOfBounds = template !== null &&
+    (template.x + template.width > CANVAS_RES || template.y + template.height > CANVAS_RES);
+  const { status, isPlacing, placed, total } = placement;
+
+  return (
+    <div className="absolute bottom-4 left-4 w-80 bg-white/95 backdrop-blur-sm rounded-xl shadow-2xl z-40 overflow-hidden">
+      <div className="p-3 border-b border-slate-200 font-semibold text-slate-700 flex items-center justify-between">
+        <span>Pixel Art</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+      </div>
+
+      <div className="px-4 py-3 flex flex-col gap-3 text-sm text-slate-700">
+        <div className="grid grid-cols-2 gap-1 p-0.5 bg-slate-100 rounded-lg text-xs font-medium">
+          {(['image', 'template'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setSource(option)}
+              disabled={isPlacing}
+              className={`py-1 rounded-md transition-colors ${source === option ? 'bg-white shadow-sm text-slate-700' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {option === 'image' ? 'Image' : 'Template file'}
+            </button>
+          ))}
+        </div>
+
+        {source === 'image' ? (
+          <>
+            <input
+              type="file"
+              accept="image/*"
+              disabled={isPlacing}
+              onChange={e => setFile(e.target.files?.[0] ?? null)}
+              className="text-xs text-slate-500 file:mr-2 file:px-2 file:py-1 file:rounded file:border-0 file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200"
+            />
+            <div className="flex items-center gap-3 text-xs text-slate-500">
+              <label className="flex items-center gap-1">
+                Width
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_TEMPLATE_SIZE}
+                  value={width}
+                  disabled={isPlacing}
+                  onChange={e => setWidth(Math.min(MAX_TEMPLATE_SIZE, Math.max(1, Math.floor(Number(e.target.value)) || 1)))}
+                  className="w-16 px-1.5 py-0.5 border border-slate-200 rounded text-slate-700"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={dither} disabled={isPlacing} onChange={e => setDither(e.target.checked)} />
+                Dithering
+              </label>
+            </div>
+          </>
+        ) : (
+          <>
+            <input
+              type="file"
+              accept=".json,application/json,image/png"
+              disabled={isPlacing || isLoadingTemplate}
+              onChange={e => {
+                const selected = e.target.files?.[0];
+                if (selected) loadTemplate(() => loadTemplateFromFile(selected));
+              }}
+              className="text-xs text-slate-500 file:mr-2 file:px-2 file:py-1 file:rounded file:border-0 file:bg-slate-100 file:text-slate-700 hover:file:bg-slate-200"
+            />
+            <form
+              className="flex gap-1"
+              onSubmit={e => {
+                e.preventDefault();
+                if (url.trim()) loadTemplate(() => loadTemplateFromUrl(url.trim()));
+              }}
+            >
+              <input
+                type="url"
+                placeholder="https://.../template.json"
+                value={url}
+                disabled={isPlacing || isLoadingTemplate}
+                onChange={e => setUrl(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded text-xs"
+              />
+              <button
+                type="submit"
+                disabled={isPlacing || isLoadingTemplate || !url.trim()}
+                className="px-2 py-1 rounded bg-slate-100 hover:bg-slate-200 text-xs font-medium disabled:opacity-50"
+              >
+                {isLoadingTemplate ? 'Loading...' : 'Load'}
+              </button>
+            </form>
+            {loaded && <div className="text-xs text-slate-500 truncate" title={loaded.url ?? undefined}>{loaded.name}</div>}
+          </>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-slate-500">
+            {anchor ? <>Anchor <span className="font-mono text-slate-700">{anchor.px}, {anchor.py}</span></> : 'No anchor yet'}
+          </span>
+          <button
+            onClick={onPickAnchor}
+            disabled={isPlacing}
+            className={`px-2 py-1 rounded text-xs font-medium disabled:opacity-50 ${isPickingAnchor ? 'bg-blue-500 text-white' : 'bg-slate-100 hover:bg-slate-200'}`}
+          >
+            {isPickingAnchor ? 'Click the map...' : 'Pick on map'}
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 text-xs text-slate-500">
+          <span>Opacity</span>
+          <Slider
+            min={0}
+            max={1}
+            step={0.05}
+            value={[opacity]}
+            onValueChange={([value]) => onOpacityChange(value)}
+            className="flex-1"
+          />
+        </div>
+
+        <label className="flex items-center gap-1 text-xs text-slate-500">
+          <input type="checkbox" checked={highlightDiff} onChange={e => onHighlightDiffChange(e.target.checked)} />
+          Highlight differences
+          {diffCount !== null && (
+            <span className="ml-auto text-slate-400">{diffCount.toLocaleString()} in loaded area</span>
+          )}
+        </label>
+
+        {template && stats && (
+          <div className="text-xs text-slate-400">
+            {template.width} × {template.height} · {stats.pixels.toLocaleString()} pixels · {stats.colors} colors
+          </div>
+        )}
+        {isOutOfBounds && (
+          <div className="text-xs text-red-500">The template doesn't fit on the canvas, move the anchor or make it smaller</div>
+        )}
+
+        {template && (
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={saveTemplate}
+              className="px-2 py-1 rounded border border-slate-200 hover:bg-slate-50 text-xs font-medium"
+              title="Download as a JSON template to host and share"
+            >
+              Save template
+            </button>
+            <button
+              onClick={() => {
+                if (!shareUrl) return;
+                navigator.clipboard.writeText(shareUrl);
+                toast.success('Link copied!');
+              }}
+              disabled={!shareUrl}
+              className="px-2 py-1 rounded border border-slate-200 hover:bg-slate-50 text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              title={shareUrl ? 'Copy a link that opens this template' : 'Only templates loaded from a URL can be shared by link'}
+            >
+              Copy link
+            </button>
+          </div>
+        )}
+
+        {status !== 'idle' && (
+          <div className="text-xs text-slate-500">
+            {STATUS_LABELS[status]}
+            {total > 0 && <span className="text-slate-400"> · {placed.toLocaleString()} / {total.toLocaleString()}</span>}
+          </div>
+        )}
+
+        <button
+          onClick={() => isPlacing ? placement.stop() : template && placement.start(template)}
+          disabled={!isPlacing && (!template || isOutOfBounds || !canPlace)}
+          className="px-3 py-2 rounded-lg bg-blue-500 hover:bg-blue-600 text-white text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title={canPlace ? undefined : 'Set up a session key to place pixels'}
+        >
+          {isPlacing ? 'Stop' : 'Place changed pixels'}
+        </button>
+      </div>
+    </div>
+  );
+}
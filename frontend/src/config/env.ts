@@ -41,6 +41,7 @@ export const config = {
     backendUrl: getBackendUrl(),
 
     // Feature flags
+    enableWebSocket: true, // Binary WebSocket feed for real-time updates (falls back to SSE)
     enableSSE: true, // Server-Sent Events for real-time updates
     enableBinaryFormat: true, // Binary pixel format for faster loads
 } as const;
@@ -9,21 +9,29 @@ export const MAX_REGION_SIZE = 10000; // Maximum pixels in a region query
 // Rate limiting (default values, can be changed via contract)
 export const DEFAULT_COOLDOWN_SECONDS = 5;
 export const DEFAULT_COOLDOWN_PIXELS = 15;
-export const DEFAULT_PREMIUM_COST_ETH = '0.01';
-export const DEFAULT_PREMIUM_DURATION_HOURS = 2;
 
 // Session key configuration
 export const SESSION_KEY_STORAGE_KEY = 'megaplace_session_key';
 export const SESSION_KEY_FUNDING_AMOUNT = '0.001'; // ETH to fund session key
+export const SESSION_KEY_DELEGATION_HOURS = 24; // How long a session key may place pixels for the wallet
+export const SESSION_KEY_PIXEL_BUDGET = 10000; // Pixels a session key may place before it must be renewed
+
+// Relayed placement (session key signs batches, the backend relayer pays gas)
+export const RELAY_BATCH_WINDOW_MS = 150; // Clicks within this window are signed as one batch
+export const RELAY_SIGNATURE_TTL_SECONDS = 300; // Deadline of a signed batch
+export const RELAY_JOB_POLL_INTERVAL_MS = 250;
 
 // Batch limits
 export const MAX_WRITE_BATCH_SIZE = 100;
+export const MAX_PACKED_BATCH_SIZE = 500; // placePixelsPacked, 8 bytes of calldata per pixel
 export const MAX_READ_BATCH_SIZE = 1000;
 
 // Polling intervals
 export const EVENT_POLLING_INTERVAL_MS = 500;
 export const COOLDOWN_REFETCH_INTERVAL_MS = 1000;
 export const PREMIUM_REFETCH_INTERVAL_MS = 5000;
+export const DELEGATION_REFETCH_INTERVAL_MS = 5000;
+export const PAUSE_REFETCH_INTERVAL_MS = 5000;
 
 // Map configuration
 export const DEFAULT_MAP_CENTER: [number, number] = [37.757, -122.4376]; // San Francisco
@@ -32,6 +40,37 @@ export const MIN_MAP_ZOOM = 3;
 export const MAX_MAP_ZOOM = 18;
 export const PIXEL_SELECT_ZOOM = 16; // Zoom level when clicking a pixel
 
+// Viewport pixel data loading (in TILE_SIZE data tiles)
+export const MAX_VISIBLE_DATA_TILES = 64; // Skip loading when zoomed out further than this
+export const MAX_CACHED_DATA_TILES = 256; // Least recently viewed tiles beyond this are evicted
+
+// Region claims
+export const CLAIM_OUTLINE_COLOR = '#f59e0b';
+export const CLAIM_EXPIRY_CHECK_INTERVAL_MS = 60000; // Remove outlines of claims that expired
+
+// Moderation
+export const MODERATION_BOX_COLOR = '#ef4444';
+
+// Time-lapse replay
+export const MAX_REPLAY_SIZE = 2048; // Largest region side, in pixels
+export const REPLAY_DURATION_MS = 30000; // How long a whole replay takes at 1x
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8] as const;
+
+// Region export (must match the backend)
+export const MAX_EXPORT_SIDE = 4096; // Largest image side, after scaling
+export const EXPORT_SCALES = [1, 2, 4, 8, 16, 32] as const;
+
+// Pixel art templates
+export const MAX_TEMPLATE_SIZE = 512; // Largest template side, in pixels
+export const TEMPLATE_DIFF_COLOR = '#ff00ff'; // Outline of template pixels the canvas doesn't match
+export const TEMPLATE_DIFF_SCALE = 4; // Outline image pixels per canvas pixel side
+export const TEMPLATE_DIFF_THROTTLE_MS = 250;
+
+// Placement jobs
+export const JOB_BATCH_RETRIES = 3; // Failed batches in a row before a job fails
+export const JOB_BACKOFF_BASE_MS = 1000; // Wait after N failures in a row with no cooldown behind them is this times 2^N
+export const JOB_BACKOFF_MAX_MS = 30000;
+
 // Throttling
 export const MAP_MOVE_THROTTLE_MS = 500;
 
@@ -2,15 +2,86 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { uint32ToRgb, type PixelPlacedEvent } from './useMegaplace';
 import type { Map as LeafletMap } from 'leaflet';
 import * as L from 'leaflet';
-import { latLonToGlobalPx, globalPxToLatLon } from '../lib/projection';
+import { latLonToGlobalPx, globalPxToLatLon, getTilesInBounds, getTileCoords } from '../lib/projection';
+import { PixelTileLayer } from '../lib/pixelTileLayer';
+import type { ReplayOverlay } from '../lib/replayOverlay';
+import { renderTemplate, type PixelTemplate } from '../lib/pixelArt';
 import {
-    fetchAllPixelsBinary,
-    fetchAllPixels,
+    fetchPixelsBinaryInBounds,
+    fetchPixelChangesSince,
+    fetchPixelsPage,
+    fetchClaims,
     checkBackendHealth,
     subscribeToPixelStream,
-    type BackendPixelData
+    subscribeToPixelSocket,
+    getBackendUrl,
+    type BackendPixelData,
+    type PixelBounds,
+    type PixelFrame,
+    type PixelStream,
+    type RegionClaim
 } from '../services/backendApi';
-import { PIXEL_SELECT_ZOOM } from '../constants';
+import {
+    loadCachedTiles,
+    saveCachedTiles,
+    deleteCachedTiles,
+    clearCachedTiles,
+    type CachedTile,
+} from '../services/pixelCache';
+import {
+    PIXEL_SELECT_ZOOM,
+    CANVAS_RES,
+    TILE_SIZE,
+    MAX_VISIBLE_DATA_TILES,
+    MAX_CACHED_DATA_TILES,
+    CLAIM_OUTLINE_COLOR,
+    CLAIM_EXPIRY_CHECK_INTERVAL_MS,
+    MODERATION_BOX_COLOR,
+    TEMPLATE_DIFF_COLOR,
+    TEMPLATE_DIFF_SCALE,
+    TEMPLATE_DIFF_THROTTLE_MS,
+} from '../constants';
+
+// Convert a backend pixel to the event shape used by the recent pixels list
+function toPixelEvent(pixel: BackendPixelData): PixelPlacedEvent {
+    return {
+        user: pixel.placedBy,
+        x: BigInt(pixel.x),
+        y: BigInt(pixel.y),
+        color: pixel.color,
+        timestamp: BigInt(pixel.timestamp),
+    };
+}
+
+// Key of the TILE_SIZE data tile containing a pixel
+function dataTileKey(px: number, py: number): string {
+    const { tileX, tileY } = getTileCoords(px, py);
+    return `${tileX},${tileY}`;
+}
+
+// Whether a claim still protects its region
+function isClaimActive(claim: RegionClaim): boolean {
+    return claim.expiresAt * 1000 >= Date.now();
+}
+
+// Pack a data tile's pixels for the IndexedDB cache
+function toCachedTile(key: string, block: number, pixels: Array<{ x: number; y: number; color: number }>): CachedTile {
+    const packed = new Uint32Array(pixels.length * 3);
+    pixels.forEach((pixel, i) => {
+        packed[i * 3] = pixel.x;
+        packed[i * 3 + 1] = pixel.y;
+        packed[i * 3 + 2] = pixel.color;
+    });
+    return { key, block, pixels: packed };
+}
+
+// Rectangle of canvas pixels (top-left corner and size)
+export interface PixelRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
 
 interface UseMapState {
     selectedPixel: { px: number; py: number } | null;
@@ -26,15 +97,95 @@ export function useMap() {
     const [placedPixelCount, setPlacedPixelCount] = useState(0);
     const [isLoadingFromBackend, setIsLoadingFromBackend] = useState(true);
     const [backendPixels, setBackendPixels] = useState<PixelPlacedEvent[]>([]);
+    // Whether the live pixel feed (WebSocket or SSE) is connected
     const [isSSEConnected, setIsSSEConnected] = useState(false);
+    // Set once initializeMap ran, so layers drawn from state can be added
+    const [isMapReady, setIsMapReady] = useState(false);
     const hasLoadedFromBackendRef = useRef(false);
-    const mapReadyRef = useRef(false);
+    const isBackendAvailableRef = useRef(false);
+    // Archived epoch shown read-only instead of the live canvas (null = live)
+    const [viewedEpoch, setViewedEpoch] = useState<number | null>(null);
+    const viewedEpochRef = useRef<number | null>(null);
 
     // Store pixel colors in a map for efficient updates
     const pixelDataRef = useRef<Map<string, number>>(new Map());
+    // Data tiles loaded for the viewport, least recently viewed first (key: "tileX,tileY" -> pixel keys)
+    const dataTilesRef = useRef<Map<string, Set<string>>>(new Map());
+    const loadingTilesRef = useRef<Set<string>>(new Set());
+    // Loaded tiles that left the stream's regions and may have missed updates
+    const staleTilesRef = useRef<Set<string>>(new Set());
+    const streamRef = useRef<PixelStream | null>(null);
+    // Canvas rendered by the backend as PNG tiles
+    const tileLayerRef = useRef<PixelTileLayer | null>(null);
+    // Pixels not yet in the tiles (optimistic or seen on-chain before the backend), drawn as rectangles
     const markersRef = useRef<Map<string, L.Rectangle | L.CircleMarker>>(new Map());
+    // Outlines of the active region claims (key: claim id)
+    const claimOutlinesRef = useRef<Map<number, L.Rectangle>>(new Map());
+    const [claims, setClaims] = useState<Map<number, RegionClaim>>(new Map());
     const hoverHighlightRef = useRef<L.Rectangle | null>(null);
     const selectedHighlightRef = useRef<L.Rectangle | null>(null);
+    // Area selected for moderation or export (see showModerationBox)
+    const moderationBoxRef = useRef<L.Rectangle | null>(null);
+    // Time-lapse shown instead of the canvas (see showReplayOverlay)
+    const replayOverlayRef = useRef<ReplayOverlay | null>(null);
+    // Translucent preview of the pixel art being placed (see showTemplateOverlay)
+    const templateOverlayRef = useRef<{ template: PixelTemplate; overlay: L.ImageOverlay; highlightDiff: boolean } | null>(null);
+    // Outlines of the template pixels that differ from the canvas, redrawn as pixels change
+    const templateDiffRef = useRef<L.ImageOverlay | null>(null);
+    const templateDiffTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    // Template pixels differing from the loaded canvas data (null = not highlighting)
+    const [templateDiffCount, setTemplateDiffCount] = useState<number | null>(null);
+
+    // Outline the template pixels whose canvas color differs, among the loaded data tiles
+    // (pixels in tiles that aren't loaded are unknown and left out)
+    const drawTemplateDiff = useCallback(() => {
+        const current = templateOverlayRef.current;
+        if (!mapRef.current || !current?.highlightDiff) return;
+
+        const { template } = current;
+        const canvas = document.createElement('canvas');
+        canvas.width = template.width * TEMPLATE_DIFF_SCALE;
+        canvas.height = template.height * TEMPLATE_DIFF_SCALE;
+        const context = canvas.getContext('2d')!;
+        context.strokeStyle = TEMPLATE_DIFF_COLOR;
+        context.lineWidth = 1;
+
+        let count = 0;
+        template.colors.forEach((color, i) => {
+            if (color === 0) return;
+            const column = i % template.width;
+            const row = Math.floor(i / template.width);
+            const px = template.x + column;
+            const py = template.y + row;
+            const tileKey = dataTileKey(px, py);
+            if (!dataTilesRef.current.has(tileKey) || staleTilesRef.current.has(tileKey)) return;
+            if ((pixelDataRef.current.get(`${px},${py}`) ?? 0) === color) return;
+
+            count++;
+            context.strokeRect(column * TEMPLATE_DIFF_SCALE + 0.5, row * TEMPLATE_DIFF_SCALE + 0.5, TEMPLATE_DIFF_SCALE - 1, TEMPLATE_DIFF_SCALE - 1);
+        });
+        setTemplateDiffCount(count);
+
+        if (templateDiffRef.current) {
+            templateDiffRef.current.setUrl(canvas.toDataURL());
+            return;
+        }
+        const { lat: north, lon: west } = globalPxToLatLon(template.x, template.y);
+        const { lat: south, lon: east } = globalPxToLatLon(template.x + template.width, template.y + template.height);
+        const overlay = L.imageOverlay(canvas.toDataURL(), [[south, west], [north, east]], { interactive: false });
+        overlay.addTo(mapRef.current);
+        overlay.getElement()!.style.imageRendering = 'pixelated';
+        templateDiffRef.current = overlay;
+    }, []);
+
+    // Redraw the differences shortly, once for a burst of pixel changes
+    const scheduleTemplateDiff = useCallback(() => {
+        if (!templateOverlayRef.current?.highlightDiff || templateDiffTimeoutRef.current) return;
+        templateDiffTimeoutRef.current = setTimeout(() => {
+            templateDiffTimeoutRef.current = null;
+            drawTemplateDiff();
+        }, TEMPLATE_DIFF_THROTTLE_MS);
+    }, [drawTemplateDiff]);
 
     // Internal marker update function
     const updateMarkerInternal = useCallback((px: number, py: number, color: number) => {
@@ -81,52 +232,369 @@ export function useMap() {
     const updateMarker = useCallback((px: number, py: number, color: number) => {
         pixelDataRef.current.set(`${px},${py}`, color);
         updateMarkerInternal(px, py, color);
-    }, [updateMarkerInternal]);
+        scheduleTemplateDiff();
+    }, [updateMarkerInternal, scheduleTemplateDiff]);
 
-    // Remove marker
-    const removeMarker = useCallback((pixelKey: string) => {
+    // Remove a pixel's rectangle, leaving its stored color untouched
+    const removeMarkerInternal = useCallback((pixelKey: string) => {
         const marker = markersRef.current.get(pixelKey);
         if (marker && mapRef.current) {
             mapRef.current.removeLayer(marker);
             markersRef.current.delete(pixelKey);
         }
+    }, []);
+
+    // Remove marker
+    const removeMarker = useCallback((pixelKey: string) => {
+        removeMarkerInternal(pixelKey);
         pixelDataRef.current.delete(pixelKey);
+        scheduleTemplateDiff();
+    }, [removeMarkerInternal, scheduleTemplateDiff]);
+
+    // Add the backend tile layer once both the map and the backend are ready
+    const attachTileLayer = useCallback(() => {
+        if (!mapRef.current || !isBackendAvailableRef.current || tileLayerRef.current) return;
+
+        tileLayerRef.current = new PixelTileLayer(getBackendUrl());
+        tileLayerRef.current.addTo(mapRef.current);
     }, []);
 
-    // Handle SSE pixel event
-    const handleSSEPixel = useCallback((pixel: BackendPixelData) => {
-        const pixelKey = `${pixel.x},${pixel.y}`;
+    // Apply a claim's latest state: outline it while active, drop it once released or expired
+    const applyClaim = useCallback((claim: RegionClaim) => {
+        setClaims(prev => {
+            const next = new Map(prev);
+            if (isClaimActive(claim)) {
+                next.set(claim.id, claim);
+            } else {
+                next.delete(claim.id);
+            }
+            return next;
+        });
+    }, []);
+
+    // Replace every claim with the backend's active claims
+    const loadClaims = useCallback(async () => {
+        const active = await fetchClaims();
+        setClaims(new Map(active.map(claim => [claim.id, claim])));
+    }, []);
+
+    // Find the active claim protecting a pixel, if any
+    const getClaimAt = useCallback((px: number, py: number): RegionClaim | null => {
+        for (const claim of claims.values()) {
+            if (px >= claim.x && px < claim.x + claim.width && py >= claim.y && py < claim.y + claim.height && isClaimActive(claim)) {
+                return claim;
+            }
+        }
+        return null;
+    }, [claims]);
+
+    // Load pixel data for the data tiles intersecting the viewport, evicting old off-screen tiles
+    const loadVisibleTiles = useCallback(async () => {
+        const map = mapRef.current;
+        if (!map || !isBackendAvailableRef.current) return;
+
+        const bounds = map.getBounds();
+        const visible = getTilesInBounds({
+            north: bounds.getNorth(),
+            south: bounds.getSouth(),
+            east: bounds.getEast(),
+            west: bounds.getWest(),
+        });
+
+        // Zoomed out too far to pick pixels anyway; the tile layer still shows everything
+        if (visible.length > MAX_VISIBLE_DATA_TILES) return;
+
+        const tiles = dataTilesRef.current;
+        const visibleKeys = new Set(visible.map(({ tileX, tileY }) => `${tileX},${tileY}`));
+        const missing = visible.filter(({ tileX, tileY }) => {
+            const key = `${tileX},${tileY}`;
+            const pixelKeys = tiles.get(key);
+            if (pixelKeys && !staleTilesRef.current.has(key)) {
+                // Move to the back of the eviction order
+                tiles.delete(key);
+                tiles.set(key, pixelKeys);
+                return false;
+            }
+            return !loadingTilesRef.current.has(key);
+        });
 
-        if (pixel.color === 0) {
+        if (missing.length > 0) {
+            const missingKeys = new Set(missing.map(({ tileX, tileY }) => `${tileX},${tileY}`));
+            missingKeys.forEach(key => loadingTilesRef.current.add(key));
+            const epoch = viewedEpochRef.current;
+
+            // One request for the rectangle spanning all missing tiles
+            const minTileX = Math.min(...missing.map(t => t.tileX));
+            const minTileY = Math.min(...missing.map(t => t.tileY));
+            const maxTileX = Math.max(...missing.map(t => t.tileX));
+            const maxTileY = Math.max(...missing.map(t => t.tileY));
+
+            const snapshot = await fetchPixelsBinaryInBounds({
+                minX: minTileX * TILE_SIZE,
+                minY: minTileY * TILE_SIZE,
+                maxX: Math.min((maxTileX + 1) * TILE_SIZE, CANVAS_RES) - 1,
+                maxY: Math.min((maxTileY + 1) * TILE_SIZE, CANVAS_RES) - 1,
+            }, epoch ?? undefined);
+
+            missingKeys.forEach(key => loadingTilesRef.current.delete(key));
+            // The data belongs to a canvas that is no longer shown
+            if (!snapshot || epoch !== viewedEpochRef.current) return;
+
+            const { pixels } = snapshot;
+            const loaded: Map<string, BackendPixelData[]> = new Map();
+
+            for (const key of missingKeys) {
+                // Drop what a stale tile had before replacing it
+                for (const pixelKey of tiles.get(key) ?? []) {
+                    if (!markersRef.current.has(pixelKey)) {
+                        pixelDataRef.current.delete(pixelKey);
+                    }
+                }
+                tiles.delete(key);
+                tiles.set(key, new Set());
+                staleTilesRef.current.delete(key);
+                loaded.set(key, []);
+            }
+            for (const pixel of pixels) {
+                const tileKey = dataTileKey(pixel.x, pixel.y);
+                // Tiles already loaded inside the rectangle are kept current by SSE
+                if (!missingKeys.has(tileKey)) continue;
+
+                const pixelKey = `${pixel.x},${pixel.y}`;
+                tiles.get(tileKey)!.add(pixelKey);
+                pixelDataRef.current.set(pixelKey, pixel.color);
+                loaded.get(tileKey)!.push(pixel);
+            }
+
+            // Only the live canvas is cached, since restoring brings tiles up to date with live changes
+            if (epoch === null) {
+                saveCachedTiles(Array.from(loaded, ([key, tilePixels]) => toCachedTile(key, snapshot.lastProcessedBlock, tilePixels)));
+            }
+            console.log(`✓ Loaded ${pixels.length} pixels for ${missingKeys.size} tiles`);
+            scheduleTemplateDiff();
+        }
+
+        // Evict the least recently viewed off-screen tiles
+        const evicted: string[] = [];
+        for (const [key, pixelKeys] of tiles) {
+            if (tiles.size <= MAX_CACHED_DATA_TILES) break;
+            if (visibleKeys.has(key)) continue;
+
+            for (const pixelKey of pixelKeys) {
+                if (!markersRef.current.has(pixelKey)) {
+                    pixelDataRef.current.delete(pixelKey);
+                }
+            }
+            tiles.delete(key);
+            staleTilesRef.current.delete(key);
+            evicted.push(key);
+        }
+        if (viewedEpochRef.current === null) {
+            deleteCachedTiles(evicted);
+        }
+    }, [scheduleTemplateDiff]);
+
+    // Restore the data tiles cached by a previous visit, updated with the pixels changed since
+    const restoreCachedTiles = useCallback(async () => {
+        const cached = await loadCachedTiles();
+        if (cached.length === 0) return;
+
+        const since = Math.min(...cached.map(tile => tile.block));
+        const changes = await fetchPixelChangesSince(since);
+        if (!changes) {
+            // The backend no longer knows that block (e.g. redeployed), so the cache cannot be updated
+            clearCachedTiles();
+            return;
+        }
+
+        // key: "tileX,tileY" -> pixel key -> pixel
+        const restored: Map<string, Map<string, { x: number; y: number; color: number }>> = new Map();
+        for (const tile of cached) {
+            // Already loaded during this visit
+            if (dataTilesRef.current.has(tile.key) || loadingTilesRef.current.has(tile.key)) continue;
+
+            const tilePixels = new Map<string, { x: number; y: number; color: number }>();
+            for (let i = 0; i < tile.pixels.length; i += 3) {
+                const [x, y, color] = [tile.pixels[i], tile.pixels[i + 1], tile.pixels[i + 2]];
+                tilePixels.set(`${x},${y}`, { x, y, color });
+            }
+            restored.set(tile.key, tilePixels);
+        }
+
+        for (const pixel of changes.pixels) {
+            const tilePixels = restored.get(dataTileKey(pixel.x, pixel.y));
+            if (!tilePixels) continue;
+
+            const pixelKey = `${pixel.x},${pixel.y}`;
+            if (pixel.color === 0) {
+                tilePixels.delete(pixelKey);
+            } else {
+                tilePixels.set(pixelKey, { x: pixel.x, y: pixel.y, color: pixel.color });
+            }
+        }
+
+        for (const [key, tilePixels] of restored) {
+            dataTilesRef.current.set(key, new Set(tilePixels.keys()));
+            tilePixels.forEach(({ color }, pixelKey) => pixelDataRef.current.set(pixelKey, color));
+        }
+
+        saveCachedTiles(Array.from(restored, ([key, tilePixels]) =>
+            toCachedTile(key, changes.lastProcessedBlock, Array.from(tilePixels.values()))));
+        console.log(`✓ Restored ${restored.size} cached tiles (${changes.pixels.length} changes since block ${since})`);
+        scheduleTemplateDiff();
+    }, [scheduleTemplateDiff]);
+
+    // Region the pixel stream should cover: the viewport plus one data tile of margin
+    const getStreamBounds = useCallback((): PixelBounds | null => {
+        const map = mapRef.current;
+        if (!map) return null;
+
+        const bounds = map.getBounds();
+        const topLeft = latLonToGlobalPx(bounds.getNorth(), bounds.getWest());
+        const bottomRight = latLonToGlobalPx(bounds.getSouth(), bounds.getEast());
+        const alignDown = (value: number) => Math.max(0, (Math.floor(value / TILE_SIZE) - 1) * TILE_SIZE);
+        const alignUp = (value: number) => Math.min(CANVAS_RES, (Math.floor(value / TILE_SIZE) + 2) * TILE_SIZE) - 1;
+
+        return {
+            minX: alignDown(topLeft.px),
+            minY: alignDown(topLeft.py),
+            maxX: alignUp(bottomRight.px),
+            maxY: alignUp(bottomRight.py),
+        };
+    }, []);
+
+    // Follow the viewport with the stream subscription (on map moveend)
+    const updateStreamBounds = useCallback(() => {
+        const box = getStreamBounds();
+        if (!box || !streamRef.current) return;
+
+        streamRef.current.setBounds([box]);
+
+        // Loaded tiles outside the new region stop receiving updates
+        for (const key of dataTilesRef.current.keys()) {
+            const [tileX, tileY] = key.split(',').map(Number);
+            const inside = tileX * TILE_SIZE >= box.minX && (tileX + 1) * TILE_SIZE - 1 <= box.maxX
+                && tileY * TILE_SIZE >= box.minY && (tileY + 1) * TILE_SIZE - 1 <= box.maxY;
+            if (!inside) {
+                staleTilesRef.current.add(key);
+            }
+        }
+    }, [getStreamBounds]);
+
+    // Apply a live pixel update to the local pixel data and count
+    const applyPixelUpdate = useCallback((x: number, y: number, color: number) => {
+        const pixelKey = `${x},${y}`;
+
+        if (color === 0) {
             pixelDataRef.current.delete(pixelKey);
-            removeMarker(pixelKey);
         } else {
-            pixelDataRef.current.set(pixelKey, pixel.color);
-            updateMarkerInternal(pixel.x, pixel.y, pixel.color);
+            pixelDataRef.current.set(pixelKey, color);
+        }
+
+        // Adjust the total when the previous state is known (pixel inside a loaded tile)
+        const tilePixels = dataTilesRef.current.get(dataTileKey(x, y));
+        if (tilePixels) {
+            const existed = tilePixels.has(pixelKey);
+            if (color === 0 && existed) {
+                tilePixels.delete(pixelKey);
+                setPlacedPixelCount(count => count - 1);
+            } else if (color !== 0 && !existed) {
+                tilePixels.add(pixelKey);
+                setPlacedPixelCount(count => count + 1);
+            }
+        }
+        scheduleTemplateDiff();
+    }, [scheduleTemplateDiff]);
+
+    // The backend now includes these pixels in its tiles: swap the rectangles for the refreshed tiles
+    const refreshPixels = useCallback((pixels: Array<{ x: number; y: number; color: number }>) => {
+        if (tileLayerRef.current) {
+            tileLayerRef.current.refreshPixels(pixels, () => {
+                for (const pixel of pixels) {
+                    removeMarkerInternal(`${pixel.x},${pixel.y}`);
+                }
+            });
+            return;
+        }
+
+        for (const pixel of pixels) {
+            if (pixel.color === 0) {
+                removeMarkerInternal(`${pixel.x},${pixel.y}`);
+            } else {
+                updateMarkerInternal(pixel.x, pixel.y, pixel.color);
+            }
         }
+    }, [updateMarkerInternal, removeMarkerInternal]);
+
+    // Handle SSE pixel event
+    const handleSSEPixel = useCallback((pixel: BackendPixelData) => {
+        // An archived epoch never changes; the live data is reloaded when switching back
+        if (viewedEpochRef.current !== null) return;
+        applyPixelUpdate(pixel.x, pixel.y, pixel.color);
+        refreshPixels([pixel]);
 
         // Update recent pixels list for UI (filter out existing pixel at same position)
-        const pixelEvent: PixelPlacedEvent = {
-            user: pixel.placedBy,
-            x: BigInt(pixel.x),
-            y: BigInt(pixel.y),
-            color: pixel.color,
-            timestamp: BigInt(pixel.timestamp),
-        };
+        const pixelEvent = toPixelEvent(pixel);
 
         setBackendPixels(prev => {
             const filtered = prev.filter(p => !(Number(p.x) === pixel.x && Number(p.y) === pixel.y));
             return [pixelEvent, ...filtered].slice(0, 50);
         });
-        setPlacedPixelCount(pixelDataRef.current.size);
 
         console.log(`[SSE] New pixel at (${pixel.x}, ${pixel.y})`);
-    }, [updateMarkerInternal, removeMarker]);
+    }, [applyPixelUpdate, refreshPixels]);
+
+    // Handle a WebSocket frame (all pixels placed in one block)
+    // Frames carry no placer or timestamp, so the recent list is left to the contract watcher
+    const handleSocketFrame = useCallback((frame: PixelFrame) => {
+        if (viewedEpochRef.current !== null) return;
+        for (const pixel of frame.pixels) {
+            applyPixelUpdate(pixel.x, pixel.y, pixel.color);
+        }
+        refreshPixels(frame.pixels);
+    }, [applyPixelUpdate, refreshPixels]);
+
+    // Reload everything after the stream could not replay missed pixels (or a new epoch started)
+    const handleResync = useCallback(async () => {
+        // Switching back to the live canvas reloads it anyway
+        if (viewedEpochRef.current !== null) return;
+        for (const key of dataTilesRef.current.keys()) {
+            staleTilesRef.current.add(key);
+        }
+        tileLayerRef.current?.refreshAll();
+        await Promise.all([loadVisibleTiles(), loadClaims()]);
+
+        const page = await fetchPixelsPage(50);
+        if (page) {
+            setBackendPixels(page.pixels.map(toPixelEvent));
+            setPlacedPixelCount(page.total);
+        }
+    }, [loadVisibleTiles, loadClaims]);
+
+    // Show an archived epoch's canvas read-only, or go back to the live canvas (null)
+    const viewEpoch = useCallback(async (epoch: number | null) => {
+        if (epoch === viewedEpochRef.current) return;
+        viewedEpochRef.current = epoch;
+        setViewedEpoch(epoch);
+
+        // Pixel data and optimistic rectangles belong to the canvas shown before
+        for (const pixelKey of Array.from(markersRef.current.keys())) {
+            removeMarkerInternal(pixelKey);
+        }
+        pixelDataRef.current.clear();
+        dataTilesRef.current.clear();
+        staleTilesRef.current.clear();
+        tileLayerRef.current?.setEpoch(epoch);
+
+        if (epoch === null) {
+            await handleResync();
+        } else {
+            await loadVisibleTiles();
+        }
+    }, [removeMarkerInternal, handleResync, loadVisibleTiles]);
 
     // Load initial data from backend on mount
     useEffect(() => {
-        let unsubscribeSSE: (() => void) | null = null;
-
         const loadFromBackend = async () => {
             if (hasLoadedFromBackendRef.current) return;
 
@@ -138,85 +606,141 @@ export function useMap() {
             }
 
             hasLoadedFromBackendRef.current = true;
+            isBackendAvailableRef.current = true;
+            attachTileLayer();
 
             try {
-                // Fetch both formats in parallel:
-                // - Binary for efficient marker rendering (no metadata)
-                // - JSON for recent pixels list (has placedBy, timestamp)
-                const [binaryPixels, jsonPixels] = await Promise.all([
-                    fetchAllPixelsBinary(),
-                    fetchAllPixels(),
+                // Only the most recent pixels (with metadata) for the UI list;
+                // pixel data is loaded per viewport tile, starting from the local cache
+                const [page] = await Promise.all([
+                    fetchPixelsPage(50),
+                    restoreCachedTiles().then(() => loadVisibleTiles()),
+                    loadClaims(),
                 ]);
 
-                // Use JSON data for the UI list (has full metadata including placedBy)
-                const pixelEvents: PixelPlacedEvent[] = jsonPixels
-                    .slice(0, 50)
-                    .map(pixel => ({
-                        user: pixel.placedBy,
-                        x: BigInt(pixel.x),
-                        y: BigInt(pixel.y),
-                        color: pixel.color,
-                        timestamp: BigInt(pixel.timestamp),
-                    }));
-                setBackendPixels(pixelEvents);
-
-                // Use binary data for populating markers (more complete set, faster to parse)
-                const pixels = binaryPixels.length > 0 ? binaryPixels : jsonPixels;
-                for (const pixel of pixels) {
-                    const pixelKey = `${pixel.x},${pixel.y}`;
-                    pixelDataRef.current.set(pixelKey, pixel.color);
-                }
-
-                setPlacedPixelCount(pixels.length);
+                if (page) {
+                    setBackendPixels(page.pixels.map(toPixelEvent));
+                    setPlacedPixelCount(page.total);
 
-                // If map is already ready, create markers now
-                if (mapReadyRef.current && mapRef.current) {
-                    for (const [key, color] of pixelDataRef.current.entries()) {
-                        const [px, py] = key.split(',').map(Number);
-                        updateMarkerInternal(px, py, color);
-                    }
+                    console.log(`✓ Backend has ${page.total} pixels`);
                 }
-
-                console.log(`✓ Loaded ${pixels.length} pixels from backend`);
             } catch (error) {
                 console.error('Failed to load from backend:', error);
             } finally {
                 setIsLoadingFromBackend(false);
             }
 
-            // Subscribe to SSE for real-time updates (after initial load)
-            unsubscribeSSE = subscribeToPixelStream(
-                handleSSEPixel,
-                () => setIsSSEConnected(true),
-                () => setIsSSEConnected(false)
-            );
+            if (cancelled) return;
+
+            // Subscribe to real-time updates in the viewport (after initial load):
+            // prefer the binary WebSocket feed, fall back to SSE when it is unavailable
+            const subscribeSSE = () => {
+                const box = getStreamBounds();
+                streamRef.current = subscribeToPixelStream(
+                    handleSSEPixel,
+                    () => setIsSSEConnected(true),
+                    () => setIsSSEConnected(false),
+                    box ? [box] : null,
+                    handleResync,
+                    applyClaim
+                );
+            };
+
+            const box = getStreamBounds();
+            streamRef.current = subscribeToPixelSocket({
+                onPixels: handleSocketFrame,
+                onClaim: applyClaim,
+                onConnect: () => setIsSSEConnected(true),
+                onDisconnect: () => setIsSSEConnected(false),
+                onResync: handleResync,
+                onUnavailable: () => {
+                    if (cancelled) return;
+                    console.log('[WS] Falling back to SSE');
+                    streamRef.current?.close();
+                    subscribeSSE();
+                },
+            }, box ? [box] : null);
         };
 
+        let cancelled = false;
         loadFromBackend();
 
         return () => {
-            if (unsubscribeSSE) {
-                unsubscribeSSE();
-            }
+            cancelled = true;
+            streamRef.current?.close();
+            streamRef.current = null;
         };
-    }, [handleSSEPixel, updateMarkerInternal]);
+    }, [handleSSEPixel, handleSocketFrame, handleResync, applyClaim, loadClaims, attachTileLayer, restoreCachedTiles, loadVisibleTiles, getStreamBounds]);
 
-    // Initialize map and create markers for pre-loaded pixels
-    const initializeMap = useCallback((map: LeafletMap) => {
-        mapRef.current = map;
-        mapReadyRef.current = true;
+    // Drop claims as they expire (no event is emitted when a claim simply runs out)
+    useEffect(() => {
+        const interval = setInterval(() => {
+            setClaims(prev => {
+                const expired = [...prev.values()].filter(claim => !isClaimActive(claim));
+                if (expired.length === 0) return prev;
+
+                const next = new Map(prev);
+                expired.forEach(claim => next.delete(claim.id));
+                return next;
+            });
+        }, CLAIM_EXPIRY_CHECK_INTERVAL_MS);
 
-        if (pixelDataRef.current.size > 0) {
-            for (const [key, color] of pixelDataRef.current.entries()) {
-                const [px, py] = key.split(',').map(Number);
-                updateMarkerInternal(px, py, color);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Keep the claim outlines on the map in sync with the claims
+    useEffect(() => {
+        const map = mapRef.current;
+        if (!map) return;
+
+        const outlines = claimOutlinesRef.current;
+        for (const [id, outline] of outlines) {
+            if (!claims.has(id)) {
+                map.removeLayer(outline);
+                outlines.delete(id);
+            }
+        }
+
+        for (const claim of claims.values()) {
+            const { lat: lat1, lon: lon1 } = globalPxToLatLon(claim.x, claim.y);
+            const { lat: lat2, lon: lon2 } = globalPxToLatLon(claim.x + claim.width, claim.y + claim.height);
+            const bounds: [[number, number], [number, number]] = [
+                [Math.min(lat1, lat2), Math.min(lon1, lon2)],
+                [Math.max(lat1, lat2), Math.max(lon1, lon2)]
+            ];
+
+            const outline = outlines.get(claim.id);
+            if (outline) {
+                outline.setBounds(bounds);
+                continue;
             }
+
+            const newOutline = L.rectangle(bounds, {
+                color: CLAIM_OUTLINE_COLOR,
+                weight: 2,
+                dashArray: '6 4',
+                fill: false,
+                interactive: false,
+            });
+            newOutline.addTo(map);
+            outlines.set(claim.id, newOutline);
         }
-    }, [updateMarkerInternal]);
+    }, [claims, isMapReady]);
+
+    // Initialize map (pixels are drawn by the tile layer)
+    const initializeMap = useCallback((map: LeafletMap) => {
+        mapRef.current = map;
+        setIsMapReady(true);
+        attachTileLayer();
+        updateStreamBounds();
+        map.on('moveend', updateStreamBounds);
+    }, [attachTileLayer, updateStreamBounds]);
 
     // Handle pixel placed event from contract (for optimistic updates)
     const handlePixelPlaced = useCallback(
         (event: PixelPlacedEvent) => {
+            if (viewedEpochRef.current !== null) return;
+
             const px = Number(event.x);
             const py = Number(event.y);
             const color = Number(event.color);
@@ -225,14 +749,20 @@ export function useMap() {
             if (color === 0) {
                 pixelDataRef.current.delete(pixelKey);
                 removeMarker(pixelKey);
+            } else if (tileLayerRef.current && pixelDataRef.current.get(pixelKey) === color && !markersRef.current.has(pixelKey)) {
+                // Already delivered by SSE and drawn by the tile layer
             } else {
                 pixelDataRef.current.set(pixelKey, color);
                 updateMarkerInternal(px, py, color);
             }
 
-            setPlacedPixelCount(pixelDataRef.current.size);
+            // Without the backend the total is whatever this session has seen
+            if (!isBackendAvailableRef.current) {
+                setPlacedPixelCount(pixelDataRef.current.size);
+            }
+            scheduleTemplateDiff();
         },
-        [updateMarkerInternal, removeMarker]
+        [updateMarkerInternal, removeMarker, scheduleTemplateDiff]
     );
 
     // Helper to show/update the selection highlight
@@ -422,15 +952,98 @@ export function useMap() {
         });
     }, [state.selectedPixel]);
 
-    // Dummy functions for compatibility
-    const loadVisibleTiles = useCallback(() => {
-        // No longer needed - all data from backend + SSE
+    // Outline the area being selected for moderation or export, or remove the outline with null
+    const showModerationBox = useCallback((rect: PixelRect | null) => {
+        if (!mapRef.current) return;
+
+        if (!rect) {
+            if (moderationBoxRef.current) {
+                mapRef.current.removeLayer(moderationBoxRef.current);
+                moderationBoxRef.current = null;
+            }
+            return;
+        }
+
+        const { lat: lat1, lon: lon1 } = globalPxToLatLon(rect.x, rect.y);
+        const { lat: lat2, lon: lon2 } = globalPxToLatLon(rect.x + rect.width, rect.y + rect.height);
+        const bounds: [[number, number], [number, number]] = [
+            [Math.min(lat1, lat2), Math.min(lon1, lon2)],
+            [Math.max(lat1, lat2), Math.max(lon1, lon2)]
+        ];
+
+        if (moderationBoxRef.current) {
+            moderationBoxRef.current.setBounds(bounds);
+        } else {
+            const box = L.rectangle(bounds, {
+                color: MODERATION_BOX_COLOR,
+                weight: 2,
+                fillOpacity: 0.15,
+                interactive: false,
+            });
+            box.addTo(mapRef.current);
+            moderationBoxRef.current = box;
+        }
     }, []);
 
-    const loadInitialTiles = useCallback(async () => {
-        // No longer needed - backend loads on mount
+    // Show a replay in place of the canvas tiles, or go back to the canvas with null
+    const showReplayOverlay = useCallback((overlay: ReplayOverlay | null) => {
+        if (!mapRef.current) return;
+
+        if (replayOverlayRef.current) {
+            mapRef.current.removeLayer(replayOverlayRef.current);
+        }
+        replayOverlayRef.current = overlay;
+        overlay?.addTo(mapRef.current);
+        // The tiles show the present, which would shine through pixels that were empty back then
+        tileLayerRef.current?.setOpacity(overlay ? 0 : 1);
     }, []);
 
+    // Preview a template over the canvas, or remove the preview with null
+    // @param highlightDiff Also outline the pixels where the canvas differs from the template
+    const showTemplateOverlay = useCallback((template: PixelTemplate | null, opacity: number, highlightDiff = false) => {
+        if (!mapRef.current) return;
+
+        const current = templateOverlayRef.current;
+        const isSameTemplate = template !== null && current?.template === template;
+        if (isSameTemplate) {
+            // Only the opacity or highlighting changed, keep the rendered image
+            current.overlay.setOpacity(opacity);
+        } else {
+            if (current) {
+                mapRef.current.removeLayer(current.overlay);
+                templateOverlayRef.current = null;
+            }
+            if (template) {
+                const { lat: north, lon: west } = globalPxToLatLon(template.x, template.y);
+                const { lat: south, lon: east } = globalPxToLatLon(template.x + template.width, template.y + template.height);
+                const overlay = L.imageOverlay(renderTemplate(template).toDataURL(), [[south, west], [north, east]], {
+                    opacity,
+                    interactive: false,
+                });
+                overlay.addTo(mapRef.current);
+                overlay.getElement()!.style.imageRendering = 'pixelated';
+                templateOverlayRef.current = { template, overlay, highlightDiff };
+            }
+        }
+
+        // The outlines belong to the previous template, or aren't wanted anymore
+        if (templateDiffRef.current && (!isSameTemplate || !highlightDiff)) {
+            mapRef.current.removeLayer(templateDiffRef.current);
+            templateDiffRef.current = null;
+            setTemplateDiffCount(null);
+        }
+        if (templateOverlayRef.current) {
+            templateOverlayRef.current.highlightDiff = highlightDiff;
+            if (highlightDiff && !templateDiffRef.current) {
+                drawTemplateDiff();
+            }
+        }
+    }, [drawTemplateDiff]);
+
+    const loadInitialTiles = useCallback(async () => {
+        await loadVisibleTiles();
+    }, [loadVisibleTiles]);
+
     // Optimistically add a pixel to the recent list (for instant UI feedback)
     const addOptimisticPixel = useCallback((px: number, py: number, color: number, user: string) => {
         const pixelEvent: PixelPlacedEvent = {
@@ -465,6 +1078,19 @@ export function useMap() {
         initializeMap,
         backendPixels,
         isSSEConnected,
+        // Active region claims (outlined on the map)
+        claims,
+        getClaimAt,
+        // Moderation / export box-select outline
+        showModerationBox,
+        // Time-lapse replay layer
+        showReplayOverlay,
+        // Pixel art preview
+        showTemplateOverlay,
+        templateDiffCount,
+        // Archived epoch being browsed (null = live canvas)
+        viewedEpoch,
+        viewEpoch,
         // Exposed for optimistic UI updates
         updateMarker,
         removeMarker,
@@ -1,5 +1,5 @@
 import { useAccount, useReadContract, useWriteContract, useWatchContractEvent, usePublicClient, useWaitForTransactionReceipt } from 'wagmi';
-import { parseEther, type WalletClient, type Account, type Chain, type Transport } from 'viem';
+import { bytesToHex, hexToBytes, keccak256, toHex, zeroHash, type Hex, type WalletClient, type Account, type Chain, type Transport } from 'viem';
 import type { Abi } from 'viem';
 import { MEGAPLACE_ADDRESS, megaethChain } from '../contracts/config';
 import MegaplaceABI from '../contracts/MegaplaceABI.json';
@@ -7,12 +7,22 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { toast } from 'sonner';
 import {
   CANVAS_RES,
+  TILE_SIZE,
+  MAX_REGION_SIZE,
   COOLDOWN_REFETCH_INTERVAL_MS,
   PREMIUM_REFETCH_INTERVAL_MS,
+  PAUSE_REFETCH_INTERVAL_MS,
   EVENT_POLLING_INTERVAL_MS,
-  DEFAULT_PREMIUM_COST_ETH,
   DEFAULT_COOLDOWN_PIXELS,
+  MAX_WRITE_BATCH_SIZE,
+  MAX_PACKED_BATCH_SIZE,
+  RELAY_BATCH_WINDOW_MS,
+  RELAY_SIGNATURE_TTL_SECONDS,
+  RELAY_JOB_POLL_INTERVAL_MS,
+  TX_CONFIRMATION_TIMEOUT_MS,
 } from '../constants';
+import { fetchRelayStatus, submitRelayBatch, fetchRelayJob, type RelayJob } from '../services/backendApi';
+import { usePlacementJobs } from './usePlacementJobs';
 
 // Type definitions
 export type Pixel = {
@@ -29,6 +39,13 @@ export type PixelPlacedEvent = {
   timestamp: bigint;
 };
 
+export type PremiumPlan = {
+  id: number;
+  price: bigint; // wei per purchase
+  duration: bigint; // seconds added per purchase
+  batchCap: number; // most pixels per placement call while premium
+};
+
 export type PixelsBatchPlacedEvent = {
   user: string;
   count: bigint;
@@ -105,6 +122,44 @@ export function usePremiumAccess() {
   };
 }
 
+// Hook to check whether placement is paused, on the whole canvas or in the tile of a pixel
+export function useCanvasPause(pixel?: { px: number; py: number } | null) {
+  const tileIndex = pixel
+    ? Math.floor(pixel.px / TILE_SIZE) + Math.floor(pixel.py / TILE_SIZE) * (CANVAS_RES / TILE_SIZE)
+    : undefined;
+
+  const { data: paused, refetch: refetchPaused } = useReadContract({
+    address: MEGAPLACE_ADDRESS,
+    abi: MegaplaceABI,
+    functionName: 'paused',
+    query: {
+      refetchInterval: PAUSE_REFETCH_INTERVAL_MS,
+    },
+  });
+
+  const { data: tilePaused, refetch: refetchTilePaused } = useReadContract({
+    address: MEGAPLACE_ADDRESS,
+    abi: MegaplaceABI,
+    functionName: 'pausedTiles',
+    args: tileIndex !== undefined ? [BigInt(tileIndex)] : undefined,
+    query: {
+      enabled: tileIndex !== undefined,
+      refetchInterval: PAUSE_REFETCH_INTERVAL_MS,
+    },
+  });
+
+  const refetch = useCallback(() => {
+    refetchPaused();
+    refetchTilePaused();
+  }, [refetchPaused, refetchTilePaused]);
+
+  return {
+    isPaused: paused === true,
+    isTilePaused: tileIndex !== undefined && tilePaused === true,
+    refetch,
+  };
+}
+
 // Hook to place a pixel (using main wallet)
 export function usePlacePixel() {
   const { data: hash, writeContract, isPending, error } = useWriteContract();
@@ -156,35 +211,196 @@ export function usePlacePixel() {
   };
 }
 
+// EIP-712 type of a signed batch (see Megaplace.placePixelsWithSig)
+const PLACE_PIXELS_TYPES = {
+  PlacePixels: [
+    { name: 'signer', type: 'address' },
+    { name: 'px', type: 'uint256[]' },
+    { name: 'py', type: 'uint256[]' },
+    { name: 'colors', type: 'uint32[]' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+// A click waiting to be signed into the next relayed batch
+type RelayedPixel = {
+  x: number;
+  y: number;
+  color: number;
+  resolve: (txHash: `0x${string}`) => void;
+  reject: (error: Error) => void;
+};
+
+// Poll the relayer until a batch is confirmed or failed
+async function waitForRelayJob(id: string): Promise<RelayJob> {
+  const giveUpAt = Date.now() + TX_CONFIRMATION_TIMEOUT_MS;
+  while (Date.now() < giveUpAt) {
+    await new Promise(resolve => setTimeout(resolve, RELAY_JOB_POLL_INTERVAL_MS));
+    const job = await fetchRelayJob(id);
+    if (job && (job.status === 'confirmed' || job.status === 'failed')) {
+      return job;
+    }
+  }
+  throw new Error('Relayed batch timed out');
+}
+
 // Hook to place a pixel using session key (fire and forget - instant, no wallet popup)
-// Includes automatic retry queue for rate-limited transactions
+// Includes automatic retry queue for rate-limited transactions, kept as persistent placement jobs
+// When the backend runs a relayer, clicks are signed in batches and submitted by it instead,
+// so the session key needs no ETH
 export function usePlacePixelWithSessionKey(
   getSessionWalletClient: () => WalletClient<Transport, Chain, Account> | null,
-  sessionAddress?: `0x${string}`
+  sessionAddress?: `0x${string}`,
+  onDelegationRequired?: () => void
 ) {
   // Track pending transactions
   const [pendingCount, setPendingCount] = useState(0);
   const [recentHashes, setRecentHashes] = useState<`0x${string}`[]>([]);
   const [error, setError] = useState<Error | null>(null);
-  const { refetch: refetchCooldown } = useCooldown(sessionAddress);
+  // The session key is a delegate, so placements count against the main wallet's cooldown
+  const { refetch: refetchCooldown } = useCooldown();
+  const onDelegationRequiredRef = useRef(onDelegationRequired);
 
   // Optimistic pixel tracking - how many pixels we've "used" optimistically
   // This is decremented from the displayed pixelsRemaining
   const [optimisticPixelsUsed, setOptimisticPixelsUsed] = useState(0);
 
-  // Queue for retrying failed transactions
-  const [queue, setQueue] = useState<Array<{ id: string; x: number; y: number; color: number; retryCount: number }>>([]);
-  const [isProcessingQueue, setIsProcessingQueue] = useState(false);
-  const queueTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const getSessionWalletClientRef = useRef(getSessionWalletClient);
 
-  // Keep ref updated
+  // Relayed placement state
+  const publicClient = usePublicClient();
+  const [isRelayed, setIsRelayed] = useState(false);
+  const isRelayedRef = useRef(false);
+  const relayBufferRef = useRef<RelayedPixel[]>([]);
+  const relayTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Batches are signed and relayed one at a time, so each uses the next nonce
+  const relayChainRef = useRef<Promise<void>>(Promise.resolve());
+  const relayNonceRef = useRef<bigint | null>(null); // null = read from the contract
+
+  // Keep refs updated
   useEffect(() => {
     getSessionWalletClientRef.current = getSessionWalletClient;
-  }, [getSessionWalletClient]);
+    onDelegationRequiredRef.current = onDelegationRequired;
+  }, [getSessionWalletClient, onDelegationRequired]);
+
+  // Use the relayer if the backend has one
+  useEffect(() => {
+    fetchRelayStatus().then(status => {
+      const enabled = status?.enabled ?? false;
+      isRelayedRef.current = enabled;
+      setIsRelayed(enabled);
+      if (enabled) {
+        console.log('[Relay] Backend relayer available:', status?.address);
+      }
+    });
+  }, []);
+
+  // Sign a batch with the session key and wait for the relayer to place it
+  // @param splitOnFailure Retry the pixels one by one if the batch fails (for clicks, which succeed or fail alone)
+  const relayBatch = useCallback(async (items: RelayedPixel[], splitOnFailure = true): Promise<void> => {
+    try {
+      const sessionWalletClient = getSessionWalletClientRef.current();
+      if (!sessionWalletClient || !publicClient) {
+        throw new Error('Session key not ready');
+      }
+      const signer = sessionWalletClient.account.address;
+
+      if (relayNonceRef.current === null) {
+        // @ts-expect-error - viem type mismatch
+        relayNonceRef.current = await publicClient.readContract({
+          address: MEGAPLACE_ADDRESS,
+          abi: MegaplaceABI as Abi,
+          functionName: 'nonces',
+          args: [signer],
+        }) as bigint;
+      }
+      const nonce = relayNonceRef.current;
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + RELAY_SIGNATURE_TTL_SECONDS);
+      const px = items.map(item => item.x);
+      const py = items.map(item => item.y);
+      const colors = items.map(item => item.color);
+
+      const signature = await sessionWalletClient.signTypedData({
+        account: sessionWalletClient.account,
+        domain: {
+          name: 'Megaplace',
+          version: '1',
+          chainId: megaethChain.id,
+          verifyingContract: MEGAPLACE_ADDRESS,
+        },
+        types: PLACE_PIXELS_TYPES,
+        primaryType: 'PlacePixels',
+        message: { signer, px: px.map(BigInt), py: py.map(BigInt), colors, nonce, deadline },
+      });
+
+      const job = await waitForRelayJob((await submitRelayBatch({
+        signer,
+        px,
+        py,
+        colors,
+        nonce: nonce.toString(),
+        deadline: deadline.toString(),
+        signature,
+      })).id);
+      if (job.status !== 'confirmed' || !job.txHash) {
+        throw new Error(job.error || 'Relayed batch failed');
+      }
+
+      relayNonceRef.current = nonce + 1n;
+      console.log(`[Relay] Placed ${items.length} pixels:`, job.txHash);
+      items.forEach(item => item.resolve(job.txHash as `0x${string}`));
+    } catch (err: any) {
+      // The nonce may not have been used, read it again for the next batch
+      relayNonceRef.current = null;
+      const errorMessage = err?.message || '';
+      // Failures that affect every pixel alike, so splitting the batch can't help
+      const isWalletBlocked = errorMessage.includes('DelegationExpired') ||
+        errorMessage.includes('DelegateBudgetExceeded') ||
+        errorMessage.includes('PlacerBanned') ||
+        errorMessage.includes('EnforcedPause');
+
+      if (items.length > 1 && splitOnFailure && !isWalletBlocked) {
+        // One protected, paused or rate-limited pixel fails the whole batch, so place the rest one by one
+        console.warn(`[Relay] Batch of ${items.length} failed (${errorMessage}), retrying individually`);
+        for (const item of items) {
+          await relayBatch([item]);
+        }
+        return;
+      }
+      items.forEach(item => item.reject(err instanceof Error ? err : new Error(errorMessage)));
+    }
+  }, [publicClient]);
+
+  // Queue a relay of everything clicked so far behind the batches already in flight
+  const flushRelayBuffer = useCallback(() => {
+    relayTimeoutRef.current = null;
+    relayChainRef.current = relayChainRef.current.then(async () => {
+      const items = relayBufferRef.current.splice(0, MAX_WRITE_BATCH_SIZE);
+      if (items.length === 0) return;
+      if (relayBufferRef.current.length > 0) {
+        flushRelayBuffer();
+      }
+      await relayBatch(items);
+    });
+  }, [relayBatch]);
+
+  // Add a pixel to the next signed batch, resolving with the batch's tx hash
+  const relayPixel = useCallback((x: number, y: number, color: number): Promise<`0x${string}`> => {
+    return new Promise((resolve, reject) => {
+      relayBufferRef.current.push({ x, y, color, resolve, reject });
+      if (!relayTimeoutRef.current) {
+        relayTimeoutRef.current = setTimeout(flushRelayBuffer, RELAY_BATCH_WINDOW_MS);
+      }
+    });
+  }, [flushRelayBuffer]);
 
   // Core send function - throws on error
   const sendTransaction = useCallback(async (x: number, y: number, color: number): Promise<`0x${string}`> => {
+    if (isRelayedRef.current) {
+      return relayPixel(x, y, color);
+    }
+
     const sessionWalletClient = getSessionWalletClientRef.current();
     if (!sessionWalletClient) {
       throw new Error('Session key not ready');
@@ -200,92 +416,52 @@ export function usePlacePixelWithSessionKey(
     });
 
     return txHash;
-  }, []);
-
-  // Process queue item
-  const processQueueItem = useCallback(async () => {
-    setQueue(currentQueue => {
-      if (currentQueue.length === 0) {
-        setIsProcessingQueue(false);
-        return currentQueue;
+  }, [relayPixel]);
+
+  // Place several pixels at once: one placePixelBatch transaction, or one signed batch when relayed
+  // Resolves once the batch is on chain and throws if it fails, which fails every pixel in it;
+  // callers keep batches within MAX_WRITE_BATCH_SIZE and the wallet's rate limit
+  const placePixelBatch = useCallback(async (pixels: Array<{ x: number; y: number; color: number }>): Promise<`0x${string}`> => {
+    let txHash: `0x${string}`;
+    if (isRelayedRef.current) {
+      txHash = await new Promise((resolve, reject) => {
+        const items = pixels.map(pixel => ({ ...pixel, resolve, reject }));
+        relayChainRef.current = relayChainRef.current.then(() => relayBatch(items, false));
+      });
+    } else {
+      const sessionWalletClient = getSessionWalletClientRef.current();
+      if (!sessionWalletClient || !publicClient) {
+        throw new Error('Session key not ready');
       }
 
-      const item = currentQueue[0];
-      setIsProcessingQueue(true);
-
-      // Process async
-      (async () => {
-        try {
-          const txHash = await sendTransaction(item.x, item.y, item.color);
-          console.log(`[Queue] Success for (${item.x}, ${item.y}):`, txHash);
-
-          setRecentHashes(prev => [txHash, ...prev].slice(0, 10));
-          setQueue(prev => prev.filter(i => i.id !== item.id));
-          refetchCooldown();
-
-          // Process next immediately
-          queueTimeoutRef.current = setTimeout(() => processQueueItem(), 50);
-
-        } catch (err: any) {
-          const errorMessage = err?.message || 'Unknown error';
-          const isRateLimit = errorMessage.includes('RateLimitExceeded') ||
-            errorMessage.includes('rate limit') ||
-            errorMessage.includes('-32005');
-          const isInsufficientFunds = errorMessage.includes('insufficient funds');
-
-          if (isInsufficientFunds) {
-            // Don't retry - needs user action
-            console.warn(`[Queue] Insufficient funds, removing (${item.x}, ${item.y})`);
-            setQueue(prev => prev.filter(i => i.id !== item.id));
-            // Revert optimistic pixel count since this pixel won't be placed
-            setOptimisticPixelsUsed(prev => Math.max(0, prev - 1));
-            queueTimeoutRef.current = setTimeout(() => processQueueItem(), 50);
-            return;
-          }
-
-          const MAX_RETRIES = 5;
-          if (item.retryCount >= MAX_RETRIES) {
-            console.warn(`[Queue] Max retries for (${item.x}, ${item.y})`);
-            setQueue(prev => prev.filter(i => i.id !== item.id));
-            // Revert optimistic pixel count since this pixel won't be placed
-            setOptimisticPixelsUsed(prev => Math.max(0, prev - 1));
-            toast.error('Pixel failed to place', {
-              description: `(${item.x}, ${item.y}) - max retries reached`,
-              duration: 3000,
-            });
-            queueTimeoutRef.current = setTimeout(() => processQueueItem(), 50);
-            return;
-          }
-
-          // Update retry count
-          setQueue(prev => prev.map(i =>
-            i.id === item.id ? { ...i, retryCount: i.retryCount + 1 } : i
-          ));
-
-          // Calculate delay - 5.5s for rate limit, exponential backoff otherwise
-          const delay = isRateLimit ? 5500 : Math.min(1000 * Math.pow(2, item.retryCount), 30000);
-          console.log(`[Queue] Retrying (${item.x}, ${item.y}) in ${delay}ms (attempt ${item.retryCount + 1}/${MAX_RETRIES})`);
-
-          queueTimeoutRef.current = setTimeout(() => processQueueItem(), delay);
-        }
-      })();
+      txHash = await sessionWalletClient.writeContract({
+        account: sessionAddress,
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'placePixelBatch',
+        args: [pixels.map(pixel => BigInt(pixel.x)), pixels.map(pixel => BigInt(pixel.y)), pixels.map(pixel => pixel.color)],
+        chain: megaethChain,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash, timeout: TX_CONFIRMATION_TIMEOUT_MS });
+      if (receipt.status !== 'success') {
+        throw new Error('Pixel batch reverted');
+      }
+    }
 
-      return currentQueue;
-    });
-  }, [sendTransaction, refetchCooldown]);
+    setRecentHashes(prev => [txHash, ...prev].slice(0, 10));
+    refetchCooldown();
+    return txHash;
+  }, [relayBatch, publicClient, sessionAddress, refetchCooldown]);
 
-  // Start queue processing when items added
-  useEffect(() => {
-    if (queue.length > 0 && !isProcessingQueue) {
-      processQueueItem();
-    }
-  }, [queue.length, isProcessingQueue, processQueueItem]);
+  // Clicks that couldn't be placed are queued as a persistent placement job
+  const placementJobs = usePlacementJobs(placePixelBatch, !!sessionAddress, onDelegationRequired);
+  const { queuePixel, cancelAll } = placementJobs;
 
   // Cleanup
   useEffect(() => {
     return () => {
-      if (queueTimeoutRef.current) {
-        clearTimeout(queueTimeoutRef.current);
+      if (relayTimeoutRef.current) {
+        clearTimeout(relayTimeoutRef.current);
       }
     };
   }, []);
@@ -315,41 +491,67 @@ export function usePlacePixelWithSessionKey(
 
       const errorMessage = err?.message || '';
       const isRateLimit = errorMessage.includes('RateLimitExceeded') ||
+        errorMessage.includes('InvalidBatchSize') ||
         errorMessage.includes('rate limit') ||
         errorMessage.includes('-32005');
       const isInsufficientFunds = errorMessage.includes('insufficient funds');
-
-      if (isInsufficientFunds) {
+      const isProtected = errorMessage.includes('PixelProtected');
+      const isDelegationInvalid = errorMessage.includes('DelegationExpired') ||
+        errorMessage.includes('DelegateBudgetExceeded');
+      const isBanned = errorMessage.includes('PlacerBanned');
+      const isCanvasPaused = errorMessage.includes('EnforcedPause');
+      const isTilePaused = errorMessage.includes('TilePaused');
+
+      if (isCanvasPaused || isTilePaused) {
+        // Retrying can't help until a moderator resumes placement
+        setOptimisticPixelsUsed(prev => Math.max(0, prev - 1));
+        toast.error(isCanvasPaused ? 'Placement paused' : 'Area paused', {
+          description: isCanvasPaused
+            ? 'A moderator paused the canvas, try again later'
+            : `A moderator paused placement around (${x}, ${y})`,
+          duration: 3000,
+        });
+      } else if (isBanned) {
+        // Retrying can't help until a moderator lifts the ban
+        setOptimisticPixelsUsed(prev => Math.max(0, prev - 1));
+        toast.error('Wallet banned', {
+          description: 'A moderator banned this wallet from placing pixels',
+          duration: 5000,
+        });
+      } else if (isDelegationInvalid) {
+        // Retrying can't help until the wallet renews the session key
+        setOptimisticPixelsUsed(prev => Math.max(0, prev - 1));
+        toast.error('Session key needs renewing', {
+          description: 'Authorize it again to keep placing pixels',
+          duration: 3000,
+        });
+        onDelegationRequiredRef.current?.();
+      } else if (isProtected) {
+        // Retrying can't help while the claim is active
+        setOptimisticPixelsUsed(prev => Math.max(0, prev - 1));
+        toast.error('Pixel is protected', {
+          description: `(${x}, ${y}) is inside a claimed region`,
+          duration: 3000,
+        });
+      } else if (isInsufficientFunds) {
         // Revert optimistic count - this pixel won't be placed
         setOptimisticPixelsUsed(prev => Math.max(0, prev - 1));
       } else if (isRateLimit) {
-        // Add to queue for retry - keep optimistic count (will be reverted if queue fails)
-        const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        setQueue(prev => [...prev, { id, x, y, color, retryCount: 0 }]);
+        // Add to the job queue for retry - keep optimistic count (reset once the queue is empty)
+        queuePixel(x, y, color);
         toast.info('Pixel queued', {
-          description: `Rate limited - will retry automatically (${queue.length + 1} in queue)`,
+          description: `Rate limited - will retry automatically (${placementJobs.pendingPixels + 1} in queue)`,
           duration: 2000,
         });
       } else {
         // Other errors - also queue for retry - keep optimistic count
-        const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        setQueue(prev => [...prev, { id, x, y, color, retryCount: 0 }]);
+        queuePixel(x, y, color);
         console.warn('Pixel queued for retry:', err.message);
       }
     } finally {
       setPendingCount(c => Math.max(0, c - 1));
     }
-  }, [sendTransaction, refetchCooldown, queue.length]);
-
-  // Clear queue
-  const clearQueue = useCallback(() => {
-    setQueue([]);
-    if (queueTimeoutRef.current) {
-      clearTimeout(queueTimeoutRef.current);
-      queueTimeoutRef.current = null;
-    }
-    setIsProcessingQueue(false);
-  }, []);
+  }, [sendTransaction, refetchCooldown, queuePixel, placementJobs.pendingPixels]);
 
   // Reset optimistic count (call after refetch completes with fresh data)
   const resetOptimisticCount = useCallback(() => {
@@ -358,37 +560,90 @@ export function usePlacePixelWithSessionKey(
 
   return {
     placePixel,
+    placePixelBatch,
     pendingCount,
     recentHashes,
-    // Queue info
-    queueLength: queue.length,
-    isProcessingQueue,
-    clearQueue,
+    // Placements are signed and submitted by the backend relayer
+    isRelayed,
+    // Queue info (pixels waiting in placement jobs)
+    queueLength: placementJobs.pendingPixels,
+    isProcessingQueue: placementJobs.phase !== 'idle',
+    clearQueue: cancelAll,
+    placementJobs,
     // Optimistic pixel tracking
     optimisticPixelsUsed,
     resetOptimisticCount,
     // Keep old interface for compatibility
     hash: recentHashes[0],
-    isPending: pendingCount > 0 || queue.length > 0,
+    isPending: pendingCount > 0 || placementJobs.pendingPixels > 0,
     isConfirming: false,
     isConfirmed: false,
     error,
   };
 }
 
-// Hook to grant premium access
-export function useGrantPremiumAccess() {
+// Hook to list the premium plans for sale (retired plans are left out)
+export function usePremiumPlans() {
+  const publicClient = usePublicClient();
+  const [plans, setPlans] = useState<PremiumPlan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refetch = useCallback(async () => {
+    if (!publicClient) return;
+
+    setIsLoading(true);
+    try {
+      // @ts-expect-error - viem type mismatch
+      const count = await publicClient.readContract({
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'premiumPlanCount',
+      }) as bigint;
+
+      const loaded = await Promise.all(Array.from({ length: Number(count) }, async (_, id): Promise<PremiumPlan> => {
+        // @ts-expect-error - viem type mismatch
+        const [price, duration, batchCap] = await publicClient.readContract({
+          address: MEGAPLACE_ADDRESS,
+          abi: MegaplaceABI as Abi,
+          functionName: 'premiumPlans',
+          args: [BigInt(id)],
+        }) as [bigint, bigint, number];
+        return { id, price, duration, batchCap };
+      }));
+
+      setPlans(loaded.filter(plan => plan.duration > 0n));
+    } catch (err) {
+      console.error('Failed to load premium plans:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient]);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  return { plans, isLoading, refetch };
+}
+
+// Hook to buy a premium plan for the connected wallet or as a gift (time stacks on what is left)
+export function usePurchasePremium() {
+  const { address } = useAccount();
   const { data: hash, writeContract, isPending, error } = useWriteContract();
   const { refetch: refetchPremium } = usePremiumAccess();
 
-  const grantPremiumAccess = useCallback(() => {
+  const purchasePremium = useCallback((plan: PremiumPlan, recipient?: string) => {
+    const to = recipient ?? address;
+    if (!to) return;
+
     writeContract(
       // @ts-expect-error - wagmi provides chain and account from config
       {
         address: MEGAPLACE_ADDRESS,
         abi: MegaplaceABI as Abi,
-        functionName: 'grantPremiumAccess',
-        value: parseEther(DEFAULT_PREMIUM_COST_ETH),
+        functionName: 'purchasePremium',
+        args: [BigInt(plan.id), to],
+        value: plan.price,
       },
       {
         onError: (error) => {
@@ -396,6 +651,10 @@ export function useGrantPremiumAccess() {
             toast.error('Rate Limited', {
               description: 'Request is being rate limited. Please try again in a moment.',
             });
+          } else if (error.message.includes('InvalidPremiumPlan') || error.message.includes('IncorrectPaymentAmount')) {
+            toast.error('Plan changed', {
+              description: 'This plan was updated or retired, reopen the plans to see the current ones',
+            });
           } else {
             toast.error('Failed to purchase premium', {
               description: error.message,
@@ -404,7 +663,7 @@ export function useGrantPremiumAccess() {
         },
       }
     );
-  }, [writeContract]);
+  }, [writeContract, address]);
 
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
     hash,
@@ -418,7 +677,7 @@ export function useGrantPremiumAccess() {
   }, [isConfirmed, refetchPremium]);
 
   return {
-    grantPremiumAccess,
+    purchasePremium,
     hash,
     isPending,
     isConfirming,
@@ -562,6 +821,61 @@ export function usePlacePixelBatch() {
   };
 }
 
+// Hook to place up to MAX_PACKED_BATCH_SIZE pixels with packed calldata (cheaper than usePlacePixelBatch)
+export function usePlacePixelsPacked() {
+  const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { refetch: refetchCooldown } = useCooldown();
+
+  const placePixelsPacked = useCallback((pixels: Array<{ x: number; y: number; color: number }>) => {
+    if (pixels.length === 0 || pixels.length > MAX_PACKED_BATCH_SIZE) {
+      throw new Error(`Batch size must be 1-${MAX_PACKED_BATCH_SIZE}`);
+    }
+
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'placePixelsPacked',
+        args: [encodePackedPixels(pixels)],
+      },
+      {
+        onError: (error) => {
+          if (error.message.includes('rate limit') || error.message.includes('-32005')) {
+            toast.error('Rate Limited', {
+              description: 'Request is being rate limited. Please try again in a moment.',
+            });
+          } else {
+            toast.error('Failed to place pixel batch', {
+              description: error.message,
+            });
+          }
+        },
+      }
+    );
+  }, [writeContract]);
+
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  // Refetch cooldown after successful batch placement
+  useEffect(() => {
+    if (isConfirmed) {
+      refetchCooldown();
+    }
+  }, [isConfirmed, refetchCooldown]);
+
+  return {
+    placePixelsPacked,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
 // Hook to watch for pixel placed events
 export function useWatchPixelPlaced(onPixelPlaced?: (event: PixelPlacedEvent) => void) {
   const [recentPixels, setRecentPixels] = useState<PixelPlacedEvent[]>([]);
@@ -825,21 +1139,143 @@ export function hexToUint32(hex: string): number {
   return color === 0 ? 0x010101 : color;
 }
 
-// Admin Hooks (owner-only functions)
+// Bytes per pixel in placePixelsPacked calldata: x (20 bits) | y (20 bits) | color (24 bits), big-endian
+const PACKED_PIXEL_BYTES = 8;
+
+// Encode pixels for placePixelsPacked (colors are truncated to 24 bits)
+export function encodePackedPixels(pixels: Array<{ x: number; y: number; color: number }>): Hex {
+  const bytes = new Uint8Array(pixels.length * PACKED_PIXEL_BYTES);
+  const view = new DataView(bytes.buffer);
 
-// Hook to grant premium access to a user (admin only)
+  pixels.forEach(({ x, y, color }, i) => {
+    if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= CANVAS_RES || y >= CANVAS_RES) {
+      throw new Error(`Invalid coordinates (${x}, ${y})`);
+    }
+    // Split the 64-bit record into two 32-bit halves (>>> 0 keeps them unsigned)
+    view.setUint32(i * PACKED_PIXEL_BYTES, ((x << 12) | (y >>> 8)) >>> 0);
+    view.setUint32(i * PACKED_PIXEL_BYTES + 4, (((y & 0xFF) << 24) | (color & 0xFFFFFF)) >>> 0);
+  });
+
+  return bytesToHex(bytes);
+}
+
+// Decode placePixelsPacked calldata back into pixels
+export function decodePackedPixels(data: Hex): Array<{ x: number; y: number; color: number }> {
+  const bytes = hexToBytes(data);
+  if (bytes.length % PACKED_PIXEL_BYTES !== 0) {
+    throw new Error(`Packed pixel data must be a multiple of ${PACKED_PIXEL_BYTES} bytes`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pixels: Array<{ x: number; y: number; color: number }> = [];
+  for (let offset = 0; offset < bytes.length; offset += PACKED_PIXEL_BYTES) {
+    const high = view.getUint32(offset);
+    const low = view.getUint32(offset + 4);
+    pixels.push({
+      x: high >>> 12,
+      y: ((high & 0xFFF) << 8) | (low >>> 24),
+      color: low & 0xFFFFFF,
+    });
+  }
+  return pixels;
+}
+
+// Admin Hooks (role-gated functions)
+
+// Admin roles defined by the contract (AccessControl); DEFAULT_ADMIN_ROLE grants and revokes the others
+export const ADMIN_ROLES = {
+  admin: zeroHash,
+  moderator: keccak256(toHex('MODERATOR_ROLE')),
+  configAdmin: keccak256(toHex('CONFIG_ADMIN_ROLE')),
+  treasurer: keccak256(toHex('TREASURER_ROLE')),
+} as const;
+
+export type AdminRole = keyof typeof ADMIN_ROLES;
+
+// Config setters a config admin may call, with the unit of their value
+export const CONFIG_SETTINGS = {
+  setRateLimitSeconds: 'seconds',
+  setRateLimitPixels: 'pixels',
+  setClaimPixelCost: 'wei',
+  setClaimDuration: 'seconds',
+} as const;
+
+export type ConfigSetting = keyof typeof CONFIG_SETTINGS;
+
+// Show a failed admin transaction, naming the missing role if the contract rejected the caller
+function toastAdminError(title: string, error: Error) {
+  toast.error(title, {
+    description: error.message.includes('AccessControlUnauthorizedAccount')
+      ? 'Your wallet does not have the required role'
+      : error.message,
+  });
+}
+
+// Check one admin role of an account
+function useHasRole(role: AdminRole, address?: `0x${string}`) {
+  const { data, isLoading, refetch } = useReadContract({
+    address: MEGAPLACE_ADDRESS,
+    abi: MegaplaceABI,
+    functionName: 'hasRole',
+    args: address ? [ADMIN_ROLES[role], address] : undefined,
+    query: {
+      enabled: !!address,
+    },
+  });
+
+  return { hasRole: data === true, isLoading, refetch };
+}
+
+// Hook to read which admin roles the connected wallet holds
+export function useAdminRoles() {
+  const { address } = useAccount();
+  const admin = useHasRole('admin', address);
+  const moderator = useHasRole('moderator', address);
+  const configAdmin = useHasRole('configAdmin', address);
+  const treasurer = useHasRole('treasurer', address);
+  const checks = [admin, moderator, configAdmin, treasurer];
+
+  const refetch = useCallback(() => {
+    admin.refetch();
+    moderator.refetch();
+    configAdmin.refetch();
+    treasurer.refetch();
+  }, [admin.refetch, moderator.refetch, configAdmin.refetch, treasurer.refetch]);
+
+  return {
+    isAdmin: admin.hasRole,
+    isModerator: moderator.hasRole,
+    isConfigAdmin: configAdmin.hasRole,
+    isTreasurer: treasurer.hasRole,
+    hasAnyRole: checks.some(check => check.hasRole),
+    isLoading: checks.some(check => check.isLoading),
+    refetch,
+  };
+}
+
+// Hook to grant premium access to a user (moderator only)
 export function useAdminGrantPremiumAccess() {
   const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { isModerator } = useAdminRoles();
 
   const adminGrantPremiumAccess = useCallback((userAddress: string) => {
-    // @ts-expect-error - wagmi provides chain and account from config
-    writeContract({
-      address: MEGAPLACE_ADDRESS,
-      abi: MegaplaceABI as Abi,
-      functionName: 'adminGrantPremiumAccess',
-      args: [userAddress],
-    });
-  }, [writeContract]);
+    if (!isModerator) {
+      toast.error('Moderator role required');
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'adminGrantPremiumAccess',
+        args: [userAddress],
+      },
+      {
+        onError: (error) => toastAdminError('Failed to grant premium', error),
+      }
+    );
+  }, [writeContract, isModerator]);
 
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
     hash,
@@ -847,6 +1283,7 @@ export function useAdminGrantPremiumAccess() {
 
   return {
     adminGrantPremiumAccess,
+    canGrant: isModerator,
     hash,
     isPending,
     isConfirming,
@@ -855,19 +1292,29 @@ export function useAdminGrantPremiumAccess() {
   };
 }
 
-// Hook to grant premium access to multiple users (admin only)
+// Hook to grant premium access to multiple users (moderator only)
 export function useAdminGrantPremiumAccessBatch() {
   const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { isModerator } = useAdminRoles();
 
   const adminGrantPremiumAccessBatch = useCallback((userAddresses: string[]) => {
-    // @ts-expect-error - wagmi provides chain and account from config
-    writeContract({
-      address: MEGAPLACE_ADDRESS,
-      abi: MegaplaceABI as Abi,
-      functionName: 'adminGrantPremiumAccessBatch',
-      args: [userAddresses],
-    });
-  }, [writeContract]);
+    if (!isModerator) {
+      toast.error('Moderator role required');
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'adminGrantPremiumAccessBatch',
+        args: [userAddresses],
+      },
+      {
+        onError: (error) => toastAdminError('Failed to grant premium', error),
+      }
+    );
+  }, [writeContract, isModerator]);
 
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
     hash,
@@ -875,6 +1322,234 @@ export function useAdminGrantPremiumAccessBatch() {
 
   return {
     adminGrantPremiumAccessBatch,
+    canGrant: isModerator,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook to erase a region of the canvas, ignoring claims (moderator only)
+export function useClearRegion() {
+  const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { isModerator } = useAdminRoles();
+
+  const clearRegion = useCallback((x: number, y: number, width: number, height: number) => {
+    if (!isModerator) {
+      toast.error('Moderator role required');
+      return;
+    }
+    if (width * height > MAX_REGION_SIZE) {
+      toast.error('Region too large', {
+        description: `At most ${MAX_REGION_SIZE.toLocaleString()} pixels can be cleared at once`,
+      });
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'clearRegion',
+        args: [BigInt(x), BigInt(y), BigInt(width), BigInt(height)],
+      },
+      {
+        onError: (error) => toastAdminError('Failed to clear region', error),
+      }
+    );
+  }, [writeContract, isModerator]);
+
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  return {
+    clearRegion,
+    canClear: isModerator,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook to ban or unban an address from placing pixels (moderator only)
+export function useSetBanned() {
+  const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { isModerator } = useAdminRoles();
+
+  const setBanned = useCallback((account: string, banned: boolean) => {
+    if (!isModerator) {
+      toast.error('Moderator role required');
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'setBanned',
+        args: [account, banned],
+      },
+      {
+        onError: (error) => toastAdminError(banned ? 'Failed to ban address' : 'Failed to unban address', error),
+      }
+    );
+  }, [writeContract, isModerator]);
+
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  return {
+    setBanned,
+    canBan: isModerator,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook to pause or resume placement on the whole canvas or in one tile (moderator only)
+export function usePauseControls() {
+  const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { isModerator } = useAdminRoles();
+
+  const setPaused = useCallback((paused: boolean) => {
+    if (!isModerator) {
+      toast.error('Moderator role required');
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: paused ? 'pause' : 'unpause',
+      },
+      {
+        onError: (error) => toastAdminError(paused ? 'Failed to pause canvas' : 'Failed to resume canvas', error),
+      }
+    );
+  }, [writeContract, isModerator]);
+
+  const setTilePaused = useCallback((tileX: number, tileY: number, paused: boolean) => {
+    if (!isModerator) {
+      toast.error('Moderator role required');
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'setTilePaused',
+        args: [BigInt(tileX), BigInt(tileY), paused],
+      },
+      {
+        onError: (error) => toastAdminError(paused ? 'Failed to pause tile' : 'Failed to resume tile', error),
+      }
+    );
+  }, [writeContract, isModerator]);
+
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  return {
+    setPaused,
+    setTilePaused,
+    canPause: isModerator,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook to add or update a premium plan (config admin only)
+export function useSetPremiumPlan() {
+  const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { isConfigAdmin } = useAdminRoles();
+
+  // planId may be the current plan count to add a new plan; a duration of 0 retires the plan
+  const setPremiumPlan = useCallback((planId: number, price: bigint, duration: bigint, batchCap: number) => {
+    if (!isConfigAdmin) {
+      toast.error('Config admin role required');
+      return;
+    }
+    if (batchCap < 1 || batchCap > MAX_REGION_SIZE) {
+      toast.error('Invalid batch cap', {
+        description: `Use 1 to ${MAX_REGION_SIZE.toLocaleString()} pixels`,
+      });
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'setPremiumPlan',
+        args: [BigInt(planId), price, duration, batchCap],
+      },
+      {
+        onError: (error) => toastAdminError('Failed to update premium plan', error),
+      }
+    );
+  }, [writeContract, isConfigAdmin]);
+
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  return {
+    setPremiumPlan,
+    canUpdate: isConfigAdmin,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook to update a rate limit, price or duration (config admin only)
+export function useUpdateConfig() {
+  const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { isConfigAdmin } = useAdminRoles();
+
+  const updateConfig = useCallback((setting: ConfigSetting, value: bigint) => {
+    if (!isConfigAdmin) {
+      toast.error('Config admin role required');
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: setting,
+        args: [value],
+      },
+      {
+        onError: (error) => toastAdminError('Failed to update config', error),
+      }
+    );
+  }, [writeContract, isConfigAdmin]);
+
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  return {
+    updateConfig,
+    canUpdate: isConfigAdmin,
     hash,
     isPending,
     isConfirming,
@@ -883,18 +1558,28 @@ export function useAdminGrantPremiumAccessBatch() {
   };
 }
 
-// Hook to withdraw contract balance (admin only)
+// Hook to withdraw contract balance to the connected wallet (treasurer only)
 export function useWithdraw() {
   const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { isTreasurer } = useAdminRoles();
 
   const withdraw = useCallback(() => {
-    // @ts-expect-error - wagmi provides chain and account from config
-    writeContract({
-      address: MEGAPLACE_ADDRESS,
-      abi: MegaplaceABI as Abi,
-      functionName: 'withdraw',
-    });
-  }, [writeContract]);
+    if (!isTreasurer) {
+      toast.error('Treasurer role required');
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'withdraw',
+      },
+      {
+        onError: (error) => toastAdminError('Failed to withdraw', error),
+      }
+    );
+  }, [writeContract, isTreasurer]);
 
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
     hash,
@@ -902,6 +1587,57 @@ export function useWithdraw() {
 
   return {
     withdraw,
+    canWithdraw: isTreasurer,
+    hash,
+    isPending,
+    isConfirming,
+    isConfirmed,
+    error,
+  };
+}
+
+// Hook to grant or revoke an admin role (default admin only)
+export function useManageRole() {
+  const { data: hash, writeContract, isPending, error } = useWriteContract();
+  const { isAdmin, refetch: refetchRoles } = useAdminRoles();
+
+  const setRole = useCallback((role: AdminRole, account: string, granted: boolean) => {
+    if (!isAdmin) {
+      toast.error('Admin role required');
+      return;
+    }
+    writeContract(
+      // @ts-expect-error - wagmi provides chain and account from config
+      {
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: granted ? 'grantRole' : 'revokeRole',
+        args: [ADMIN_ROLES[role], account],
+      },
+      {
+        onError: (error) => toastAdminError(granted ? 'Failed to grant role' : 'Failed to revoke role', error),
+      }
+    );
+  }, [writeContract, isAdmin]);
+
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  // The connected wallet may have changed its own roles
+  useEffect(() => {
+    if (isConfirmed) {
+      refetchRoles();
+    }
+  }, [isConfirmed, refetchRoles]);
+
+  const grantRole = useCallback((role: AdminRole, account: string) => setRole(role, account, true), [setRole]);
+  const revokeRole = useCallback((role: AdminRole, account: string) => setRole(role, account, false), [setRole]);
+
+  return {
+    grantRole,
+    revokeRole,
+    canManage: isAdmin,
     hash,
     isPending,
     isConfirming,
@@ -0,0 +1,376 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import type { Abi } from 'viem';
+import { toast } from 'sonner';
+import { MEGAPLACE_ADDRESS } from '../contracts/config';
+import MegaplaceABI from '../contracts/MegaplaceABI.json';
+import {
+  createPlacementJob,
+  loadPlacementJobs,
+  savePlacementJob,
+  deletePlacementJobs,
+  type PlacementJob,
+} from '../services/placementJobs';
+import { MAX_WRITE_BATCH_SIZE, JOB_BATCH_RETRIES, JOB_BACKOFF_BASE_MS, JOB_BACKOFF_MAX_MS } from '../constants';
+
+type JobPixel = { x: number; y: number; color: number };
+
+// What the runner is doing: placing a batch or waiting for the wallet's cooldown
+export type PlacementJobsPhase = 'idle' | 'placing' | 'cooldown';
+
+const isActive = (job: PlacementJob) => job.status === 'queued' || job.status === 'running';
+const isFinished = (job: PlacementJob) => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+// Pixels of a job that are neither placed nor skipped
+export const remainingPixels = (job: PlacementJob) => job.pixels.length / 3 - job.cursor;
+// Wait before retrying after `attempt` failures in a row (from 1)
+const backoffDelay = (attempt: number) => Math.min(JOB_BACKOFF_BASE_MS * 2 ** attempt, JOB_BACKOFF_MAX_MS);
+
+function packPixels(pixels: JobPixel[]): Uint32Array {
+  const packed = new Uint32Array(pixels.length * 3);
+  pixels.forEach((pixel, i) => {
+    packed[i * 3] = pixel.x;
+    packed[i * 3 + 1] = pixel.y;
+    packed[i * 3 + 2] = pixel.color;
+  });
+  return packed;
+}
+
+/**
+ * Persistent placement job queue: jobs are stored in IndexedDB and placed one after another,
+ * in batches as large as the wallet's rate limit allows, waiting out cooldowns in between
+ * Jobs left running when the tab closed resume on the next visit
+ * @param placePixelBatch Places one batch and resolves once it is on chain
+ * @param isReady Whether the session key can place (jobs wait otherwise)
+ * @param onDelegationRequired Called when the session key has to be authorized again
+ */
+export function usePlacementJobs(
+  placePixelBatch: (pixels: JobPixel[]) => Promise<`0x${string}`>,
+  isReady: boolean,
+  onDelegationRequired?: () => void
+) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const [jobs, setJobs] = useState<PlacementJob[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [phase, setPhase] = useState<PlacementJobsPhase>('idle');
+  // The runner reads the latest jobs between awaits, so they live in a ref as well
+  const jobsRef = useRef<PlacementJob[]>([]);
+  const isRunningRef = useRef(false);
+  // Ends the runner's current wait early (pause, cancel)
+  const wakeRef = useRef<(() => void) | null>(null);
+  const addressRef = useRef(address);
+  const isReadyRef = useRef(isReady);
+  const placePixelBatchRef = useRef(placePixelBatch);
+  const onDelegationRequiredRef = useRef(onDelegationRequired);
+
+  // Keep refs updated
+  useEffect(() => {
+    addressRef.current = address;
+    isReadyRef.current = isReady;
+    placePixelBatchRef.current = placePixelBatch;
+    onDelegationRequiredRef.current = onDelegationRequired;
+  }, [address, isReady, placePixelBatch, onDelegationRequired]);
+
+  // Restore the jobs of previous visits, keeping any added meanwhile
+  useEffect(() => {
+    loadPlacementJobs().then(stored => {
+      const added = jobsRef.current.filter(job => !stored.some(s => s.id === job.id));
+      jobsRef.current = [...stored, ...added];
+      setJobs(jobsRef.current);
+      setIsLoaded(true);
+    });
+  }, []);
+
+  const setAllJobs = useCallback((next: PlacementJob[]) => {
+    jobsRef.current = next;
+    setJobs(next);
+  }, []);
+
+  // Apply a change to a job in memory and in the store
+  const updateJob = useCallback((id: string, changes: Partial<PlacementJob>): PlacementJob | null => {
+    const job = jobsRef.current.find(j => j.id === id);
+    if (!job) return null;
+    const updated = { ...job, ...changes };
+    setAllJobs(jobsRef.current.map(j => j.id === id ? updated : j));
+    savePlacementJob(updated);
+    return updated;
+  }, [setAllJobs]);
+
+  const wait = useCallback((ms: number) => new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timeout);
+      wakeRef.current = null;
+      resolve();
+    };
+    const timeout = setTimeout(done, ms);
+    wakeRef.current = done;
+  }), []);
+
+  // Pixels the wallet may place in the next batch, or how long to wait when it can't place any
+  const readBatchSize = useCallback(async (wallet: `0x${string}`): Promise<{ size: number; waitMs: number }> => {
+    if (!publicClient) return { size: 0, waitMs: 1000 };
+
+    // @ts-expect-error - viem type mismatch
+    const [isPremium] = await publicClient.readContract({
+      address: MEGAPLACE_ADDRESS,
+      abi: MegaplaceABI as Abi,
+      functionName: 'hasPremiumAccess',
+      args: [wallet],
+    }) as [boolean, bigint];
+    if (isPremium) {
+      // @ts-expect-error - viem type mismatch
+      const batchCap = await publicClient.readContract({
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'premiumBatchCap',
+        args: [wallet],
+      }) as number;
+      return { size: Math.min(MAX_WRITE_BATCH_SIZE, Number(batchCap)), waitMs: 0 };
+    }
+
+    // @ts-expect-error - viem type mismatch
+    const [canPlace, cooldownRemaining, pixelsRemaining] = await publicClient.readContract({
+      address: MEGAPLACE_ADDRESS,
+      abi: MegaplaceABI as Abi,
+      functionName: 'getCooldown',
+      args: [wallet],
+    }) as [boolean, bigint, bigint];
+    if (!canPlace || pixelsRemaining === 0n) {
+      // Leave a second for the next block, whose timestamp ends the cooldown
+      return { size: 0, waitMs: Number(cooldownRemaining) * 1000 + 1000 };
+    }
+    return { size: Math.min(MAX_WRITE_BATCH_SIZE, Number(pixelsRemaining)), waitMs: 0 };
+  }, [publicClient]);
+
+  // Move a job past the pixels of a batch, finishing it at the end
+  const advanceJob = useCallback((id: string, placed: number, skipped: number) => {
+    // Read again, pixels may have been added or the job paused while the batch was placed
+    const job = jobsRef.current.find(j => j.id === id);
+    if (!job) return;
+    const cursor = job.cursor + placed + skipped;
+    updateJob(id, {
+      cursor,
+      placed: job.placed + placed,
+      skipped: job.skipped + skipped,
+      status: job.status === 'running' && cursor >= job.pixels.length / 3 ? 'done' : job.status,
+    });
+  }, [updateJob]);
+
+  // Place the connected wallet's jobs, oldest first, until none is left
+  const run = useCallback(async () => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+
+    let jobId: string | null = null;
+    let failures = 0;
+    // Throttled batches and failed rate limit reads in a row, backed off without failing the job
+    let throttles = 0;
+    // Pixels to send one at a time after a batch failed on a pixel-specific error
+    let isolate = 0;
+    try {
+      while (isReadyRef.current && addressRef.current) {
+        const wallet = addressRef.current;
+        let job = jobsRef.current.find(j => j.wallet === wallet.toLowerCase() && isActive(j));
+        if (!job) break;
+        if (job.id !== jobId) {
+          jobId = job.id;
+          failures = 0;
+          isolate = 0;
+        }
+        if (job.status === 'queued') {
+          updateJob(job.id, { status: 'running', error: undefined });
+        }
+
+        let batchSize: number;
+        try {
+          const { size, waitMs } = await readBatchSize(wallet);
+          if (size === 0) {
+            setPhase('cooldown');
+            await wait(waitMs);
+            continue;
+          }
+          batchSize = isolate > 0 ? 1 : size;
+        } catch (err) {
+          console.error('[Jobs] Failed to read rate limit:', err);
+          setPhase('cooldown');
+          await wait(backoffDelay(++throttles));
+          continue;
+        }
+
+        // The job may have been paused or cancelled meanwhile
+        job = jobsRef.current.find(j => j.id === jobId);
+        if (!job || job.status !== 'running') continue;
+
+        const count = Math.min(batchSize, remainingPixels(job));
+        const batch: JobPixel[] = [];
+        for (let i = job.cursor; i < job.cursor + count; i++) {
+          batch.push({ x: job.pixels[i * 3], y: job.pixels[i * 3 + 1], color: job.pixels[i * 3 + 2] });
+        }
+
+        setPhase('placing');
+        try {
+          await placePixelBatchRef.current(batch);
+          failures = 0;
+          throttles = 0;
+          isolate = Math.max(0, isolate - count);
+          advanceJob(job.id, count, 0);
+        } catch (err: any) {
+          const errorMessage = err?.message || '';
+          console.error(`[Jobs] Batch of ${count} failed:`, err);
+          const isDelegationInvalid = errorMessage.includes('DelegationExpired') ||
+            errorMessage.includes('DelegateBudgetExceeded');
+          const isWalletBlocked = isDelegationInvalid ||
+            errorMessage.includes('PlacerBanned') ||
+            errorMessage.includes('EnforcedPause');
+          const isCooldown = errorMessage.includes('RateLimitExceeded');
+          const isThrottled = errorMessage.includes('InvalidBatchSize') ||
+            errorMessage.includes('rate limit') ||
+            errorMessage.includes('-32005');
+          const isPixelRejected = errorMessage.includes('PixelProtected') || errorMessage.includes('TilePaused');
+
+          if (isWalletBlocked) {
+            // Retrying can't help until the wallet or the canvas changes, so hold every job of the wallet
+            const error = errorMessage.split('\n')[0];
+            jobsRef.current
+              .filter(j => j.wallet === wallet.toLowerCase() && isActive(j))
+              .forEach(j => updateJob(j.id, { status: 'paused', error }));
+            toast.error('Placement jobs paused', { description: error, duration: 5000 });
+            if (isDelegationInvalid) {
+              onDelegationRequiredRef.current?.();
+            }
+            continue;
+          }
+          if (isCooldown) {
+            // The next rate limit read waits for the cooldown
+            continue;
+          }
+          if (isThrottled) {
+            // No cooldown to wait for: the RPC is shedding load, or the batch cap changed since it was read
+            setPhase('cooldown');
+            await wait(backoffDelay(++throttles));
+            continue;
+          }
+          if (isPixelRejected) {
+            if (count === 1) {
+              isolate = Math.max(0, isolate - 1);
+              advanceJob(job.id, 0, 1);
+            } else {
+              // One rejected pixel fails the whole batch, so find it by sending these one by one
+              isolate = count;
+            }
+            continue;
+          }
+
+          failures++;
+          if (failures >= JOB_BATCH_RETRIES) {
+            updateJob(job.id, { status: 'failed', error: errorMessage.split('\n')[0] });
+            toast.error('Placement job failed', { description: `${job.label}: ${failures} batches failed in a row` });
+            continue;
+          }
+          await wait(backoffDelay(failures));
+        }
+      }
+    } finally {
+      isRunningRef.current = false;
+      setPhase('idle');
+    }
+  }, [readBatchSize, updateJob, advanceJob, wait]);
+
+  // Start placing whenever the wallet has a job waiting
+  useEffect(() => {
+    const wallet = address?.toLowerCase();
+    if (isLoaded && isReady && wallet && jobs.some(job => job.wallet === wallet && isActive(job))) {
+      run();
+    }
+  }, [jobs, isLoaded, isReady, address, run]);
+
+  /**
+   * Queue pixels as a new job for the connected wallet
+   * @returns The job's id, null without a connected wallet
+   */
+  const addJob = useCallback((kind: PlacementJob['kind'], label: string, pixels: JobPixel[]): string | null => {
+    if (!address || pixels.length === 0) return null;
+    const job = createPlacementJob(address, kind, label, packPixels(pixels));
+    setAllJobs([...jobsRef.current, job]);
+    savePlacementJob(job);
+    return job.id;
+  }, [address, setAllJobs]);
+
+  // Queue a clicked pixel that couldn't be placed, adding it to the wallet's open click job if there is one
+  const queuePixel = useCallback((x: number, y: number, color: number) => {
+    const wallet = address?.toLowerCase();
+    const open = jobsRef.current.find(job => job.wallet === wallet && job.kind === 'clicks' && isActive(job));
+    if (!open) {
+      addJob('clicks', 'Queued pixels', [{ x, y, color }]);
+      return;
+    }
+    const pixels = new Uint32Array(open.pixels.length + 3);
+    pixels.set(open.pixels);
+    pixels.set([x, y, color], open.pixels.length);
+    updateJob(open.id, { pixels });
+  }, [address, addJob, updateJob]);
+
+  const pauseJob = useCallback((id: string) => {
+    const job = jobsRef.current.find(j => j.id === id);
+    if (!job || !isActive(job)) return;
+    updateJob(id, { status: 'paused' });
+    wakeRef.current?.();
+  }, [updateJob]);
+
+  const resumeJob = useCallback((id: string) => {
+    const job = jobsRef.current.find(j => j.id === id);
+    if (!job || (job.status !== 'paused' && job.status !== 'failed')) return;
+    updateJob(id, { status: 'queued', error: undefined });
+  }, [updateJob]);
+
+  const cancelJob = useCallback((id: string) => {
+    const job = jobsRef.current.find(j => j.id === id);
+    if (!job || isFinished(job)) return;
+    updateJob(id, { status: 'cancelled' });
+    wakeRef.current?.();
+  }, [updateJob]);
+
+  // Cancel every unfinished job of the connected wallet
+  const cancelAll = useCallback(() => {
+    const wallet = address?.toLowerCase();
+    jobsRef.current
+      .filter(job => job.wallet === wallet && !isFinished(job))
+      .forEach(job => updateJob(job.id, { status: 'cancelled' }));
+    wakeRef.current?.();
+  }, [address, updateJob]);
+
+  // Forget the connected wallet's finished jobs
+  const clearFinished = useCallback(() => {
+    const wallet = address?.toLowerCase();
+    const finished = jobsRef.current.filter(job => job.wallet === wallet && isFinished(job));
+    setAllJobs(jobsRef.current.filter(job => !finished.includes(job)));
+    deletePlacementJobs(finished.map(job => job.id));
+  }, [address, setAllJobs]);
+
+  // Only the connected wallet's jobs are shown and placed
+  const walletJobs = useMemo(() => {
+    const wallet = address?.toLowerCase();
+    return jobs.filter(job => job.wallet === wallet);
+  }, [jobs, address]);
+
+  const pendingPixels = useMemo(
+    () => walletJobs.filter(isActive).reduce((sum, job) => sum + remainingPixels(job), 0),
+    [walletJobs]
+  );
+
+  return {
+    jobs: walletJobs,
+    phase,
+    // Pixels left in the queued and running jobs
+    pendingPixels,
+    addJob,
+    queuePixel,
+    pauseJob,
+    resumeJob,
+    cancelJob,
+    cancelAll,
+    clearFinished,
+  };
+}
+
+export type PlacementJobs = ReturnType<typeof usePlacementJobs>;
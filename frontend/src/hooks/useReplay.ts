@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback, useRef, type RefObject } from 'react';
+import type { Map as LeafletMap } from 'leaflet';
+import { toast } from 'sonner';
+import { fetchReplay, type PixelBounds } from '../services/backendApi';
+import { ReplayOverlay } from '../lib/replayOverlay';
+import { latLonToGlobalPx } from '../lib/projection';
+import { CANVAS_RES, MAX_REPLAY_SIZE, REPLAY_DURATION_MS } from '../constants';
+
+// Time span of a loaded replay
+interface ReplayInfo {
+  region: PixelBounds;
+  count: number;
+  startTime: number; // Unix timestamp of the first placement
+  endTime: number; // Unix timestamp of the last placement
+}
+
+// Number of placements made at or before a time (records are in chain order, so timestamps only grow)
+function countUntil(records: Uint32Array, time: number): number {
+  let low = 0;
+  let high = records.length / 4;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (records[mid * 4 + 3] <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Time-lapse replay of the visible area: loads every placement made there and
+ * plays them back on the map, with pause, scrubbing and playback speed
+ * @param showReplayOverlay Shows the replay instead of the canvas (from useMap)
+ * @param epoch Archived epoch to replay, null for the current one
+ */
+export function useReplay(
+  mapRef: RefObject<LeafletMap | null>,
+  showReplayOverlay: (overlay: ReplayOverlay | null) => void,
+  epoch: number | null
+) {
+  const [replay, setReplay] = useState<ReplayInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0); // 0-1
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const overlayRef = useRef<ReplayOverlay | null>(null);
+  const recordsRef = useRef<Uint32Array | null>(null);
+  // Bumped when a replay starts or stops, so a load that finishes late is dropped
+  const requestRef = useRef(0);
+
+  const stopReplay = useCallback(() => {
+    requestRef.current++;
+    if (overlayRef.current) {
+      showReplayOverlay(null);
+    }
+    overlayRef.current = null;
+    recordsRef.current = null;
+    setReplay(null);
+    setIsLoading(false);
+    setIsPlaying(false);
+  }, [showReplayOverlay]);
+
+  const startReplay = useCallback(async () => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    const bounds = map.getBounds();
+    const topLeft = latLonToGlobalPx(bounds.getNorth(), bounds.getWest());
+    const bottomRight = latLonToGlobalPx(bounds.getSouth(), bounds.getEast());
+    const region: PixelBounds = {
+      minX: Math.max(0, topLeft.px),
+      minY: Math.max(0, topLeft.py),
+      maxX: Math.min(CANVAS_RES - 1, bottomRight.px),
+      maxY: Math.min(CANVAS_RES - 1, bottomRight.py),
+    };
+    if (region.maxX - region.minX + 1 > MAX_REPLAY_SIZE || region.maxY - region.minY + 1 > MAX_REPLAY_SIZE) {
+      toast.error('Area too large', {
+        description: `Zoom in to replay at most ${MAX_REPLAY_SIZE}x${MAX_REPLAY_SIZE} pixels`,
+      });
+      return;
+    }
+
+    stopReplay();
+    const request = requestRef.current;
+    setIsLoading(true);
+    setLoadProgress(0);
+
+    const data = await fetchReplay(region, { epoch: epoch ?? undefined }, (received, total) => {
+      if (request === requestRef.current && total > 0) {
+        setLoadProgress(received / total);
+      }
+    });
+    if (request !== requestRef.current) return;
+    setIsLoading(false);
+
+    if (!data) {
+      toast.error('Replay failed', { description: 'Could not load the history of this area' });
+      return;
+    }
+    if (data.count === 0) {
+      toast('Nothing has been painted here yet');
+      return;
+    }
+
+    const overlay = new ReplayOverlay(region, data.records);
+    overlayRef.current = overlay;
+    recordsRef.current = data.records;
+    showReplayOverlay(overlay);
+
+    const startTime = data.records[3];
+    setReplay({ region, count: data.count, startTime, endTime: data.records[data.count * 4 - 1] });
+    setCurrentTime(startTime);
+    setIsPlaying(true);
+  }, [mapRef, epoch, showReplayOverlay, stopReplay]);
+
+  // Draw the moment being shown
+  useEffect(() => {
+    if (!overlayRef.current || !recordsRef.current) return;
+    overlayRef.current.showUntil(countUntil(recordsRef.current, currentTime));
+  }, [replay, currentTime]);
+
+  // Advance while playing, so the whole replay takes REPLAY_DURATION_MS at 1x
+  useEffect(() => {
+    if (!isPlaying || !replay) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const step = (now: number) => {
+      const elapsed = now - last;
+      last = now;
+      const span = Math.max(replay.endTime - replay.startTime, 1);
+      setCurrentTime(prev => Math.min(replay.endTime, prev + span * speed * elapsed / REPLAY_DURATION_MS));
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, replay, speed]);
+
+  // Pause at the end
+  useEffect(() => {
+    if (isPlaying && replay && currentTime >= replay.endTime) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, replay, currentTime]);
+
+  const togglePlaying = useCallback(() => {
+    if (!replay) return;
+    if (!isPlaying && currentTime >= replay.endTime) {
+      setCurrentTime(replay.startTime); // Play again from the start
+    }
+    setIsPlaying(!isPlaying);
+  }, [replay, isPlaying, currentTime]);
+
+  const seek = useCallback((time: number) => {
+    if (!replay) return;
+    setCurrentTime(Math.min(replay.endTime, Math.max(replay.startTime, time)));
+  }, [replay]);
+
+  // A replay belongs to the epoch it was loaded from
+  useEffect(() => {
+    stopReplay();
+  }, [epoch, stopReplay]);
+
+  return {
+    replay,
+    isReplaying: replay !== null || isLoading,
+    isLoading,
+    loadProgress,
+    currentTime,
+    isPlaying,
+    speed,
+    setSpeed,
+    startReplay,
+    stopReplay,
+    togglePlaying,
+    seek,
+  };
+}
+
+export type ReplayControls = ReturnType<typeof useReplay>;
@@ -6,6 +6,7 @@ import {
   formatEther,
   keccak256,
   toBytes,
+  type Abi,
   type WalletClient,
   type Account,
   type Chain,
@@ -13,16 +14,40 @@ import {
 } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
-import { megaethChain } from '../contracts/config';
-import { SESSION_KEY_STORAGE_KEY, SESSION_KEY_FUNDING_AMOUNT } from '../constants';
+import { MEGAPLACE_ADDRESS, megaethChain } from '../contracts/config';
+import MegaplaceABI from '../contracts/MegaplaceABI.json';
+import {
+  SESSION_KEY_STORAGE_KEY,
+  SESSION_KEY_FUNDING_AMOUNT,
+  SESSION_KEY_DELEGATION_HOURS,
+  SESSION_KEY_PIXEL_BUDGET,
+  DELEGATION_REFETCH_INTERVAL_MS,
+} from '../constants';
 import { toast } from 'sonner';
 
 // Message to sign for deterministic session key generation
 const SESSION_KEY_MESSAGE = 'Sign this message to generate your Megaplace session key.\n\nThis signature will be used to create a deterministic key that is unique to your wallet.';
 
+// EIP-712 type the session key signs to agree to place pixels for the wallet (see Megaplace.authorizeDelegate)
+const ACCEPT_DELEGATION_TYPES = {
+  AcceptDelegation: [
+    { name: 'owner', type: 'address' },
+    { name: 'expiresAt', type: 'uint64' },
+    { name: 'pixelBudget', type: 'uint32' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+} as const;
+
 // Get storage key for a specific wallet address
 const getStorageKey = (walletAddress: string) => `${SESSION_KEY_STORAGE_KEY}_${walletAddress.toLowerCase()}`;
 
+// On-chain authorization for the session key to place pixels on behalf of the wallet
+export interface SessionKeyDelegation {
+  owner: `0x${string}`;
+  expiresAt: bigint; // Unix timestamp in seconds
+  pixelBudget: number; // Pixels the session key may still place
+}
+
 interface SessionKeyState {
   privateKey: `0x${string}` | null;
   address: `0x${string}` | null;
@@ -31,6 +56,9 @@ interface SessionKeyState {
   isFunding: boolean;
   needsFunding: boolean;
   needsSignature: boolean;
+  delegation: SessionKeyDelegation | null;
+  delegationChecked: boolean;
+  isDelegating: boolean;
 }
 
 export function useSessionKey() {
@@ -46,6 +74,9 @@ export function useSessionKey() {
     isFunding: false,
     needsFunding: false,
     needsSignature: false,
+    delegation: null,
+    delegationChecked: false,
+    isDelegating: false,
   });
 
   const sessionWalletClientRef = useRef<WalletClient<Transport, Chain, Account> | null>(null);
@@ -171,6 +202,9 @@ export function useSessionKey() {
         isFunding: false,
         needsFunding: false,
         needsSignature: false,
+        delegation: null,
+        delegationChecked: false,
+        isDelegating: false,
       });
       initializingRef.current = false;
     }
@@ -261,6 +295,138 @@ export function useSessionKey() {
     }
   }, [mainWalletClient, mainWalletAddress, state.address, publicClient]);
 
+  // Read the session key's delegation from the contract
+  const checkDelegation = useCallback(async () => {
+    if (!state.address || !publicClient) return;
+
+    try {
+      // @ts-expect-error - viem type mismatch
+      const result = await publicClient.readContract({
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI,
+        functionName: 'delegations',
+        args: [state.address],
+      });
+      const [owner, expiresAt, pixelBudget] = result as [`0x${string}`, bigint, number];
+
+      setState(prev => ({
+        ...prev,
+        delegation: owner === '0x0000000000000000000000000000000000000000' ? null : { owner, expiresAt, pixelBudget },
+        delegationChecked: true,
+      }));
+    } catch (error) {
+      console.error('[Session Key] Failed to check delegation:', error);
+    }
+  }, [state.address, publicClient]);
+
+  // Poll the delegation, since every placement spends from its budget
+  useEffect(() => {
+    if (!state.address || !publicClient) return;
+
+    checkDelegation();
+    const interval = setInterval(checkDelegation, DELEGATION_REFETCH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [state.address, publicClient, checkDelegation]);
+
+  // Authorize the session key to place pixels for the main wallet (or renew its expiry and budget)
+  // The session key signs its consent first, which the contract requires
+  const authorizeDelegate = useCallback(async () => {
+    const sessionWalletClient = sessionWalletClientRef.current;
+    if (!mainWalletClient || !sessionWalletClient || !state.address || !mainWalletAddress || !publicClient) {
+      toast.error('Connect wallet first');
+      return false;
+    }
+
+    setState(prev => ({ ...prev, isDelegating: true }));
+
+    try {
+      const expiresAt = BigInt(Math.floor(Date.now() / 1000) + SESSION_KEY_DELEGATION_HOURS * 60 * 60);
+
+      // @ts-expect-error - viem type mismatch
+      const nonce = await publicClient.readContract({
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'nonces',
+        args: [state.address],
+      }) as bigint;
+      const signature = await sessionWalletClient.signTypedData({
+        account: sessionWalletClient.account,
+        domain: {
+          name: 'Megaplace',
+          version: '1',
+          chainId: megaethChain.id,
+          verifyingContract: MEGAPLACE_ADDRESS,
+        },
+        types: ACCEPT_DELEGATION_TYPES,
+        primaryType: 'AcceptDelegation',
+        message: { owner: mainWalletAddress, expiresAt, pixelBudget: SESSION_KEY_PIXEL_BUDGET, nonce },
+      });
+
+      const hash = await mainWalletClient.writeContract({
+        account: mainWalletAddress,
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'authorizeDelegate',
+        args: [state.address, expiresAt, SESSION_KEY_PIXEL_BUDGET, nonce, signature],
+        chain: megaethChain,
+      });
+
+      console.log('[Session Key] Authorize tx:', hash);
+      await publicClient.waitForTransactionReceipt({ hash });
+      await checkDelegation();
+
+      toast.success('Session key authorized!', {
+        description: `Pixels are placed for your wallet for the next ${SESSION_KEY_DELEGATION_HOURS} hours`,
+      });
+      return true;
+    } catch (error: any) {
+      console.error('[Session Key] Failed to authorize:', error);
+      toast.error('Failed to authorize session key', {
+        description: error.shortMessage || error.message || 'Transaction failed',
+      });
+      return false;
+    } finally {
+      setState(prev => ({ ...prev, isDelegating: false }));
+    }
+  }, [mainWalletClient, mainWalletAddress, state.address, publicClient, checkDelegation]);
+
+  // Revoke the session key's delegation, so it can no longer place pixels for the wallet
+  const revokeDelegate = useCallback(async () => {
+    if (!mainWalletClient || !state.address || !mainWalletAddress || !publicClient) {
+      toast.error('Connect wallet first');
+      return false;
+    }
+
+    setState(prev => ({ ...prev, isDelegating: true }));
+
+    try {
+      const hash = await mainWalletClient.writeContract({
+        account: mainWalletAddress,
+        address: MEGAPLACE_ADDRESS,
+        abi: MegaplaceABI as Abi,
+        functionName: 'revokeDelegate',
+        args: [state.address],
+        chain: megaethChain,
+      });
+
+      console.log('[Session Key] Revoke tx:', hash);
+      await publicClient.waitForTransactionReceipt({ hash });
+      await checkDelegation();
+
+      toast.info('Session key revoked');
+      return true;
+    } catch (error: any) {
+      console.error('[Session Key] Failed to revoke:', error);
+      toast.error('Failed to revoke session key', {
+        description: error.shortMessage || error.message || 'Transaction failed',
+      });
+      return false;
+    } finally {
+      setState(prev => ({ ...prev, isDelegating: false }));
+    }
+  }, [mainWalletClient, mainWalletAddress, state.address, publicClient, checkDelegation]);
+
   // Get the session wallet client for sending transactions
   const getSessionWalletClient = useCallback(() => {
     return sessionWalletClientRef.current;
@@ -286,6 +452,8 @@ export function useSessionKey() {
       balance: 0n,
       needsFunding: false,
       needsSignature: true,
+      delegation: null,
+      delegationChecked: false,
     }));
 
     toast.info('Session key cleared', {
@@ -293,6 +461,13 @@ export function useSessionKey() {
     });
   }, [mainWalletAddress]);
 
+  // Placements only count for the wallet while the session key is delegated to it
+  const isDelegated = !!state.delegation
+    && !!mainWalletAddress
+    && state.delegation.owner.toLowerCase() === mainWalletAddress.toLowerCase()
+    && state.delegation.expiresAt * 1000n > BigInt(Date.now())
+    && state.delegation.pixelBudget > 0;
+
   return {
     sessionAddress: state.address,
     sessionBalance: state.balance,
@@ -306,6 +481,14 @@ export function useSessionKey() {
     resetSessionKey,
     refreshBalance: checkBalance,
     generateFromSignature,
+    // Delegation to the main wallet
+    delegation: state.delegation,
+    isDelegated,
+    needsDelegation: state.delegationChecked && !isDelegated,
+    isDelegating: state.isDelegating,
+    authorizeDelegate,
+    revokeDelegate,
+    refreshDelegation: checkDelegation,
   };
 }
 
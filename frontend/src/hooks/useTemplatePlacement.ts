@@ -0,0 +1,90 @@
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { fetchPixelsBinaryInBounds, type RegionClaim } from '../services/backendApi';
+import { templatePixels, type PixelTemplate } from '../lib/pixelArt';
+import type { PlacementJobs } from './usePlacementJobs';
+
+export type TemplatePlacementStatus = 'idle' | 'diffing' | 'queued' | 'placing' | 'cooldown' | 'paused' | 'done' | 'stopped';
+
+/**
+ * Places a pixel art template: compares it with the canvas and queues a placement job
+ * with only the pixels that differ, which then follows the job's progress
+ * @param placementJobs Persistent job queue (from usePlacePixelWithSessionKey)
+ * @param getClaimAt Active claim covering a pixel (from useMap), to skip pixels the wallet can't paint
+ * @param wallet Connected wallet, whose cooldown the job follows
+ */
+export function useTemplatePlacement(
+  placementJobs: PlacementJobs,
+  getClaimAt: (px: number, py: number) => RegionClaim | null,
+  wallet: `0x${string}` | undefined
+) {
+  const { jobs, phase, addJob, cancelJob } = placementJobs;
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const job = jobs.find(j => j.id === jobId) ?? null;
+
+  const start = useCallback(async (template: PixelTemplate) => {
+    if (!wallet) return;
+    setIsDiffing(true);
+    setJobId(null);
+
+    const snapshot = await fetchPixelsBinaryInBounds({
+      minX: template.x,
+      minY: template.y,
+      maxX: template.x + template.width - 1,
+      maxY: template.y + template.height - 1,
+    });
+    setIsDiffing(false);
+    if (!snapshot) {
+      toast.error('Could not load the canvas', { description: 'Try placing the template again' });
+      return;
+    }
+
+    // Only the pixels that differ from the canvas, leaving out claims the wallet can't paint in
+    const current = new Map(snapshot.pixels.map(pixel => [`${pixel.x},${pixel.y}`, pixel.color]));
+    const placer = wallet.toLowerCase();
+    let skipped = 0;
+    const pending = templatePixels(template).filter(pixel => {
+      if ((current.get(`${pixel.x},${pixel.y}`) ?? 0) === pixel.color) return false;
+      const claim = getClaimAt(pixel.x, pixel.y);
+      if (claim && claim.owner.toLowerCase() !== placer && !claim.collaborators.some(c => c.toLowerCase() === placer)) {
+        skipped++;
+        return false;
+      }
+      return true;
+    });
+
+    if (skipped > 0) {
+      toast.info(`${skipped} template pixels skipped`, { description: 'They are inside claims you can\'t paint' });
+    }
+    if (pending.length === 0) {
+      toast.success('Template already matches the canvas');
+      return;
+    }
+    setJobId(addJob('template', `Template ${template.width}×${template.height} at ${template.x}, ${template.y}`, pending));
+  }, [wallet, getClaimAt, addJob]);
+
+  const stop = useCallback(() => {
+    if (jobId) cancelJob(jobId);
+  }, [jobId, cancelJob]);
+
+  let status: TemplatePlacementStatus = 'idle';
+  if (isDiffing) {
+    status = 'diffing';
+  } else if (job?.status === 'running') {
+    status = phase === 'cooldown' ? 'cooldown' : 'placing';
+  } else if (job) {
+    status = job.status === 'failed' || job.status === 'cancelled' ? 'stopped' : job.status;
+  }
+
+  return {
+    status,
+    isPlacing: status === 'diffing' || status === 'queued' || status === 'placing' || status === 'cooldown',
+    placed: job?.placed ?? 0,
+    total: job ? job.pixels.length / 3 : 0,
+    start,
+    stop,
+  };
+}
+
+export type TemplatePlacement = ReturnType<typeof useTemplatePlacement>;
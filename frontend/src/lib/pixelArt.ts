@@ -0,0 +1,144 @@
+// Turning images into pixel art drawn with the palette
+import { PRESET_COLORS, TRANSPARENT_COLOR } from '../constants';
+import { hexToUint32 } from '../hooks/useMegaplace';
+
+/**
+ * Pixel art anchored on the canvas: colors[row * width + column] is the color of
+ * pixel (x + column, y + row), 0 where the template leaves the canvas alone
+ */
+export interface PixelTemplate {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    colors: Uint32Array;
+}
+
+// Palette colors as placed on chain (black is stored as 0x010101)
+export const TEMPLATE_PALETTE: number[] = PRESET_COLORS
+    .filter(color => color !== TRANSPARENT_COLOR)
+    .map(color => hexToUint32(color));
+
+// Pixels at least this transparent are left out of the template
+const ALPHA_THRESHOLD = 128;
+
+/**
+ * Decode an image file and scale it to `width` pixels wide, keeping its aspect ratio
+ * @param width Defaults to the image's own width
+ */
+export async function loadImageData(file: Blob, width?: number): Promise<ImageData> {
+    const bitmap = await createImageBitmap(file);
+    width ??= bitmap.width;
+    const height = Math.max(1, Math.round(bitmap.height * width / bitmap.width));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    return context.getImageData(0, 0, width, height);
+}
+
+/**
+ * Map every pixel of an image to the closest palette color
+ * With dithering the rounding error is spread to the neighbouring pixels (Floyd-Steinberg),
+ * which trades flat areas for smoother gradients
+ * @returns One color per pixel, 0 for transparent pixels
+ */
+export function quantizeImage(image: ImageData, dither: boolean, palette: number[] = TEMPLATE_PALETTE): Uint32Array {
+    const { width, height, data } = image;
+    const paletteRgb = palette.map(color => [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff]);
+    // Working copy of the channels, so diffused error can push values past 0-255
+    const channels = new Float32Array(width * height * 3);
+    for (let i = 0; i < width * height; i++) {
+        channels[i * 3] = data[i * 4];
+        channels[i * 3 + 1] = data[i * 4 + 1];
+        channels[i * 3 + 2] = data[i * 4 + 2];
+    }
+
+    const colors = new Uint32Array(width * height);
+    const spread = (x: number, y: number, error: number[], weight: number) => {
+        if (x < 0 || x >= width || y >= height || data[(y * width + x) * 4 + 3] < ALPHA_THRESHOLD) return;
+        const offset = (y * width + x) * 3;
+        channels[offset] += error[0] * weight;
+        channels[offset + 1] += error[1] * weight;
+        channels[offset + 2] += error[2] * weight;
+    };
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            if (data[i * 4 + 3] < ALPHA_THRESHOLD) continue;
+
+            const r = channels[i * 3];
+            const g = channels[i * 3 + 1];
+            const b = channels[i * 3 + 2];
+            const closest = closestColor(paletteRgb, r, g, b);
+            colors[i] = palette[closest];
+
+            if (dither) {
+                const [pr, pg, pb] = paletteRgb[closest];
+                const error = [r - pr, g - pg, b - pb];
+                spread(x + 1, y, error, 7 / 16);
+                spread(x - 1, y + 1, error, 3 / 16);
+                spread(x, y + 1, error, 5 / 16);
+                spread(x + 1, y + 1, error, 1 / 16);
+            }
+        }
+    }
+
+    return colors;
+}
+
+// Index of the palette color nearest to an RGB value, weighted for how the eye perceives each channel
+function closestColor(paletteRgb: number[][], r: number, g: number, b: number): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < paletteRgb.length; i++) {
+        const [pr, pg, pb] = paletteRgb[i];
+        const distance = 2 * (r - pr) ** 2 + 4 * (g - pg) ** 2 + 3 * (b - pb) ** 2;
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = i;
+        }
+    }
+    return best;
+}
+
+/**
+ * Draw a template at one canvas pixel per image pixel, for previews and overlays
+ */
+export function renderTemplate(template: PixelTemplate): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = template.width;
+    canvas.height = template.height;
+    const context = canvas.getContext('2d')!;
+    const image = context.createImageData(template.width, template.height);
+
+    template.colors.forEach((color, i) => {
+        if (color === 0) return;
+        image.data[i * 4] = (color >> 16) & 0xff;
+        image.data[i * 4 + 1] = (color >> 8) & 0xff;
+        image.data[i * 4 + 2] = color & 0xff;
+        image.data[i * 4 + 3] = 255;
+    });
+    context.putImageData(image, 0, 0);
+
+    return canvas;
+}
+
+/**
+ * Every pixel the template sets, in canvas coordinates
+ */
+export function templatePixels(template: PixelTemplate): Array<{ x: number; y: number; color: number }> {
+    const pixels: Array<{ x: number; y: number; color: number }> = [];
+    template.colors.forEach((color, i) => {
+        if (color !== 0) {
+            pixels.push({ x: template.x + i % template.width, y: template.y + Math.floor(i / template.width), color });
+        }
+    });
+    return pixels;
+}
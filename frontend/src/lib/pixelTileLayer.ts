@@ -0,0 +1,125 @@
+// Leaflet layer showing the canvas as PNG tiles rendered by the backend
+import * as L from 'leaflet';
+import { CANVAS_RES } from '../constants';
+
+// At tile zoom z each tile covers CANVAS_RES / 2^z canvas pixels per side,
+// so a pixel's tile is (px >> (CANVAS_ZOOM - z), py >> (CANVAS_ZOOM - z))
+const CANVAS_ZOOM = Math.log2(CANVAS_RES);
+const MAX_TILE_ZOOM = CANVAS_ZOOM; // Backend renders up to one canvas pixel per tile
+
+interface LoadedTile {
+    tile: HTMLImageElement;
+    coords: L.Coords;
+}
+
+/**
+ * Tile layer for `/tiles/{z}/{x}/{y}.png` that can refresh the tiles
+ * containing a single pixel without redrawing the whole layer
+ * (or `/epochs/{id}/tiles/{z}/{x}/{y}.png` while showing an archived epoch)
+ */
+export class PixelTileLayer extends L.TileLayer {
+    // Revision appended to tile URLs to bypass the browser cache after a change (key: "z/x/y")
+    private revisions: Map<string, number> = new Map();
+    private revision = 0;
+    // Bumped by refreshAll so every tile URL changes
+    private generation = 0;
+    private loadedTiles: Map<string, LoadedTile> = new Map();
+
+    constructor(private backendUrl: string) {
+        super(`${backendUrl}/tiles/{z}/{x}/{y}.png`, {
+            noWrap: true,
+            maxNativeZoom: MAX_TILE_ZOOM,
+            zIndex: 10,
+            className: 'pixel-tile-layer',
+        });
+
+        this.on('tileload', (e: L.TileEvent) => {
+            this.loadedTiles.set(tileKey(e.coords.z, e.coords.x, e.coords.y), { tile: e.tile, coords: e.coords });
+        });
+        this.on('tileunload', (e: L.TileEvent) => {
+            this.loadedTiles.delete(tileKey(e.coords.z, e.coords.x, e.coords.y));
+        });
+    }
+
+    getTileUrl(coords: L.Coords): string {
+        const url = super.getTileUrl(coords);
+        const revision = this.revisions.get(tileKey(coords.z, coords.x, coords.y));
+        if (revision !== undefined) return `${url}?v=${this.generation}.${revision}`;
+        return this.generation > 0 ? `${url}?v=${this.generation}` : url;
+    }
+
+    /**
+     * Show an archived epoch's canvas, or the current one (null)
+     */
+    setEpoch(epoch: number | null): void {
+        this.revisions.clear();
+        this.setUrl(`${this.backendUrl}${epoch === null ? '' : `/epochs/${epoch}`}/tiles/{z}/{x}/{y}.png`);
+    }
+
+    /**
+     * Re-fetch every tile (e.g. after missing updates while disconnected)
+     */
+    refreshAll(): void {
+        this.generation++;
+        this.revisions.clear();
+        this.redraw();
+    }
+
+    /**
+     * Re-fetch the tiles containing a pixel
+     * @param onRefreshed Called once the visible tile shows the new state (immediately if none is visible)
+     */
+    refreshPixel(px: number, py: number, onRefreshed?: () => void): void {
+        this.refreshPixels([{ x: px, y: py }], onRefreshed);
+    }
+
+    /**
+     * Re-fetch the tiles containing any of the pixels, reloading each visible tile once
+     * @param onRefreshed Called once every affected visible tile shows the new state (immediately if none is visible)
+     */
+    refreshPixels(pixels: Array<{ x: number; y: number }>, onRefreshed?: () => void): void {
+        const revision = ++this.revision;
+        const zoom = this._map ? Math.min(Math.round(this._map.getZoom()), MAX_TILE_ZOOM) : null;
+        const visible: Map<string, LoadedTile> = new Map();
+
+        for (const { x: px, y: py } of pixels) {
+            // Tiles at other zooms are fetched with the new revision whenever they load next
+            for (let z = 0; z <= MAX_TILE_ZOOM; z++) {
+                const shift = CANVAS_ZOOM - z;
+                this.revisions.set(tileKey(z, px >> shift, py >> shift), revision);
+            }
+
+            if (zoom !== null) {
+                const shift = CANVAS_ZOOM - zoom;
+                const key = tileKey(zoom, px >> shift, py >> shift);
+                const loaded = this.loadedTiles.get(key);
+                if (loaded) {
+                    visible.set(key, loaded);
+                }
+            }
+        }
+
+        if (visible.size === 0) {
+            onRefreshed?.();
+            return;
+        }
+
+        let remaining = visible.size;
+        for (const { tile, coords } of visible.values()) {
+            const handleDone = () => {
+                tile.removeEventListener('load', handleDone);
+                tile.removeEventListener('error', handleDone);
+                if (--remaining === 0) {
+                    onRefreshed?.();
+                }
+            };
+            tile.addEventListener('load', handleDone);
+            tile.addEventListener('error', handleDone);
+            tile.src = this.getTileUrl(coords);
+        }
+    }
+}
+
+function tileKey(z: number, x: number, y: number): string {
+    return `${z}/${x}/${y}`;
+}
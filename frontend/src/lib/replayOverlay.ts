@@ -0,0 +1,83 @@
+// Leaflet layer drawing a region of the canvas as it looked partway through a replay
+import * as L from 'leaflet';
+import { globalPxToLatLon } from './projection';
+import type { PixelBounds } from '../services/backendApi';
+
+/**
+ * Canvas element covering a region of the map, one canvas pixel per element pixel,
+ * onto which the replay's placements are drawn in order
+ */
+export class ReplayOverlay extends L.Layer {
+    private canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D;
+    private image: ImageData;
+    private latLngBounds: L.LatLngBounds;
+    private width: number;
+    // Placements currently drawn (a prefix of records)
+    private applied = 0;
+
+    constructor(private region: PixelBounds, private records: Uint32Array) {
+        super();
+        this.width = region.maxX - region.minX + 1;
+        const height = region.maxY - region.minY + 1;
+
+        this.canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+        this.canvas.width = this.width;
+        this.canvas.height = height;
+        this.canvas.style.position = 'absolute';
+        this.canvas.style.imageRendering = 'pixelated';
+        this.context = this.canvas.getContext('2d')!;
+        this.image = this.context.createImageData(this.width, height);
+
+        const topLeft = globalPxToLatLon(region.minX, region.minY);
+        const bottomRight = globalPxToLatLon(region.maxX + 1, region.maxY + 1);
+        this.latLngBounds = L.latLngBounds([bottomRight.lat, topLeft.lon], [topLeft.lat, bottomRight.lon]);
+    }
+
+    onAdd(map: L.Map): this {
+        this.getPane()!.appendChild(this.canvas);
+        map.on('zoomend viewreset', this.reposition, this);
+        this.reposition();
+        return this;
+    }
+
+    onRemove(map: L.Map): this {
+        this.canvas.remove();
+        map.off('zoomend viewreset', this.reposition, this);
+        return this;
+    }
+
+    /**
+     * Draw the region as it looked after the first `count` placements
+     * Moving forward only draws the new placements, moving back redraws from the start
+     */
+    showUntil(count: number): void {
+        if (count < this.applied) {
+            this.image.data.fill(0);
+            this.applied = 0;
+        }
+
+        const data = this.image.data;
+        for (let i = this.applied; i < count; i++) {
+            const x = this.records[i * 4] - this.region.minX;
+            const y = this.records[i * 4 + 1] - this.region.minY;
+            const color = this.records[i * 4 + 2];
+            const offset = (y * this.width + x) * 4;
+            data[offset] = (color >> 16) & 0xff;
+            data[offset + 1] = (color >> 8) & 0xff;
+            data[offset + 2] = color & 0xff;
+            data[offset + 3] = color === 0 ? 0 : 255; // 0 = erased
+        }
+        this.applied = count;
+        this.context.putImageData(this.image, 0, 0);
+    }
+
+    // Layer points only change when zooming, so panning needs no update
+    private reposition(): void {
+        const topLeft = this._map.latLngToLayerPoint(this.latLngBounds.getNorthWest());
+        const bottomRight = this._map.latLngToLayerPoint(this.latLngBounds.getSouthEast());
+        L.DomUtil.setPosition(this.canvas, topLeft);
+        this.canvas.style.width = `${bottomRight.x - topLeft.x}px`;
+        this.canvas.style.height = `${bottomRight.y - topLeft.y}px`;
+    }
+}
@@ -0,0 +1,162 @@
+// Shareable template files: a JSON description of where the art goes, or a plain PNG
+import { hexToUint32, uint32ToHex } from '../hooks/useMegaplace';
+import { loadImageData, quantizeImage, renderTemplate, type PixelTemplate } from './pixelArt';
+import { CANVAS_RES, MAX_TEMPLATE_SIZE } from '../constants';
+
+export const TEMPLATE_FILE_VERSION = 1;
+// Share URL parameter holding the template's URL (next to px/py)
+export const TEMPLATE_URL_PARAM = 'template';
+
+/**
+ * JSON template: the anchor (top-left pixel), the size and colors of the art, and the PNG holding its pixels
+ * Transparent PNG pixels are left alone, the others snap to the closest palette color
+ */
+export interface TemplateFile {
+    version: number;
+    name?: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    palette: string[]; // '#rrggbb'
+    image: string; // PNG URL, relative to the JSON file, or a data: URL
+}
+
+// A template and where it came from
+export interface LoadedTemplate {
+    name: string;
+    // Anchored at 0,0 when the file doesn't say where it goes (PNG)
+    template: PixelTemplate;
+    // Whether the anchor came with the template (JSON)
+    hasAnchor: boolean;
+    // URL it was loaded from, null for local files (which can't be shared by link)
+    url: string | null;
+}
+
+const isCoordinate = (value: unknown, max: number): value is number =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) < max;
+
+/**
+ * Check a parsed JSON template
+ * @throws Error describing the first problem found
+ */
+export function parseTemplateFile(value: unknown): TemplateFile {
+    const file = value as Partial<TemplateFile> | null;
+    if (!file || typeof file !== 'object') {
+        throw new Error('Template must be a JSON object');
+    }
+    if (file.version !== TEMPLATE_FILE_VERSION) {
+        throw new Error(`Unsupported template version ${file.version}`);
+    }
+    if (!isCoordinate(file.x, CANVAS_RES) || !isCoordinate(file.y, CANVAS_RES)) {
+        throw new Error('Template anchor must be a pixel on the canvas');
+    }
+    if (!isCoordinate(file.width, MAX_TEMPLATE_SIZE + 1) || !isCoordinate(file.height, MAX_TEMPLATE_SIZE + 1) || file.width === 0 || file.height === 0) {
+        throw new Error(`Template size must be between 1 and ${MAX_TEMPLATE_SIZE} pixels`);
+    }
+    if (file.x + file.width > CANVAS_RES || file.y + file.height > CANVAS_RES) {
+        throw new Error("Template doesn't fit on the canvas");
+    }
+    if (!Array.isArray(file.palette) || file.palette.length === 0 || !file.palette.every(color => typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color))) {
+        throw new Error('Template palette must be a list of #rrggbb colors');
+    }
+    if (typeof file.image !== 'string' || file.image === '') {
+        throw new Error('Template needs an image');
+    }
+    if (file.name !== undefined && typeof file.name !== 'string') {
+        throw new Error('Template name must be a string');
+    }
+    return file as TemplateFile;
+}
+
+/**
+ * Turn a PNG into a template at its own size, snapping colors to the palette
+ */
+async function templateFromImage(image: Blob, x: number, y: number, palette?: number[]): Promise<PixelTemplate> {
+    const data = await loadImageData(image);
+    if (data.width > MAX_TEMPLATE_SIZE || data.height > MAX_TEMPLATE_SIZE) {
+        throw new Error(`Template images are limited to ${MAX_TEMPLATE_SIZE}x${MAX_TEMPLATE_SIZE} pixels`);
+    }
+    return { x, y, width: data.width, height: data.height, colors: quantizeImage(data, false, palette) };
+}
+
+async function fetchBlob(url: string): Promise<Blob> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Could not download ${url} (${response.status})`);
+    }
+    return response.blob();
+}
+
+// JSON templates are recognized by their type or extension, everything else is treated as an image
+function isJson(blob: Blob, name: string): boolean {
+    return blob.type.includes('json') || name.toLowerCase().endsWith('.json');
+}
+
+async function loadTemplateBlob(blob: Blob, name: string, baseUrl: string | null): Promise<Omit<LoadedTemplate, 'url'>> {
+    if (!isJson(blob, name)) {
+        return { name, template: await templateFromImage(blob, 0, 0), hasAnchor: false };
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(await blob.text());
+    } catch {
+        throw new Error('Template is not valid JSON');
+    }
+    const file = parseTemplateFile(json);
+    // Local files can only point at absolute or data: URLs
+    const imageUrl = baseUrl ? new URL(file.image, baseUrl).href : file.image;
+    const template = await templateFromImage(await fetchBlob(imageUrl), file.x, file.y, file.palette.map(hexToUint32));
+    if (template.width !== file.width || template.height !== file.height) {
+        throw new Error(`Template image is ${template.width}x${template.height}, expected ${file.width}x${file.height}`);
+    }
+    return { name: file.name || name, template, hasAnchor: true };
+}
+
+/**
+ * Load a JSON or PNG template from a local file
+ */
+export async function loadTemplateFromFile(file: File): Promise<LoadedTemplate> {
+    return { ...await loadTemplateBlob(file, file.name, null), url: null };
+}
+
+/**
+ * Load a JSON or PNG template from a URL
+ */
+export async function loadTemplateFromUrl(url: string): Promise<LoadedTemplate> {
+    const absolute = new URL(url, window.location.href).href;
+    const name = decodeURIComponent(new URL(absolute).pathname.split('/').pop() || 'template');
+    return { ...await loadTemplateBlob(await fetchBlob(absolute), name, absolute), url: absolute };
+}
+
+/**
+ * Describe a template as a JSON template file with the image inlined, ready to download and host
+ */
+export function toTemplateFile(template: PixelTemplate, name?: string): TemplateFile {
+    const palette = Array.from(new Set(template.colors))
+        .filter(color => color !== 0)
+        .map(color => uint32ToHex(color));
+    return {
+        version: TEMPLATE_FILE_VERSION,
+        name,
+        x: template.x,
+        y: template.y,
+        width: template.width,
+        height: template.height,
+        palette,
+        image: renderTemplate(template).toDataURL('image/png'),
+    };
+}
+
+/**
+ * Link that opens the canvas at a template's anchor with the template loaded
+ */
+export function getTemplateShareUrl(url: string, template: PixelTemplate): string {
+    const params = new URLSearchParams({
+        px: String(template.x),
+        py: String(template.y),
+        [TEMPLATE_URL_PARAM]: url,
+    });
+    return `${window.location.origin}?${params}`;
+}
@@ -42,6 +42,58 @@ export interface StatsResponse {
     isSyncing: boolean;
     syncProgress: number;
     connectedClients: number;
+    reorgCount: number;
+    lastReorgBlock: string | null;
+    paused: boolean; // Every placement is paused
+    pausedTiles: Array<{ x: number; y: number }>; // Tiles (TILE_SIZE pixels square) paused on their own
+    epoch: number; // Current epoch, totalPixels counts only its pixels
+}
+
+// A canvas season; every epoch but the last is archived read-only
+export interface EpochSummary {
+    id: number;
+    startBlock: number;
+    startLogIndex: number;
+    startedAt: number | null; // Unix timestamp in seconds, null for epoch 0
+    startedBy: string | null; // Admin who started it, null for epoch 0
+    endBlock: number | null; // Block the next epoch started in, null for the current epoch
+    totalPixels: number;
+    isCurrent: boolean;
+}
+
+export interface EpochsResponse {
+    success: boolean;
+    count: number;
+    current: number;
+    epochs: EpochSummary[];
+}
+
+export interface BackendPixelHistoryEntry extends BackendPixelData {
+    blockNumber: number;
+    logIndex: number;
+}
+
+export interface PixelHistoryResponse {
+    success: boolean;
+    count: number;
+    total: number;
+    hasMore: boolean;
+    history: BackendPixelHistoryEntry[];
+}
+
+export interface PixelHistoryOptions {
+    limit?: number;
+    offset?: number;
+    from?: number; // Unix timestamp in seconds (inclusive)
+    to?: number; // Unix timestamp in seconds (inclusive)
+}
+
+// Inclusive rectangle of canvas coordinates
+export interface PixelBounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
 }
 
 export interface RegionResponse {
@@ -50,6 +102,67 @@ export interface RegionResponse {
     pixels: BackendPixelData[];
 }
 
+// A protected rectangle where only the owner and collaborators may place pixels
+export interface RegionClaim {
+    id: number;
+    owner: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    expiresAt: number; // Unix timestamp in seconds, 0 once released
+    collaborators: string[];
+}
+
+export interface ClaimsResponse {
+    success: boolean;
+    count: number;
+    claims: RegionClaim[];
+}
+
+// An address a moderator banned from placing pixels
+export interface AddressBan {
+    address: string;
+    banned: boolean;
+    moderator: string;
+    blockNumber: number;
+}
+
+export interface BansResponse {
+    success: boolean;
+    count: number;
+    bans: AddressBan[];
+}
+
+export interface RelayStatus {
+    enabled: boolean;
+    address: string | null; // Account paying gas for relayed batches
+    queued: number;
+    maxBatchSize: number;
+}
+
+// A batch signed for placePixelsWithSig (nonce and deadline as decimal strings)
+export interface SignedPixelBatch {
+    signer: string;
+    px: number[];
+    py: number[];
+    colors: number[];
+    nonce: string;
+    deadline: string;
+    signature: string;
+}
+
+export interface RelayJob {
+    id: string;
+    signer: string;
+    nonce: string;
+    pixels: number;
+    status: 'queued' | 'submitted' | 'confirmed' | 'failed';
+    txHash: string | null;
+    error: string | null; // Contract error name when the batch reverted
+    createdAt: number;
+}
+
 /**
  * Fetch all pixels from backend using binary format (much faster)
  * Binary format: [x (4 bytes), y (4 bytes), color (4 bytes)] per pixel = 12 bytes each
@@ -66,20 +179,7 @@ export async function fetchAllPixelsBinary(): Promise<BackendPixelData[]> {
         }
 
         const buffer = await response.arrayBuffer();
-        const dataView = new DataView(buffer);
-        const pixelCount = buffer.byteLength / 12;
-        const pixels: BackendPixelData[] = [];
-
-        for (let i = 0; i < pixelCount; i++) {
-            const offset = i * 12;
-            pixels.push({
-                x: dataView.getUint32(offset, true), // little-endian
-                y: dataView.getUint32(offset + 4, true),
-                color: dataView.getUint32(offset + 8, true),
-                placedBy: '', // Not included in binary format for size
-                timestamp: 0, // Not included in binary format for size
-            });
-        }
+        const pixels = parseBinaryPixels(buffer);
 
         console.log(`[Binary] Loaded ${pixels.length} pixels (${(buffer.byteLength / 1024).toFixed(1)} KB)`);
         return pixels;
@@ -90,6 +190,188 @@ export async function fetchAllPixelsBinary(): Promise<BackendPixelData[]> {
     }
 }
 
+// Binary pixel data together with the last block it is complete up to
+export interface PixelSnapshot {
+    pixels: BackendPixelData[];
+    lastProcessedBlock: number;
+}
+
+/**
+ * Fetch the pixels inside a bounding box using binary format
+ * Returns null on failure so callers can retry instead of caching an empty area
+ * @param epoch Read an archived epoch's canvas instead of the current one
+ */
+export async function fetchPixelsBinaryInBounds(bounds: PixelBounds, epoch?: number): Promise<PixelSnapshot | null> {
+    try {
+        const params = new URLSearchParams({
+            minX: String(bounds.minX),
+            minY: String(bounds.minY),
+            maxX: String(bounds.maxX),
+            maxY: String(bounds.maxY),
+        });
+
+        const path = epoch === undefined ? '/pixels/binary' : `/epochs/${epoch}/pixels/binary`;
+        const response = await fetch(`${BACKEND_URL}${path}?${params}`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        return {
+            pixels: parseBinaryPixels(await response.arrayBuffer()),
+            lastProcessedBlock: Number(response.headers.get('X-Last-Processed-Block') ?? 0),
+        };
+    } catch (error) {
+        console.error('Failed to fetch binary pixels in bounds from backend:', error);
+        return null;
+    }
+}
+
+// Placements of a time-lapse replay as streamed by /pixels/replay
+export interface ReplayData {
+    count: number;
+    records: Uint32Array; // [x, y, color, timestamp] per placement, in chain order
+}
+
+export interface ReplayOptions {
+    from?: number; // Unix timestamp (inclusive)
+    to?: number; // Unix timestamp (inclusive)
+    epoch?: number; // Defaults to the current epoch
+}
+
+/**
+ * Fetch every placement in a bounding box over a time window, reading the stream as it arrives
+ * Returns null on failure (including regions with too many placements)
+ * @param onProgress Called with the placements received so far and the total
+ */
+export async function fetchReplay(
+    bounds: PixelBounds,
+    options: ReplayOptions = {},
+    onProgress?: (received: number, total: number) => void
+): Promise<ReplayData | null> {
+    try {
+        const params = new URLSearchParams({
+            minX: String(bounds.minX),
+            minY: String(bounds.minY),
+            maxX: String(bounds.maxX),
+            maxY: String(bounds.maxY),
+        });
+        if (options.from !== undefined) params.set('from', String(options.from));
+        if (options.to !== undefined) params.set('to', String(options.to));
+        if (options.epoch !== undefined) params.set('epoch', String(options.epoch));
+
+        const response = await fetch(`${BACKEND_URL}/pixels/replay?${params}`);
+        if (!response.ok || !response.body) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const count = Number(response.headers.get('X-Event-Count') ?? 0);
+        const bytes = new Uint8Array(count * 16);
+        const reader = response.body.getReader();
+        let received = 0;
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            if (received + value.length > bytes.length) {
+                throw new Error('Replay is longer than announced');
+            }
+            bytes.set(value, received);
+            received += value.length;
+            onProgress?.(Math.floor(received / 16), count);
+        }
+        if (received !== bytes.length) {
+            throw new Error('Replay ended early');
+        }
+
+        // Records are little-endian like every platform the app runs on
+        return { count, records: new Uint32Array(bytes.buffer) };
+    } catch (error) {
+        console.error('Failed to fetch replay from backend:', error);
+        return null;
+    }
+}
+
+export interface RegionExportOptions {
+    scale?: number; // Image pixels per canvas pixel side
+    epoch?: number; // Defaults to the current epoch
+}
+
+/**
+ * URL downloading a region as a PNG, or its history as an animated GIF
+ */
+export function getRegionExportUrl(
+    region: { x: number; y: number; width: number; height: number },
+    format: 'png' | 'gif',
+    options: RegionExportOptions = {}
+): string {
+    const params = new URLSearchParams();
+    if (options.scale !== undefined) params.set('scale', String(options.scale));
+    if (options.epoch !== undefined) params.set('epoch', String(options.epoch));
+
+    const query = params.toString();
+    return `${BACKEND_URL}/export/region/${region.x}/${region.y}/${region.width}/${region.height}.${format}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Fetch every canvas epoch, oldest first (the last one is current)
+ */
+export async function fetchEpochs(): Promise<EpochSummary[]> {
+    try {
+        const response = await fetch(`${BACKEND_URL}/epochs`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const data: EpochsResponse = await response.json();
+        return data.epochs || [];
+    } catch (error) {
+        console.error('Failed to fetch epochs from backend:', error);
+        return [];
+    }
+}
+
+/**
+ * Fetch the current state of every pixel changed after a block (erased pixels have color 0)
+ * Returns null on failure or if the block is unknown to the backend, in which case
+ * data loaded at that block should be discarded
+ */
+export async function fetchPixelChangesSince(block: number): Promise<PixelSnapshot | null> {
+    try {
+        const response = await fetch(`${BACKEND_URL}/pixels/since/${block}`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        return {
+            pixels: parseBinaryPixels(await response.arrayBuffer()),
+            lastProcessedBlock: Number(response.headers.get('X-Last-Processed-Block') ?? block),
+        };
+    } catch (error) {
+        console.error('Failed to fetch pixel changes from backend:', error);
+        return null;
+    }
+}
+
+/**
+ * Decode the binary pixel format: [x (4 bytes), y (4 bytes), color (4 bytes)] per pixel
+ */
+function parseBinaryPixels(buffer: ArrayBuffer): BackendPixelData[] {
+    const dataView = new DataView(buffer);
+    const pixelCount = buffer.byteLength / 12;
+    const pixels: BackendPixelData[] = [];
+
+    for (let i = 0; i < pixelCount; i++) {
+        const offset = i * 12;
+        pixels.push({
+            x: dataView.getUint32(offset, true), // little-endian
+            y: dataView.getUint32(offset + 4, true),
+            color: dataView.getUint32(offset + 8, true),
+            placedBy: '', // Not included in binary format for size
+            timestamp: 0, // Not included in binary format for size
+        });
+    }
+
+    return pixels;
+}
+
 /**
  * Fetch all pixels from backend (JSON format with full metadata)
  */
@@ -108,6 +390,23 @@ export async function fetchAllPixels(): Promise<BackendPixelData[]> {
     }
 }
 
+/**
+ * Fetch one page of pixels (newest first), including the total pixel count
+ */
+export async function fetchPixelsPage(limit: number, offset = 0): Promise<PixelsResponse | null> {
+    try {
+        const response = await fetch(`${BACKEND_URL}/pixels?limit=${limit}&offset=${offset}`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const data: PixelsResponse = await response.json();
+        return data;
+    } catch (error) {
+        console.error('Failed to fetch pixel page from backend:', error);
+        return null;
+    }
+}
+
 /**
  * Fetch a specific pixel from backend
  */
@@ -126,6 +425,35 @@ export async function fetchPixel(x: number, y: number): Promise<BackendPixelData
     }
 }
 
+/**
+ * Fetch every placement made at a pixel (newest first)
+ */
+export async function fetchPixelHistory(
+    x: number,
+    y: number,
+    options: PixelHistoryOptions = {}
+): Promise<PixelHistoryResponse | null> {
+    try {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(options)) {
+            if (value !== undefined) {
+                params.set(key, String(value));
+            }
+        }
+        const query = params.toString();
+
+        const response = await fetch(`${BACKEND_URL}/pixels/${x}/${y}/history${query ? `?${query}` : ''}`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const data: PixelHistoryResponse = await response.json();
+        return data;
+    } catch (error) {
+        console.error(`Failed to fetch history for pixel (${x}, ${y}) from backend:`, error);
+        return null;
+    }
+}
+
 /**
  * Fetch pixels in a region from backend
  */
@@ -150,6 +478,104 @@ export async function fetchRegion(
     }
 }
 
+/**
+ * Fetch the active region claims, optionally only those overlapping a bounding box
+ */
+export async function fetchClaims(bounds?: PixelBounds): Promise<RegionClaim[]> {
+    try {
+        const query = bounds
+            ? `?${new URLSearchParams({
+                minX: String(bounds.minX),
+                minY: String(bounds.minY),
+                maxX: String(bounds.maxX),
+                maxY: String(bounds.maxY),
+            })}`
+            : '';
+        const response = await fetch(`${BACKEND_URL}/claims${query}`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const data: ClaimsResponse = await response.json();
+        return data.claims || [];
+    } catch (error) {
+        console.error('Failed to fetch claims from backend:', error);
+        return [];
+    }
+}
+
+/**
+ * Fetch the addresses currently banned from placing pixels
+ */
+export async function fetchBans(): Promise<AddressBan[]> {
+    try {
+        const response = await fetch(`${BACKEND_URL}/moderation/bans`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const data: BansResponse = await response.json();
+        return data.bans || [];
+    } catch (error) {
+        console.error('Failed to fetch bans from backend:', error);
+        return [];
+    }
+}
+
+/**
+ * Fetch whether the backend relays signed pixel batches (null if unreachable)
+ */
+export async function fetchRelayStatus(): Promise<RelayStatus | null> {
+    try {
+        const response = await fetch(`${BACKEND_URL}/relay`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const data: BackendResponse<never> & RelayStatus = await response.json();
+        return {
+            enabled: data.enabled,
+            address: data.address,
+            queued: data.queued,
+            maxBatchSize: data.maxBatchSize,
+        };
+    } catch (error) {
+        console.error('Failed to fetch relay status from backend:', error);
+        return null;
+    }
+}
+
+/**
+ * Queue a signed batch with the relayer
+ * Throws with the backend's error message, since a rejected batch needs handling by the caller
+ */
+export async function submitRelayBatch(batch: SignedPixelBatch): Promise<RelayJob> {
+    const response = await fetch(`${BACKEND_URL}/relay/pixels`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(batch),
+    });
+    const data: BackendResponse<never> & { job?: RelayJob } = await response.json();
+    if (!response.ok || !data.job) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+    return data.job;
+}
+
+/**
+ * Fetch the status of a relayed batch (null if unknown or unreachable)
+ */
+export async function fetchRelayJob(id: string): Promise<RelayJob | null> {
+    try {
+        const response = await fetch(`${BACKEND_URL}/relay/${id}`);
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        const data: BackendResponse<never> & { job: RelayJob } = await response.json();
+        return data.job;
+    } catch (error) {
+        console.error('Failed to fetch relay job from backend:', error);
+        return null;
+    }
+}
+
 /**
  * Fetch stats from backend
  */
@@ -183,27 +609,91 @@ export async function checkBackendHealth(): Promise<boolean> {
     }
 }
 
+/**
+ * Handle to an open pixel stream
+ */
+export interface PixelStream {
+    /** Replace the regions pixel events are received for (null = everything) */
+    setBounds: (boxes: PixelBounds[] | null) => void;
+    /** Close the connection */
+    close: () => void;
+}
+
 /**
  * Subscribe to real-time pixel updates via Server-Sent Events
- * Returns an unsubscribe function
+ * Reconnects resume from the last event id, so pixels placed while disconnected are replayed
+ * @param boxes Only receive pixels inside these regions (null = everything)
+ * @param onResync Called when missed pixels could not be replayed or a new epoch replaced the canvas, so all pixel data should be reloaded
+ * @param onClaim Called with the new state of a region claim (expiresAt in the past once released)
+ * Returns a handle to update the regions without reconnecting, or close the stream
  */
 export function subscribeToPixelStream(
     onPixel: (pixel: BackendPixelData) => void,
     onConnect?: () => void,
-    onError?: (error: Event) => void
-): () => void {
+    onError?: (error: Event) => void,
+    boxes: PixelBounds[] | null = null,
+    onResync?: () => void,
+    onClaim?: (claim: RegionClaim) => void
+): PixelStream {
     if (!config.enableSSE) {
         console.log('[SSE] Disabled by config');
-        return () => { };
+        return { setBounds: () => { }, close: () => { } };
     }
 
-    const eventSource = new EventSource(`${BACKEND_URL}/pixels/stream`);
+    // The server assigns a subscription id per connection (including automatic reconnects)
+    let subscriptionId: string | null = null;
+    let currentBoxes = boxes;
+    const initialBoxes = boxes;
+    let hasConnected = false;
+
+    const sendBounds = async () => {
+        if (!subscriptionId) return;
+        try {
+            const response = await fetch(`${BACKEND_URL}/pixels/stream/${subscriptionId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ boxes: currentBoxes }),
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+        } catch (error) {
+            console.error('[SSE] Failed to update subscription:', error);
+        }
+    };
 
-    eventSource.addEventListener('connected', () => {
+    const params = new URLSearchParams();
+    for (const box of boxes ?? []) {
+        params.append('bbox', `${box.minX},${box.minY},${box.maxX},${box.maxY}`);
+    }
+    const query = params.toString();
+    const eventSource = new EventSource(`${BACKEND_URL}/pixels/stream${query ? `?${query}` : ''}`);
+
+    eventSource.addEventListener('connected', (event) => {
         console.log('[SSE] Connected to pixel stream');
+        try {
+            subscriptionId = JSON.parse(event.data).subscriptionId ?? null;
+        } catch (err) {
+            console.error('[SSE] Failed to parse connected event:', err);
+        }
+
+        // A reconnect reuses the original URL, so re-send regions changed since then;
+        // missed pixels were replayed for the original regions only, so reload the rest
+        if (currentBoxes !== initialBoxes) {
+            sendBounds();
+            if (hasConnected) {
+                onResync?.();
+            }
+        }
+        hasConnected = true;
         onConnect?.();
     });
 
+    eventSource.addEventListener('resync', (event) => {
+        console.warn('[SSE] Missed pixels could not be replayed, resyncing:', event.data);
+        onResync?.();
+    });
+
     eventSource.addEventListener('pixel', (event) => {
         try {
             const pixel: BackendPixelData = JSON.parse(event.data);
@@ -213,6 +703,26 @@ export function subscribeToPixelStream(
         }
     });
 
+    eventSource.addEventListener('claim', (event) => {
+        try {
+            const claim: RegionClaim = JSON.parse(event.data);
+            onClaim?.(claim);
+        } catch (err) {
+            console.error('[SSE] Failed to parse claim event:', err);
+        }
+    });
+
+    // Corrected pixels arrive as regular pixel events, this only reports the reorg
+    eventSource.addEventListener('reorg', (event) => {
+        console.warn('[SSE] Chain reorg handled by backend:', event.data);
+    });
+
+    // The canvas was replaced without pixel events for what it held
+    eventSource.addEventListener('epoch', (event) => {
+        console.log('[SSE] Epoch changed, resyncing:', event.data);
+        onResync?.();
+    });
+
     eventSource.addEventListener('heartbeat', () => {
         // Heartbeat received, connection is alive
     });
@@ -222,10 +732,171 @@ export function subscribeToPixelStream(
         onError?.(error);
     };
 
-    // Return unsubscribe function
-    return () => {
-        console.log('[SSE] Closing connection');
-        eventSource.close();
+    return {
+        setBounds: (nextBoxes) => {
+            currentBoxes = nextBoxes;
+            sendBounds();
+        },
+        close: () => {
+            console.log('[SSE] Closing connection');
+            eventSource.close();
+        },
+    };
+}
+
+// Pixels placed in one block, as pushed over the WebSocket feed
+export interface PixelFrame {
+    blockNumber: number;
+    pixels: Array<{ x: number; y: number; color: number }>;
+}
+
+export interface PixelSocketHandlers {
+    onPixels: (frame: PixelFrame) => void;
+    /** Called with the new state of a region claim (expiresAt in the past once released) */
+    onClaim?: (claim: RegionClaim) => void;
+    onConnect?: () => void;
+    /** Called when an open connection drops (a reconnect is scheduled) */
+    onDisconnect?: () => void;
+    /** Called after a reconnect (pixels placed while disconnected are not replayed) or when a new epoch replaced the canvas */
+    onResync?: () => void;
+    /** Called when the feed cannot be used, so the caller can fall back to SSE */
+    onUnavailable?: () => void;
+}
+
+// Reconnect delays double from the base up to the max
+const SOCKET_RECONNECT_BASE_MS = 1000;
+const SOCKET_RECONNECT_MAX_MS = 30000;
+// Give up (and report the feed as unavailable) after this many failed attempts in a row
+const SOCKET_MAX_FAILED_ATTEMPTS = 3;
+
+/**
+ * Decode a WebSocket frame: [blockNumber (8 bytes)] followed by [x, y, color] (4 bytes each) per pixel
+ */
+function parsePixelFrame(buffer: ArrayBuffer): PixelFrame {
+    const dataView = new DataView(buffer);
+    const blockNumber = Number(dataView.getBigUint64(0, true));
+    const pixels: PixelFrame['pixels'] = [];
+
+    for (let offset = 8; offset + 12 <= buffer.byteLength; offset += 12) {
+        pixels.push({
+            x: dataView.getUint32(offset, true),
+            y: dataView.getUint32(offset + 4, true),
+            color: dataView.getUint32(offset + 8, true),
+        });
+    }
+
+    return { blockNumber, pixels };
+}
+
+/**
+ * Subscribe to real-time pixel updates via the binary WebSocket feed
+ * Pixels arrive coalesced per block; there is no replay, so onResync fires after every reconnect
+ * @param boxes Only receive pixels inside these regions (null = everything)
+ * Returns a handle to update the regions without reconnecting, or close the socket
+ */
+export function subscribeToPixelSocket(
+    handlers: PixelSocketHandlers,
+    boxes: PixelBounds[] | null = null
+): PixelStream {
+    if (!config.enableWebSocket || typeof WebSocket === 'undefined') {
+        console.log('[WS] Disabled by config');
+        handlers.onUnavailable?.();
+        return { setBounds: () => { }, close: () => { } };
+    }
+
+    let currentBoxes = boxes;
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let failedAttempts = 0;
+    let hasConnected = false;
+    let closed = false;
+
+    const buildUrl = () => {
+        const params = new URLSearchParams();
+        for (const box of currentBoxes ?? []) {
+            params.append('bbox', `${box.minX},${box.minY},${box.maxX},${box.maxY}`);
+        }
+        const query = params.toString();
+        const url = new URL(`${BACKEND_URL}/pixels/ws${query ? `?${query}` : ''}`, window.location.href);
+        url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+        return url.toString();
+    };
+
+    const connect = () => {
+        let opened = false;
+        const ws = new WebSocket(buildUrl());
+        ws.binaryType = 'arraybuffer';
+        socket = ws;
+
+        ws.onopen = () => {
+            opened = true;
+            failedAttempts = 0;
+            console.log('[WS] Connected to pixel feed');
+            if (hasConnected) {
+                handlers.onResync?.();
+            }
+            hasConnected = true;
+            handlers.onConnect?.();
+        };
+
+        ws.onmessage = (event) => {
+            if (event.data instanceof ArrayBuffer) {
+                handlers.onPixels(parsePixelFrame(event.data));
+                return;
+            }
+
+            try {
+                const message = JSON.parse(event.data);
+                if (message.type === 'claim') {
+                    handlers.onClaim?.(message.claim);
+                } else if (message.type === 'epoch') {
+                    console.log('[WS] Epoch changed, resyncing:', message.epoch);
+                    handlers.onResync?.();
+                } else if (message.type === 'reorg') {
+                    // Corrected pixels arrive as regular frames, this only reports the reorg
+                    console.warn('[WS] Chain reorg handled by backend:', message);
+                } else if (message.type === 'error') {
+                    console.error('[WS] Server error:', message.error);
+                }
+            } catch (err) {
+                console.error('[WS] Failed to parse message:', err);
+            }
+        };
+
+        ws.onclose = () => {
+            if (closed) return;
+            if (opened) {
+                console.warn('[WS] Connection lost');
+                handlers.onDisconnect?.();
+            }
+
+            failedAttempts = opened ? 0 : failedAttempts + 1;
+            if (failedAttempts >= SOCKET_MAX_FAILED_ATTEMPTS) {
+                console.warn('[WS] Pixel feed unavailable');
+                handlers.onUnavailable?.();
+                return;
+            }
+
+            const delay = Math.min(SOCKET_RECONNECT_BASE_MS * 2 ** failedAttempts, SOCKET_RECONNECT_MAX_MS);
+            reconnectTimer = setTimeout(connect, delay);
+        };
+    };
+
+    connect();
+
+    return {
+        setBounds: (nextBoxes) => {
+            currentBoxes = nextBoxes;
+            if (socket?.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: 'subscribe', boxes: nextBoxes }));
+            }
+        },
+        close: () => {
+            console.log('[WS] Closing connection');
+            closed = true;
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            socket?.close();
+        },
     };
 }
 
@@ -0,0 +1,137 @@
+// IndexedDB cache of the pixel data tiles loaded from the backend, so returning
+// visitors only fetch what changed since their last visit
+import { config } from '../config/env';
+
+const DB_NAME = 'megaplace-pixels';
+const DB_VERSION = 1;
+const TILES_STORE = 'tiles';
+const META_STORE = 'meta';
+
+// Cached data is only valid for the backend and contract it was loaded from
+const CACHE_SOURCE = `${config.backendUrl}|${config.contractAddress}`;
+
+export interface CachedTile {
+    key: string; // "tileX,tileY"
+    block: number; // The tile holds every change up to this block (from X-Last-Processed-Block)
+    pixels: Uint32Array; // [x, y, color] triples
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Open the database, clearing it if it was filled from another backend or contract
+ * Resolves to null when IndexedDB is unavailable (private browsing, old browsers)
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = (async () => {
+        if (typeof indexedDB === 'undefined') return null;
+
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(TILES_STORE, { keyPath: 'key' });
+                request.result.createObjectStore(META_STORE);
+            };
+            const db = await requestToPromise(request);
+
+            const transaction = db.transaction([TILES_STORE, META_STORE], 'readwrite');
+            const meta = transaction.objectStore(META_STORE);
+            const source = await requestToPromise(meta.get('source'));
+            if (source !== CACHE_SOURCE) {
+                transaction.objectStore(TILES_STORE).clear();
+                meta.put(CACHE_SOURCE, 'source');
+            }
+            await transactionDone(transaction);
+
+            return db;
+        } catch (error) {
+            console.warn('[Cache] IndexedDB unavailable:', error);
+            return null;
+        }
+    })();
+
+    return dbPromise;
+}
+
+/**
+ * Get every cached tile (empty if the cache is unavailable)
+ */
+export async function loadCachedTiles(): Promise<CachedTile[]> {
+    const db = await openDatabase();
+    if (!db) return [];
+
+    try {
+        const store = db.transaction(TILES_STORE, 'readonly').objectStore(TILES_STORE);
+        return await requestToPromise(store.getAll() as IDBRequest<CachedTile[]>);
+    } catch (error) {
+        console.warn('[Cache] Failed to read cached tiles:', error);
+        return [];
+    }
+}
+
+/**
+ * Store tiles, replacing cached copies with the same key
+ */
+export async function saveCachedTiles(tiles: CachedTile[]): Promise<void> {
+    const db = await openDatabase();
+    if (!db || tiles.length === 0) return;
+
+    try {
+        const transaction = db.transaction(TILES_STORE, 'readwrite');
+        const store = transaction.objectStore(TILES_STORE);
+        tiles.forEach(tile => store.put(tile));
+        await transactionDone(transaction);
+    } catch (error) {
+        console.warn('[Cache] Failed to save tiles:', error);
+    }
+}
+
+/**
+ * Remove tiles from the cache
+ */
+export async function deleteCachedTiles(keys: string[]): Promise<void> {
+    const db = await openDatabase();
+    if (!db || keys.length === 0) return;
+
+    try {
+        const transaction = db.transaction(TILES_STORE, 'readwrite');
+        const store = transaction.objectStore(TILES_STORE);
+        keys.forEach(key => store.delete(key));
+        await transactionDone(transaction);
+    } catch (error) {
+        console.warn('[Cache] Failed to delete tiles:', error);
+    }
+}
+
+/**
+ * Remove every cached tile
+ */
+export async function clearCachedTiles(): Promise<void> {
+    const db = await openDatabase();
+    if (!db) return;
+
+    try {
+        const transaction = db.transaction(TILES_STORE, 'readwrite');
+        transaction.objectStore(TILES_STORE).clear();
+        await transactionDone(transaction);
+    } catch (error) {
+        console.warn('[Cache] Failed to clear tiles:', error);
+    }
+}
@@ -0,0 +1,141 @@
+// IndexedDB store of placement jobs (queued pixels and templates), so the pixels
+// still waiting to be placed survive closing the tab
+import { config } from '../config/env';
+
+const DB_NAME = 'megaplace-jobs';
+const DB_VERSION = 1;
+const JOBS_STORE = 'jobs';
+
+// Jobs only make sense on the contract they were queued for
+const JOB_SOURCE = config.contractAddress.toLowerCase();
+
+export type PlacementJobStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+export interface PlacementJob {
+    id: string;
+    source: string; // Contract the job places on
+    wallet: string; // Lowercase address of the wallet that queued it (its cooldown applies)
+    kind: 'clicks' | 'template'; // Clicked pixels waiting for a retry, or a pixel art template
+    label: string;
+    createdAt: number; // Unix timestamp in milliseconds
+    status: PlacementJobStatus;
+    pixels: Uint32Array; // [x, y, color] triples, in placement order
+    cursor: number; // Pixels before this index were placed or skipped
+    placed: number;
+    skipped: number; // Protected or paused pixels that were given up on
+    error?: string; // Why the job failed or was paused by the runner
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Open the database
+ * Resolves to null when IndexedDB is unavailable (private browsing, old browsers),
+ * in which case jobs only last for the visit
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = (async () => {
+        if (typeof indexedDB === 'undefined') return null;
+
+        try {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+            };
+            return await requestToPromise(request);
+        } catch (error) {
+            console.warn('[Jobs] IndexedDB unavailable:', error);
+            return null;
+        }
+    })();
+
+    return dbPromise;
+}
+
+/**
+ * Create a job for pixels given as [x, y, color] triples
+ */
+export function createPlacementJob(wallet: string, kind: PlacementJob['kind'], label: string, pixels: Uint32Array): PlacementJob {
+    return {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+        source: JOB_SOURCE,
+        wallet: wallet.toLowerCase(),
+        kind,
+        label,
+        createdAt: Date.now(),
+        status: 'queued',
+        pixels,
+        cursor: 0,
+        placed: 0,
+        skipped: 0,
+    };
+}
+
+/**
+ * Get every stored job for the configured contract, oldest first (empty if the store is unavailable)
+ */
+export async function loadPlacementJobs(): Promise<PlacementJob[]> {
+    const db = await openDatabase();
+    if (!db) return [];
+
+    try {
+        const store = db.transaction(JOBS_STORE, 'readonly').objectStore(JOBS_STORE);
+        const jobs = await requestToPromise(store.getAll() as IDBRequest<PlacementJob[]>);
+        return jobs
+            .filter(job => job.source === JOB_SOURCE)
+            .sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+        console.warn('[Jobs] Failed to read jobs:', error);
+        return [];
+    }
+}
+
+/**
+ * Store a job, replacing the stored copy with the same id
+ */
+export async function savePlacementJob(job: PlacementJob): Promise<void> {
+    const db = await openDatabase();
+    if (!db) return;
+
+    try {
+        const transaction = db.transaction(JOBS_STORE, 'readwrite');
+        transaction.objectStore(JOBS_STORE).put(job);
+        await transactionDone(transaction);
+    } catch (error) {
+        console.warn('[Jobs] Failed to save job:', error);
+    }
+}
+
+/**
+ * Remove jobs from the store
+ */
+export async function deletePlacementJobs(ids: string[]): Promise<void> {
+    const db = await openDatabase();
+    if (!db || ids.length === 0) return;
+
+    try {
+        const transaction = db.transaction(JOBS_STORE, 'readwrite');
+        const store = transaction.objectStore(JOBS_STORE);
+        ids.forEach(id => store.delete(id));
+        await transactionDone(transaction);
+    } catch (error) {
+        console.warn('[Jobs] Failed to delete jobs:', error);
+    }
+}